@@ -0,0 +1,15 @@
+CREATE TABLE `projects` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`github_owner` text NOT NULL,
+	`github_repo` text NOT NULL,
+	`default_branch` text DEFAULT 'main' NOT NULL,
+	`installation_id` integer,
+	`archived_at` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `projects_user_repo_unique` ON `projects` (`user_id`,`github_owner`,`github_repo`);
\ No newline at end of file
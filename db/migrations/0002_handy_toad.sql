@@ -0,0 +1,18 @@
+CREATE TABLE `github_installation_users` (
+	`installation_id` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')),
+	PRIMARY KEY(`installation_id`, `user_id`),
+	FOREIGN KEY (`installation_id`) REFERENCES `github_installations`(`installation_id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `github_installations` (
+	`installation_id` integer PRIMARY KEY NOT NULL,
+	`account_id` integer NOT NULL,
+	`account_login` text NOT NULL,
+	`account_type` text NOT NULL,
+	`suspended_at` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now'))
+);
@@ -0,0 +1,13 @@
+CREATE TABLE `webhook_deliveries` (
+	`delivery_id` text PRIMARY KEY NOT NULL,
+	`event` text NOT NULL,
+	`action` text,
+	`installation_id` integer,
+	`payload` text NOT NULL,
+	`status` text NOT NULL,
+	`error` text,
+	`received_at` text DEFAULT (datetime('now')),
+	`processed_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `webhook_deliveries_event_idx` ON `webhook_deliveries` (`event`,`received_at`);
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`issue_number` integer NOT NULL,
+	`issue_title` text NOT NULL,
+	`issue_url` text,
+	`trigger` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`prompt_context` text,
+	`model_output` text,
+	`branch` text,
+	`pr_number` integer,
+	`pr_url` text,
+	`failure_reason` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now')),
+	`started_at` text,
+	`finished_at` text,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `jobs_project_created_idx` ON `jobs` (`project_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `jobs_project_issue_idx` ON `jobs` (`project_id`,`issue_number`);
\ No newline at end of file
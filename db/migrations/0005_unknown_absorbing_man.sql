@@ -0,0 +1,18 @@
+-- SQLite cannot add a NOT NULL column without a default, so the table is rebuilt.
+-- Existing sessions become single-token families keyed by their own id.
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`family_id` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`consumed_at` text,
+	`created_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_sessions`("id", "user_id", "family_id", "expires_at", "consumed_at", "created_at") SELECT "id", "user_id", "id", "expires_at", NULL, "created_at" FROM `sessions`;--> statement-breakpoint
+DROP TABLE `sessions`;--> statement-breakpoint
+ALTER TABLE `__new_sessions` RENAME TO `sessions`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `sessions_family_id_idx` ON `sessions` (`family_id`);
@@ -0,0 +1,4 @@
+ALTER TABLE `sessions` ADD `user_agent` text;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `ip_address` text;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `country` text;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `last_used_at` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `token_version` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
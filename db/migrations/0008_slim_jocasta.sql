@@ -0,0 +1,15 @@
+CREATE TABLE `personal_access_tokens` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`token_hash` text NOT NULL,
+	`token_prefix` text NOT NULL,
+	`scopes` text,
+	`expires_at` text,
+	`last_used_at` text,
+	`created_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `personal_access_tokens_token_hash_unique` ON `personal_access_tokens` (`token_hash`);--> statement-breakpoint
+CREATE INDEX `personal_access_tokens_user_id_idx` ON `personal_access_tokens` (`user_id`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `identities` (
+	`id` text PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))) NOT NULL,
+	`user_id` text NOT NULL,
+	`provider` text NOT NULL,
+	`subject` text NOT NULL,
+	`username` text NOT NULL,
+	`email` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `identities_provider_subject_unique` ON `identities` (`provider`,`subject`);--> statement-breakpoint
+CREATE INDEX `identities_user_id_idx` ON `identities` (`user_id`);--> statement-breakpoint
+INSERT INTO `identities`("user_id", "provider", "subject", "username", "email", "created_at", "updated_at") SELECT "user_id", 'github', CAST("github_id" AS text), "github_username", "github_email", "created_at", "created_at" FROM `github_identities`;--> statement-breakpoint
+DROP TABLE `github_identities`;
\ No newline at end of file
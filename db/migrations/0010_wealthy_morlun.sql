@@ -0,0 +1,11 @@
+CREATE TABLE `github_user_tokens` (
+	`identity_id` text PRIMARY KEY NOT NULL,
+	`access_token_ciphertext` text NOT NULL,
+	`refresh_token_ciphertext` text,
+	`key_id` text NOT NULL,
+	`access_token_expires_at` text,
+	`refresh_token_expires_at` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`identity_id`) REFERENCES `identities`(`id`) ON UPDATE no action ON DELETE cascade
+);
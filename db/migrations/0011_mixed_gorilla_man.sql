@@ -0,0 +1,54 @@
+CREATE TABLE `issue_comments` (
+	`id` text PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))) NOT NULL,
+	`project_id` text NOT NULL,
+	`issue_number` integer NOT NULL,
+	`github_id` integer NOT NULL,
+	`author_login` text NOT NULL,
+	`author_type` text NOT NULL,
+	`body` text,
+	`html_url` text NOT NULL,
+	`github_created_at` text NOT NULL,
+	`github_updated_at` text NOT NULL,
+	`deleted_at` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `issue_comments_project_github_id_unique` ON `issue_comments` (`project_id`,`github_id`);--> statement-breakpoint
+CREATE INDEX `issue_comments_project_issue_idx` ON `issue_comments` (`project_id`,`issue_number`,`github_created_at`);--> statement-breakpoint
+CREATE TABLE `issue_syncs` (
+	`project_id` text PRIMARY KEY NOT NULL,
+	`issues_cursor` text,
+	`comments_cursor` text,
+	`backfilled_at` text,
+	`last_synced_at` text,
+	`last_error` text,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `issues` (
+	`id` text PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))) NOT NULL,
+	`project_id` text NOT NULL,
+	`github_id` integer NOT NULL,
+	`node_id` text NOT NULL,
+	`number` integer NOT NULL,
+	`title` text NOT NULL,
+	`body` text,
+	`state` text NOT NULL,
+	`state_reason` text,
+	`author_login` text NOT NULL,
+	`labels` text NOT NULL,
+	`assignees` text NOT NULL,
+	`comments_count` integer DEFAULT 0 NOT NULL,
+	`html_url` text NOT NULL,
+	`github_created_at` text NOT NULL,
+	`github_updated_at` text NOT NULL,
+	`closed_at` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `issues_project_number_unique` ON `issues` (`project_id`,`number`);--> statement-breakpoint
+CREATE INDEX `issues_project_state_updated_idx` ON `issues` (`project_id`,`state`,`github_updated_at`);
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE `llm_usage` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`user_id` text,
+	`feature` text NOT NULL,
+	`job_id` text,
+	`conversation_id` text,
+	`provider` text NOT NULL,
+	`model` text NOT NULL,
+	`prompt_tokens` integer NOT NULL,
+	`completion_tokens` integer NOT NULL,
+	`created_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`job_id`) REFERENCES `jobs`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `llm_usage_project_created_idx` ON `llm_usage` (`project_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `llm_usage_user_created_idx` ON `llm_usage` (`user_id`,`created_at`);--> statement-breakpoint
+ALTER TABLE `projects` ADD `llm_provider` text;--> statement-breakpoint
+ALTER TABLE `projects` ADD `llm_model` text;--> statement-breakpoint
+ALTER TABLE `projects` ADD `llm_temperature` real;--> statement-breakpoint
+ALTER TABLE `projects` ADD `llm_max_tokens` integer;--> statement-breakpoint
+ALTER TABLE `projects` ADD `llm_system_prompt` text;
\ No newline at end of file
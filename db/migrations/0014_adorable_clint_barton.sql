@@ -0,0 +1,14 @@
+CREATE TABLE `usage_counters` (
+	`scope` text NOT NULL,
+	`scope_id` text NOT NULL,
+	`period` text NOT NULL,
+	`tokens` integer DEFAULT 0 NOT NULL,
+	`jobs` integer DEFAULT 0 NOT NULL,
+	`tokens_warned_at` text,
+	`jobs_warned_at` text,
+	`updated_at` text DEFAULT (datetime('now')),
+	PRIMARY KEY(`scope`, `scope_id`, `period`)
+);
+--> statement-breakpoint
+ALTER TABLE `projects` ADD `monthly_token_limit` integer;--> statement-breakpoint
+ALTER TABLE `projects` ADD `monthly_job_limit` integer;
\ No newline at end of file
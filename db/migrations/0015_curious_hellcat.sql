@@ -0,0 +1,14 @@
+CREATE TABLE `job_steps` (
+	`id` text PRIMARY KEY NOT NULL,
+	`job_id` text NOT NULL,
+	`attempt` integer NOT NULL,
+	`step` text NOT NULL,
+	`level` text DEFAULT 'info' NOT NULL,
+	`message` text NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`job_id`) REFERENCES `jobs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `job_steps_job_created_idx` ON `job_steps` (`job_id`,`created_at`);--> statement-breakpoint
+ALTER TABLE `jobs` ADD `attempts` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `next_attempt_at` text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `projects` ADD `review_trigger` text DEFAULT '@codiro' NOT NULL;--> statement-breakpoint
+ALTER TABLE `projects` ADD `max_review_iterations` integer DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `iteration` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `review_request` text;--> statement-breakpoint
+CREATE INDEX `jobs_project_pr_idx` ON `jobs` (`project_id`,`pr_number`);
\ No newline at end of file
@@ -0,0 +1,39 @@
+CREATE TABLE `repository_chunks` (
+	`id` text PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))) NOT NULL,
+	`project_id` text NOT NULL,
+	`path` text NOT NULL,
+	`start_line` integer NOT NULL,
+	`end_line` integer NOT NULL,
+	`content` text NOT NULL,
+	`terms` text NOT NULL,
+	`term_count` integer NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `repository_chunks_project_path_idx` ON `repository_chunks` (`project_id`,`path`);--> statement-breakpoint
+CREATE TABLE `repository_files` (
+	`id` text PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))) NOT NULL,
+	`project_id` text NOT NULL,
+	`path` text NOT NULL,
+	`blob_sha` text NOT NULL,
+	`size` integer,
+	`language` text,
+	`status` text NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `repository_files_project_path_unique` ON `repository_files` (`project_id`,`path`);--> statement-breakpoint
+CREATE INDEX `repository_files_project_status_idx` ON `repository_files` (`project_id`,`status`);--> statement-breakpoint
+CREATE TABLE `repository_snapshots` (
+	`project_id` text PRIMARY KEY NOT NULL,
+	`commit_sha` text NOT NULL,
+	`status` text DEFAULT 'indexing' NOT NULL,
+	`file_count` integer DEFAULT 0 NOT NULL,
+	`truncated` integer DEFAULT false NOT NULL,
+	`languages` text DEFAULT '{}' NOT NULL,
+	`last_error` text,
+	`indexed_at` text,
+	`created_at` text DEFAULT (datetime('now')),
+	`updated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1 @@
+ALTER TABLE `projects` ADD `board_columns` text DEFAULT '{"backlog":null,"in_progress":"In Progress","in_review":"In Review","done":null}' NOT NULL;
\ No newline at end of file
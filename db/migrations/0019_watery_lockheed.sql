@@ -0,0 +1,26 @@
+CREATE TABLE `audit_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`actor_type` text NOT NULL,
+	`actor_id` text,
+	`action` text NOT NULL,
+	`target_type` text,
+	`target_id` text,
+	`project_id` text,
+	`ip_address` text,
+	`user_agent` text,
+	`metadata` text,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `audit_events_created_idx` ON `audit_events` (`created_at`,`id`);--> statement-breakpoint
+CREATE INDEX `audit_events_actor_created_idx` ON `audit_events` (`actor_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `audit_events_project_created_idx` ON `audit_events` (`project_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `audit_events_action_created_idx` ON `audit_events` (`action`,`created_at`);--> statement-breakpoint
+CREATE TRIGGER `audit_events_no_update` BEFORE UPDATE ON `audit_events`
+BEGIN
+	SELECT RAISE(ABORT, 'audit_events is append-only');
+END;--> statement-breakpoint
+CREATE TRIGGER `audit_events_no_delete` BEFORE DELETE ON `audit_events`
+BEGIN
+	SELECT RAISE(ABORT, 'audit_events is append-only');
+END;
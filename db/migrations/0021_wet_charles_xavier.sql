@@ -0,0 +1 @@
+CREATE UNIQUE INDEX `jobs_project_issue_active_unique` ON `jobs` (`project_id`,`issue_number`) WHERE "jobs"."status" in ('queued', 'running');
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { sqliteTable, text, index } from 'drizzle-orm/sqlite-core'
+
+export const AUDIT_ACTOR_TYPES = ['user', 'system'] as const
+
+export const AUDIT_ACTIONS = [
+  'auth.login.succeeded',
+  'auth.login.failed',
+  'auth.identity.linked',
+  'auth.identity.unlinked',
+  'auth.token.refreshed',
+  'auth.token.refresh_failed',
+  'auth.logout',
+  'auth.session.revoked',
+  'auth.sessions.revoked_others',
+  'auth.sessions.revoked_all',
+  'auth.pat.created',
+  'auth.pat.revoked',
+  'project.created',
+  'project.updated',
+  'project.archived',
+  'issue.moved',
+  'conversation.finalized',
+  'job.queued',
+  'job.refused',
+  'job.started',
+  'job.retry_scheduled',
+  'job.failed',
+  'job.cancelled',
+  'pull_request.opened',
+  'pull_request.updated',
+  'workspace.created',
+  'workspace.updated',
+  'workspace.invitation.created',
+  'workspace.invitation.revoked',
+  'workspace.member.joined',
+  'workspace.member.role_changed',
+  'workspace.member.removed',
+] as const
+
+// Append-only security and activity log; triggers in the migration refuse updates and deletes.
+// Actor, target and project are plain ids without foreign keys so the history outlives them.
+export const auditEvents = sqliteTable(
+  'audit_events',
+  {
+    id: text('id').primaryKey(),
+    actorType: text('actor_type', { enum: AUDIT_ACTOR_TYPES }).notNull(),
+    // The user acting; null for system actors and for failed sign-ins
+    actorId: text('actor_id'),
+    action: text('action', { enum: AUDIT_ACTIONS }).notNull(),
+    targetType: text('target_type'),
+    targetId: text('target_id'),
+    projectId: text('project_id'),
+    ipAddress: text('ip_address'),
+    userAgent: text('user_agent'),
+    metadata: text('metadata', { mode: 'json' }).$type<Record<string, unknown>>(),
+    // ISO timestamp with milliseconds, taken when the event happened rather than when it was written
+    createdAt: text('created_at').notNull(),
+  },
+  (table) => [
+    index('audit_events_created_idx').on(table.createdAt, table.id),
+    index('audit_events_actor_created_idx').on(table.actorId, table.createdAt),
+    index('audit_events_project_created_idx').on(table.projectId, table.createdAt),
+    index('audit_events_action_created_idx').on(table.action, table.createdAt),
+  ]
+)
+
+export type AuditEvent = typeof auditEvents.$inferSelect
+export type NewAuditEvent = typeof auditEvents.$inferInsert
+export type AuditActorType = (typeof AUDIT_ACTOR_TYPES)[number]
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
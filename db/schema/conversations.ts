@@ -0,0 +1,50 @@
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { projects } from './projects'
+import { users } from './users'
+
+// Spec discussion with the AI about one issue of a project
+export const conversations = sqliteTable(
+  'conversations',
+  {
+    id: text('id').primaryKey(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    issueNumber: integer('issue_number').notNull(),
+    createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+    status: text('status', { enum: ['open', 'finalized'] })
+      .notNull()
+      .default('open'),
+    // The agreed spec and where it was written on GitHub, once finalized
+    spec: text('spec'),
+    specTarget: text('spec_target', { enum: ['issue_body', 'comment'] }),
+    specUrl: text('spec_url'),
+    finalizedAt: text('finalized_at'),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [index('conversations_project_issue_idx').on(table.projectId, table.issueNumber)]
+)
+
+export const messages = sqliteTable(
+  'messages',
+  {
+    id: text('id').primaryKey(),
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    role: text('role', { enum: ['user', 'assistant'] }).notNull(),
+    content: text('content').notNull(),
+    // Author of user messages; null for AI replies
+    userId: text('user_id').references(() => users.id, { onDelete: 'set null' }),
+    // ISO timestamp with milliseconds, set by the worker so messages order correctly
+    createdAt: text('created_at').notNull(),
+  },
+  (table) => [index('messages_conversation_created_idx').on(table.conversationId, table.createdAt)]
+)
+
+export type Conversation = typeof conversations.$inferSelect
+export type NewConversation = typeof conversations.$inferInsert
+export type Message = typeof messages.$inferSelect
+export type NewMessage = typeof messages.$inferInsert
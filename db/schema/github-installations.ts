@@ -0,0 +1,31 @@
+import { sqliteTable, text, integer, primaryKey } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { users } from './users'
+
+export const githubInstallations = sqliteTable('github_installations', {
+  installationId: integer('installation_id').primaryKey(),
+  accountId: integer('account_id').notNull(),
+  accountLogin: text('account_login').notNull(),
+  accountType: text('account_type').notNull(),
+  suspendedAt: text('suspended_at'),
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+})
+
+export const githubInstallationUsers = sqliteTable(
+  'github_installation_users',
+  {
+    installationId: integer('installation_id')
+      .notNull()
+      .references(() => githubInstallations.installationId, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [primaryKey({ columns: [table.installationId, table.userId] })]
+)
+
+export type GitHubInstallation = typeof githubInstallations.$inferSelect
+export type NewGitHubInstallation = typeof githubInstallations.$inferInsert
+export type GitHubInstallationUser = typeof githubInstallationUsers.$inferSelect
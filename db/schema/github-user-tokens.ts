@@ -0,0 +1,22 @@
+import { sqliteTable, text } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { identities } from './identities'
+
+// GitHub user-to-server tokens, one pair per linked GitHub identity
+export const githubUserTokens = sqliteTable('github_user_tokens', {
+  identityId: text('identity_id')
+    .primaryKey()
+    .references(() => identities.id, { onDelete: 'cascade' }),
+  // AES-GCM ciphertexts (base64 of IV + ciphertext), both under the key `key_id`
+  accessTokenCiphertext: text('access_token_ciphertext').notNull(),
+  refreshTokenCiphertext: text('refresh_token_ciphertext'),
+  keyId: text('key_id').notNull(),
+  // Null when the GitHub App does not expire user tokens
+  accessTokenExpiresAt: text('access_token_expires_at'),
+  refreshTokenExpiresAt: text('refresh_token_expires_at'),
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+})
+
+export type GitHubUserToken = typeof githubUserTokens.$inferSelect
+export type NewGitHubUserToken = typeof githubUserTokens.$inferInsert
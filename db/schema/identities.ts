@@ -0,0 +1,30 @@
+import { sqliteTable, text, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { users } from './users'
+
+export const identities = sqliteTable(
+  'identities',
+  {
+    id: text('id')
+      .primaryKey()
+      .default(sql`(lower(hex(randomblob(16))))`),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    // Identity provider id, e.g. 'github' or a configured OIDC provider
+    provider: text('provider').notNull(),
+    // Stable account id at the provider (GitHub user id, OIDC `sub`)
+    subject: text('subject').notNull(),
+    username: text('username').notNull(),
+    email: text('email'),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    uniqueIndex('identities_provider_subject_unique').on(table.provider, table.subject),
+    index('identities_user_id_idx').on(table.userId),
+  ]
+)
+
+export type Identity = typeof identities.$inferSelect
+export type NewIdentity = typeof identities.$inferInsert
@@ -1,3 +1,16 @@
 export * from './users'
 export * from './sessions'
-export * from './github-identities'
+export * from './identities'
+export * from './workspaces'
+export * from './projects'
+export * from './github-installations'
+export * from './webhook-deliveries'
+export * from './jobs'
+export * from './personal-access-tokens'
+export * from './github-user-tokens'
+export * from './issues'
+export * from './conversations'
+export * from './llm-usage'
+export * from './usage-counters'
+export * from './repository-snapshots'
+export * from './audit-events'
@@ -0,0 +1,94 @@
+import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { projects } from './projects'
+
+// Mirror of a linked repository's issues (pull requests are left out)
+export const issues = sqliteTable(
+  'issues',
+  {
+    id: text('id')
+      .primaryKey()
+      .default(sql`(lower(hex(randomblob(16))))`),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    githubId: integer('github_id').notNull(),
+    nodeId: text('node_id').notNull(),
+    number: integer('number').notNull(),
+    title: text('title').notNull(),
+    body: text('body'),
+    state: text('state', { enum: ['open', 'closed'] }).notNull(),
+    stateReason: text('state_reason'),
+    authorLogin: text('author_login').notNull(),
+    // JSON arrays of label names and assignee logins
+    labels: text('labels', { mode: 'json' }).$type<string[]>().notNull(),
+    assignees: text('assignees', { mode: 'json' }).$type<string[]>().notNull(),
+    commentsCount: integer('comments_count').notNull().default(0),
+    htmlUrl: text('html_url').notNull(),
+    // GitHub's timestamps; githubUpdatedAt guards against applying stale payloads
+    githubCreatedAt: text('github_created_at').notNull(),
+    githubUpdatedAt: text('github_updated_at').notNull(),
+    closedAt: text('closed_at'),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    uniqueIndex('issues_project_number_unique').on(table.projectId, table.number),
+    index('issues_project_state_updated_idx').on(
+      table.projectId,
+      table.state,
+      table.githubUpdatedAt
+    ),
+  ]
+)
+
+export const issueComments = sqliteTable(
+  'issue_comments',
+  {
+    id: text('id')
+      .primaryKey()
+      .default(sql`(lower(hex(randomblob(16))))`),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    issueNumber: integer('issue_number').notNull(),
+    githubId: integer('github_id').notNull(),
+    authorLogin: text('author_login').notNull(),
+    authorType: text('author_type').notNull(),
+    body: text('body'),
+    htmlUrl: text('html_url').notNull(),
+    githubCreatedAt: text('github_created_at').notNull(),
+    githubUpdatedAt: text('github_updated_at').notNull(),
+    // Tombstone: set (and the body cleared) when the comment is deleted on GitHub
+    deletedAt: text('deleted_at'),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    uniqueIndex('issue_comments_project_github_id_unique').on(table.projectId, table.githubId),
+    index('issue_comments_project_issue_idx').on(
+      table.projectId,
+      table.issueNumber,
+      table.githubCreatedAt
+    ),
+  ]
+)
+
+// Per-project `since` cursors for the REST backfill and reconciliation
+export const issueSyncs = sqliteTable('issue_syncs', {
+  projectId: text('project_id')
+    .primaryKey()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  // Newest GitHub updated_at seen so far; the next pass asks for changes since then
+  issuesCursor: text('issues_cursor'),
+  commentsCursor: text('comments_cursor'),
+  backfilledAt: text('backfilled_at'),
+  lastSyncedAt: text('last_synced_at'),
+  lastError: text('last_error'),
+})
+
+export type Issue = typeof issues.$inferSelect
+export type NewIssue = typeof issues.$inferInsert
+export type IssueComment = typeof issueComments.$inferSelect
+export type NewIssueComment = typeof issueComments.$inferInsert
+export type IssueSync = typeof issueSyncs.$inferSelect
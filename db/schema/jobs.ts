@@ -0,0 +1,75 @@
+import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { projects } from './projects'
+
+export const JOB_TRIGGERS = ['issue_label', 'project_status', 'review_comment', 'board'] as const
+
+export const JOB_STATUSES = ['queued', 'running', 'pr_opened', 'failed', 'cancelled'] as const
+
+export const jobs = sqliteTable(
+  'jobs',
+  {
+    id: text('id').primaryKey(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    issueNumber: integer('issue_number').notNull(),
+    issueTitle: text('issue_title').notNull(),
+    issueUrl: text('issue_url'),
+    trigger: text('trigger', { enum: JOB_TRIGGERS }).notNull(),
+    status: text('status', { enum: JOB_STATUSES }).notNull().default('queued'),
+    promptContext: text('prompt_context'),
+    modelOutput: text('model_output'),
+    branch: text('branch'),
+    prNumber: integer('pr_number'),
+    prUrl: text('pr_url'),
+    failureReason: text('failure_reason'),
+    // Follow-ups on the job's pull request count up from 1; the comment that asked for it as JSON
+    iteration: integer('iteration').notNull().default(0),
+    reviewRequest: text('review_request'),
+    // Attempts started so far, and when the next one is due while waiting for a retry
+    attempts: integer('attempts').notNull().default(0),
+    nextAttemptAt: text('next_attempt_at'),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+    startedAt: text('started_at'),
+    finishedAt: text('finished_at'),
+  },
+  (table) => [
+    index('jobs_project_created_idx').on(table.projectId, table.createdAt),
+    index('jobs_project_issue_idx').on(table.projectId, table.issueNumber),
+    index('jobs_project_pr_idx').on(table.projectId, table.prNumber),
+    // At most one queued or running job per issue
+    uniqueIndex('jobs_project_issue_active_unique')
+      .on(table.projectId, table.issueNumber)
+      .where(sql`${table.status} in ('queued', 'running')`),
+  ]
+)
+
+export const JOB_STEP_LEVELS = ['info', 'error'] as const
+
+// Step log of a job run, streamed to the browser while the job runs
+export const jobSteps = sqliteTable(
+  'job_steps',
+  {
+    id: text('id').primaryKey(),
+    jobId: text('job_id')
+      .notNull()
+      .references(() => jobs.id, { onDelete: 'cascade' }),
+    attempt: integer('attempt').notNull(),
+    step: text('step').notNull(),
+    level: text('level', { enum: JOB_STEP_LEVELS }).notNull().default('info'),
+    message: text('message').notNull(),
+    // ISO timestamp with milliseconds, set by the worker so steps order correctly
+    createdAt: text('created_at').notNull(),
+  },
+  (table) => [index('job_steps_job_created_idx').on(table.jobId, table.createdAt)]
+)
+
+export type Job = typeof jobs.$inferSelect
+export type NewJob = typeof jobs.$inferInsert
+export type JobStatus = (typeof JOB_STATUSES)[number]
+export type JobTrigger = (typeof JOB_TRIGGERS)[number]
+export type JobStep = typeof jobSteps.$inferSelect
+export type NewJobStep = typeof jobSteps.$inferInsert
+export type JobStepLevel = (typeof JOB_STEP_LEVELS)[number]
@@ -0,0 +1,39 @@
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { LLM_PROVIDERS, projects } from './projects'
+import { users } from './users'
+import { jobs } from './jobs'
+import { conversations } from './conversations'
+
+export const LLM_FEATURES = ['job', 'spec_discussion'] as const
+
+// Tokens used by one model call
+export const llmUsage = sqliteTable(
+  'llm_usage',
+  {
+    id: text('id').primaryKey(),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    // User the call is billed to: the author of a message, or the project owner for jobs
+    userId: text('user_id').references(() => users.id, { onDelete: 'set null' }),
+    feature: text('feature', { enum: LLM_FEATURES }).notNull(),
+    jobId: text('job_id').references(() => jobs.id, { onDelete: 'set null' }),
+    conversationId: text('conversation_id').references(() => conversations.id, {
+      onDelete: 'set null',
+    }),
+    provider: text('provider', { enum: LLM_PROVIDERS }).notNull(),
+    model: text('model').notNull(),
+    promptTokens: integer('prompt_tokens').notNull(),
+    completionTokens: integer('completion_tokens').notNull(),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    index('llm_usage_project_created_idx').on(table.projectId, table.createdAt),
+    index('llm_usage_user_created_idx').on(table.userId, table.createdAt),
+  ]
+)
+
+export type LLMUsage = typeof llmUsage.$inferSelect
+export type NewLLMUsage = typeof llmUsage.$inferInsert
+export type LLMFeature = (typeof LLM_FEATURES)[number]
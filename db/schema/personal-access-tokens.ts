@@ -0,0 +1,26 @@
+import { sqliteTable, text, index } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { users } from './users'
+
+export const personalAccessTokens = sqliteTable(
+  'personal_access_tokens',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    // SHA-256 of the token; the token itself is only shown once, at creation
+    tokenHash: text('token_hash').notNull().unique(),
+    tokenPrefix: text('token_prefix').notNull(),
+    // JSON array of scopes; null grants every scope
+    scopes: text('scopes', { mode: 'json' }).$type<string[] | null>(),
+    expiresAt: text('expires_at'),
+    lastUsedAt: text('last_used_at'),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [index('personal_access_tokens_user_id_idx').on(table.userId)]
+)
+
+export type PersonalAccessToken = typeof personalAccessTokens.$inferSelect
+export type NewPersonalAccessToken = typeof personalAccessTokens.$inferInsert
@@ -0,0 +1,66 @@
+import { sqliteTable, text, integer, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { users } from './users'
+import { workspaces } from './workspaces'
+
+export const LLM_PROVIDERS = ['openai', 'workers_ai'] as const
+
+export const BOARD_COLUMNS = ['backlog', 'in_progress', 'in_review', 'done'] as const
+
+// GitHub label that puts an issue in each board column; null for none
+export type BoardColumnLabels = Record<(typeof BOARD_COLUMNS)[number], string | null>
+
+export const DEFAULT_BOARD_COLUMN_LABELS: BoardColumnLabels = {
+  backlog: null,
+  in_progress: 'In Progress',
+  in_review: 'In Review',
+  done: null,
+}
+
+export const projects = sqliteTable(
+  'projects',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    // Shared through this workspace's memberships; null for a personal project of userId
+    workspaceId: text('workspace_id').references(() => workspaces.id),
+    name: text('name').notNull(),
+    githubOwner: text('github_owner').notNull(),
+    githubRepo: text('github_repo').notNull(),
+    defaultBranch: text('default_branch').notNull().default('main'),
+    installationId: integer('installation_id'),
+    // Model settings for the project's AI features; null falls back to the deployment default
+    llmProvider: text('llm_provider', { enum: LLM_PROVIDERS }),
+    llmModel: text('llm_model'),
+    llmTemperature: real('llm_temperature'),
+    llmMaxTokens: integer('llm_max_tokens'),
+    // Appended to the system prompt of every model call
+    llmSystemPrompt: text('llm_system_prompt'),
+    // Monthly budget set by the owner; can only lower the deployment-wide project limits
+    monthlyTokenLimit: integer('monthly_token_limit'),
+    monthlyJobLimit: integer('monthly_job_limit'),
+    // Mention in a pull request comment or review that asks Codiro for another round
+    reviewTrigger: text('review_trigger').notNull().default('@codiro'),
+    // Follow-up jobs a Codiro pull request may get; 0 turns follow-ups off
+    maxReviewIterations: integer('max_review_iterations').notNull().default(3),
+    // Board column -> GitHub label; the In Progress label also starts jobs
+    boardColumns: text('board_columns', { mode: 'json' })
+      .$type<BoardColumnLabels>()
+      .notNull()
+      .default(DEFAULT_BOARD_COLUMN_LABELS),
+    archivedAt: text('archived_at'),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    uniqueIndex('projects_user_repo_unique').on(table.userId, table.githubOwner, table.githubRepo),
+    index('projects_workspace_id_idx').on(table.workspaceId),
+  ]
+)
+
+export type Project = typeof projects.$inferSelect
+export type NewProject = typeof projects.$inferInsert
+export type LLMProvider = (typeof LLM_PROVIDERS)[number]
+export type BoardColumn = (typeof BOARD_COLUMNS)[number]
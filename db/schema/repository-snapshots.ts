@@ -0,0 +1,83 @@
+import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { projects } from './projects'
+
+export const SNAPSHOT_STATUSES = ['indexing', 'ready', 'failed'] as const
+
+// Files are indexed later in batches (pending), chunked (indexed), or left out of the
+// index as binary, vendored or too large (skipped)
+export const SNAPSHOT_FILE_STATUSES = ['pending', 'indexed', 'skipped'] as const
+
+// Index of a linked repository's default branch, used to pick context for jobs
+export const repositorySnapshots = sqliteTable('repository_snapshots', {
+  projectId: text('project_id')
+    .primaryKey()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  // Commit the file tree was read at; indexing stays "indexing" until no file is pending
+  commitSha: text('commit_sha').notNull(),
+  status: text('status', { enum: SNAPSHOT_STATUSES }).notNull().default('indexing'),
+  fileCount: integer('file_count').notNull().default(0),
+  // Set when the tree had more files than a snapshot keeps
+  truncated: integer('truncated', { mode: 'boolean' }).notNull().default(false),
+  // Bytes per detected language, over the files whose size is known
+  languages: text('languages', { mode: 'json' })
+    .$type<Record<string, number>>()
+    .notNull()
+    .default(sql`'{}'`),
+  lastError: text('last_error'),
+  indexedAt: text('indexed_at'),
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+})
+
+// The snapshot's file tree
+export const repositoryFiles = sqliteTable(
+  'repository_files',
+  {
+    id: text('id')
+      .primaryKey()
+      .default(sql`(lower(hex(randomblob(16))))`),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    path: text('path').notNull(),
+    blobSha: text('blob_sha').notNull(),
+    // Unknown for files changed by a push until their content is read
+    size: integer('size'),
+    language: text('language'),
+    status: text('status', { enum: SNAPSHOT_FILE_STATUSES }).notNull(),
+  },
+  (table) => [
+    uniqueIndex('repository_files_project_path_unique').on(table.projectId, table.path),
+    index('repository_files_project_status_idx').on(table.projectId, table.status),
+  ]
+)
+
+// Line ranges of indexed files with their term frequencies for BM25 ranking
+export const repositoryChunks = sqliteTable(
+  'repository_chunks',
+  {
+    id: text('id')
+      .primaryKey()
+      .default(sql`(lower(hex(randomblob(16))))`),
+    projectId: text('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    path: text('path').notNull(),
+    startLine: integer('start_line').notNull(),
+    endLine: integer('end_line').notNull(),
+    content: text('content').notNull(),
+    // Term → count over the chunk's identifiers, words and path
+    terms: text('terms', { mode: 'json' }).$type<Record<string, number>>().notNull(),
+    termCount: integer('term_count').notNull(),
+  },
+  (table) => [index('repository_chunks_project_path_idx').on(table.projectId, table.path)]
+)
+
+export type RepositorySnapshot = typeof repositorySnapshots.$inferSelect
+export type RepositoryFile = typeof repositoryFiles.$inferSelect
+export type NewRepositoryFile = typeof repositoryFiles.$inferInsert
+export type RepositoryChunk = typeof repositoryChunks.$inferSelect
+export type NewRepositoryChunk = typeof repositoryChunks.$inferInsert
+export type SnapshotStatus = (typeof SNAPSHOT_STATUSES)[number]
+export type SnapshotFileStatus = (typeof SNAPSHOT_FILE_STATUSES)[number]
@@ -1,15 +1,29 @@
-import { sqliteTable, text } from 'drizzle-orm/sqlite-core'
+import { sqliteTable, text, index } from 'drizzle-orm/sqlite-core'
 import { sql } from 'drizzle-orm'
 import { users } from './users'
 
-export const sessions = sqliteTable('sessions', {
-  id: text('id').primaryKey(),
-  userId: text('user_id')
-    .notNull()
-    .references(() => users.id, { onDelete: 'cascade' }),
-  expiresAt: text('expires_at').notNull(),
-  createdAt: text('created_at').default(sql`(datetime('now'))`),
-})
+/**
+ * One row per refresh token. Rotating a refresh token consumes its row and inserts
+ * a new one in the same family; a family is one sign-in.
+ */
+export const sessions = sqliteTable(
+  'sessions',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    familyId: text('family_id').notNull(),
+    expiresAt: text('expires_at').notNull(),
+    consumedAt: text('consumed_at'),
+    userAgent: text('user_agent'),
+    ipAddress: text('ip_address'),
+    country: text('country'),
+    lastUsedAt: text('last_used_at'),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [index('sessions_family_id_idx').on(table.familyId)]
+)
 
 export type Session = typeof sessions.$inferSelect
 export type NewSession = typeof sessions.$inferInsert
@@ -0,0 +1,28 @@
+import { sqliteTable, text, integer, primaryKey } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+
+export const QUOTA_SCOPES = ['user', 'project'] as const
+
+// Monthly usage of a user or project, kept alongside llm_usage and jobs so quota checks are
+// single-row reads and increments are atomic upserts
+export const usageCounters = sqliteTable(
+  'usage_counters',
+  {
+    scope: text('scope', { enum: QUOTA_SCOPES }).notNull(),
+    // User or project id, depending on scope
+    scopeId: text('scope_id').notNull(),
+    // UTC month, YYYY-MM
+    period: text('period').notNull(),
+    tokens: integer('tokens').notNull().default(0),
+    jobs: integer('jobs').notNull().default(0),
+    // When the soft-limit warning was sent, so each is sent once per period
+    tokensWarnedAt: text('tokens_warned_at'),
+    jobsWarnedAt: text('jobs_warned_at'),
+    updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [primaryKey({ columns: [table.scope, table.scopeId, table.period] })]
+)
+
+export type UsageCounter = typeof usageCounters.$inferSelect
+export type NewUsageCounter = typeof usageCounters.$inferInsert
+export type QuotaScope = (typeof QUOTA_SCOPES)[number]
@@ -1,4 +1,4 @@
-import { sqliteTable, text } from 'drizzle-orm/sqlite-core'
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core'
 import { sql } from 'drizzle-orm'
 
 export const users = sqliteTable('users', {
@@ -8,6 +8,8 @@ export const users = sqliteTable('users', {
   username: text('username').notNull(),
   email: text('email'),
   avatarUrl: text('avatar_url'),
+  // Bumped to invalidate every access token issued to the user
+  tokenVersion: integer('token_version').notNull().default(0),
   createdAt: text('created_at').default(sql`(datetime('now'))`),
   updatedAt: text('updated_at').default(sql`(datetime('now'))`),
 })
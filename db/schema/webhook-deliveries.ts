@@ -0,0 +1,21 @@
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+
+export const webhookDeliveries = sqliteTable(
+  'webhook_deliveries',
+  {
+    deliveryId: text('delivery_id').primaryKey(),
+    event: text('event').notNull(),
+    action: text('action'),
+    installationId: integer('installation_id'),
+    payload: text('payload').notNull(),
+    status: text('status', { enum: ['received', 'processed', 'ignored', 'failed'] }).notNull(),
+    error: text('error'),
+    receivedAt: text('received_at').default(sql`(datetime('now'))`),
+    processedAt: text('processed_at'),
+  },
+  (table) => [index('webhook_deliveries_event_idx').on(table.event, table.receivedAt)]
+)
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert
@@ -0,0 +1,63 @@
+import { sqliteTable, text, index, primaryKey } from 'drizzle-orm/sqlite-core'
+import { sql } from 'drizzle-orm'
+import { users } from './users'
+
+// Highest first; see worker/workspaces/permissions.ts for what each role may do
+export const WORKSPACE_ROLES = ['owner', 'maintainer', 'member', 'viewer'] as const
+
+// A team sharing projects
+export const workspaces = sqliteTable('workspaces', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: text('created_at').default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+})
+
+export const workspaceMembers = sqliteTable(
+  'workspace_members',
+  {
+    workspaceId: text('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    role: text('role', { enum: WORKSPACE_ROLES }).notNull(),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    primaryKey({ columns: [table.workspaceId, table.userId] }),
+    index('workspace_members_user_id_idx').on(table.userId),
+  ]
+)
+
+// Pending invitation of a GitHub user or an email address; accepted ones are kept as history
+export const workspaceInvitations = sqliteTable(
+  'workspace_invitations',
+  {
+    id: text('id').primaryKey(),
+    workspaceId: text('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    role: text('role', { enum: WORKSPACE_ROLES }).notNull(),
+    // Exactly one of the two is set
+    githubUsername: text('github_username'),
+    email: text('email'),
+    // SHA-256 of the invite token; the token itself is only shown once, at creation
+    tokenHash: text('token_hash').notNull().unique(),
+    invitedBy: text('invited_by').references(() => users.id, { onDelete: 'set null' }),
+    expiresAt: text('expires_at').notNull(),
+    acceptedAt: text('accepted_at'),
+    acceptedBy: text('accepted_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: text('created_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [index('workspace_invitations_workspace_id_idx').on(table.workspaceId)]
+)
+
+export type Workspace = typeof workspaces.$inferSelect
+export type NewWorkspace = typeof workspaces.$inferInsert
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number]
@@ -26,7 +26,7 @@ if [ "$ENV" = "remote" ]; then
 fi
 
 echo "🗑️  Dropping existing tables from $ENV database..."
-pnpm wrangler d1 execute codiro-db $FLAG --command="DROP TABLE IF EXISTS sessions; DROP TABLE IF EXISTS github_identities; DROP TABLE IF EXISTS users;"
+pnpm wrangler d1 execute codiro-db $FLAG --command="DROP TABLE IF EXISTS audit_events; DROP TABLE IF EXISTS workspace_invitations; DROP TABLE IF EXISTS workspace_members; DROP TABLE IF EXISTS repository_chunks; DROP TABLE IF EXISTS repository_files; DROP TABLE IF EXISTS repository_snapshots; DROP TABLE IF EXISTS job_steps; DROP TABLE IF EXISTS usage_counters; DROP TABLE IF EXISTS llm_usage; DROP TABLE IF EXISTS messages; DROP TABLE IF EXISTS conversations; DROP TABLE IF EXISTS issue_syncs; DROP TABLE IF EXISTS issue_comments; DROP TABLE IF EXISTS issues; DROP TABLE IF EXISTS github_user_tokens; DROP TABLE IF EXISTS personal_access_tokens; DROP TABLE IF EXISTS jobs; DROP TABLE IF EXISTS webhook_deliveries; DROP TABLE IF EXISTS projects; DROP TABLE IF EXISTS workspaces; DROP TABLE IF EXISTS github_installation_users; DROP TABLE IF EXISTS github_installations; DROP TABLE IF EXISTS sessions; DROP TABLE IF EXISTS identities; DROP TABLE IF EXISTS users;"
 
 echo "🚀 Applying migrations to $ENV database..."
 if [ "$ENV" = "local" ]; then
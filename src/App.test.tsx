@@ -1,11 +1,111 @@
-import { describe, it, expect } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { cleanup, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter } from 'react-router'
 import App from './App'
 
+const user = { id: 'u1', username: 'octocat', email: null, avatarUrl: null }
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * Stub `fetch` with the auth endpoints for a signed-in or signed-out visitor
+ */
+function stubApi(signedIn: boolean) {
+  const fetchMock = vi.fn(async (path: string) => {
+    switch (path) {
+      case '/api/auth/me':
+        return signedIn ? json({ user }) : json({ error: 'Unauthorized' }, 401)
+      case '/api/auth/refresh':
+        return json({ error: 'No refresh token' }, 401)
+      case '/api/auth/providers':
+        return json({ providers: [{ id: 'github', name: 'GitHub' }] })
+      case '/api/auth/logout':
+        return json({ success: true })
+      case '/api/projects':
+        return json({
+          projects: [{ id: 'p1', name: 'Codiro', githubOwner: 'octocat', githubRepo: 'codiro' }],
+        })
+      default:
+        return json({ error: 'Not found' }, 404)
+    }
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+function renderAt(path: string) {
+  return render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  )
+}
+
 describe('App', () => {
-  it('renders heading', () => {
-    render(<App />)
-    const heading = screen.getByRole('heading')
-    expect(heading).toBeDefined()
+  afterEach(() => {
+    cleanup()
+    vi.unstubAllGlobals()
+  })
+
+  it('offers sign-in to signed-out visitors', async () => {
+    stubApi(false)
+    renderAt('/')
+
+    expect(await screen.findByRole('button', { name: 'Sign in with GitHub' })).toBeDefined()
+    expect(screen.getByRole('heading', { name: 'Codiro' })).toBeDefined()
+  })
+
+  it('sends signed-out visitors of a protected page to sign-in', async () => {
+    stubApi(false)
+    renderAt('/projects')
+
+    expect(await screen.findByRole('button', { name: 'Sign in with GitHub' })).toBeDefined()
+    expect(screen.queryByRole('heading', { name: 'Projects' })).toBeNull()
+  })
+
+  it.each([
+    ['auth_failed', 'Signing in failed. Please try again.'],
+    [
+      'invalid_state',
+      'Your sign-in request expired or was started in another browser. Please sign in again.',
+    ],
+    ['missing_params', 'The sign-in response was incomplete. Please try again.'],
+    ['something_new', 'Something went wrong. Please try again.'],
+  ])('explains the %s sign-in error', async (code, message) => {
+    stubApi(false)
+    renderAt(`/?error=${code}`)
+
+    expect((await screen.findByRole('alert')).textContent).toContain(message)
+    await userEvent.click(screen.getByRole('button', { name: 'Dismiss' }))
+    expect(screen.queryByRole('alert')).toBeNull()
+  })
+
+  it('shows the projects of a signed-in user and signs out', async () => {
+    const fetchMock = stubApi(true)
+    renderAt('/')
+
+    expect(await screen.findByRole('heading', { name: 'Projects' })).toBeDefined()
+    expect(await screen.findByText('octocat/codiro')).toBeDefined()
+
+    await userEvent.click(screen.getByRole('button', { name: 'Sign out' }))
+
+    expect(await screen.findByRole('button', { name: 'Sign in with GitHub' })).toBeDefined()
+    expect(fetchMock).toHaveBeenCalledWith('/api/auth/logout', {
+      method: 'POST',
+      credentials: 'same-origin',
+    })
+  })
+
+  it('renders a not found page for unknown paths', async () => {
+    stubApi(true)
+    renderAt('/nowhere')
+
+    expect(await screen.findByRole('heading', { name: 'Page not found' })).toBeDefined()
   })
 })
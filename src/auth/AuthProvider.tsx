@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react'
+import { AuthContext, type AuthState } from './context'
+import { api, apiFetch, onSessionExpired } from '../lib/api'
+import type { User } from '../lib/types'
+
+/**
+ * Loads the current user once and keeps it in sync: a session that can no longer be
+ * refreshed signs the user out of the app
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let active = true
+    api<{ user: User }>('/api/auth/me')
+      .then((data) => active && setUser(data.user))
+      .catch(() => active && setUser(null))
+      .finally(() => active && setLoading(false))
+
+    const unsubscribe = onSessionExpired(() => setUser(null))
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  const signIn = useCallback((provider: string) => {
+    window.location.assign(`/api/auth/${encodeURIComponent(provider)}`)
+  }, [])
+
+  const signOut = useCallback(async () => {
+    await apiFetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined)
+    setUser(null)
+  }, [])
+
+  const value = useMemo<AuthState>(
+    () => ({ user, loading, signIn, signOut }),
+    [user, loading, signIn, signOut]
+  )
+
+  return <AuthContext value={value}>{children}</AuthContext>
+}
@@ -0,0 +1,17 @@
+import { Navigate, Outlet } from 'react-router'
+import { useAuth } from './context'
+
+/**
+ * Renders the nested routes for a signed-in user and sends everyone else to the sign-in page
+ */
+export function ProtectedRoute() {
+  const { user, loading } = useAuth()
+
+  if (loading) {
+    return <p role="status">Loading…</p>
+  }
+  if (!user) {
+    return <Navigate to="/" replace />
+  }
+  return <Outlet />
+}
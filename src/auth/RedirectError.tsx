@@ -0,0 +1,33 @@
+import { useSearchParams } from 'react-router'
+import { redirectErrorMessage } from './errors'
+
+/**
+ * Alert for the `?error=` code of a failed sign-in redirect; dismissing it drops the code
+ * from the URL
+ */
+export function RedirectError() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const message = redirectErrorMessage(searchParams.get('error'))
+
+  if (!message) {
+    return null
+  }
+
+  const dismiss = () =>
+    setSearchParams(
+      (params) => {
+        params.delete('error')
+        return params
+      },
+      { replace: true }
+    )
+
+  return (
+    <div className="alert" role="alert">
+      <p>{message}</p>
+      <button type="button" onClick={dismiss} aria-label="Dismiss">
+        ×
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react'
+import type { User } from '../lib/types'
+
+export interface AuthState {
+  // Signed-in user; null when signed out or while loading
+  user: User | null
+  loading: boolean
+  // Leave the app for the provider's sign-in page
+  signIn: (provider: string) => void
+  signOut: () => Promise<void>
+}
+
+export const AuthContext = createContext<AuthState | null>(null)
+
+/**
+ * Current user and sign-in actions; must be used under `AuthProvider`
+ */
+export function useAuth(): AuthState {
+  const auth = useContext(AuthContext)
+  if (!auth) {
+    throw new Error('useAuth must be used within an AuthProvider')
+  }
+  return auth
+}
@@ -0,0 +1,23 @@
+// Codes the worker appends as `/?error=...` when a sign-in or app installation fails
+// (worker/auth/oauth.ts, worker/routes/auth.ts, worker/routes/github.ts)
+const REDIRECT_ERRORS: Record<string, string> = {
+  auth_failed: 'Signing in failed. Please try again.',
+  invalid_state:
+    'Your sign-in request expired or was started in another browser. Please sign in again.',
+  missing_params: 'The sign-in response was incomplete. Please try again.',
+  identity_in_use: 'That account is already linked to another Codiro user.',
+  not_authenticated: 'Sign in before installing the GitHub App.',
+  installation_not_found: 'The GitHub App installation could not be found.',
+  installation_forbidden: 'You do not have access to that GitHub App installation.',
+  installation_failed: 'The GitHub App installation could not be saved. Please try again.',
+}
+
+/**
+ * Readable message for an `?error=` code; null when there is no code
+ */
+export function redirectErrorMessage(code: string | null): string | null {
+  if (!code) {
+    return null
+  }
+  return REDIRECT_ERRORS[code] ?? 'Something went wrong. Please try again.'
+}
@@ -0,0 +1,141 @@
+import { useState, type DragEvent, type KeyboardEvent } from 'react'
+import { BOARD_COLUMNS, columnTitle } from './columns'
+import { IssueCard } from './IssueCard'
+import type { BoardColumn, Issue, Job } from '../lib/types'
+
+interface BoardProps {
+  issues: Issue[]
+  jobs: Record<number, Job>
+  pending: Set<number>
+  onMove: (number: number, column: BoardColumn) => void
+}
+
+// Card picked up with the keyboard and the column it would be dropped in
+interface Grab {
+  number: number
+  target: BoardColumn
+}
+
+const DRAG_TYPE = 'application/x-codiro-issue'
+
+/**
+ * Issue columns with drag-and-drop
+ * With the keyboard, a card's handle picks it up (Enter or Space), the arrow keys choose a
+ * column, Enter or Space drops it there and Escape puts it back. Each step is announced.
+ */
+export function Board({ issues, jobs, pending, onMove }: BoardProps) {
+  const [grab, setGrab] = useState<Grab | null>(null)
+  const [dropTarget, setDropTarget] = useState<BoardColumn | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  // Card dropped with the keyboard; its handle gets focus back in the new column
+  const [dropped, setDropped] = useState<number | null>(null)
+
+  const toggleGrab = (issue: Issue) => {
+    if (grab?.number !== issue.number) {
+      setGrab({ number: issue.number, target: issue.column })
+      setDropped(null)
+      setAnnouncement(
+        `Picked up #${issue.number} in ${columnTitle(issue.column)}. Use the left and right arrow keys to choose a column, Enter or Space to drop, Escape to cancel.`
+      )
+      return
+    }
+    setGrab(null)
+    if (grab.target === issue.column) {
+      setAnnouncement(`#${issue.number} stays in ${columnTitle(issue.column)}.`)
+    } else {
+      setAnnouncement(`Moved #${issue.number} to ${columnTitle(grab.target)}.`)
+      setDropped(issue.number)
+      onMove(issue.number, grab.target)
+    }
+  }
+
+  const handleKeyDown = (issue: Issue, event: KeyboardEvent<HTMLButtonElement>) => {
+    if (grab?.number !== issue.number) {
+      return
+    }
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      setGrab(null)
+      setAnnouncement(`Move cancelled. #${issue.number} stays in ${columnTitle(issue.column)}.`)
+      return
+    }
+    const step = event.key === 'ArrowRight' ? 1 : event.key === 'ArrowLeft' ? -1 : 0
+    if (step === 0) {
+      return
+    }
+    event.preventDefault()
+    const index = BOARD_COLUMNS.findIndex((column) => column.id === grab.target)
+    const next = BOARD_COLUMNS[index + step]
+    if (next) {
+      setGrab({ ...grab, target: next.id })
+      setAnnouncement(`Over ${next.title}.`)
+    }
+  }
+
+  const handleDragStart = (issue: Issue, event: DragEvent<HTMLLIElement>) => {
+    event.dataTransfer.setData(DRAG_TYPE, String(issue.number))
+    event.dataTransfer.effectAllowed = 'move'
+  }
+
+  const handleDrop = (column: BoardColumn, event: DragEvent<HTMLElement>) => {
+    event.preventDefault()
+    setDropTarget(null)
+    const number = Number(event.dataTransfer.getData(DRAG_TYPE))
+    if (number) {
+      onMove(number, column)
+    }
+  }
+
+  return (
+    <>
+      <p id="board-instructions" className="visually-hidden">
+        Press Enter or Space to pick up the issue, the left and right arrow keys to choose a column,
+        and Enter or Space again to drop it.
+      </p>
+      <p className="visually-hidden" role="status" aria-live="assertive">
+        {announcement}
+      </p>
+      <div className="board">
+        {BOARD_COLUMNS.map((column) => {
+          const cards = issues.filter((issue) => issue.column === column.id)
+          // A grabbed card stays put (and keeps focus) while its target column is highlighted
+          const highlighted = dropTarget === column.id || grab?.target === column.id
+          return (
+            <section
+              key={column.id}
+              className={`board-column${highlighted ? ' drop-target' : ''}`}
+              aria-labelledby={`column-${column.id}`}
+              onDragOver={(event) => {
+                if (event.dataTransfer.types.includes(DRAG_TYPE)) {
+                  event.preventDefault()
+                  setDropTarget(column.id)
+                }
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(event) => handleDrop(column.id, event)}
+            >
+              <h2 id={`column-${column.id}`}>
+                {column.title} <span className="muted">{cards.length}</span>
+              </h2>
+              <ul>
+                {cards.map((issue) => (
+                  <IssueCard
+                    key={issue.number}
+                    issue={issue}
+                    job={jobs[issue.number]}
+                    grabbed={grab?.number === issue.number}
+                    focused={dropped === issue.number}
+                    pending={pending.has(issue.number)}
+                    onGrab={() => toggleGrab(issue)}
+                    onKeyDown={(event) => handleKeyDown(issue, event)}
+                    onDragStart={(event) => handleDragStart(issue, event)}
+                  />
+                ))}
+              </ul>
+            </section>
+          )
+        })}
+      </div>
+    </>
+  )
+}
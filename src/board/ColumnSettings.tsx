@@ -0,0 +1,65 @@
+import { useState, type FormEvent } from 'react'
+import { BOARD_COLUMNS } from './columns'
+import { api, ApiError } from '../lib/api'
+import type { BoardColumnLabels, Project } from '../lib/types'
+
+interface ColumnSettingsProps {
+  project: Project
+  onSaved: (project: Project) => void
+}
+
+/**
+ * Form for the GitHub label of each board column
+ * Empty fields mean "no label"; In Progress always needs one, as it starts jobs.
+ */
+export function ColumnSettings({ project, onSaved }: ColumnSettingsProps) {
+  const [labels, setLabels] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      BOARD_COLUMNS.map((column) => [column.id, project.boardColumns[column.id] ?? ''])
+    )
+  )
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    setSaving(true)
+    setError(null)
+    const boardColumns = Object.fromEntries(
+      BOARD_COLUMNS.map((column) => [column.id, labels[column.id].trim() || null])
+    ) as BoardColumnLabels
+    try {
+      const { project: saved } = await api<{ project: Project }>(`/api/projects/${project.id}`, {
+        method: 'PATCH',
+        body: { boardColumns },
+      })
+      onSaved(saved)
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not save the columns')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form className="column-settings" onSubmit={handleSubmit}>
+      <p>GitHub label of each column. Closed issues are always in Done.</p>
+      {BOARD_COLUMNS.map((column) => (
+        <label key={column.id}>
+          {column.title}
+          <input
+            value={labels[column.id]}
+            required={column.id === 'in_progress'}
+            maxLength={50}
+            placeholder="No label"
+            onChange={(event) => setLabels({ ...labels, [column.id]: event.target.value })}
+          />
+        </label>
+      ))}
+      {error && <p role="alert">{error}</p>}
+      <button type="submit" disabled={saving}>
+        {saving ? 'Saving…' : 'Save columns'}
+      </button>
+    </form>
+  )
+}
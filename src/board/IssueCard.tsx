@@ -0,0 +1,80 @@
+import { useEffect, useRef, type DragEvent, type KeyboardEvent } from 'react'
+import { JOB_STATUS_LABELS } from './columns'
+import type { Issue, Job } from '../lib/types'
+
+interface IssueCardProps {
+  issue: Issue
+  job: Job | undefined
+  // Picked up with the keyboard
+  grabbed: boolean
+  // Focus the handle when the card mounts, e.g. in the column it was moved to
+  focused: boolean
+  pending: boolean
+  onGrab: () => void
+  onKeyDown: (event: KeyboardEvent<HTMLButtonElement>) => void
+  onDragStart: (event: DragEvent<HTMLLIElement>) => void
+}
+
+/**
+ * A board card: the issue, its latest job and the job's pull request
+ * The handle button picks the card up for keyboard moves; the card itself can be dragged.
+ */
+export function IssueCard({
+  issue,
+  job,
+  grabbed,
+  focused,
+  pending,
+  onGrab,
+  onKeyDown,
+  onDragStart,
+}: IssueCardProps) {
+  const handle = useRef<HTMLButtonElement>(null)
+  useEffect(() => {
+    if (focused) {
+      handle.current?.focus()
+    }
+  }, [focused])
+
+  return (
+    <li
+      className={`issue-card${grabbed ? ' grabbed' : ''}`}
+      draggable
+      onDragStart={onDragStart}
+      aria-busy={pending}
+    >
+      <div className="issue-card-header">
+        <a href={issue.htmlUrl} target="_blank" rel="noreferrer">
+          #{issue.number} {issue.title}
+        </a>
+        <button
+          ref={handle}
+          type="button"
+          className="issue-card-handle"
+          aria-label={`Move #${issue.number}`}
+          aria-pressed={grabbed}
+          aria-describedby="board-instructions"
+          onClick={onGrab}
+          onKeyDown={onKeyDown}
+        >
+          ⠿
+        </button>
+      </div>
+      {job && (
+        <p className="issue-card-job">
+          <span
+            className={`job-status job-status-${job.status}`}
+            title={job.failureReason ?? undefined}
+          >
+            {JOB_STATUS_LABELS[job.status]}
+          </span>
+          {job.prUrl && (
+            <a href={job.prUrl} target="_blank" rel="noreferrer">
+              {job.prNumber ? `PR #${job.prNumber}` : 'Pull request'}
+            </a>
+          )}
+        </p>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,24 @@
+import type { BoardColumn, JobStatus } from '../lib/types'
+
+export const BOARD_COLUMNS: ReadonlyArray<{ id: BoardColumn; title: string }> = [
+  { id: 'backlog', title: 'Backlog' },
+  { id: 'in_progress', title: 'In Progress' },
+  { id: 'in_review', title: 'In Review' },
+  { id: 'done', title: 'Done' },
+]
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  pr_opened: 'PR opened',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+export function isActiveJob(status: JobStatus): boolean {
+  return status === 'queued' || status === 'running'
+}
+
+export function columnTitle(column: BoardColumn): string {
+  return BOARD_COLUMNS.find((entry) => entry.id === column)!.title
+}
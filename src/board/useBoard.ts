@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api, ApiError } from '../lib/api'
+import type { BoardColumn, Issue, IssuePage, Job } from '../lib/types'
+
+// Open issues are read up to this many pages of 100; Done shows the latest closed ones
+const MAX_OPEN_PAGES = 10
+const CLOSED_ISSUES = 30
+
+export interface BoardState {
+  issues: Issue[] | null
+  // Latest job of each issue, by issue number
+  jobs: Record<number, Job>
+  // Issues with a move in flight
+  pending: Set<number>
+  error: string | null
+  dismissError: () => void
+  moveIssue: (number: number, column: BoardColumn) => Promise<void>
+  updateJob: (update: Partial<Job> & Pick<Job, 'id'>) => void
+  reload: () => Promise<void>
+}
+
+/**
+ * Issues and jobs of a project's board
+ * Moves are applied right away and rolled back when the server refuses them.
+ */
+export function useBoard(projectId: string): BoardState {
+  const [issues, setIssues] = useState<Issue[] | null>(null)
+  const [jobs, setJobs] = useState<Record<number, Job>>({})
+  const [pending, setPending] = useState<Set<number>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      const [issues, jobs] = await Promise.all([loadIssues(projectId), loadJobs(projectId)])
+      setIssues(issues)
+      setJobs(jobs)
+    } catch (err) {
+      setError(errorMessage(err, 'Could not load the board'))
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    void reload()
+  }, [reload])
+
+  const moveIssue = useCallback(
+    async (number: number, column: BoardColumn) => {
+      const previous = issues?.find((issue) => issue.number === number)
+      if (!previous || previous.column === column) {
+        return
+      }
+
+      const replace = (next: Issue) =>
+        setIssues((current) =>
+          current ? current.map((issue) => (issue.number === number ? next : issue)) : current
+        )
+      replace({ ...previous, column })
+      setPending((current) => new Set(current).add(number))
+
+      try {
+        const moved = await api<{ issue: Issue; job: Job | null }>(
+          `/api/projects/${projectId}/issues/${number}/move`,
+          { method: 'POST', body: { column } }
+        )
+        replace(moved.issue)
+        if (moved.job) {
+          const job = moved.job
+          setJobs((current) => ({ ...current, [number]: job }))
+        }
+      } catch (err) {
+        replace(previous)
+        setError(errorMessage(err, `Could not move #${number}`))
+      } finally {
+        setPending((current) => {
+          const next = new Set(current)
+          next.delete(number)
+          return next
+        })
+      }
+    },
+    [issues, projectId]
+  )
+
+  const updateJob = useCallback((update: Partial<Job> & Pick<Job, 'id'>) => {
+    setJobs((current) => {
+      const job = Object.values(current).find((job) => job.id === update.id)
+      return job ? { ...current, [job.issueNumber]: { ...job, ...update } } : current
+    })
+  }, [])
+
+  return {
+    issues,
+    jobs,
+    pending,
+    error,
+    dismissError: () => setError(null),
+    moveIssue,
+    updateJob,
+    reload,
+  }
+}
+
+async function loadIssues(projectId: string): Promise<Issue[]> {
+  const path = `/api/projects/${projectId}/issues`
+  const open: Issue[] = []
+  for (let page = 1; page <= MAX_OPEN_PAGES; page++) {
+    const result = await api<IssuePage>(`${path}?state=open&perPage=100&page=${page}`)
+    open.push(...result.issues)
+    if (!result.hasNextPage) {
+      break
+    }
+  }
+  const closed = await api<IssuePage>(`${path}?state=closed&perPage=${CLOSED_ISSUES}`)
+  return [...open, ...closed.issues]
+}
+
+// Jobs are listed newest first, so the first one of each issue is its latest
+async function loadJobs(projectId: string): Promise<Record<number, Job>> {
+  const { jobs } = await api<{ jobs: Job[] }>(`/api/projects/${projectId}/jobs`)
+  const latest: Record<number, Job> = {}
+  for (const job of jobs) {
+    latest[job.issueNumber] ??= job
+  }
+  return latest
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof ApiError ? `${fallback}: ${err.message}` : fallback
+}
@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from 'react'
+import { isActiveJob } from './columns'
+import type { Job, JobStatusUpdate } from '../lib/types'
+
+// Wait before reconnecting after a socket closed while its job was still active
+const RECONNECT_DELAY_MS = 5000
+
+/**
+ * Follow the queued and running jobs over their log WebSockets and report each status change
+ * A socket that closes before its job finished (e.g. on an expired access token) calls
+ * `onDisconnect`, so the board can reload through the API client, which refreshes the session;
+ * the sockets reconnect a little later.
+ */
+export function useJobUpdates(
+  jobs: Job[],
+  onStatus: (job: JobStatusUpdate) => void,
+  onDisconnect: () => void
+) {
+  const handlers = useRef({ onStatus, onDisconnect })
+  const [connection, setConnection] = useState(0)
+  useEffect(() => {
+    handlers.current = { onStatus, onDisconnect }
+  })
+
+  // Sockets follow the set of active jobs, not every change to the list
+  const activeIds = jobs
+    .filter((job) => isActiveJob(job.status))
+    .map((job) => job.id)
+    .sort()
+    .join(',')
+
+  useEffect(() => {
+    if (!activeIds) {
+      return
+    }
+
+    let disposed = false
+    let reconnect: ReturnType<typeof setTimeout> | undefined
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+    const sockets = activeIds.split(',').map((id) => {
+      const socket = new WebSocket(`${protocol}//${window.location.host}/api/jobs/${id}/logs`)
+      let finished = false
+      socket.addEventListener('message', (event: MessageEvent<string>) => {
+        const message = JSON.parse(event.data) as { type: string; job?: JobStatusUpdate }
+        if (message.type === 'status' && message.job) {
+          finished = !isActiveJob(message.job.status)
+          handlers.current.onStatus(message.job)
+        }
+      })
+      socket.addEventListener('close', () => {
+        if (!disposed && !finished && reconnect === undefined) {
+          handlers.current.onDisconnect()
+          reconnect = setTimeout(() => setConnection((n) => n + 1), RECONNECT_DELAY_MS)
+        }
+      })
+      return socket
+    })
+
+    return () => {
+      disposed = true
+      clearTimeout(reconnect)
+      sockets.forEach((socket) => socket.close())
+    }
+  }, [activeIds, connection])
+}
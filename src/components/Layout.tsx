@@ -0,0 +1,33 @@
+import { Link, Outlet } from 'react-router'
+import { useAuth } from '../auth/context'
+import { RedirectError } from '../auth/RedirectError'
+
+/**
+ * Frame of the signed-in pages: header with the user and sign-out, then the page
+ */
+export function Layout() {
+  const { user, signOut } = useAuth()
+
+  return (
+    <>
+      <header className="app-header">
+        <Link to="/projects" className="app-name">
+          Codiro
+        </Link>
+        {user && (
+          <div className="app-user">
+            {user.avatarUrl && <img src={user.avatarUrl} alt="" className="avatar" />}
+            <span>{user.username}</span>
+            <button type="button" onClick={() => void signOut()}>
+              Sign out
+            </button>
+          </div>
+        )}
+      </header>
+      <main>
+        <RedirectError />
+        <Outlet />
+      </main>
+    </>
+  )
+}
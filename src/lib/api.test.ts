@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { api, apiFetch, ApiError, onSessionExpired } from './api'
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * Stub `fetch` with an API whose access token is valid once the session has been refreshed
+ */
+function stubApi(refreshStatus: number) {
+  let refreshed = false
+  const fetchMock = vi.fn(async (path: string) => {
+    if (path === '/api/auth/refresh') {
+      // Let every concurrent request reach its 401 before the refresh settles
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      refreshed = refreshStatus === 200 || refreshStatus === 409
+      return json({}, refreshStatus)
+    }
+    return refreshed ? json({ path }) : json({ error: 'Unauthorized' }, 401)
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+function calls(fetchMock: ReturnType<typeof stubApi>, path: string) {
+  return fetchMock.mock.calls.filter(([called]) => called === path).length
+}
+
+describe('api client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('refreshes the session on 401 and retries once', async () => {
+    const fetchMock = stubApi(200)
+
+    expect(await api('/api/projects')).toEqual({ path: '/api/projects' })
+    expect(calls(fetchMock, '/api/projects')).toBe(2)
+    expect(calls(fetchMock, '/api/auth/refresh')).toBe(1)
+  })
+
+  it('shares one refresh between concurrent 401s', async () => {
+    const fetchMock = stubApi(200)
+
+    const results = await Promise.all([api('/api/projects'), api('/api/usage'), api('/api/me')])
+
+    expect(results).toEqual([
+      { path: '/api/projects' },
+      { path: '/api/usage' },
+      { path: '/api/me' },
+    ])
+    expect(calls(fetchMock, '/api/auth/refresh')).toBe(1)
+  })
+
+  it('treats a refresh token rotated by another tab as refreshed', async () => {
+    stubApi(409)
+    expect(await api('/api/projects')).toEqual({ path: '/api/projects' })
+  })
+
+  it('reports an expired session when the refresh fails', async () => {
+    const fetchMock = stubApi(401)
+    const expired = vi.fn()
+    const unsubscribe = onSessionExpired(expired)
+
+    const response = await apiFetch('/api/projects')
+    unsubscribe()
+
+    expect(response.status).toBe(401)
+    expect(calls(fetchMock, '/api/projects')).toBe(1)
+    expect(expired).toHaveBeenCalledTimes(1)
+  })
+
+  it('sends JSON bodies and throws the error of a failed response', async () => {
+    const fetchMock = vi.fn(async () => json({ error: 'Name is required' }, 400))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const request = api('/api/projects', { method: 'POST', body: { name: '' } })
+
+    await expect(request).rejects.toEqual(new ApiError(400, 'Name is required'))
+    expect(fetchMock).toHaveBeenCalledWith('/api/projects', {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"name":""}',
+    })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Error thrown by `api` for a response outside 2xx, with the message from its `{ error }` body
+ */
+export class ApiError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+export interface ApiOptions extends Omit<RequestInit, 'body'> {
+  // Sent as JSON with a `Content-Type: application/json` header
+  body?: unknown
+}
+
+const REFRESH_PATH = '/api/auth/refresh'
+
+let refreshing: Promise<boolean> | null = null
+const expiredListeners = new Set<() => void>()
+
+/**
+ * Rotate the session cookies with the refresh token; resolves to whether the session is alive
+ *
+ * Callers arriving while a refresh is in flight share it, so a burst of 401s rotates the
+ * refresh token once. A 409 means another tab rotated it a moment ago: its cookies are set,
+ * so the session counts as refreshed.
+ */
+export function refreshSession(): Promise<boolean> {
+  refreshing ??= fetch(REFRESH_PATH, { method: 'POST', credentials: 'same-origin' })
+    .then((response) => response.ok || response.status === 409)
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null
+    })
+  return refreshing
+}
+
+/**
+ * Get told when a request could not be authorized even after a refresh
+ * Returns a function that removes the listener.
+ */
+export function onSessionExpired(listener: () => void): () => void {
+  expiredListeners.add(listener)
+  return () => {
+    expiredListeners.delete(listener)
+  }
+}
+
+/**
+ * `fetch` for the API: sends the session cookies and, when the access token has expired,
+ * refreshes the session and retries the request once
+ *
+ * A request that is still unauthorized after that tells the `onSessionExpired` listeners and
+ * resolves to its 401 response. Bodies must be resendable (strings, not streams).
+ */
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => fetch(path, { credentials: 'same-origin', ...init })
+
+  const response = await send()
+  if (response.status !== 401 || path === REFRESH_PATH) {
+    return response
+  }
+
+  if (await refreshSession()) {
+    const retried = await send()
+    if (retried.status !== 401) {
+      return retried
+    }
+  }
+
+  expiredListeners.forEach((listener) => listener())
+  return response
+}
+
+/**
+ * Call a JSON endpoint and return its parsed body
+ * Throws `ApiError` for non-2xx responses.
+ */
+export async function api<T>(path: string, { body, ...init }: ApiOptions = {}): Promise<T> {
+  const response = await apiFetch(
+    path,
+    body === undefined
+      ? init
+      : {
+          ...init,
+          headers: { 'Content-Type': 'application/json', ...init.headers },
+          body: JSON.stringify(body),
+        }
+  )
+
+  const data: unknown = await response.json().catch(() => null)
+  if (!response.ok) {
+    const message = (data as { error?: string } | null)?.error
+    throw new ApiError(response.status, message ?? (response.statusText || 'Request failed'))
+  }
+  return data as T
+}
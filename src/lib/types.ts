@@ -0,0 +1,67 @@
+// Shapes of the API responses the app reads (see worker/types and db/schema)
+
+export interface User {
+  id: string
+  username: string
+  email: string | null
+  avatarUrl: string | null
+}
+
+export interface AuthProvider {
+  id: string
+  name: string
+}
+
+export type BoardColumn = 'backlog' | 'in_progress' | 'in_review' | 'done'
+
+// GitHub label that puts an issue in each board column; null for none
+export type BoardColumnLabels = Record<BoardColumn, string | null>
+
+export interface Project {
+  id: string
+  name: string
+  githubOwner: string
+  githubRepo: string
+  defaultBranch: string
+  installationId: number | null
+  boardColumns: BoardColumnLabels
+  archivedAt: string | null
+  createdAt: string | null
+}
+
+export interface Issue {
+  number: number
+  title: string
+  state: 'open' | 'closed'
+  labels: string[]
+  assignees: string[]
+  htmlUrl: string
+  githubUpdatedAt: string
+  column: BoardColumn
+}
+
+export interface IssuePage {
+  issues: Issue[]
+  hasNextPage: boolean
+}
+
+export type JobStatus = 'queued' | 'running' | 'pr_opened' | 'failed' | 'cancelled'
+
+export interface Job {
+  id: string
+  issueNumber: number
+  trigger: string
+  status: JobStatus
+  prNumber: number | null
+  prUrl: string | null
+  failureReason: string | null
+  attempts: number
+  nextAttemptAt: string | null
+  createdAt: string | null
+}
+
+// `status` message of the job log WebSocket (GET /api/jobs/:jobId/logs)
+export type JobStatusUpdate = Pick<
+  Job,
+  'id' | 'status' | 'attempts' | 'nextAttemptAt' | 'prUrl' | 'failureReason'
+>
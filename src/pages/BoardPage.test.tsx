@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { act, cleanup, render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter, Route, Routes } from 'react-router'
+import { BoardPage } from './BoardPage'
+import type { Issue, Job } from '../lib/types'
+
+const project = {
+  id: 'p1',
+  name: 'Codiro',
+  githubOwner: 'octocat',
+  githubRepo: 'codiro',
+  defaultBranch: 'main',
+  installationId: 7,
+  boardColumns: { backlog: null, in_progress: 'In Progress', in_review: 'In Review', done: null },
+  archivedAt: null,
+  createdAt: null,
+}
+
+function issue(number: number, column: Issue['column'], title = `Issue ${number}`): Issue {
+  return {
+    number,
+    title,
+    state: column === 'done' ? 'closed' : 'open',
+    labels: [],
+    assignees: [],
+    htmlUrl: `https://github.com/octocat/codiro/issues/${number}`,
+    githubUpdatedAt: '2025-01-01T00:00:00Z',
+    column,
+  }
+}
+
+function job(issueNumber: number, overrides: Partial<Job> = {}): Job {
+  return {
+    id: `job-${issueNumber}`,
+    issueNumber,
+    trigger: 'board',
+    status: 'queued',
+    prNumber: null,
+    prUrl: null,
+    failureReason: null,
+    attempts: 0,
+    nextAttemptAt: null,
+    createdAt: null,
+    ...overrides,
+  }
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((done) => (resolve = done))
+  return { promise, resolve }
+}
+
+/**
+ * Stub `fetch` with a project whose issues #1 (backlog), #2 (in review, PR opened) and #3
+ * (done) are on the board; `move` answers POST .../move
+ */
+function stubApi(move: (column: string) => Promise<Response>) {
+  const fetchMock = vi.fn(async (path: string, init?: RequestInit) => {
+    if (path === '/api/projects/p1') {
+      return init?.method === 'PATCH'
+        ? json({ project: { ...project, ...JSON.parse(String(init.body)) } })
+        : json({ project })
+    }
+    if (path.startsWith('/api/projects/p1/issues?state=open')) {
+      return json({ issues: [issue(1, 'backlog'), issue(2, 'in_review')], hasNextPage: false })
+    }
+    if (path.startsWith('/api/projects/p1/issues?state=closed')) {
+      return json({ issues: [issue(3, 'done')], hasNextPage: false })
+    }
+    if (path === '/api/projects/p1/jobs') {
+      return json({
+        jobs: [
+          job(2, {
+            status: 'pr_opened',
+            prNumber: 101,
+            prUrl: 'https://github.com/octocat/codiro/pull/101',
+          }),
+          job(2, { id: 'older', status: 'failed' }),
+        ],
+      })
+    }
+    if (path === '/api/projects/p1/issues/1/move') {
+      return move(JSON.parse(String(init!.body)).column)
+    }
+    return json({ error: 'Not found' }, 404)
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+// WebSocket stand-in recording the sockets the board opens
+class FakeSocket extends EventTarget {
+  static instances: FakeSocket[] = []
+  readonly url: string
+  closed = false
+
+  constructor(url: string) {
+    super()
+    this.url = url
+    FakeSocket.instances.push(this)
+  }
+
+  close() {
+    this.closed = true
+  }
+
+  receive(message: unknown) {
+    this.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(message) }))
+  }
+}
+
+function renderBoard() {
+  return render(
+    <MemoryRouter initialEntries={['/projects/p1']}>
+      <Routes>
+        <Route path="/projects/:projectId" element={<BoardPage />} />
+      </Routes>
+    </MemoryRouter>
+  )
+}
+
+function column(name: string) {
+  return within(screen.getByRole('region', { name: new RegExp(`^${name}`) }))
+}
+
+describe('BoardPage', () => {
+  afterEach(() => {
+    cleanup()
+    vi.unstubAllGlobals()
+    FakeSocket.instances = []
+  })
+
+  it('shows issues in their columns with the latest job and its pull request', async () => {
+    stubApi(async () => json({}))
+    renderBoard()
+
+    expect(await screen.findByRole('heading', { name: 'Codiro' })).toBeDefined()
+    expect(column('Backlog').getByText('#1 Issue 1')).toBeDefined()
+    expect(column('In Review').getByText('PR opened')).toBeDefined()
+    expect(column('In Review').getByRole('link', { name: 'PR #101' })).toBeDefined()
+    expect(column('Done').getByText('#3 Issue 3')).toBeDefined()
+  })
+
+  it('moves a card with the keyboard, optimistically, and follows the job it starts', async () => {
+    vi.stubGlobal('WebSocket', FakeSocket)
+    const response = deferred<Response>()
+    const fetchMock = stubApi(() => response.promise)
+    const user = userEvent.setup()
+    renderBoard()
+
+    await screen.findByRole('heading', { name: 'Codiro' })
+    column('Backlog').getByRole('button', { name: 'Move #1' }).focus()
+    await user.keyboard(' ')
+    expect(screen.getByRole('status').textContent).toContain('Picked up #1 in Backlog')
+    await user.keyboard('{ArrowRight}')
+    expect(screen.getByRole('status').textContent).toBe('Over In Progress.')
+    await user.keyboard('{Enter}')
+
+    // Moved before the server answered, and still focused in its new column
+    const handle = column('In Progress').getByRole('button', { name: 'Move #1' })
+    expect(document.activeElement).toBe(handle)
+    expect(fetchMock).toHaveBeenCalledWith('/api/projects/p1/issues/1/move', {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"column":"in_progress"}',
+    })
+
+    await act(async () =>
+      response.resolve(json({ issue: issue(1, 'in_progress'), job: job(1, { id: 'job-new' }) }))
+    )
+    expect(await column('In Progress').findByText('Queued')).toBeDefined()
+
+    const socket = FakeSocket.instances.find((socket) => socket.url.endsWith('/job-new/logs'))!
+    act(() =>
+      socket.receive({
+        type: 'status',
+        job: {
+          id: 'job-new',
+          status: 'pr_opened',
+          attempts: 1,
+          nextAttemptAt: null,
+          prUrl: 'https://github.com/octocat/codiro/pull/102',
+          failureReason: null,
+        },
+      })
+    )
+    expect(column('In Progress').getByText('PR opened')).toBeDefined()
+    expect(column('In Progress').getByRole('link', { name: 'Pull request' })).toBeDefined()
+  })
+
+  it('puts a card back when the move fails', async () => {
+    stubApi(async () => json({ error: 'Bad credentials' }, 502))
+    const user = userEvent.setup()
+    renderBoard()
+
+    await screen.findByRole('heading', { name: 'Codiro' })
+    column('Backlog').getByRole('button', { name: 'Move #1' }).focus()
+    await user.keyboard(' {ArrowRight}{ArrowRight}{ArrowRight} ')
+
+    expect((await screen.findByRole('alert')).textContent).toContain(
+      'Could not move #1: Bad credentials'
+    )
+    expect(column('Backlog').getByText('#1 Issue 1')).toBeDefined()
+    expect(column('Done').queryByText('#1 Issue 1')).toBeNull()
+  })
+
+  it('cancels a keyboard move with Escape', async () => {
+    const fetchMock = stubApi(async () => json({}))
+    const user = userEvent.setup()
+    renderBoard()
+
+    await screen.findByRole('heading', { name: 'Codiro' })
+    column('Backlog').getByRole('button', { name: 'Move #1' }).focus()
+    await user.keyboard(' {ArrowRight}{Escape}')
+
+    expect(screen.getByRole('status').textContent).toContain('Move cancelled')
+    expect(fetchMock).not.toHaveBeenCalledWith('/api/projects/p1/issues/1/move', expect.anything())
+  })
+
+  it('saves the column labels of the project', async () => {
+    const fetchMock = stubApi(async () => json({}))
+    const user = userEvent.setup()
+    renderBoard()
+
+    await user.click(await screen.findByRole('button', { name: 'Columns' }))
+    const inProgress = screen.getByRole('textbox', { name: 'In Progress' })
+    await user.clear(inProgress)
+    await user.type(inProgress, 'Doing')
+    await user.click(screen.getByRole('button', { name: 'Save columns' }))
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/projects/p1',
+      expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({
+          boardColumns: { backlog: null, in_progress: 'Doing', in_review: 'In Review', done: null },
+        }),
+      })
+    )
+    expect(screen.queryByRole('button', { name: 'Save columns' })).toBeNull()
+  })
+})
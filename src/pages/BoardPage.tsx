@@ -0,0 +1,91 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useParams } from 'react-router'
+import { Board } from '../board/Board'
+import { ColumnSettings } from '../board/ColumnSettings'
+import { useBoard } from '../board/useBoard'
+import { useJobUpdates } from '../board/useJobUpdates'
+import { api, ApiError } from '../lib/api'
+import type { Project } from '../lib/types'
+
+/**
+ * A project's issues in board columns, with the state of their jobs
+ */
+export function BoardPage() {
+  const { projectId } = useParams() as { projectId: string }
+  const [project, setProject] = useState<Project | null>(null)
+  const [projectError, setProjectError] = useState<string | null>(null)
+  const [showSettings, setShowSettings] = useState(false)
+  const board = useBoard(projectId)
+
+  useEffect(() => {
+    let active = true
+    api<{ project: Project }>(`/api/projects/${projectId}`)
+      .then((data) => active && setProject(data.project))
+      .catch((err: unknown) => {
+        if (active) {
+          setProjectError(err instanceof ApiError ? err.message : 'Could not load the project')
+        }
+      })
+    return () => {
+      active = false
+    }
+  }, [projectId])
+
+  const jobs = useMemo(() => Object.values(board.jobs), [board.jobs])
+  useJobUpdates(jobs, board.updateJob, () => void board.reload())
+
+  if (projectError) {
+    return <p role="alert">{projectError}</p>
+  }
+  if (!project || !board.issues) {
+    return board.error ? <p role="alert">{board.error}</p> : <p role="status">Loading…</p>
+  }
+
+  return (
+    <section>
+      <div className="board-header">
+        <h1>{project.name}</h1>
+        <span className="muted">
+          {project.githubOwner}/{project.githubRepo}
+        </span>
+        <button
+          type="button"
+          aria-expanded={showSettings}
+          onClick={() => setShowSettings(!showSettings)}
+        >
+          Columns
+        </button>
+        <Link to="/projects">All projects</Link>
+      </div>
+      {showSettings && (
+        <ColumnSettings
+          project={project}
+          onSaved={(saved) => {
+            setProject(saved)
+            setShowSettings(false)
+            void board.reload()
+          }}
+        />
+      )}
+      {!project.installationId && (
+        <p className="muted">
+          Link this project to a GitHub App installation to move issues and start jobs.
+        </p>
+      )}
+      {board.error && (
+        <div className="alert" role="alert">
+          <p>{board.error}</p>
+          <button type="button" onClick={board.dismissError} aria-label="Dismiss">
+            ×
+          </button>
+        </div>
+      )}
+      <Board
+        issues={board.issues}
+        jobs={board.jobs}
+        pending={board.pending}
+        onMove={(number, column) => void board.moveIssue(number, column)}
+      />
+    </section>
+  )
+}
@@ -0,0 +1,10 @@
+import { Link } from 'react-router'
+
+export function NotFoundPage() {
+  return (
+    <main>
+      <h1>Page not found</h1>
+      <Link to="/">Back to Codiro</Link>
+    </main>
+  )
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router'
+import { api, ApiError } from '../lib/api'
+import type { Project } from '../lib/types'
+
+/**
+ * The signed-in user's projects
+ */
+export function ProjectsPage() {
+  const [projects, setProjects] = useState<Project[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let active = true
+    api<{ projects: Project[] }>('/api/projects')
+      .then((data) => active && setProjects(data.projects))
+      .catch((err: unknown) => {
+        if (active) {
+          setError(err instanceof ApiError ? err.message : 'Could not load projects')
+        }
+      })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return (
+    <section>
+      <h1>Projects</h1>
+      {error ? (
+        <p role="alert">{error}</p>
+      ) : !projects ? (
+        <p role="status">Loading…</p>
+      ) : projects.length === 0 ? (
+        <p>No projects yet. Link a GitHub repository to get started.</p>
+      ) : (
+        <ul className="project-list">
+          {projects.map((project) => (
+            <li key={project.id}>
+              <Link to={`/projects/${project.id}`}>
+                <strong>{project.name}</strong>
+              </Link>
+              <span className="muted">
+                {project.githubOwner}/{project.githubRepo}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
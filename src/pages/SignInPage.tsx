@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react'
+import { Navigate, useLocation } from 'react-router'
+import { useAuth } from '../auth/context'
+import { RedirectError } from '../auth/RedirectError'
+import { api } from '../lib/api'
+import type { AuthProvider } from '../lib/types'
+
+/**
+ * Landing page: sign-in buttons for signed-out visitors, the project list for everyone else
+ * Failed sign-ins come back here with `?error=...`, which stays in the URL on the way through.
+ */
+export function SignInPage() {
+  const { user, loading, signIn } = useAuth()
+  const { search } = useLocation()
+  const [providers, setProviders] = useState<AuthProvider[] | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    if (loading || user) {
+      return
+    }
+    let active = true
+    api<{ providers: AuthProvider[] }>('/api/auth/providers')
+      .then((data) => active && setProviders(data.providers))
+      .catch(() => active && setFailed(true))
+    return () => {
+      active = false
+    }
+  }, [loading, user])
+
+  if (loading) {
+    return <p role="status">Loading…</p>
+  }
+  if (user) {
+    return <Navigate to={{ pathname: '/projects', search }} replace />
+  }
+
+  return (
+    <main className="sign-in">
+      <h1>Codiro</h1>
+      <p>Turn GitHub issues into pull requests.</p>
+      <RedirectError />
+      {failed ? (
+        <p role="alert">Sign-in is unavailable right now. Please reload the page.</p>
+      ) : !providers ? (
+        <p role="status">Loading…</p>
+      ) : (
+        <div className="sign-in-providers">
+          {providers.map((provider) => (
+            <button key={provider.id} type="button" onClick={() => signIn(provider.id)}>
+              Sign in with {provider.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </main>
+  )
+}
@@ -1,12 +1,51 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config'
+import path from 'node:path'
+import { generateKeyPairSync, randomBytes } from 'node:crypto'
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config'
 
-export default defineWorkersConfig({
-  test: {
-    include: ['worker/**/*.{test,spec}.{js,ts}'],
-    poolOptions: {
-      workers: {
-        wrangler: { configPath: './wrangler.jsonc' },
+export default defineWorkersConfig(async () => {
+  const migrations = await readD1Migrations(path.join(__dirname, 'db/migrations'))
+
+  // Throwaway GitHub App key; GitHub issues PKCS#1 keys so the tests do too
+  const githubAppKey = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  })
+
+  return {
+    test: {
+      include: ['worker/**/*.{test,spec}.{js,ts}'],
+      setupFiles: ['./worker/test/apply-migrations.ts'],
+      poolOptions: {
+        workers: {
+          wrangler: { configPath: './wrangler.jsonc' },
+          miniflare: {
+            bindings: {
+              TEST_MIGRATIONS: migrations,
+              JWT_SECRET: 'test-jwt-secret',
+              GITHUB_APP_CLIENT_ID: 'test-client-id',
+              GITHUB_APP_CLIENT_SECRET: 'test-client-secret',
+              GITHUB_APP_ID: '12345',
+              GITHUB_APP_PRIVATE_KEY: githubAppKey.privateKey,
+              GITHUB_WEBHOOK_SECRET: 'test-webhook-secret',
+              GITHUB_API_URL: 'https://api.github.test',
+              LLM_API_URL: 'https://llm.test/v1',
+              LLM_API_KEY: 'test-llm-key',
+              TOKEN_ENCRYPTION_KEYS: `test-1:${randomBytes(32).toString('base64')}`,
+              OIDC_PROVIDERS: JSON.stringify([
+                {
+                  id: 'acme',
+                  name: 'Acme SSO',
+                  issuer: 'https://idp.test',
+                  clientId: 'codiro-test',
+                  clientSecret: 'idp-secret',
+                },
+              ]),
+              TEST_GITHUB_APP_PUBLIC_KEY: githubAppKey.publicKey,
+            },
+          },
+        },
       },
     },
-  },
+  }
 })
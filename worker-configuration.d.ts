@@ -7,10 +7,26 @@ declare namespace Cloudflare {
   }
   interface Env {
     DB: D1Database
+    JOB_COORDINATOR: DurableObjectNamespace<import('./worker/index').JobCoordinator>
+    AI?: Ai
     JWT_SECRET: string
     GITHUB_APP_CLIENT_ID: string
     GITHUB_APP_CLIENT_SECRET: string
+    GITHUB_APP_ID: string
+    GITHUB_APP_PRIVATE_KEY: string
+    GITHUB_WEBHOOK_SECRET: string
+    LLM_API_KEY: string
+    OIDC_PROVIDERS?: string
+    TOKEN_ENCRYPTION_KEYS: string
     APP_URL: string
+    GITHUB_API_URL: string
+    LLM_API_URL: string
+    LLM_MODEL: string
+    QUOTA_USER_MONTHLY_TOKENS: string
+    QUOTA_USER_MONTHLY_JOBS: string
+    QUOTA_PROJECT_MONTHLY_TOKENS: string
+    QUOTA_PROJECT_MONTHLY_JOBS: string
+    QUOTA_SOFT_LIMIT_PERCENT: string
   }
 }
 interface Env extends Cloudflare.Env {}
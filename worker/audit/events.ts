@@ -0,0 +1,120 @@
+import type { Context } from 'hono'
+import { and, desc, eq, gte, inArray, lt, or, sql, type SQL } from 'drizzle-orm'
+import { getSessionClient } from '../auth/sessions'
+import { visibleProjectsCondition } from '../projects/access'
+import type { User } from '../types/auth'
+import type { AuditActor, AuditEventInput, AuditEventQuery } from '../types/audit'
+import { getDB, type Database } from '../db'
+import { auditEvents, projects, type AuditEvent } from '../../db/schema'
+
+export const SYSTEM_ACTOR: AuditActor = { type: 'system', id: null }
+
+/**
+ * Append an event to the audit log
+ * The timestamp is taken right away, so the write can run in the background
+ * (`waitUntil`) without reordering events. Failures are logged, never thrown:
+ * auditing must not break the action it records.
+ */
+export function recordAuditEvent(db: Database, event: AuditEventInput): Promise<void> {
+  const createdAt = new Date().toISOString()
+
+  return db
+    .insert(auditEvents)
+    .values({
+      id: crypto.randomUUID(),
+      actorType: event.actor.type,
+      actorId: event.actor.id,
+      action: event.action,
+      targetType: event.target?.type ?? null,
+      targetId: event.target?.id ?? null,
+      projectId: event.projectId ?? null,
+      ipAddress: event.ipAddress ?? null,
+      userAgent: event.userAgent ?? null,
+      metadata: event.metadata ?? null,
+      createdAt,
+    })
+    .then(
+      () => {},
+      (error) => console.error('Failed to record audit event:', event.action, error)
+    )
+}
+
+/**
+ * Record an event of the current request in the background
+ * The actor defaults to the signed-in user; IP address and user agent come from the request.
+ */
+export function auditRequest(
+  c: Context<{ Bindings: Env; Variables: { user: User } }>,
+  event: Omit<AuditEventInput, 'actor' | 'ipAddress' | 'userAgent'> & { actorId?: string | null }
+) {
+  const { actorId = c.get('user')?.id ?? null, ...rest } = event
+  const { ipAddress, userAgent } = getSessionClient(c)
+
+  c.executionCtx.waitUntil(
+    recordAuditEvent(getDB(c.env.DB), {
+      ...rest,
+      actor: { type: 'user', id: actorId },
+      ipAddress,
+      userAgent,
+    })
+  )
+}
+
+/**
+ * A page of the audit events a user may see, newest first
+ * Users see the events they caused and every event of the projects they can see; the IP address
+ * and user agent are only kept on their own events. Returns one event more than the limit when
+ * there is a next page.
+ */
+export async function listAuditEvents(
+  db: Database,
+  userId: string,
+  query: AuditEventQuery
+): Promise<AuditEvent[]> {
+  const visibleProjects = db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(visibleProjectsCondition(db, userId))
+
+  const conditions: Array<SQL | undefined> = [
+    or(eq(auditEvents.actorId, userId), inArray(auditEvents.projectId, visibleProjects)),
+  ]
+
+  if (query.actorId) {
+    conditions.push(eq(auditEvents.actorId, query.actorId))
+  }
+  if (query.projectId) {
+    conditions.push(eq(auditEvents.projectId, query.projectId))
+  }
+  if (query.action?.endsWith('.*')) {
+    const prefix = query.action.slice(0, -1).replace(/[\\%_]/g, (char) => `\\${char}`)
+    conditions.push(sql`${auditEvents.action} like ${`${prefix}%`} escape '\\'`)
+  } else if (query.action) {
+    conditions.push(eq(auditEvents.action, query.action as AuditEvent['action']))
+  }
+  if (query.from) {
+    conditions.push(gte(auditEvents.createdAt, query.from))
+  }
+  if (query.to) {
+    conditions.push(lt(auditEvents.createdAt, query.to))
+  }
+  if (query.cursor) {
+    conditions.push(
+      or(
+        lt(auditEvents.createdAt, query.cursor.createdAt),
+        and(eq(auditEvents.createdAt, query.cursor.createdAt), lt(auditEvents.id, query.cursor.id))
+      )
+    )
+  }
+
+  const rows = await db
+    .select()
+    .from(auditEvents)
+    .where(and(...conditions))
+    .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+    .limit(query.limit + 1)
+
+  return rows.map((row) =>
+    row.actorId === userId ? row : { ...row, ipAddress: null, userAgent: null }
+  )
+}
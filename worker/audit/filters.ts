@@ -0,0 +1,85 @@
+import type { AuditCursor, AuditEventQuery } from '../types/audit'
+import type { AuditEvent } from '../../db/schema'
+
+const DEFAULT_LIMIT = 50
+export const MAX_LIMIT = 200
+const ACTION_PATTERN = /^[a-z_]+(\.[a-z_]+)*(\.\*)?$/
+
+type ParseResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string }
+
+/**
+ * Validate the query string of GET /api/audit
+ */
+export function parseAuditQuery(query: {
+  user?: string
+  project?: string
+  action?: string
+  from?: string
+  to?: string
+  cursor?: string
+  limit?: string
+}): ParseResult<AuditEventQuery> {
+  const action = query.action?.trim() || null
+  if (action && !ACTION_PATTERN.test(action)) {
+    return {
+      error: 'action must be an action name such as "job.failed", or a prefix such as "job.*"',
+    }
+  }
+
+  const from = parseTimestamp(query.from)
+  const to = parseTimestamp(query.to)
+  if (from === undefined || to === undefined) {
+    return { error: 'from and to must be ISO 8601 timestamps' }
+  }
+
+  const cursor = query.cursor ? decodeAuditCursor(query.cursor) : null
+  if (cursor === undefined) {
+    return { error: 'Invalid cursor' }
+  }
+
+  const limit = query.limit === undefined ? DEFAULT_LIMIT : Number(query.limit)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { error: `limit must be between 1 and ${MAX_LIMIT}` }
+  }
+
+  return {
+    data: {
+      actorId: query.user?.trim() || null,
+      projectId: query.project?.trim() || null,
+      action,
+      from,
+      to,
+      cursor,
+      limit,
+    },
+  }
+}
+
+/**
+ * Opaque cursor pointing after an event
+ */
+export function encodeAuditCursor(event: Pick<AuditEvent, 'createdAt' | 'id'>): string {
+  return btoa(JSON.stringify([event.createdAt, event.id]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+// undefined when the cursor is malformed
+function decodeAuditCursor(value: string): AuditCursor | undefined {
+  try {
+    const [createdAt, id] = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')))
+    return typeof createdAt === 'string' && typeof id === 'string' ? { createdAt, id } : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Normalized to the stored format; null when absent, undefined when invalid
+function parseTimestamp(value: string | undefined): string | null | undefined {
+  if (!value) {
+    return null
+  }
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString()
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { env } from 'cloudflare:test'
+import { currentEncryptionKeyId, decryptSecret, encryptSecret } from './encryption'
+
+function newKey() {
+  return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))))
+}
+
+describe('Secret encryption', () => {
+  it('round-trips a value and records the key id', async () => {
+    const encrypted = await encryptSecret(env, 'ghu_secret', 'ctx')
+
+    expect(encrypted.keyId).toBe('test-1')
+    expect(encrypted.ciphertext).not.toContain('ghu_secret')
+    expect(await decryptSecret(env, encrypted, 'ctx')).toBe('ghu_secret')
+  })
+
+  it('uses a fresh IV for every value', async () => {
+    const first = await encryptSecret(env, 'same', 'ctx')
+    const second = await encryptSecret(env, 'same', 'ctx')
+    expect(first.ciphertext).not.toBe(second.ciphertext)
+  })
+
+  it('only decrypts for the context it was encrypted for', async () => {
+    const encrypted = await encryptSecret(env, 'ghu_secret', 'identity-a')
+    await expect(decryptSecret(env, encrypted, 'identity-b')).rejects.toThrow()
+  })
+
+  it('rejects tampered ciphertexts', async () => {
+    const encrypted = await encryptSecret(env, 'ghu_secret', 'ctx')
+    const bytes = Uint8Array.from(atob(encrypted.ciphertext), (char) => char.charCodeAt(0))
+    bytes[bytes.length - 1] ^= 1
+    const tampered = { ...encrypted, ciphertext: btoa(String.fromCharCode(...bytes)) }
+
+    await expect(decryptSecret(env, tampered, 'ctx')).rejects.toThrow()
+  })
+
+  it('encrypts with the first key and still decrypts with older ones', async () => {
+    const old = await encryptSecret(env, 'old value', 'ctx')
+    const rotated = {
+      ...env,
+      TOKEN_ENCRYPTION_KEYS: `test-2:${newKey()},${env.TOKEN_ENCRYPTION_KEYS}`,
+    }
+
+    expect(currentEncryptionKeyId(rotated)).toBe('test-2')
+    expect(await decryptSecret(rotated, old, 'ctx')).toBe('old value')
+
+    const fresh = await encryptSecret(rotated, 'new value', 'ctx')
+    expect(fresh.keyId).toBe('test-2')
+    await expect(decryptSecret(env, fresh, 'ctx')).rejects.toThrow('Unknown encryption key: test-2')
+  })
+})
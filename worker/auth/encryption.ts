@@ -0,0 +1,117 @@
+/**
+ * AES-GCM encryption for secrets stored in D1
+ *
+ * Keys come from the TOKEN_ENCRYPTION_KEYS secret: a comma-separated list of
+ * `<key id>:<base64 256-bit key>`. The first key encrypts; every listed key decrypts,
+ * so a new key can be prepended and the old one dropped once nothing uses it.
+ */
+
+const IV_LENGTH = 12 // bytes, recommended for AES-GCM
+
+export interface EncryptedValue {
+  ciphertext: string // base64 of IV + ciphertext
+  keyId: string
+}
+
+interface EncryptionKey {
+  id: string
+  key: CryptoKey
+}
+
+/**
+ * Id of the key new values are encrypted with
+ */
+export function currentEncryptionKeyId(env: Env): string {
+  return parseKeyList(env)[0].id
+}
+
+/**
+ * Encrypt a value with the current key
+ * `context` is bound as additional data, so a ciphertext only decrypts for the same context.
+ */
+export async function encryptSecret(
+  env: Env,
+  plaintext: string,
+  context: string
+): Promise<EncryptedValue> {
+  const { id, key } = await importKey(env, currentEncryptionKeyId(env))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+    key,
+    new TextEncoder().encode(plaintext)
+  )
+
+  const bytes = new Uint8Array(IV_LENGTH + encrypted.byteLength)
+  bytes.set(iv)
+  bytes.set(new Uint8Array(encrypted), IV_LENGTH)
+
+  return { ciphertext: toBase64(bytes), keyId: id }
+}
+
+/**
+ * Decrypt a value with the key it was encrypted with
+ * Throws if the key is no longer configured or the ciphertext was tampered with.
+ */
+export async function decryptSecret(
+  env: Env,
+  value: EncryptedValue,
+  context: string
+): Promise<string> {
+  const { key } = await importKey(env, value.keyId)
+  const bytes = fromBase64(value.ciphertext)
+
+  const decrypted = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: bytes.slice(0, IV_LENGTH),
+      additionalData: new TextEncoder().encode(context),
+    },
+    key,
+    bytes.slice(IV_LENGTH)
+  )
+
+  return new TextDecoder().decode(decrypted)
+}
+
+async function importKey(env: Env, keyId: string): Promise<EncryptionKey> {
+  const entry = parseKeyList(env).find((candidate) => candidate.id === keyId)
+  if (!entry) {
+    throw new Error(`Unknown encryption key: ${keyId}`)
+  }
+
+  const raw = fromBase64(entry.secret)
+  if (raw.byteLength !== 32) {
+    throw new Error(`Encryption key ${keyId} must be 32 bytes`)
+  }
+
+  const key = await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt'])
+  return { id: entry.id, key }
+}
+
+function parseKeyList(env: Env): Array<{ id: string; secret: string }> {
+  const keys = (env.TOKEN_ENCRYPTION_KEYS ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':')
+      return { id: entry.slice(0, separator), secret: entry.slice(separator + 1) }
+    })
+    .filter((entry) => entry.id && entry.secret)
+
+  if (keys.length === 0) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS is not configured')
+  }
+
+  return keys
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+}
@@ -0,0 +1,187 @@
+import { and, asc, eq, sql } from 'drizzle-orm'
+import type { Database } from '../db'
+import type { IdentityProfile } from '../types/auth'
+import { identities, users } from '../../db/schema'
+
+/**
+ * Find the user behind a provider identity, creating both on first sign-in
+ * Returning users get their profile refreshed from the provider only while it is their
+ * sole identity, so signing in with a linked account does not overwrite it.
+ */
+export async function upsertIdentityUser(
+  db: Database,
+  provider: string,
+  profile: IdentityProfile
+): Promise<{ userId: string; identityId: string; isNewUser: boolean }> {
+  const now = new Date().toISOString()
+
+  const existingIdentity = await db.query.identities.findFirst({
+    where: and(eq(identities.provider, provider), eq(identities.subject, profile.subject)),
+  })
+
+  if (existingIdentity) {
+    const userId = existingIdentity.userId
+    await db.batch([
+      db
+        .update(users)
+        .set({
+          username: profile.username,
+          email: profile.email,
+          avatarUrl: profile.avatarUrl,
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(users.id, userId),
+            sql`(SELECT count(*) FROM ${identities} WHERE ${identities.userId} = ${userId}) = 1`
+          )
+        ),
+      db
+        .update(identities)
+        .set({ username: profile.username, email: profile.email, updatedAt: now })
+        .where(eq(identities.id, existingIdentity.id)),
+    ])
+
+    return { userId, identityId: existingIdentity.id, isNewUser: false }
+  }
+
+  const userId = crypto.randomUUID()
+  const identityId = crypto.randomUUID()
+  await db.batch([
+    db.insert(users).values({
+      id: userId,
+      username: profile.username,
+      email: profile.email,
+      avatarUrl: profile.avatarUrl,
+    }),
+    db.insert(identities).values({
+      id: identityId,
+      userId,
+      provider,
+      subject: profile.subject,
+      username: profile.username,
+      email: profile.email,
+    }),
+  ])
+
+  return { userId, identityId, isNewUser: true }
+}
+
+/**
+ * Find the user linked to a GitHub account, if any
+ */
+export async function findUserIdByGitHubId(db: Database, githubId: number): Promise<string | null> {
+  const identity = await db.query.identities.findFirst({
+    where: and(eq(identities.provider, 'github'), eq(identities.subject, String(githubId))),
+    columns: { userId: true },
+  })
+  return identity?.userId ?? null
+}
+
+/**
+ * GitHub account ids linked to a user
+ */
+export async function findGitHubIdsForUser(db: Database, userId: string): Promise<number[]> {
+  const linked = await db.query.identities.findMany({
+    where: and(eq(identities.userId, userId), eq(identities.provider, 'github')),
+    columns: { subject: true },
+  })
+  return linked.map((identity) => Number(identity.subject))
+}
+
+export type LinkIdentityResult =
+  | { status: 'linked' | 'already_linked'; identityId: string }
+  | { status: 'conflict' }
+
+/**
+ * Attach a provider identity to an existing user
+ * An identity that already belongs to another user is never moved.
+ */
+export async function linkIdentity(
+  db: Database,
+  userId: string,
+  provider: string,
+  profile: IdentityProfile
+): Promise<LinkIdentityResult> {
+  const [inserted] = await db
+    .insert(identities)
+    .values({
+      userId,
+      provider,
+      subject: profile.subject,
+      username: profile.username,
+      email: profile.email,
+    })
+    .onConflictDoNothing()
+    .returning({ id: identities.id })
+
+  if (inserted) {
+    return { status: 'linked', identityId: inserted.id }
+  }
+
+  const existing = await db.query.identities.findFirst({
+    where: and(eq(identities.provider, provider), eq(identities.subject, profile.subject)),
+  })
+
+  if (existing?.userId !== userId) {
+    return { status: 'conflict' }
+  }
+
+  await db
+    .update(identities)
+    .set({ username: profile.username, email: profile.email, updatedAt: new Date().toISOString() })
+    .where(eq(identities.id, existing.id))
+
+  return { status: 'already_linked', identityId: existing.id }
+}
+
+/**
+ * Identities linked to a user, oldest first
+ */
+export async function listUserIdentities(db: Database, userId: string) {
+  return db
+    .select({
+      id: identities.id,
+      provider: identities.provider,
+      username: identities.username,
+      email: identities.email,
+      createdAt: identities.createdAt,
+    })
+    .from(identities)
+    .where(eq(identities.userId, userId))
+    .orderBy(asc(identities.createdAt), asc(identities.id))
+}
+
+export type UnlinkIdentityResult = 'unlinked' | 'not_found' | 'last_identity'
+
+/**
+ * Remove one of a user's identities, keeping at least one so they can still sign in
+ * The count check runs inside the DELETE so concurrent unlinks cannot remove the last one.
+ */
+export async function unlinkIdentity(
+  db: Database,
+  userId: string,
+  identityId: string
+): Promise<UnlinkIdentityResult> {
+  const deleted = await db
+    .delete(identities)
+    .where(
+      and(
+        eq(identities.id, identityId),
+        eq(identities.userId, userId),
+        sql`(SELECT count(*) FROM ${identities} WHERE ${identities.userId} = ${userId}) > 1`
+      )
+    )
+    .returning({ id: identities.id })
+
+  if (deleted.length > 0) {
+    return 'unlinked'
+  }
+
+  const identity = await db.query.identities.findFirst({
+    where: and(eq(identities.id, identityId), eq(identities.userId, userId)),
+    columns: { id: true },
+  })
+
+  return identity ? 'last_identity' : 'not_found'
+}
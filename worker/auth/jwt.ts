@@ -2,23 +2,27 @@ import { sign, verify } from 'hono/jwt'
 import { setCookie, deleteCookie } from 'hono/cookie'
 import type { Context } from 'hono'
 import type { AccessTokenPayload, RefreshTokenPayload, OAuthStatePayload } from '../types/auth'
+import type { Session } from '../../db/schema'
 
 const ACCESS_TOKEN_EXPIRES_IN = 15 * 60 // 15 minutes
 const REFRESH_TOKEN_EXPIRES_IN = 30 * 24 * 60 * 60 // 30 days
 const STATE_TOKEN_EXPIRES_IN = 10 * 60 // 10 minutes
 
 /**
- * Generate access token (short-lived, stateless)
+ * Generate access token (short-lived)
+ * Bound to the session family and the user's token version so it can be revoked early.
  */
 export async function generateAccessToken(
   c: Context,
-  userId: string,
-  username: string
+  user: { id: string; username: string; tokenVersion: number },
+  sessionFamilyId: string
 ): Promise<string> {
   const now = Math.floor(Date.now() / 1000)
   const payload: AccessTokenPayload = {
-    sub: userId,
-    username,
+    sub: user.id,
+    username: user.username,
+    sid: sessionFamilyId,
+    ver: user.tokenVersion,
     iat: now,
     exp: now + ACCESS_TOKEN_EXPIRES_IN,
   }
@@ -31,12 +35,13 @@ export async function generateAccessToken(
 export async function generateRefreshToken(
   c: Context,
   userId: string,
-  sessionId: string
+  session: Pick<Session, 'id' | 'familyId'>
 ): Promise<string> {
   const now = Math.floor(Date.now() / 1000)
   const payload: RefreshTokenPayload = {
     sub: userId,
-    sessionId,
+    sessionId: session.id,
+    familyId: session.familyId,
     iat: now,
     exp: now + REFRESH_TOKEN_EXPIRES_IN,
   }
@@ -1,40 +1,42 @@
 import type { Context, Next } from 'hono'
 import { getCookie } from 'hono/cookie'
-import { eq } from 'drizzle-orm'
+import { and, eq, gt, isNull } from 'drizzle-orm'
 import { verifyAccessToken } from './jwt'
+import {
+  findPersonalAccessToken,
+  isPersonalAccessToken,
+  touchPersonalAccessToken,
+  type TokenScope,
+} from './tokens'
 import { getDB } from '../db'
-import { users } from '../../db/schema'
-import type { User } from '../types/auth'
+import { sessions, users } from '../../db/schema'
+import type { AuthInfo, User } from '../types/auth'
+
+type AuthResult =
+  | { user: User; auth: AuthInfo; error?: undefined }
+  | { user?: undefined; auth?: undefined; error: string }
 
 /**
  * Auth middleware - protects routes requiring authentication
- * Adds user to context if authenticated
+ * Accepts the access_token cookie or an `Authorization: Bearer` header carrying either
+ * an access token or a personal access token. Adds user and auth info to context.
  */
 export async function authMiddleware(c: Context, next: Next) {
-  const accessToken = getCookie(c, 'access_token')
+  const token = getRequestToken(c)
 
-  if (!accessToken) {
+  if (!token) {
     return c.json({ error: 'Unauthorized' }, 401)
   }
 
-  const payload = await verifyAccessToken(c, accessToken)
+  const result = await authenticate(c, token)
 
-  if (!payload) {
-    return c.json({ error: 'Invalid or expired token' }, 401)
-  }
-
-  // Fetch user from database using Drizzle ORM
-  const db = getDB(c.env.DB)
-  const user = await db.query.users.findFirst({
-    where: eq(users.id, payload.sub),
-  })
-
-  if (!user) {
-    return c.json({ error: 'User not found' }, 401)
+  if (result.error !== undefined) {
+    return c.json({ error: result.error }, 401)
   }
 
   // Attach user to context
-  c.set('user', user as User)
+  c.set('user', result.user)
+  c.set('auth', result.auth)
 
   await next()
 }
@@ -43,22 +45,152 @@ export async function authMiddleware(c: Context, next: Next) {
  * Optional auth middleware - adds user to context if authenticated, but doesn't require it
  */
 export async function optionalAuthMiddleware(c: Context, next: Next) {
-  const accessToken = getCookie(c, 'access_token')
+  const token = getRequestToken(c)
 
-  if (accessToken) {
-    const payload = await verifyAccessToken(c, accessToken)
+  if (token) {
+    const result = await authenticate(c, token)
 
-    if (payload) {
-      const db = getDB(c.env.DB)
-      const user = await db.query.users.findFirst({
-        where: eq(users.id, payload.sub),
-      })
+    if (result.user) {
+      c.set('user', result.user)
+      c.set('auth', result.auth)
+    }
+  }
 
-      if (user) {
-        c.set('user', user as User)
-      }
+  await next()
+}
+
+/**
+ * Scope middleware - declared by routes after authMiddleware
+ * Sessions have every scope; personal access tokens need the scope unless they are unscoped.
+ */
+export function requireScope(scope: TokenScope) {
+  return async (c: Context, next: Next) => {
+    const denied = checkScope(c, scope)
+
+    if (denied) {
+      return denied
     }
+
+    await next()
+  }
+}
+
+/**
+ * Scope check for routes whose scope depends on the request; returns the error response, or
+ * null when the request may go on
+ */
+export function checkScope(c: Context, scope: TokenScope): Response | null {
+  const auth: AuthInfo | undefined = c.get('auth')
+
+  if (!auth) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+
+  if (auth.scopes && !auth.scopes.includes(scope)) {
+    return c.json({ error: `Token is missing the ${scope} scope` }, 403)
+  }
+
+  return null
+}
+
+/**
+ * Session middleware - declared by routes that personal access tokens must not reach,
+ * such as managing sessions and tokens themselves
+ */
+export async function requireSessionAuth(c: Context, next: Next) {
+  const auth: AuthInfo | undefined = c.get('auth')
+
+  if (auth?.method !== 'session') {
+    return c.json({ error: 'This endpoint requires a browser session' }, 403)
   }
 
   await next()
 }
+
+/**
+ * Read the bearer token, falling back to the access_token cookie
+ */
+function getRequestToken(c: Context): string | undefined {
+  const authorization = c.req.header('Authorization')
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+  return match ? match[1] : getCookie(c, 'access_token')
+}
+
+async function authenticate(c: Context, token: string): Promise<AuthResult> {
+  if (isPersonalAccessToken(token)) {
+    return authenticatePersonalAccessToken(c, token)
+  }
+  return authenticateAccessToken(c, token)
+}
+
+/**
+ * Verify a personal access token and load its user
+ */
+async function authenticatePersonalAccessToken(c: Context, token: string): Promise<AuthResult> {
+  const db = getDB(c.env.DB)
+  const row = await findPersonalAccessToken(db, token)
+
+  if (!row) {
+    return { error: 'Invalid or expired token' }
+  }
+
+  // Usage tracking must not delay the request
+  c.executionCtx.waitUntil(touchPersonalAccessToken(db, row.tokenId))
+
+  return {
+    user: row.user,
+    auth: { method: 'token', scopes: row.scopes, tokenId: row.tokenId },
+  }
+}
+
+/**
+ * Verify an access token and load its user
+ * The user row and the token's session are read in one query; tokens whose session was
+ * revoked or whose user's token version was bumped are rejected before they expire.
+ */
+async function authenticateAccessToken(c: Context, accessToken: string): Promise<AuthResult> {
+  const payload = await verifyAccessToken(c, accessToken)
+
+  if (!payload) {
+    return { error: 'Invalid or expired token' }
+  }
+
+  const db = getDB(c.env.DB)
+  const [row] = await db
+    .select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      avatarUrl: users.avatarUrl,
+      createdAt: users.createdAt,
+      updatedAt: users.updatedAt,
+      tokenVersion: users.tokenVersion,
+      sessionId: sessions.id,
+    })
+    .from(users)
+    .leftJoin(
+      sessions,
+      and(
+        eq(sessions.userId, users.id),
+        eq(sessions.familyId, String(payload.sid)),
+        isNull(sessions.consumedAt),
+        gt(sessions.expiresAt, new Date().toISOString())
+      )
+    )
+    .where(eq(users.id, payload.sub))
+    .limit(1)
+
+  if (!row) {
+    return { error: 'User not found' }
+  }
+
+  if (!row.sessionId || row.tokenVersion !== payload.ver) {
+    return { error: 'Token revoked' }
+  }
+
+  const { id, username, email, avatarUrl, createdAt, updatedAt } = row
+  return {
+    user: { id, username, email, avatarUrl, createdAt, updatedAt },
+    auth: { method: 'session', scopes: null },
+  }
+}
@@ -0,0 +1,127 @@
+import type { Context } from 'hono'
+import { sign, verify } from 'hono/jwt'
+import { getCookie, setCookie, deleteCookie } from 'hono/cookie'
+import type { IdentityProfile, IdentityProvider, OAuthFlowPayload } from '../types/auth'
+import { generateStateToken, verifyStateToken } from './jwt'
+
+const OAUTH_FLOW_COOKIE = 'oauth_flow'
+const OAUTH_FLOW_EXPIRES_IN = 10 * 60 // 10 minutes, same as the state token
+
+export interface AuthorizationResult {
+  profile: IdentityProfile
+  // Set when the flow links an identity to this signed-in user instead of signing in
+  linkUserId?: string
+}
+
+// Why a callback was refused; also the `?error=` code the homepage shows
+export type AuthorizationError = 'missing_params' | 'invalid_state' | 'auth_failed'
+
+/**
+ * Redirect the user to the provider's authorization page
+ * The PKCE verifier and nonce stay in a signed, httpOnly cookie scoped to /api/auth.
+ */
+export async function beginAuthorization(
+  c: Context,
+  provider: IdentityProvider,
+  options: { linkUserId?: string } = {}
+) {
+  const state = await generateStateToken(c)
+  const codeVerifier = randomToken()
+  const nonce = randomToken()
+
+  const flow: OAuthFlowPayload = {
+    provider: provider.id,
+    state,
+    codeVerifier,
+    nonce,
+    linkUserId: options.linkUserId,
+    exp: Math.floor(Date.now() / 1000) + OAUTH_FLOW_EXPIRES_IN,
+  }
+
+  setCookie(c, OAUTH_FLOW_COOKIE, await sign(flow, c.env.JWT_SECRET), {
+    httpOnly: true,
+    secure: c.env.APP_URL.startsWith('https://'),
+    sameSite: 'Lax',
+    path: '/api/auth',
+    maxAge: OAUTH_FLOW_EXPIRES_IN,
+  })
+
+  const url = await provider.getAuthorizationUrl({
+    redirectUri: callbackUrl(c, provider),
+    state,
+    codeChallenge: await codeChallenge(codeVerifier),
+    nonce,
+  })
+
+  return c.redirect(url)
+}
+
+/**
+ * Validate the provider callback and exchange the code for the user's profile
+ * Returns the reason instead when anything is off.
+ */
+export async function completeAuthorization(
+  c: Context,
+  provider: IdentityProvider
+): Promise<AuthorizationResult | { error: AuthorizationError }> {
+  const { code, state } = c.req.query()
+
+  if (!code || !state) {
+    return { error: 'missing_params' }
+  }
+
+  // Verify state token and bind it to the browser that started the flow
+  const statePayload = await verifyStateToken(c, state)
+  const flow = await readFlowCookie(c)
+  deleteCookie(c, OAUTH_FLOW_COOKIE, { path: '/api/auth' })
+
+  if (!statePayload || flow?.state !== state || flow.provider !== provider.id) {
+    return { error: 'invalid_state' }
+  }
+
+  try {
+    const profile = await provider.exchangeCode({
+      code,
+      redirectUri: callbackUrl(c, provider),
+      codeVerifier: flow.codeVerifier,
+      nonce: flow.nonce,
+    })
+    return { profile, linkUserId: flow.linkUserId }
+  } catch (error) {
+    console.error(`${provider.name} OAuth error:`, error)
+    return { error: 'auth_failed' }
+  }
+}
+
+async function readFlowCookie(c: Context): Promise<OAuthFlowPayload | null> {
+  const cookie = getCookie(c, OAUTH_FLOW_COOKIE)
+  if (!cookie) {
+    return null
+  }
+
+  try {
+    return (await verify(cookie, c.env.JWT_SECRET)) as OAuthFlowPayload
+  } catch {
+    return null
+  }
+}
+
+function callbackUrl(c: Context, provider: IdentityProvider): string {
+  return `${c.env.APP_URL}/api/auth/${provider.id}/callback`
+}
+
+function randomToken(): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+async function codeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))
+  return base64Url(new Uint8Array(digest))
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
@@ -0,0 +1,135 @@
+import { createGitHubClient } from '../../github/client'
+import { GitHubError } from '../../github/errors'
+import type {
+  GitHubTokenError,
+  GitHubTokenResponse,
+  GitHubUser,
+  GitHubUserTokens,
+  IdentityProfile,
+  IdentityProvider,
+} from '../../types/auth'
+
+/**
+ * GitHub sign-in through the GitHub App's OAuth credentials
+ */
+export function createGitHubProvider(env: Env): IdentityProvider {
+  return {
+    id: 'github',
+    name: 'GitHub',
+
+    async getAuthorizationUrl({ redirectUri, state }) {
+      const params = new URLSearchParams({
+        client_id: env.GITHUB_APP_CLIENT_ID,
+        redirect_uri: redirectUri,
+        scope: 'user:email',
+        state,
+      })
+
+      return `https://github.com/login/oauth/authorize?${params}`
+    },
+
+    async exchangeCode({ code }) {
+      const tokenData = await requestUserToken(env, { code })
+      const githubUser = await fetchUser(env, tokenData.access_token)
+      return { ...toIdentityProfile(githubUser), githubTokens: toUserTokens(tokenData) }
+    },
+  }
+}
+
+/**
+ * Trade a refresh token for a new user token pair
+ * GitHub rotates refresh tokens: the one passed in stops working.
+ */
+export async function refreshGitHubUserToken(
+  env: Env,
+  refreshToken: string
+): Promise<GitHubUserTokens> {
+  const tokenData = await requestUserToken(env, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  })
+  return toUserTokens(tokenData)
+}
+
+/**
+ * Call GitHub's OAuth token endpoint with the app's client credentials
+ * This lives on github.com rather than the REST API, so it does not go through the GitHub client.
+ */
+async function requestUserToken(
+  env: Env,
+  params: Record<string, string>
+): Promise<GitHubTokenResponse> {
+  const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    },
+    body: JSON.stringify({
+      client_id: env.GITHUB_APP_CLIENT_ID,
+      client_secret: env.GITHUB_APP_CLIENT_SECRET,
+      ...params,
+    }),
+  })
+
+  if (!tokenResponse.ok) {
+    throw new Error(`GitHub token request failed: ${tokenResponse.status}`)
+  }
+
+  const tokenData: GitHubTokenResponse | GitHubTokenError = await tokenResponse.json()
+
+  if ('error' in tokenData) {
+    throw new Error(`GitHub token request failed: ${tokenData.error}`)
+  }
+
+  return tokenData
+}
+
+/**
+ * Fetch the user behind a token, including their primary email if it is not public
+ */
+async function fetchUser(env: Env, accessToken: string): Promise<GitHubUser> {
+  const client = createGitHubClient({ apiUrl: env.GITHUB_API_URL, token: accessToken })
+  const userData = await client.request<GitHubUser>('/user')
+
+  // Fetch user email if not public; sign-in still works without it
+  if (!userData.email) {
+    try {
+      const emails =
+        await client.request<Array<{ email: string; primary: boolean; verified: boolean }>>(
+          '/user/emails'
+        )
+      const primaryEmail = emails.find((e) => e.primary && e.verified)
+      if (primaryEmail) {
+        userData.email = primaryEmail.email
+      }
+    } catch (error) {
+      if (!(error instanceof GitHubError)) {
+        throw error
+      }
+    }
+  }
+
+  return userData
+}
+
+function toUserTokens(tokenData: GitHubTokenResponse): GitHubUserTokens {
+  const expiresAt = (seconds?: number) =>
+    seconds ? new Date(Date.now() + seconds * 1000).toISOString() : null
+
+  return {
+    accessToken: tokenData.access_token,
+    refreshToken: tokenData.refresh_token ?? null,
+    accessTokenExpiresAt: expiresAt(tokenData.expires_in),
+    refreshTokenExpiresAt: expiresAt(tokenData.refresh_token_expires_in),
+  }
+}
+
+function toIdentityProfile(githubUser: GitHubUser): IdentityProfile {
+  return {
+    subject: String(githubUser.id),
+    username: githubUser.login,
+    email: githubUser.email,
+    avatarUrl: githubUser.avatar_url,
+  }
+}
@@ -0,0 +1,33 @@
+import type { IdentityProvider, OIDCProviderConfig } from '../../types/auth'
+import { createGitHubProvider } from './github'
+import { createOIDCProvider } from './oidc'
+
+/**
+ * Every identity provider enabled for this deployment
+ * GitHub is always available; OIDC providers come from the OIDC_PROVIDERS secret.
+ */
+export function listIdentityProviders(env: Env): IdentityProvider[] {
+  return [createGitHubProvider(env), ...parseOIDCProviders(env).map(createOIDCProvider)]
+}
+
+/**
+ * Look up an enabled identity provider by id
+ */
+export function getIdentityProvider(env: Env, id: string): IdentityProvider | null {
+  return listIdentityProviders(env).find((provider) => provider.id === id) ?? null
+}
+
+function parseOIDCProviders(env: Env): OIDCProviderConfig[] {
+  if (!env.OIDC_PROVIDERS) {
+    return []
+  }
+
+  try {
+    const configs: OIDCProviderConfig[] = JSON.parse(env.OIDC_PROVIDERS)
+    // 'github' is reserved for the built-in provider
+    return configs.filter((config) => config.id !== 'github')
+  } catch (error) {
+    console.error('Invalid OIDC_PROVIDERS configuration:', error)
+    return []
+  }
+}
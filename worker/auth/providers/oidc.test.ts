@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest'
+import { SELF, env, fetchMock } from 'cloudflare:test'
+import { and, eq } from 'drizzle-orm'
+import { createFakeOIDCServer } from '../../test/fake-oidc'
+import { cookiesFrom, startSignIn } from '../../test/helpers'
+import { getDB } from '../../db'
+import { identities, users } from '../../../db/schema'
+
+type FakeOIDCServer = Awaited<ReturnType<typeof createFakeOIDCServer>>
+
+function callback(provider: string, params: Record<string, string>, cookie = '') {
+  return SELF.fetch(
+    `http://localhost/api/auth/${provider}/callback?${new URLSearchParams(params)}`,
+    { headers: { Cookie: cookie }, redirect: 'manual' }
+  )
+}
+
+describe('Identity providers', () => {
+  it('lists the configured providers', async () => {
+    const response = await SELF.fetch('http://localhost/api/auth/providers')
+    expect(await response.json()).toEqual({
+      providers: [
+        { id: 'github', name: 'GitHub' },
+        { id: 'acme', name: 'Acme SSO' },
+      ],
+    })
+  })
+})
+
+describe('OIDC sign-in', () => {
+  let idp: FakeOIDCServer
+
+  beforeAll(async () => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+    idp = await createFakeOIDCServer({ issuer: 'https://idp.test', clientId: 'codiro-test' })
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  it('redirects to the discovered authorization endpoint with PKCE and a nonce', async () => {
+    const { authorizationUrl } = await startSignIn('acme')
+
+    expect(authorizationUrl.origin + authorizationUrl.pathname).toBe('https://idp.test/authorize')
+    expect(Object.fromEntries(authorizationUrl.searchParams)).toMatchObject({
+      response_type: 'code',
+      client_id: 'codiro-test',
+      redirect_uri: `${env.APP_URL}/api/auth/acme/callback`,
+      scope: 'openid profile email',
+      code_challenge_method: 'S256',
+      code_challenge: expect.any(String),
+      nonce: expect.any(String),
+      state: expect.any(String),
+    })
+  })
+
+  it('signs in with a verified ID token and reuses the identity next time', async () => {
+    const claims = {
+      sub: 'acme-user-1',
+      preferred_username: 'ada',
+      email: 'ada@example.com',
+      email_verified: true,
+      picture: 'https://idp.test/ada.png',
+    }
+
+    const first = await startSignIn('acme')
+    const code = await idp.authorize(first.authorizationUrl, claims)
+    idp.expectTokenExchange()
+    const response = await callback('acme', { code, state: first.state }, first.cookie)
+
+    expect(response.headers.get('Location')).toBe('/')
+    expect(cookiesFrom(response)).toContain('access_token=')
+    expect(await idp.verifiedPkce(code)).toBe(true)
+
+    const db = getDB(env.DB)
+    const identity = await db.query.identities.findFirst({
+      where: and(eq(identities.provider, 'acme'), eq(identities.subject, 'acme-user-1')),
+    })
+    expect(identity).toMatchObject({ username: 'ada', email: 'ada@example.com' })
+    const user = await db.query.users.findFirst({ where: eq(users.id, identity!.userId) })
+    expect(user).toMatchObject({ username: 'ada', avatarUrl: 'https://idp.test/ada.png' })
+
+    const second = await startSignIn('acme')
+    const secondCode = await idp.authorize(second.authorizationUrl, {
+      ...claims,
+      preferred_username: 'ada.lovelace',
+    })
+    idp.expectTokenExchange()
+    await callback('acme', { code: secondCode, state: second.state }, second.cookie)
+
+    const accounts = await db.query.identities.findMany({ where: eq(identities.provider, 'acme') })
+    expect(accounts).toHaveLength(1)
+    const renamed = await db.query.users.findFirst({ where: eq(users.id, identity!.userId) })
+    expect(renamed?.username).toBe('ada.lovelace')
+  })
+
+  it('drops unverified email addresses', async () => {
+    const { authorizationUrl, state, cookie } = await startSignIn('acme')
+    const code = await idp.authorize(authorizationUrl, {
+      sub: 'acme-user-2',
+      email: 'someone@example.com',
+      email_verified: false,
+    })
+    idp.expectTokenExchange()
+    await callback('acme', { code, state }, cookie)
+
+    const identity = await getDB(env.DB).query.identities.findFirst({
+      where: eq(identities.subject, 'acme-user-2'),
+    })
+    expect(identity).toMatchObject({ username: 'acme-user-2', email: null })
+  })
+
+  it.each([
+    ['a different nonce', { nonce: 'replayed' }],
+    ['another audience', { aud: 'someone-else' }],
+    ['another issuer', { iss: 'https://evil.test' }],
+    ['an expired token', { exp: Math.floor(Date.now() / 1000) - 60 }],
+  ])('rejects ID tokens with %s', async (_, overrides) => {
+    const { authorizationUrl, state, cookie } = await startSignIn('acme')
+    const code = await idp.authorize(authorizationUrl, { sub: 'acme-user-3', ...overrides })
+    idp.expectTokenExchange()
+
+    const response = await callback('acme', { code, state }, cookie)
+
+    expect(response.headers.get('Location')).toBe('/?error=auth_failed')
+    const identity = await getDB(env.DB).query.identities.findFirst({
+      where: eq(identities.subject, 'acme-user-3'),
+    })
+    expect(identity).toBeUndefined()
+  })
+
+  it('rejects callbacks that were not started by this browser', async () => {
+    const { state } = await startSignIn('acme')
+    const response = await callback('acme', { code: 'abc', state })
+    expect(response.headers.get('Location')).toBe('/?error=invalid_state')
+  })
+
+  it('rejects a flow started for another provider', async () => {
+    const { state, cookie } = await startSignIn('github')
+    const response = await callback('acme', { code: 'abc', state }, cookie)
+    expect(response.headers.get('Location')).toBe('/?error=invalid_state')
+  })
+
+  it('returns 404 for unknown providers', async () => {
+    const response = await SELF.fetch('http://localhost/api/auth/nope', { redirect: 'manual' })
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,177 @@
+import { decode, verify } from 'hono/jwt'
+import type {
+  IdentityProfile,
+  IdentityProvider,
+  OIDCDiscoveryDocument,
+  OIDCIdTokenClaims,
+  OIDCProviderConfig,
+  OIDCTokenResponse,
+} from '../../types/auth'
+
+const DISCOVERY_CACHE_TTL = 60 * 60 * 1000 // 1 hour
+const ID_TOKEN_ALGORITHMS = ['RS256', 'ES256'] as const
+
+type IdTokenAlgorithm = (typeof ID_TOKEN_ALGORITHMS)[number]
+type PublicJsonWebKey = JsonWebKey & { kid?: string; use?: string }
+
+// Discovery documents per issuer, shared across requests in this isolate
+const discoveryCache = new Map<string, { document: OIDCDiscoveryDocument; fetchedAt: number }>()
+
+/**
+ * Generic OpenID Connect provider (GitLab, Keycloak, Okta, ...)
+ * Endpoints come from the issuer's discovery document; sign-in uses PKCE and a nonce,
+ * and the profile is read from the verified ID token.
+ */
+export function createOIDCProvider(config: OIDCProviderConfig): IdentityProvider {
+  return {
+    id: config.id,
+    name: config.name,
+
+    async getAuthorizationUrl({ redirectUri, state, codeChallenge, nonce }) {
+      const discovery = await discover(config.issuer)
+      const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.clientId,
+        redirect_uri: redirectUri,
+        scope: (config.scopes ?? ['openid', 'profile', 'email']).join(' '),
+        state,
+        nonce,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+      })
+
+      return `${discovery.authorization_endpoint}?${params}`
+    },
+
+    async exchangeCode({ code, redirectUri, codeVerifier, nonce }) {
+      const discovery = await discover(config.issuer)
+
+      const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: codeVerifier,
+        client_id: config.clientId,
+      })
+      if (config.clientSecret) {
+        body.set('client_secret', config.clientSecret)
+      }
+
+      const tokenResponse = await fetch(discovery.token_endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+        body,
+      })
+
+      if (!tokenResponse.ok) {
+        throw new Error(`Failed to exchange code for token: ${tokenResponse.status}`)
+      }
+
+      const tokenData: OIDCTokenResponse = await tokenResponse.json()
+      if (!tokenData.id_token) {
+        throw new Error('Token response did not include an ID token')
+      }
+
+      const claims = await verifyIdToken(tokenData.id_token, discovery, config.clientId, nonce)
+      return toIdentityProfile(claims)
+    },
+  }
+}
+
+/**
+ * Fetch (or reuse) the issuer's OpenID configuration
+ */
+async function discover(issuer: string): Promise<OIDCDiscoveryDocument> {
+  const cached = discoveryCache.get(issuer)
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL) {
+    return cached.document
+  }
+
+  const response = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`, {
+    headers: { Accept: 'application/json' },
+  })
+
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed for ${issuer}: ${response.status}`)
+  }
+
+  const document: OIDCDiscoveryDocument = await response.json()
+  if (document.issuer !== issuer) {
+    throw new Error(`OIDC discovery issuer mismatch: expected ${issuer}, got ${document.issuer}`)
+  }
+
+  discoveryCache.set(issuer, { document, fetchedAt: Date.now() })
+  return document
+}
+
+/**
+ * Verify the ID token signature against the issuer's JWKS and check its claims
+ */
+async function verifyIdToken(
+  idToken: string,
+  discovery: OIDCDiscoveryDocument,
+  clientId: string,
+  nonce: string
+): Promise<OIDCIdTokenClaims> {
+  const { header } = decode(idToken)
+  const alg = header.alg as IdTokenAlgorithm
+  if (!ID_TOKEN_ALGORITHMS.includes(alg)) {
+    throw new Error(`Unsupported ID token algorithm: ${header.alg}`)
+  }
+
+  const jwksResponse = await fetch(discovery.jwks_uri, { headers: { Accept: 'application/json' } })
+  if (!jwksResponse.ok) {
+    throw new Error(`Failed to fetch JWKS: ${jwksResponse.status}`)
+  }
+
+  const { keys }: { keys: PublicJsonWebKey[] } = await jwksResponse.json()
+  const key = keys.find(
+    (candidate) =>
+      (header.kid === undefined || candidate.kid === header.kid) &&
+      (candidate.alg === undefined || candidate.alg === alg) &&
+      candidate.use !== 'enc'
+  )
+  if (!key) {
+    throw new Error('No matching key for ID token')
+  }
+
+  // Checks signature, exp, nbf, iat and iss
+  const claims = (await verify(idToken, key, {
+    alg,
+    iss: discovery.issuer,
+  })) as OIDCIdTokenClaims
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!audiences.includes(clientId)) {
+    throw new Error('ID token audience mismatch')
+  }
+  if (audiences.length > 1 && claims.azp !== clientId) {
+    throw new Error('ID token authorized party mismatch')
+  }
+  if (typeof claims.exp !== 'number') {
+    throw new Error('ID token has no expiry')
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce mismatch')
+  }
+  if (!claims.sub) {
+    throw new Error('ID token has no subject')
+  }
+
+  return claims
+}
+
+function toIdentityProfile(claims: OIDCIdTokenClaims): IdentityProfile {
+  // Unverified addresses are dropped rather than shown as the user's email
+  const email = claims.email && claims.email_verified !== false ? claims.email : null
+
+  return {
+    subject: claims.sub,
+    username: claims.preferred_username ?? claims.nickname ?? email?.split('@')[0] ?? claims.sub,
+    email,
+    avatarUrl: claims.picture ?? null,
+  }
+}
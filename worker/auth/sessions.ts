@@ -0,0 +1,194 @@
+import type { Context } from 'hono'
+import { and, eq, gt, isNull, lt, ne, sql } from 'drizzle-orm'
+import type { RefreshTokenPayload } from '../types/auth'
+import type { Database } from '../db'
+import { sessions, users, type Session } from '../../db/schema'
+
+export const SESSION_EXPIRES_IN = 30 * 24 * 60 * 60 * 1000 // 30 days
+// A token consumed this recently is treated as a concurrent refresh, not as reuse
+export const REFRESH_REUSE_GRACE_PERIOD = 30 * 1000 // 30 seconds
+
+/**
+ * Client details recorded on a session when it is created or refreshed
+ */
+export interface SessionClient {
+  userAgent: string | null
+  ipAddress: string | null
+  country: string | null
+}
+
+export type RotateSessionResult =
+  | { status: 'rotated'; session: Session }
+  | { status: 'not_found' }
+  | { status: 'expired' }
+  | { status: 'race' }
+  | { status: 'reused' }
+
+/**
+ * Read the client details of the current request
+ */
+export function getSessionClient(c: Context): SessionClient {
+  const cf = c.req.raw.cf as { country?: string } | undefined
+  return {
+    userAgent: c.req.header('User-Agent') ?? null,
+    ipAddress: c.req.header('CF-Connecting-IP') ?? null,
+    country: cf?.country ?? null,
+  }
+}
+
+/**
+ * Create a session row for a new refresh token
+ * Without a family the session starts a new one (a new sign-in); successors keep the family's
+ * start and expiry, so refreshing never extends a sign-in past 30 days.
+ */
+export async function createSession(
+  db: Database,
+  userId: string,
+  client: SessionClient,
+  family?: Pick<Session, 'familyId' | 'createdAt' | 'expiresAt'>
+): Promise<Session> {
+  const id = crypto.randomUUID()
+  const now = new Date()
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      id,
+      userId,
+      familyId: family?.familyId ?? id,
+      expiresAt: family?.expiresAt ?? new Date(now.getTime() + SESSION_EXPIRES_IN).toISOString(),
+      createdAt: family?.createdAt ?? undefined,
+      ...client,
+      lastUsedAt: now.toISOString(),
+    })
+    .returning()
+  return session
+}
+
+/**
+ * Consume the refresh token's session and issue a successor in the same family
+ * Presenting an already consumed token outside the grace period revokes the whole family. Rows
+ * consumed before the grace period are deleted on rotation; their tokens still name the family,
+ * so presenting one while the family is alive counts as reuse too.
+ */
+export async function rotateSession(
+  db: Database,
+  token: Pick<RefreshTokenPayload, 'sessionId' | 'familyId'>,
+  client: SessionClient
+): Promise<RotateSessionResult> {
+  const session = await db.query.sessions.findFirst({ where: eq(sessions.id, token.sessionId) })
+
+  if (!session) {
+    if (token.familyId === undefined) {
+      return { status: 'not_found' }
+    }
+    const revoked = await revokeSessionFamily(db, token.familyId)
+    return revoked ? { status: 'reused' } : { status: 'not_found' }
+  }
+
+  if (new Date(session.expiresAt) < new Date()) {
+    await revokeSessionFamily(db, session.familyId)
+    return { status: 'expired' }
+  }
+
+  // Only one request can consume a token; the conditional update decides the winner
+  const [consumed] = await db
+    .update(sessions)
+    .set({ consumedAt: new Date().toISOString() })
+    .where(and(eq(sessions.id, session.id), isNull(sessions.consumedAt)))
+    .returning()
+
+  if (!consumed) {
+    const current = await db.query.sessions.findFirst({ where: eq(sessions.id, session.id) })
+    if (!current?.consumedAt) {
+      return { status: 'not_found' }
+    }
+
+    const consumedFor = Date.now() - new Date(current.consumedAt).getTime()
+    if (consumedFor <= REFRESH_REUSE_GRACE_PERIOD) {
+      return { status: 'race' }
+    }
+
+    await revokeSessionFamily(db, session.familyId)
+    return { status: 'reused' }
+  }
+
+  const successor = await createSession(db, session.userId, client, session)
+  const graceStart = new Date(Date.now() - REFRESH_REUSE_GRACE_PERIOD).toISOString()
+  await db
+    .delete(sessions)
+    .where(and(eq(sessions.familyId, session.familyId), lt(sessions.consumedAt, graceStart)))
+
+  return { status: 'rotated', session: successor }
+}
+
+/**
+ * Delete every session in a family, invalidating all of its refresh tokens
+ * Returns false if the family had no sessions left.
+ */
+export async function revokeSessionFamily(db: Database, familyId: string) {
+  const deleted = await db
+    .delete(sessions)
+    .where(eq(sessions.familyId, familyId))
+    .returning({ id: sessions.id })
+  return deleted.length > 0
+}
+
+/**
+ * List a user's active sign-ins, one entry per family
+ * The family id identifies the sign-in across refreshes and is exposed as its id.
+ */
+export async function listActiveSessions(db: Database, userId: string) {
+  const active = await db.query.sessions.findMany({
+    where: and(
+      eq(sessions.userId, userId),
+      isNull(sessions.consumedAt),
+      gt(sessions.expiresAt, new Date().toISOString())
+    ),
+  })
+
+  return active
+    .map((session) => ({
+      id: session.familyId,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      country: session.country,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+    }))
+    .sort((a, b) => (b.lastUsedAt ?? '').localeCompare(a.lastUsedAt ?? ''))
+}
+
+/**
+ * Revoke one of a user's sign-ins; returns false if the family does not belong to the user
+ */
+export async function revokeUserSession(db: Database, userId: string, familyId: string) {
+  const deleted = await db
+    .delete(sessions)
+    .where(and(eq(sessions.userId, userId), eq(sessions.familyId, familyId)))
+    .returning({ id: sessions.id })
+  return deleted.length > 0
+}
+
+/**
+ * Revoke all of a user's sign-ins except one
+ */
+export async function revokeOtherSessions(db: Database, userId: string, keepFamilyId: string) {
+  await db
+    .delete(sessions)
+    .where(and(eq(sessions.userId, userId), ne(sessions.familyId, keepFamilyId)))
+}
+
+/**
+ * Revoke every sign-in of a user and invalidate all access tokens issued to them
+ * Bumping the token version makes authMiddleware reject tokens that are still within their expiry.
+ */
+export async function revokeAllUserSessions(db: Database, userId: string) {
+  await db.batch([
+    db
+      .update(users)
+      .set({ tokenVersion: sql`${users.tokenVersion} + 1`, updatedAt: new Date().toISOString() })
+      .where(eq(users.id, userId)),
+    db.delete(sessions).where(eq(sessions.userId, userId)),
+  ])
+}
@@ -0,0 +1,165 @@
+import { and, eq } from 'drizzle-orm'
+import type { Database } from '../db'
+import { personalAccessTokens, users } from '../../db/schema'
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'codiro_pat_'
+
+export const TOKEN_SCOPES = [
+  'projects:read',
+  'projects:write',
+  'jobs:read',
+  'jobs:write',
+  'audit:read',
+  'workspaces:read',
+  'workspaces:write',
+] as const
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number]
+
+const MAX_TOKEN_NAME_LENGTH = 100
+const MAX_TOKEN_LIFETIME_DAYS = 365
+
+export interface CreateTokenInput {
+  name: string
+  scopes: TokenScope[] | null
+  expiresAt: string | null
+}
+
+/**
+ * Generate a new personal access token and the values stored for it
+ */
+export async function generatePersonalAccessToken() {
+  const random = crypto.getRandomValues(new Uint8Array(32))
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${base64url(random)}`
+  return {
+    token,
+    tokenHash: await hashToken(token),
+    tokenPrefix: token.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 6),
+  }
+}
+
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)
+}
+
+export function isTokenScope(scope: unknown): scope is TokenScope {
+  return TOKEN_SCOPES.includes(scope as TokenScope)
+}
+
+/**
+ * Validate the body of POST /api/auth/tokens
+ */
+export function parseCreateTokenInput(
+  body: unknown
+): { data: CreateTokenInput; error?: undefined } | { data?: undefined; error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const { name, scopes, expiresInDays } = body as Record<string, unknown>
+
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_TOKEN_NAME_LENGTH) {
+    return {
+      error: `name must be a non-empty string of at most ${MAX_TOKEN_NAME_LENGTH} characters`,
+    }
+  }
+
+  if (
+    scopes !== undefined &&
+    scopes !== null &&
+    (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isTokenScope))
+  ) {
+    return { error: `scopes must be a non-empty array of: ${TOKEN_SCOPES.join(', ')}` }
+  }
+
+  if (
+    expiresInDays !== undefined &&
+    expiresInDays !== null &&
+    (typeof expiresInDays !== 'number' ||
+      !Number.isInteger(expiresInDays) ||
+      expiresInDays < 1 ||
+      expiresInDays > MAX_TOKEN_LIFETIME_DAYS)
+  ) {
+    return { error: `expiresInDays must be an integer between 1 and ${MAX_TOKEN_LIFETIME_DAYS}` }
+  }
+
+  return {
+    data: {
+      name: name.trim(),
+      scopes: scopes ? [...new Set(scopes as TokenScope[])] : null,
+      expiresAt:
+        typeof expiresInDays === 'number'
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+    },
+  }
+}
+
+/**
+ * Look up an unexpired personal access token together with its user
+ */
+export async function findPersonalAccessToken(db: Database, token: string) {
+  const [row] = await db
+    .select({
+      tokenId: personalAccessTokens.id,
+      scopes: personalAccessTokens.scopes,
+      expiresAt: personalAccessTokens.expiresAt,
+      user: {
+        id: users.id,
+        username: users.username,
+        email: users.email,
+        avatarUrl: users.avatarUrl,
+        createdAt: users.createdAt,
+        updatedAt: users.updatedAt,
+      },
+    })
+    .from(personalAccessTokens)
+    .innerJoin(users, eq(users.id, personalAccessTokens.userId))
+    .where(eq(personalAccessTokens.tokenHash, await hashToken(token)))
+    .limit(1)
+
+  if (!row || (row.expiresAt && new Date(row.expiresAt) <= new Date())) {
+    return null
+  }
+
+  return row
+}
+
+/**
+ * Record that a token was used
+ */
+export async function touchPersonalAccessToken(db: Database, tokenId: string) {
+  await db
+    .update(personalAccessTokens)
+    .set({ lastUsedAt: new Date().toISOString() })
+    .where(eq(personalAccessTokens.id, tokenId))
+}
+
+/**
+ * Delete one of a user's tokens; returns false if the token does not belong to the user
+ */
+export async function deletePersonalAccessToken(db: Database, userId: string, tokenId: string) {
+  const deleted = await db
+    .delete(personalAccessTokens)
+    .where(and(eq(personalAccessTokens.id, tokenId), eq(personalAccessTokens.userId, userId)))
+    .returning({ id: personalAccessTokens.id })
+  return deleted.length > 0
+}
+
+/**
+ * SHA-256 of a secret token, as stored in place of the token
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Random bytes of a token as unpadded base64url
+ */
+export function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { env } from 'cloudflare:test'
+import { asc, eq } from 'drizzle-orm'
+import { applyPush, findSnapshot, isIndexable, refreshSnapshot } from './indexer'
+import { createFakeRepositoryClient } from '../test/fakes'
+import { createTestProject, createTestUser } from '../test/helpers'
+import { getDB } from '../db'
+import { repositoryChunks, repositoryFiles } from '../../db/schema'
+
+const appSource = Array.from({ length: 70 }, (_, i) => `export const line${i} = ${i}`).join('\n')
+
+const first = {
+  'src/app.ts': appSource,
+  'README.md': '# Codiro\n',
+  'logo.png': 'binary',
+  'node_modules/left-pad/index.js': 'module.exports = pad\n',
+  'data.txt': 'x'.repeat(200_000),
+}
+const second = {
+  'src/app.ts': `${appSource}\nexport const greeting = 'hello'\n`,
+  'src/greeting.ts': 'export function greet(name: string) {}\n',
+  'logo.png': 'binary',
+  'node_modules/left-pad/index.js': 'module.exports = pad\n',
+  'data.txt': 'x'.repeat(200_000),
+}
+
+async function setup() {
+  const db = getDB(env.DB)
+  const project = await createTestProject(await createTestUser())
+  const files = async () =>
+    db
+      .select({ path: repositoryFiles.path, status: repositoryFiles.status })
+      .from(repositoryFiles)
+      .where(eq(repositoryFiles.projectId, project.id))
+      .orderBy(asc(repositoryFiles.path))
+  return { db, project, files }
+}
+
+describe('isIndexable', () => {
+  it('leaves out vendored, generated, binary and large files', () => {
+    expect(isIndexable('src/app.ts', 1200)).toBe(true)
+    expect(isIndexable('vendor/lib.go')).toBe(false)
+    expect(isIndexable('pnpm-lock.yaml')).toBe(false)
+    expect(isIndexable('public/app.min.js')).toBe(false)
+    expect(isIndexable('assets/Logo.PNG')).toBe(false)
+    expect(isIndexable('data.txt', 200_000)).toBe(false)
+  })
+})
+
+describe('Repository snapshots', () => {
+  it('index the tree of a commit in line chunks', async () => {
+    const { db, project, files } = await setup()
+    const { client, requests } = createFakeRepositoryClient({ c1: first }, 'c1')
+
+    const result = await refreshSnapshot(db, client, project, 'c1')
+
+    expect(result).toEqual({ indexed: 2, removed: 0, pending: 0 })
+    expect(await files()).toEqual([
+      { path: 'README.md', status: 'indexed' },
+      { path: 'data.txt', status: 'skipped' },
+      { path: 'logo.png', status: 'skipped' },
+      { path: 'node_modules/left-pad/index.js', status: 'skipped' },
+      { path: 'src/app.ts', status: 'indexed' },
+    ])
+    expect(requests.filter((path) => path.startsWith('/git/blobs/'))).toHaveLength(2)
+    expect(await findSnapshot(db, project.id)).toMatchObject({
+      commitSha: 'c1',
+      status: 'ready',
+      fileCount: 5,
+      languages: { TypeScript: appSource.length, Markdown: 9 },
+    })
+
+    const chunks = await db
+      .select()
+      .from(repositoryChunks)
+      .where(eq(repositoryChunks.path, 'src/app.ts'))
+      .orderBy(asc(repositoryChunks.startLine))
+    expect(chunks.filter((chunk) => chunk.projectId === project.id)).toMatchObject([
+      { startLine: 1, endLine: 60, terms: { line0: 1, src: 1, app: 1 } },
+      { startLine: 61, endLine: 70 },
+    ])
+  })
+
+  it('apply a push by reading only the files it changed', async () => {
+    const { db, project, files } = await setup()
+    const { client, requests } = createFakeRepositoryClient({ c1: first, c2: second }, 'c2')
+    await refreshSnapshot(db, client, project, 'c1')
+    requests.length = 0
+
+    const result = await applyPush(db, client, project, 'c1', 'c2')
+
+    expect(result).toEqual({ indexed: 2, removed: 1, pending: 0 })
+    expect(requests).toEqual([
+      '/compare/c1...c2',
+      expect.stringMatching(/^\/git\/blobs\//),
+      expect.stringMatching(/^\/git\/blobs\//),
+    ])
+    expect(await files()).toEqual([
+      { path: 'data.txt', status: 'skipped' },
+      { path: 'logo.png', status: 'skipped' },
+      { path: 'node_modules/left-pad/index.js', status: 'skipped' },
+      { path: 'src/app.ts', status: 'indexed' },
+      { path: 'src/greeting.ts', status: 'indexed' },
+    ])
+    expect(await findSnapshot(db, project.id)).toMatchObject({ commitSha: 'c2', status: 'ready' })
+  })
+
+  it('re-read the tree when a push does not follow the snapshot', async () => {
+    const { db, project } = await setup()
+    const { client, requests } = createFakeRepositoryClient({ c1: first, c2: second }, 'c2')
+    await refreshSnapshot(db, client, project, 'c1')
+    requests.length = 0
+
+    await applyPush(db, client, project, 'c0', 'c2')
+
+    expect(requests[0]).toBe('/git/trees/c2?recursive=1')
+    expect(requests.filter((path) => path.startsWith('/git/blobs/'))).toHaveLength(2)
+    expect(await findSnapshot(db, project.id)).toMatchObject({ commitSha: 'c2', status: 'ready' })
+  })
+})
@@ -0,0 +1,452 @@
+import { and, asc, count, eq, inArray, isNotNull, isNull, ne, or, sql } from 'drizzle-orm'
+import type { Database } from '../db'
+import { createInstallationClient } from '../github/app'
+import type { GitHubClient } from '../github/client'
+import { encodePath } from '../github/git-data'
+import { detectLanguage } from './languages'
+import { termFrequencies, tokenize } from './terms'
+import {
+  projects,
+  repositoryChunks,
+  repositoryFiles,
+  repositorySnapshots,
+  type NewRepositoryChunk,
+  type NewRepositoryFile,
+  type Project,
+  type RepositorySnapshot,
+} from '../../db/schema'
+
+// Files a snapshot keeps from the tree; larger trees are truncated
+const MAX_TREE_FILES = 5000
+// Larger files are left out of the index
+const MAX_FILE_SIZE = 100_000
+// Blobs read per pass; a snapshot with files left over continues in the next pass
+const MAX_FILES_PER_PASS = 50
+const CHUNK_LINES = 60
+// The compare API lists at most 300 files; a push changing that many re-reads the tree
+const MAX_COMPARE_FILES = 300
+// Snapshots brought up to date per cron run, least recently updated first
+const MAX_SNAPSHOTS_PER_RUN = 5
+
+const VENDORED = /(^|\/)(node_modules|vendor|dist|build|coverage|\.git|\.next|target|__pycache__)\//
+const GENERATED =
+  /(^|\/)(package-lock\.json|pnpm-lock\.yaml|yarn\.lock|Cargo\.lock|poetry\.lock|Gemfile\.lock|composer\.lock|go\.sum)$|\.min\.(js|css)$/
+const BINARY =
+  /\.(png|jpe?g|gif|webp|bmp|ico|svg|pdf|zip|gz|tgz|tar|7z|woff2?|ttf|otf|eot|mp3|mp4|mov|webm|wasm|jar|class|exe|dll|so|dylib|bin|db|sqlite)$/i
+
+interface TreeEntry {
+  path: string
+  type: 'blob' | 'tree' | 'commit'
+  sha: string
+  size?: number
+}
+
+interface ComparedFile {
+  filename: string
+  previous_filename?: string
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged'
+  sha: string
+}
+
+export interface SnapshotPassResult {
+  // Files read and chunked, and files dropped from the snapshot
+  indexed: number
+  removed: number
+  // Files left for the next pass
+  pending: number
+}
+
+export type SnapshotUpdate =
+  // Re-read the tree at a commit, by default the head of the default branch
+  | { type: 'refresh'; commitSha?: string }
+  // Apply a push to the default branch
+  | { type: 'push'; before: string; after: string }
+
+/**
+ * Whether a file belongs in the index, judged by its path and (when known) size
+ * Vendored directories, lock files, minified bundles and binary formats are left out.
+ */
+export function isIndexable(path: string, size?: number | null): boolean {
+  if (VENDORED.test(path) || GENERATED.test(path) || BINARY.test(path)) {
+    return false
+  }
+  return size === undefined || size === null || size <= MAX_FILE_SIZE
+}
+
+/**
+ * Bring a project's snapshot to the tree of a commit
+ * Only files whose blob changed since the last pass are read again, so re-reading the tree
+ * after a push the snapshot missed costs one tree listing plus the changed files.
+ */
+export async function refreshSnapshot(
+  db: Database,
+  client: GitHubClient,
+  project: Project,
+  commitSha: string
+): Promise<SnapshotPassResult> {
+  const tree = await client.request<{ tree: TreeEntry[]; truncated: boolean }>(
+    `${repoPathOf(project)}/git/trees/${commitSha}?recursive=1`,
+    { cache: false }
+  )
+  const blobs = tree.tree.filter((entry) => entry.type === 'blob')
+  const kept = blobs.slice(0, MAX_TREE_FILES)
+
+  const existing = new Map(
+    (
+      await db
+        .select({ path: repositoryFiles.path, blobSha: repositoryFiles.blobSha })
+        .from(repositoryFiles)
+        .where(eq(repositoryFiles.projectId, project.id))
+    ).map((file) => [file.path, file.blobSha])
+  )
+  const keptPaths = new Set(kept.map((entry) => entry.path))
+
+  await writeFiles(
+    db,
+    project.id,
+    kept
+      .filter((entry) => existing.get(entry.path) !== entry.sha)
+      .map((entry) => fileRow(project.id, entry.path, entry.sha, entry.size ?? null))
+  )
+  const removed = [...existing.keys()].filter((path) => !keptPaths.has(path))
+  await removeFiles(db, project.id, removed)
+
+  await saveSnapshot(db, project.id, {
+    commitSha,
+    truncated: tree.truncated || blobs.length > MAX_TREE_FILES,
+  })
+  return { ...(await indexPendingFiles(db, client, project)), removed: removed.length }
+}
+
+/**
+ * Apply a push to the default branch, touching only the paths it changed
+ * Falls back to refreshSnapshot when the snapshot is not at the push's parent commit (missed
+ * or reordered deliveries, force pushes) or the push changed too many files to list.
+ */
+export async function applyPush(
+  db: Database,
+  client: GitHubClient,
+  project: Project,
+  before: string,
+  after: string
+): Promise<SnapshotPassResult> {
+  const snapshot = await findSnapshot(db, project.id)
+  if (!snapshot || snapshot.commitSha !== before || snapshot.truncated) {
+    return refreshSnapshot(db, client, project, after)
+  }
+
+  const comparison = await client.request<{ files?: ComparedFile[] }>(
+    `${repoPathOf(project)}/compare/${before}...${after}`,
+    { cache: false }
+  )
+  const files = comparison.files ?? []
+  if (files.length >= MAX_COMPARE_FILES) {
+    return refreshSnapshot(db, client, project, after)
+  }
+
+  const removed = files.flatMap((file) =>
+    file.status === 'removed'
+      ? [file.filename]
+      : file.status === 'renamed' && file.previous_filename
+        ? [file.previous_filename]
+        : []
+  )
+  await removeFiles(db, project.id, removed)
+  await writeFiles(
+    db,
+    project.id,
+    files
+      .filter((file) => file.status !== 'removed')
+      .map((file) => fileRow(project.id, file.filename, file.sha, null))
+  )
+
+  await saveSnapshot(db, project.id, { commitSha: after })
+  return { ...(await indexPendingFiles(db, client, project)), removed: removed.length }
+}
+
+/**
+ * Update a project's snapshot with its installation, recording a failure on the snapshot
+ */
+export async function updateRepositorySnapshot(
+  db: Database,
+  env: Env,
+  project: Project,
+  update: SnapshotUpdate = { type: 'refresh' }
+): Promise<SnapshotPassResult | null> {
+  try {
+    if (!project.installationId) {
+      throw new Error('Project is not linked to a GitHub App installation')
+    }
+    const client = await createInstallationClient(env, project.installationId)
+
+    if (update.type === 'push') {
+      return await applyPush(db, client, project, update.before, update.after)
+    }
+    const commitSha = update.commitSha ?? (await headOf(client, project))
+    return await refreshSnapshot(db, client, project, commitSha)
+  } catch (error) {
+    console.error('Repository indexing failed:', project.id, error)
+    await db
+      .update(repositorySnapshots)
+      .set({
+        status: 'failed',
+        lastError: error instanceof Error ? error.message : String(error),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(repositorySnapshots.projectId, project.id))
+    return null
+  }
+}
+
+/**
+ * Cron entry point: index projects without a snapshot, continue snapshots with files left
+ * and retry failed ones
+ */
+export async function reconcileRepositorySnapshots(db: Database, env: Env) {
+  const candidates = await db
+    .select({ project: projects, snapshot: repositorySnapshots })
+    .from(projects)
+    .leftJoin(repositorySnapshots, eq(repositorySnapshots.projectId, projects.id))
+    .where(
+      and(
+        isNotNull(projects.installationId),
+        isNull(projects.archivedAt),
+        or(isNull(repositorySnapshots.projectId), ne(repositorySnapshots.status, 'ready'))
+      )
+    )
+    .orderBy(sql`${repositorySnapshots.updatedAt} IS NOT NULL`, asc(repositorySnapshots.updatedAt))
+    .limit(MAX_SNAPSHOTS_PER_RUN)
+
+  for (const { project, snapshot } of candidates) {
+    await updateRepositorySnapshot(db, env, project, {
+      type: 'refresh',
+      // An interrupted pass continues at its commit; failed ones start over from the head
+      commitSha: snapshot?.status === 'indexing' ? snapshot.commitSha : undefined,
+    })
+  }
+}
+
+export async function findSnapshot(
+  db: Database,
+  projectId: string
+): Promise<RepositorySnapshot | null> {
+  return (
+    (await db.query.repositorySnapshots.findFirst({
+      where: eq(repositorySnapshots.projectId, projectId),
+    })) ?? null
+  )
+}
+
+// Read and chunk pending files up to the pass budget, then record the snapshot's totals
+async function indexPendingFiles(
+  db: Database,
+  client: GitHubClient,
+  project: Project
+): Promise<Omit<SnapshotPassResult, 'removed'>> {
+  const pending = await db
+    .select({ path: repositoryFiles.path, blobSha: repositoryFiles.blobSha })
+    .from(repositoryFiles)
+    .where(and(eq(repositoryFiles.projectId, project.id), eq(repositoryFiles.status, 'pending')))
+    .orderBy(asc(repositoryFiles.path))
+    .limit(MAX_FILES_PER_PASS)
+
+  for (const file of pending) {
+    const blob = await client.request<{ content: string; encoding: string; size: number }>(
+      `${repoPathOf(project)}/git/blobs/${file.blobSha}`,
+      { cache: false }
+    )
+    const text = blob.size <= MAX_FILE_SIZE ? decodeBlob(blob.content, blob.encoding) : null
+    const chunks = text === null ? [] : chunkFile(project.id, file.path, text)
+
+    // The row may have moved to a newer blob meanwhile; it then stays pending and its chunks
+    // are replaced again by a later pass
+    const sameBlob = and(
+      eq(repositoryFiles.projectId, project.id),
+      eq(repositoryFiles.path, file.path),
+      eq(repositoryFiles.blobSha, file.blobSha)
+    )
+    await db.batch([
+      db
+        .delete(repositoryChunks)
+        .where(
+          and(eq(repositoryChunks.projectId, project.id), eq(repositoryChunks.path, file.path))
+        ),
+      db
+        .update(repositoryFiles)
+        .set({ size: blob.size, status: text === null ? 'skipped' : 'indexed' })
+        .where(sameBlob),
+      ...batches(chunks, 12).map((rows) => db.insert(repositoryChunks).values(rows)),
+    ])
+  }
+
+  const [{ remaining }] = await db
+    .select({ remaining: count() })
+    .from(repositoryFiles)
+    .where(and(eq(repositoryFiles.projectId, project.id), eq(repositoryFiles.status, 'pending')))
+  await finishPass(db, project.id, remaining)
+
+  return { indexed: pending.length, pending: remaining }
+}
+
+async function finishPass(db: Database, projectId: string, pending: number) {
+  const rows = await db
+    .select({
+      language: repositoryFiles.language,
+      files: count(),
+      bytes: sql<number>`coalesce(sum(${repositoryFiles.size}), 0)`,
+    })
+    .from(repositoryFiles)
+    .where(eq(repositoryFiles.projectId, projectId))
+    .groupBy(repositoryFiles.language)
+
+  const languages: Record<string, number> = {}
+  for (const row of rows) {
+    if (row.language && row.bytes > 0) {
+      languages[row.language] = row.bytes
+    }
+  }
+
+  const now = new Date().toISOString()
+  await db
+    .update(repositorySnapshots)
+    .set({
+      status: pending > 0 ? 'indexing' : 'ready',
+      fileCount: rows.reduce((total, row) => total + row.files, 0),
+      languages,
+      lastError: null,
+      updatedAt: now,
+      ...(pending > 0 ? {} : { indexedAt: now }),
+    })
+    .where(eq(repositorySnapshots.projectId, projectId))
+}
+
+async function saveSnapshot(
+  db: Database,
+  projectId: string,
+  values: { commitSha: string; truncated?: boolean }
+) {
+  const set = { ...values, status: 'indexing' as const, updatedAt: new Date().toISOString() }
+  await db
+    .insert(repositorySnapshots)
+    .values({ projectId, ...set })
+    .onConflictDoUpdate({ target: repositorySnapshots.projectId, set })
+}
+
+// Insert or replace file rows; their old chunks go, and they are read again when indexable
+async function writeFiles(db: Database, projectId: string, rows: NewRepositoryFile[]) {
+  for (const batch of batches(rows, 12)) {
+    await db.batch([
+      db.delete(repositoryChunks).where(
+        and(
+          eq(repositoryChunks.projectId, projectId),
+          inArray(
+            repositoryChunks.path,
+            batch.map((row) => row.path)
+          )
+        )
+      ),
+      db
+        .insert(repositoryFiles)
+        .values(batch)
+        .onConflictDoUpdate({
+          target: [repositoryFiles.projectId, repositoryFiles.path],
+          set: {
+            blobSha: sql`excluded.blob_sha`,
+            size: sql`excluded.size`,
+            language: sql`excluded.language`,
+            status: sql`excluded.status`,
+          },
+        }),
+    ])
+  }
+}
+
+async function removeFiles(db: Database, projectId: string, paths: string[]) {
+  for (const batch of batches(paths, 90)) {
+    await db.batch([
+      db
+        .delete(repositoryChunks)
+        .where(
+          and(eq(repositoryChunks.projectId, projectId), inArray(repositoryChunks.path, batch))
+        ),
+      db
+        .delete(repositoryFiles)
+        .where(and(eq(repositoryFiles.projectId, projectId), inArray(repositoryFiles.path, batch))),
+    ])
+  }
+}
+
+function fileRow(
+  projectId: string,
+  path: string,
+  blobSha: string,
+  size: number | null
+): NewRepositoryFile {
+  return {
+    projectId,
+    path,
+    blobSha,
+    size,
+    language: detectLanguage(path),
+    status: isIndexable(path, size) ? 'pending' : 'skipped',
+  }
+}
+
+// Split a file into fixed line ranges; the path's terms count towards every chunk
+function chunkFile(projectId: string, path: string, text: string): NewRepositoryChunk[] {
+  const lines = text.split('\n')
+  if (lines.at(-1) === '') {
+    lines.pop()
+  }
+  const pathTerms = tokenize(path)
+  const chunks: NewRepositoryChunk[] = []
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES) {
+    const content = lines.slice(start, start + CHUNK_LINES).join('\n')
+    const terms = [...tokenize(content), ...pathTerms]
+    chunks.push({
+      projectId,
+      path,
+      startLine: start + 1,
+      endLine: Math.min(start + CHUNK_LINES, lines.length),
+      content,
+      terms: termFrequencies(terms),
+      termCount: terms.length,
+    })
+  }
+  return chunks
+}
+
+// UTF-8 text of a blob, or null for binary content
+function decodeBlob(content: string, encoding: string): string | null {
+  if (encoding !== 'base64') {
+    return content.includes('\0') ? null : content
+  }
+  const bytes = Uint8Array.from(atob(content.replace(/\s/g, '')), (char) => char.charCodeAt(0))
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(bytes)
+    return text.includes('\0') ? null : text
+  } catch {
+    return null
+  }
+}
+
+async function headOf(client: GitHubClient, project: Project): Promise<string> {
+  const ref = await client.request<{ object: { sha: string } }>(
+    `${repoPathOf(project)}/git/ref/heads/${encodePath(project.defaultBranch)}`
+  )
+  return ref.object.sha
+}
+
+function repoPathOf(project: Project): string {
+  return `/repos/${project.githubOwner}/${project.githubRepo}`
+}
+
+// D1 allows 100 bound parameters per statement
+function batches<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
@@ -0,0 +1,86 @@
+// File extensions (lower case, without the dot) of common languages
+const EXTENSIONS: Record<string, string> = {
+  ts: 'TypeScript',
+  tsx: 'TypeScript',
+  mts: 'TypeScript',
+  cts: 'TypeScript',
+  js: 'JavaScript',
+  jsx: 'JavaScript',
+  mjs: 'JavaScript',
+  cjs: 'JavaScript',
+  py: 'Python',
+  rb: 'Ruby',
+  go: 'Go',
+  rs: 'Rust',
+  java: 'Java',
+  kt: 'Kotlin',
+  kts: 'Kotlin',
+  scala: 'Scala',
+  swift: 'Swift',
+  c: 'C',
+  h: 'C',
+  cc: 'C++',
+  cpp: 'C++',
+  cxx: 'C++',
+  hpp: 'C++',
+  cs: 'C#',
+  fs: 'F#',
+  php: 'PHP',
+  ex: 'Elixir',
+  exs: 'Elixir',
+  erl: 'Erlang',
+  hs: 'Haskell',
+  clj: 'Clojure',
+  dart: 'Dart',
+  lua: 'Lua',
+  r: 'R',
+  jl: 'Julia',
+  sh: 'Shell',
+  bash: 'Shell',
+  zsh: 'Shell',
+  ps1: 'PowerShell',
+  sql: 'SQL',
+  html: 'HTML',
+  htm: 'HTML',
+  vue: 'Vue',
+  svelte: 'Svelte',
+  css: 'CSS',
+  scss: 'SCSS',
+  sass: 'SCSS',
+  less: 'Less',
+  md: 'Markdown',
+  mdx: 'Markdown',
+  rst: 'reStructuredText',
+  json: 'JSON',
+  jsonc: 'JSON',
+  yml: 'YAML',
+  yaml: 'YAML',
+  toml: 'TOML',
+  xml: 'XML',
+  graphql: 'GraphQL',
+  gql: 'GraphQL',
+  proto: 'Protocol Buffers',
+  tf: 'HCL',
+  nix: 'Nix',
+}
+
+// Files recognised by their whole name
+const FILE_NAMES: Record<string, string> = {
+  dockerfile: 'Dockerfile',
+  makefile: 'Makefile',
+  gemfile: 'Ruby',
+  rakefile: 'Ruby',
+  justfile: 'Just',
+}
+
+/**
+ * Language of a file from its name or extension; null when not recognised
+ */
+export function detectLanguage(path: string): string | null {
+  const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase()
+  if (FILE_NAMES[name]) {
+    return FILE_NAMES[name]
+  }
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? (EXTENSIONS[name.slice(dot + 1)] ?? null) : null
+}
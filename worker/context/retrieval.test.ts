@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { env } from 'cloudflare:test'
+import { refreshSnapshot } from './indexer'
+import { contextQuery, retrieveContext } from './retrieval'
+import { termFrequencies, tokenize } from './terms'
+import { createFakeRepositoryClient } from '../test/fakes'
+import { createTestProject, createTestUser } from '../test/helpers'
+import { getDB } from '../db'
+
+const repository = {
+  'src/auth/session.ts': [
+    'export async function createSession(userId: string) {',
+    '  const token = randomToken()',
+    '  return { token, expiresAt: sessionExpiry() }',
+    '}',
+  ].join('\n'),
+  'src/issues/filters.ts': [
+    'export function parseIssueListQuery(query: IssueListQuery) {',
+    '  return { state: query.state ?? "open", labels: query.label }',
+    '}',
+  ].join('\n'),
+  'src/ui/theme.css': ':root { --color-background: white; }\n',
+  'README.md': '# Codiro\n\nSessions last a week.\n',
+}
+
+describe('tokenize', () => {
+  it('splits identifiers into their parts and keeps the whole name', () => {
+    expect(tokenize('parseIssueListQuery(query)')).toEqual([
+      'parseissuelistquery',
+      'parse',
+      'issue',
+      'list',
+      'query',
+      'query',
+    ])
+    expect(tokenize('MAX_FILE_SIZE in src/http-client.ts, class Sessions')).toEqual([
+      'max_file_size',
+      'max',
+      'file',
+      'size',
+      'src',
+      'http',
+      'client',
+      'ts',
+      'class',
+      'session',
+    ])
+  })
+
+  it('drops stop words, numbers and single characters', () => {
+    expect(tokenize('Return the x of 42 when a user logs in')).toEqual(['user', 'log'])
+  })
+})
+
+describe('termFrequencies', () => {
+  it('counts terms named like Object.prototype members', () => {
+    expect(
+      termFrequencies(tokenize('class Foo { constructor() {} } // constructor toString'))
+    ).toEqual({ class: 1, foo: 1, constructor: 2, tostring: 1, string: 1 })
+  })
+})
+
+describe('retrieveContext', () => {
+  it('ranks files and snippets for an issue with BM25', async () => {
+    const db = getDB(env.DB)
+    const project = await createTestProject(await createTestUser())
+    const { client } = createFakeRepositoryClient({ c1: repository }, 'c1')
+    await refreshSnapshot(db, client, project, 'c1')
+
+    const context = await retrieveContext(
+      db,
+      project.id,
+      contextQuery({ title: 'Sessions expire too early', body: 'Session expiry should be a month' })
+    )
+
+    expect(context).toMatchObject({
+      commitSha: 'c1',
+      files: [
+        { path: 'src/auth/session.ts', language: 'TypeScript' },
+        { path: 'README.md', language: 'Markdown' },
+      ],
+      snippets: [
+        {
+          path: 'src/auth/session.ts',
+          startLine: 1,
+          endLine: 4,
+          content: expect.stringContaining('createSession'),
+        },
+        { path: 'README.md' },
+      ],
+    })
+    expect(context!.snippets[0].score).toBeGreaterThan(context!.snippets[1].score)
+  })
+
+  it('ranks terms named like Object.prototype members', async () => {
+    const db = getDB(env.DB)
+    const project = await createTestProject(await createTestUser())
+    const files = {
+      'src/widget.ts': 'class Widget {\n  constructor(readonly name: string) {}\n}\n',
+      'src/other.ts': 'export function render() {}\n',
+    }
+    const { client } = createFakeRepositoryClient({ c1: files }, 'c1')
+    await refreshSnapshot(db, client, project, 'c1')
+
+    const context = await retrieveContext(db, project.id, 'constructor')
+
+    expect(context!.snippets).toMatchObject([{ path: 'src/widget.ts' }])
+    expect(context!.snippets[0].score).toBeGreaterThan(0)
+  })
+
+  it('scores only the chunks matching the most query terms', async () => {
+    const db = getDB(env.DB)
+    const project = await createTestProject(await createTestUser())
+    const { client } = createFakeRepositoryClient({ c1: repository }, 'c1')
+    await refreshSnapshot(db, client, project, 'c1')
+
+    const context = await retrieveContext(db, project.id, 'session expiry token', {
+      maxCandidates: 1,
+    })
+
+    expect(context!.snippets).toMatchObject([{ path: 'src/auth/session.ts' }])
+  })
+
+  it('returns null before the first snapshot', async () => {
+    const project = await createTestProject(await createTestUser())
+    expect(await retrieveContext(getDB(env.DB), project.id, 'anything')).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+import { and, count, eq, inArray, sql } from 'drizzle-orm'
+import type { Database } from '../db'
+import { findSnapshot } from './indexer'
+import { tokenize } from './terms'
+import type { ContextSnippet, RetrievedContext } from '../types/context'
+import { repositoryChunks, repositoryFiles } from '../../db/schema'
+
+// BM25 parameters: term frequency saturation and document length normalisation
+const K1 = 1.2
+const B = 0.75
+// Distinct query terms ranked on, within D1's 100 bound parameters per statement
+const MAX_QUERY_TERMS = 60
+// Chunks scored with BM25: those matching the most distinct query terms
+const MAX_CANDIDATES = 200
+
+export interface RetrievalOptions {
+  maxFiles?: number
+  maxSnippets?: number
+  maxCandidates?: number
+}
+
+/**
+ * Text a job's context is retrieved with: the issue (its title counted twice, as it names
+ * the change), plus any spec or review comment
+ */
+export function contextQuery(
+  issue: { title: string; body: string | null },
+  ...extra: Array<string | null | undefined>
+): string {
+  return [issue.title, issue.title, issue.body, ...extra].filter(Boolean).join('\n')
+}
+
+/**
+ * Rank a project's indexed chunks against a query with BM25 and return the best files and
+ * snippets; null when the project has no snapshot yet
+ *
+ * Terms come from `tokenize`, so identifiers and paths match their parts. Query terms that
+ * occur more than once weigh more. Only the chunks sharing the most distinct terms with the
+ * query are read and scored; SQL picks them without loading the others.
+ */
+export async function retrieveContext(
+  db: Database,
+  projectId: string,
+  query: string,
+  options: RetrievalOptions = {}
+): Promise<RetrievedContext | null> {
+  const snapshot = await findSnapshot(db, projectId)
+  if (!snapshot) {
+    return null
+  }
+
+  const queryCounts = new Map<string, number>()
+  for (const term of tokenize(query)) {
+    if (queryCounts.has(term) || queryCounts.size < MAX_QUERY_TERMS) {
+      queryCounts.set(term, (queryCounts.get(term) ?? 0) + 1)
+    }
+  }
+  const terms = [...queryCounts.keys()]
+  const empty = { commitSha: snapshot.commitSha, terms, files: [], snippets: [] }
+  if (terms.length === 0) {
+    return empty
+  }
+
+  const termList = sql.join(
+    terms.map((term) => sql`${term}`),
+    sql`, `
+  )
+  const ofProject = eq(repositoryChunks.projectId, projectId)
+  const [[stats], frequencies, candidates] = await Promise.all([
+    db
+      .select({
+        chunks: count(),
+        averageLength: sql<number>`coalesce(avg(${repositoryChunks.termCount}), 0)`,
+      })
+      .from(repositoryChunks)
+      .where(ofProject),
+    db.all<{ term: string; chunks: number }>(
+      sql`select je.key as term, count(*) as chunks from ${repositoryChunks}, json_each(${repositoryChunks.terms}) je where ${ofProject} and je.key in (${termList}) group by je.key`
+    ),
+    db
+      .select({
+        id: repositoryChunks.id,
+        path: repositoryChunks.path,
+        startLine: repositoryChunks.startLine,
+        endLine: repositoryChunks.endLine,
+        terms: repositoryChunks.terms,
+        termCount: repositoryChunks.termCount,
+      })
+      .from(repositoryChunks)
+      .where(
+        sql`${repositoryChunks.id} in (select ${repositoryChunks.id} from ${repositoryChunks}, json_each(${repositoryChunks.terms}) je where ${ofProject} and je.key in (${termList}) group by ${repositoryChunks.id} order by count(*) desc, ${repositoryChunks.id} limit ${options.maxCandidates ?? MAX_CANDIDATES})`
+      ),
+  ])
+  if (candidates.length === 0) {
+    return empty
+  }
+
+  const idf = new Map(
+    frequencies.map(({ term, chunks }) => [
+      term,
+      Math.log(1 + (stats.chunks - chunks + 0.5) / (chunks + 0.5)),
+    ])
+  )
+  const scored = candidates
+    .map((chunk) => {
+      const lengthNorm = 1 - B + (B * chunk.termCount) / (stats.averageLength || 1)
+      let score = 0
+      for (const [term, weight] of queryCounts) {
+        const tf = Object.hasOwn(chunk.terms, term) ? chunk.terms[term] : 0
+        if (tf > 0) {
+          score += weight * (idf.get(term) ?? 0) * ((tf * (K1 + 1)) / (tf + K1 * lengthNorm))
+        }
+      }
+      return { ...chunk, score: Math.round(score * 1000) / 1000 }
+    })
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path) || a.startLine - b.startLine)
+
+  // A file ranks by its best chunk
+  const best = new Map<string, number>()
+  for (const chunk of scored) {
+    if (!best.has(chunk.path)) {
+      best.set(chunk.path, chunk.score)
+    }
+  }
+  const topPaths = [...best.keys()].slice(0, options.maxFiles ?? 10)
+  const top = scored.slice(0, options.maxSnippets ?? 8)
+
+  const [languages, contents] = await Promise.all([
+    db
+      .select({ path: repositoryFiles.path, language: repositoryFiles.language })
+      .from(repositoryFiles)
+      .where(
+        and(eq(repositoryFiles.projectId, projectId), inArray(repositoryFiles.path, topPaths))
+      ),
+    db
+      .select({ id: repositoryChunks.id, content: repositoryChunks.content })
+      .from(repositoryChunks)
+      .where(
+        inArray(
+          repositoryChunks.id,
+          top.map((chunk) => chunk.id)
+        )
+      ),
+  ])
+  const languageOf = new Map(languages.map((file) => [file.path, file.language]))
+  const contentOf = new Map(contents.map((chunk) => [chunk.id, chunk.content]))
+
+  return {
+    commitSha: snapshot.commitSha,
+    terms,
+    files: topPaths.map((path) => ({
+      path,
+      language: languageOf.get(path) ?? null,
+      score: best.get(path)!,
+    })),
+    snippets: top.map(
+      (chunk): ContextSnippet => ({
+        path: chunk.path,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        score: chunk.score,
+        content: contentOf.get(chunk.id) ?? '',
+      })
+    ),
+  }
+}
@@ -0,0 +1,89 @@
+// Words too common in prose and code to tell files apart
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'can',
+  'do',
+  'for',
+  'from',
+  'has',
+  'have',
+  'if',
+  'in',
+  'is',
+  'it',
+  'its',
+  'not',
+  'of',
+  'on',
+  'or',
+  'should',
+  'so',
+  'that',
+  'the',
+  'this',
+  'to',
+  'we',
+  'when',
+  'with',
+  'would',
+  'const',
+  'let',
+  'var',
+  'return',
+  'import',
+  'export',
+  'default',
+  'new',
+  'true',
+  'false',
+  'null',
+  'undefined',
+])
+
+/**
+ * Split text or code into lower-case terms for lexical ranking
+ * Identifiers yield both their parts and themselves, so `parseIssueListQuery` matches
+ * "parse issue" as well as the exact name; snake_case and kebab-case are split the same way.
+ * A trailing plural "s" is dropped, so "sessions" matches `session`.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = []
+  for (const word of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+    const parts = word
+      .split(/[_$]+/)
+      .flatMap((part) => part.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) ?? [])
+      .map((part) => part.toLowerCase())
+
+    if (parts.length > 1) {
+      addTerm(terms, word.toLowerCase())
+    }
+    parts.forEach((part) => addTerm(terms, part))
+  }
+  return terms
+}
+
+/**
+ * Count the terms of a text
+ * Counting in a Map keeps terms such as `constructor` clear of Object.prototype.
+ */
+export function termFrequencies(terms: string[]): Record<string, number> {
+  const counts = new Map<string, number>()
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + 1)
+  }
+  return Object.fromEntries(counts)
+}
+
+function addTerm(terms: string[], term: string) {
+  if (term.length >= 2 && term.length <= 64 && !/^\d+$/.test(term) && !STOP_WORDS.has(term)) {
+    terms.push(term.length > 3 && /[^s]s$/.test(term) ? term.slice(0, -1) : term)
+  }
+}
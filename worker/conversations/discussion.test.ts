@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest'
+import { env } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import {
+  addUserMessage,
+  finalizeConversation,
+  generateReply,
+  listMessages,
+  withSpecSection,
+} from './discussion'
+import { getDB } from '../db'
+import { upsertIssues } from '../issues/mirror'
+import { createFakeRepositoryGateway, createFakeSpecModel, githubIssue } from '../test/fakes'
+import { createTestProject, createTestUser } from '../test/helpers'
+import { conversations } from '../../db/schema'
+
+async function openConversation() {
+  const db = getDB(env.DB)
+  const user = await createTestUser()
+  const project = await createTestProject(user, { installationId: 1 })
+  await upsertIssues(db, project.id, [githubIssue(7, { title: 'Add greeting' })])
+  const [conversation] = await db
+    .insert(conversations)
+    .values({ id: crypto.randomUUID(), projectId: project.id, issueNumber: 7, createdBy: user.id })
+    .returning()
+  return { db, user, project, conversation }
+}
+
+describe('Spec discussions', () => {
+  it('streams a reply with the issue and history as context and stores it', async () => {
+    const { db, user, project, conversation } = await openConversation()
+    const { model, contexts } = createFakeSpecModel()
+
+    await addUserMessage(db, conversation, user.id, 'Greet in Japanese too')
+    const deltas: string[] = []
+    const reply = await generateReply(db, project, conversation, model, async (delta) => {
+      deltas.push(delta)
+    })
+
+    expect(deltas.join('')).toBe('You said: Greet in Japanese too')
+    expect(deltas.length).toBeGreaterThan(1)
+    expect(reply).toMatchObject({ role: 'assistant', content: deltas.join(''), userId: null })
+    expect(contexts[0]).toMatchObject({
+      repository: { owner: 'octocat', repo: 'codiro' },
+      issue: { number: 7, title: 'Add greeting', body: 'Please add a greeting.' },
+      messages: [{ role: 'user', content: 'Greet in Japanese too' }],
+    })
+
+    const stored = await listMessages(db, conversation.id)
+    expect(stored.map((message) => message.role)).toEqual(['user', 'assistant'])
+  })
+
+  it('does not store a reply when the model fails midway', async () => {
+    const { db, user, project, conversation } = await openConversation()
+    const { model } = createFakeSpecModel({ failAfter: 2 })
+
+    await addUserMessage(db, conversation, user.id, 'Greet in Japanese too')
+    await expect(generateReply(db, project, conversation, model, async () => {})).rejects.toThrow(
+      'Model stream interrupted'
+    )
+
+    expect(await listMessages(db, conversation.id)).toHaveLength(1)
+  })
+
+  it('writes a drafted spec into the issue body and closes the conversation', async () => {
+    const { db, user, project, conversation } = await openConversation()
+    const { model } = createFakeSpecModel()
+    const { github, issueBodies } = createFakeRepositoryGateway()
+
+    await addUserMessage(db, conversation, user.id, 'Greet in Japanese too')
+    const finalized = await finalizeConversation(
+      db,
+      project,
+      conversation,
+      { model, github },
+      { target: 'issue_body' }
+    )
+
+    expect(finalized).toMatchObject({
+      status: 'finalized',
+      spec: '- Greet in Japanese too',
+      specTarget: 'issue_body',
+      specUrl: 'https://github.com/octocat/codiro/issues/7',
+    })
+    expect(issueBodies.get(7)).toBe(
+      'Please add a greeting.\n\n<!-- codiro:spec -->\n## Spec\n\n- Greet in Japanese too\n<!-- /codiro:spec -->'
+    )
+
+    // A second finalize is refused
+    expect(
+      await finalizeConversation(
+        db,
+        project,
+        conversation,
+        { model, github },
+        { target: 'comment' }
+      )
+    ).toBeNull()
+  })
+
+  it('posts an edited spec as a comment', async () => {
+    const { db, project, conversation } = await openConversation()
+    const { model, contexts } = createFakeSpecModel()
+    const { github, comments } = createFakeRepositoryGateway()
+
+    const finalized = await finalizeConversation(
+      db,
+      project,
+      conversation,
+      { model, github },
+      { target: 'comment', spec: 'Greet everyone.' }
+    )
+
+    expect(contexts).toEqual([])
+    expect(comments).toEqual([{ issueNumber: 7, body: '## Spec\n\nGreet everyone.' }])
+    expect(finalized?.specUrl).toBe('https://github.com/octocat/codiro/issues/7#issuecomment-1')
+  })
+
+  it('reopens the conversation when GitHub rejects the write', async () => {
+    const { db, project, conversation } = await openConversation()
+    const { model } = createFakeSpecModel()
+    const { github } = createFakeRepositoryGateway()
+    github.createIssueComment = async () => {
+      throw new Error('GitHub request POST /repos/octocat/codiro/issues/7/comments failed: 403')
+    }
+
+    await expect(
+      finalizeConversation(
+        db,
+        project,
+        conversation,
+        { model, github },
+        { target: 'comment', spec: 'Greet everyone.' }
+      )
+    ).rejects.toThrow('403')
+
+    const stored = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversation.id),
+    })
+    expect(stored).toMatchObject({ status: 'open', spec: null, finalizedAt: null })
+  })
+
+  it('replaces an existing spec section and keeps the rest of the body', () => {
+    const body = withSpecSection('Intro', 'First')
+    expect(withSpecSection(`${body}\n\nFooter`, 'Second')).toBe(
+      'Intro\n\n<!-- codiro:spec -->\n## Spec\n\nSecond\n<!-- /codiro:spec -->\n\nFooter'
+    )
+    expect(withSpecSection(null, 'Only')).toBe(
+      '<!-- codiro:spec -->\n## Spec\n\nOnly\n<!-- /codiro:spec -->'
+    )
+  })
+})
@@ -0,0 +1,248 @@
+import { and, asc, eq, sql } from 'drizzle-orm'
+import type { Database } from '../db'
+import { createInstallationClient } from '../github/app'
+import { createRepositoryGateway } from '../github/repository'
+import { createChatModel } from '../llm/models'
+import { createLLMSpecModel } from './spec-model'
+import type {
+  DiscussionContext,
+  FinalizeSpecDeps,
+  SpecModel,
+  SpecTarget,
+} from '../types/conversations'
+import {
+  conversations,
+  issues,
+  messages,
+  type Conversation,
+  type Message,
+  type Project,
+} from '../../db/schema'
+
+// Most recent messages sent to the model; older ones are dropped from the prompt
+const MAX_CONTEXT_MESSAGES = 50
+
+const SPEC_START = '<!-- codiro:spec -->'
+const SPEC_END = '<!-- /codiro:spec -->'
+
+/**
+ * Build the production model for a conversation; usage is billed to the given user
+ */
+export function createSpecModel(
+  env: Env,
+  db: Database,
+  project: Project,
+  conversation: Conversation,
+  userId: string
+): SpecModel {
+  return createLLMSpecModel(
+    createChatModel(env, db, project, {
+      userId,
+      feature: 'spec_discussion',
+      conversationId: conversation.id,
+    })
+  )
+}
+
+/**
+ * Build the production model and GitHub dependencies for finalizing a spec
+ */
+export async function createFinalizeSpecDeps(
+  env: Env,
+  db: Database,
+  project: Project,
+  conversation: Conversation,
+  userId: string
+): Promise<FinalizeSpecDeps> {
+  if (!project.installationId) {
+    throw new Error('Project is not linked to a GitHub App installation')
+  }
+
+  const client = await createInstallationClient(env, project.installationId)
+
+  return {
+    model: createSpecModel(env, db, project, conversation, userId),
+    github: createRepositoryGateway({
+      client,
+      owner: project.githubOwner,
+      repo: project.githubRepo,
+    }),
+  }
+}
+
+/**
+ * Messages of a conversation, oldest first
+ * rowid breaks ties between messages stored in the same millisecond.
+ */
+export async function listMessages(db: Database, conversationId: string): Promise<Message[]> {
+  return db
+    .select()
+    .from(messages)
+    .where(eq(messages.conversationId, conversationId))
+    .orderBy(asc(messages.createdAt), sql`rowid`)
+}
+
+/**
+ * Store a message from the user
+ */
+export async function addUserMessage(
+  db: Database,
+  conversation: Conversation,
+  userId: string,
+  content: string
+): Promise<Message> {
+  return insertMessage(db, conversation, { role: 'user', content, userId })
+}
+
+/**
+ * Stream the AI's reply to the conversation so far and store it once complete
+ * `onDelta` receives each chunk as it arrives. Nothing is stored if the model fails midway.
+ */
+export async function generateReply(
+  db: Database,
+  project: Project,
+  conversation: Conversation,
+  model: SpecModel,
+  onDelta: (content: string) => Promise<void>
+): Promise<Message> {
+  const context = await buildDiscussionContext(db, project, conversation)
+
+  let content = ''
+  for await (const delta of model.streamReply(context)) {
+    content += delta
+    await onDelta(delta)
+  }
+
+  return insertMessage(db, conversation, { role: 'assistant', content, userId: null })
+}
+
+/**
+ * Write the agreed spec to GitHub and close the conversation
+ *
+ * The spec is the one passed in (edited by the user) or drafted by the model from the
+ * discussion. `issue_body` replaces the Codiro section of the issue body, keeping the rest;
+ * `comment` posts it as a new comment. Returns null if the conversation was already finalized.
+ */
+export async function finalizeConversation(
+  db: Database,
+  project: Project,
+  conversation: Conversation,
+  deps: FinalizeSpecDeps,
+  input: { target: SpecTarget; spec?: string }
+): Promise<Conversation | null> {
+  const spec =
+    input.spec ??
+    (await deps.model.draftSpec(await buildDiscussionContext(db, project, conversation)))
+
+  // Claim the conversation first so concurrent requests cannot write the spec twice
+  const now = new Date().toISOString()
+  const [claimed] = await db
+    .update(conversations)
+    .set({ status: 'finalized', spec, specTarget: input.target, finalizedAt: now, updatedAt: now })
+    .where(and(eq(conversations.id, conversation.id), eq(conversations.status, 'open')))
+    .returning()
+
+  if (!claimed) {
+    return null
+  }
+
+  try {
+    const specUrl = await writeSpec(deps.github, conversation.issueNumber, input.target, spec)
+    const [finalized] = await db
+      .update(conversations)
+      .set({ specUrl })
+      .where(eq(conversations.id, conversation.id))
+      .returning()
+    return finalized
+  } catch (error) {
+    await db
+      .update(conversations)
+      .set({
+        status: 'open',
+        spec: null,
+        specTarget: null,
+        finalizedAt: null,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(conversations.id, conversation.id))
+    throw error
+  }
+}
+
+/**
+ * Replace (or append) the Codiro spec section of an issue body
+ */
+export function withSpecSection(body: string | null, spec: string): string {
+  const section = `${SPEC_START}\n## Spec\n\n${spec.trim()}\n${SPEC_END}`
+  const current = body ?? ''
+
+  const start = current.indexOf(SPEC_START)
+  const end = current.indexOf(SPEC_END, start)
+  if (start !== -1 && end !== -1) {
+    return current.slice(0, start) + section + current.slice(end + SPEC_END.length)
+  }
+
+  return current.trim() ? `${current.trimEnd()}\n\n${section}` : section
+}
+
+async function writeSpec(
+  github: FinalizeSpecDeps['github'],
+  issueNumber: number,
+  target: SpecTarget,
+  spec: string
+): Promise<string> {
+  if (target === 'comment') {
+    const comment = await github.createIssueComment(issueNumber, `## Spec\n\n${spec.trim()}`)
+    return comment.url
+  }
+
+  // Read the body from GitHub rather than the mirror so a recent edit is not overwritten
+  const issue = await github.getIssue(issueNumber)
+  await github.updateIssueBody(issueNumber, withSpecSection(issue.body, spec))
+  return issue.html_url
+}
+
+async function buildDiscussionContext(
+  db: Database,
+  project: Project,
+  conversation: Conversation
+): Promise<DiscussionContext> {
+  const issue = await db.query.issues.findFirst({
+    where: and(eq(issues.projectId, project.id), eq(issues.number, conversation.issueNumber)),
+  })
+  const history = await listMessages(db, conversation.id)
+
+  return {
+    repository: { owner: project.githubOwner, repo: project.githubRepo },
+    issue: {
+      number: conversation.issueNumber,
+      title: issue?.title ?? `Issue #${conversation.issueNumber}`,
+      body: issue?.body ?? '',
+      url: issue?.htmlUrl ?? null,
+    },
+    messages: history
+      .slice(-MAX_CONTEXT_MESSAGES)
+      .map((message) => ({ role: message.role, content: message.content })),
+  }
+}
+
+async function insertMessage(
+  db: Database,
+  conversation: Conversation,
+  fields: Pick<Message, 'role' | 'content' | 'userId'>
+): Promise<Message> {
+  const now = new Date().toISOString()
+  const [message] = await db.batch([
+    db
+      .insert(messages)
+      .values({
+        id: crypto.randomUUID(),
+        conversationId: conversation.id,
+        createdAt: now,
+        ...fields,
+      })
+      .returning(),
+    db.update(conversations).set({ updatedAt: now }).where(eq(conversations.id, conversation.id)),
+  ])
+  return message[0]
+}
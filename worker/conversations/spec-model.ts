@@ -0,0 +1,57 @@
+import type { ChatModel } from '../types/llm'
+import type { DiscussionContext, SpecModel } from '../types/conversations'
+
+const DISCUSSION_PROMPT = `You are Codiro, an AI software engineer helping a developer define a feature before it is implemented.
+You are discussing a GitHub issue. Ask focused questions about unclear requirements, point out edge cases,
+and propose concrete behaviour. Keep replies short and use Markdown.`
+
+const SPEC_PROMPT = `You are Codiro. Write the specification the developer and you agreed on in the discussion below.
+Use Markdown with short sections (Summary, Requirements, Out of scope, Open questions if any).
+Only include what was agreed; do not invent requirements. Reply with the specification only.`
+
+/**
+ * Spec model backed by a chat model
+ */
+export function createLLMSpecModel(chat: ChatModel): SpecModel {
+  return {
+    streamReply(context) {
+      return chat.stream(
+        [
+          { role: 'system', content: DISCUSSION_PROMPT },
+          { role: 'user', content: describeIssue(context) },
+          ...context.messages,
+        ],
+        { temperature: 0.4 }
+      )
+    },
+
+    async draftSpec(context) {
+      const completion = await chat.complete(
+        [
+          { role: 'system', content: SPEC_PROMPT },
+          { role: 'user', content: `${describeIssue(context)}\n\n${transcript(context)}` },
+        ],
+        { temperature: 0.2 }
+      )
+      return completion.content.trim()
+    },
+  }
+}
+
+function describeIssue({ repository, issue }: DiscussionContext): string {
+  return [
+    `Repository: ${repository.owner}/${repository.repo}`,
+    `Issue #${issue.number}: ${issue.title}`,
+    '',
+    issue.body || '(no description)',
+  ].join('\n')
+}
+
+function transcript({ messages }: DiscussionContext): string {
+  return [
+    'Discussion:',
+    ...messages.map(
+      (message) => `${message.role === 'user' ? 'Developer' : 'Codiro'}: ${message.content}`
+    ),
+  ].join('\n\n')
+}
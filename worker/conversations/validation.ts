@@ -0,0 +1,88 @@
+import { SPEC_TARGETS, type SpecTarget } from '../types/conversations'
+
+const MAX_MESSAGE_LENGTH = 10_000
+// GitHub rejects issue and comment bodies longer than this
+const MAX_SPEC_LENGTH = 60_000
+
+type ParseResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string }
+
+/**
+ * Validate the body of POST /api/projects/:projectId/conversations
+ */
+export function parseCreateConversationInput(body: unknown): ParseResult<{ issueNumber: number }> {
+  if (!isRecord(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const { issueNumber } = body
+  if (typeof issueNumber !== 'number' || !Number.isSafeInteger(issueNumber) || issueNumber <= 0) {
+    return { error: 'issueNumber must be a positive integer' }
+  }
+
+  return { data: { issueNumber } }
+}
+
+/**
+ * Validate the query string of GET /api/projects/:projectId/conversations
+ */
+export function parseConversationListQuery(query: {
+  issueNumber?: string
+}): ParseResult<{ issueNumber: number | null }> {
+  if (query.issueNumber === undefined) {
+    return { data: { issueNumber: null } }
+  }
+
+  const issueNumber = Number(query.issueNumber)
+  if (!query.issueNumber.trim() || !Number.isSafeInteger(issueNumber) || issueNumber <= 0) {
+    return { error: 'issueNumber must be a positive integer' }
+  }
+
+  return { data: { issueNumber } }
+}
+
+/**
+ * Validate the body of POST /api/projects/:projectId/conversations/:conversationId/messages
+ */
+export function parseMessageInput(body: unknown): ParseResult<{ content: string }> {
+  if (!isRecord(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const { content } = body
+  if (typeof content !== 'string' || !content.trim() || content.length > MAX_MESSAGE_LENGTH) {
+    return {
+      error: `content must be a non-empty string of at most ${MAX_MESSAGE_LENGTH} characters`,
+    }
+  }
+
+  return { data: { content: content.trim() } }
+}
+
+/**
+ * Validate the body of POST /api/projects/:projectId/conversations/:conversationId/finalize
+ */
+export function parseFinalizeInput(
+  body: unknown
+): ParseResult<{ target: SpecTarget; spec?: string }> {
+  if (!isRecord(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const { target, spec } = body
+  if (typeof target !== 'string' || !(SPEC_TARGETS as readonly string[]).includes(target)) {
+    return { error: `target must be one of: ${SPEC_TARGETS.join(', ')}` }
+  }
+
+  if (spec !== undefined) {
+    if (typeof spec !== 'string' || !spec.trim() || spec.length > MAX_SPEC_LENGTH) {
+      return { error: `spec must be a non-empty string of at most ${MAX_SPEC_LENGTH} characters` }
+    }
+    return { data: { target: target as SpecTarget, spec: spec.trim() } }
+  }
+
+  return { data: { target: target as SpecTarget } }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
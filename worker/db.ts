@@ -7,3 +7,5 @@ import * as schema from '../db/schema'
 export function getDB(d1: D1Database) {
   return drizzle(d1, { schema })
 }
+
+export type Database = ReturnType<typeof getDB>
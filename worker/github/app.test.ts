@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest'
+import { env, fetchMock } from 'cloudflare:test'
+import { verify } from 'hono/jwt'
+import { generateAppToken, getInstallationToken } from './app'
+
+describe('GitHub App authentication', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  it('signs an RS256 App JWT with the app id as issuer', async () => {
+    const token = await generateAppToken(env)
+    const payload = await verify(token, env.TEST_GITHUB_APP_PUBLIC_KEY, 'RS256')
+
+    expect(payload.iss).toBe(env.GITHUB_APP_ID)
+    expect(payload.exp! - payload.iat!).toBeLessThanOrEqual(10 * 60)
+  })
+
+  it('exchanges the App JWT for an installation token and caches it', async () => {
+    let authorization = ''
+    fetchMock
+      .get(env.GITHUB_API_URL)
+      .intercept({ path: '/app/installations/101/access_tokens', method: 'POST' })
+      .reply(({ headers }) => {
+        authorization = new Headers(headers as HeadersInit).get('Authorization') ?? ''
+        return {
+          statusCode: 201,
+          data: {
+            token: 'ghs_first',
+            expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          },
+        }
+      })
+
+    expect(await getInstallationToken(env, 101)).toBe('ghs_first')
+    // Served from the cache: no second interceptor is registered
+    expect(await getInstallationToken(env, 101)).toBe('ghs_first')
+
+    const appToken = authorization.replace('Bearer ', '')
+    await expect(verify(appToken, env.TEST_GITHUB_APP_PUBLIC_KEY, 'RS256')).resolves.toBeTruthy()
+  })
+
+  it('mints a new token once the cached one is close to expiry', async () => {
+    const origin = fetchMock.get(env.GITHUB_API_URL)
+    origin.intercept({ path: '/app/installations/102/access_tokens', method: 'POST' }).reply(201, {
+      token: 'ghs_expiring',
+      expires_at: new Date(Date.now() + 60 * 1000).toISOString(),
+    })
+    origin.intercept({ path: '/app/installations/102/access_tokens', method: 'POST' }).reply(201, {
+      token: 'ghs_fresh',
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    })
+
+    expect(await getInstallationToken(env, 102)).toBe('ghs_expiring')
+    expect(await getInstallationToken(env, 102)).toBe('ghs_fresh')
+  })
+
+  it('throws when GitHub refuses to mint a token', async () => {
+    fetchMock
+      .get(env.GITHUB_API_URL)
+      .intercept({ path: '/app/installations/103/access_tokens', method: 'POST' })
+      .reply(404, { message: 'Not Found' })
+
+    await expect(getInstallationToken(env, 103)).rejects.toThrow('404')
+  })
+})
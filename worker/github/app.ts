@@ -0,0 +1,144 @@
+import { sign } from 'hono/jwt'
+import { createGitHubClient, type GitHubClient } from './client'
+import { GitHubNotFoundError } from './errors'
+import type {
+  AppTokenPayload,
+  GitHubAppInstallation,
+  InstallationAccessToken,
+} from '../types/github'
+
+const APP_TOKEN_EXPIRES_IN = 9 * 60 // GitHub rejects App JWTs valid for more than 10 minutes
+const APP_TOKEN_CLOCK_SKEW = 60
+const INSTALLATION_TOKEN_REFRESH_MARGIN = 5 * 60 * 1000 // Refresh 5 minutes before expiry
+
+type GitHubAppEnv = Pick<Env, 'GITHUB_APP_ID' | 'GITHUB_APP_PRIVATE_KEY' | 'GITHUB_API_URL'>
+
+interface CachedInstallationToken {
+  token: string
+  expiresAt: number
+}
+
+// Installation tokens are valid for an hour; keep them per isolate until shortly before expiry
+const installationTokenCache = new Map<number, CachedInstallationToken>()
+
+/**
+ * Generate a short-lived RS256 JWT that authenticates as the GitHub App itself
+ */
+export async function generateAppToken(env: GitHubAppEnv): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  const payload: AppTokenPayload = {
+    iss: env.GITHUB_APP_ID,
+    iat: now - APP_TOKEN_CLOCK_SKEW,
+    exp: now + APP_TOKEN_EXPIRES_IN,
+  }
+  const key = await importPrivateKey(env.GITHUB_APP_PRIVATE_KEY)
+  return await sign(payload, key, 'RS256')
+}
+
+/**
+ * Get an installation access token, minting a new one when the cached token is about to expire
+ */
+export async function getInstallationToken(
+  env: GitHubAppEnv,
+  installationId: number
+): Promise<string> {
+  const cached = installationTokenCache.get(installationId)
+  if (cached && cached.expiresAt - INSTALLATION_TOKEN_REFRESH_MARGIN > Date.now()) {
+    return cached.token
+  }
+
+  const app = await createAppClient(env)
+  const data = await app.request<InstallationAccessToken>(
+    `/app/installations/${installationId}/access_tokens`,
+    { method: 'POST' }
+  )
+
+  installationTokenCache.set(installationId, {
+    token: data.token,
+    expiresAt: new Date(data.expires_at).getTime(),
+  })
+
+  return data.token
+}
+
+/**
+ * GitHub client acting as an installation, for repository-level calls
+ */
+export async function createInstallationClient(
+  env: GitHubAppEnv,
+  installationId: number
+): Promise<GitHubClient> {
+  const token = await getInstallationToken(env, installationId)
+  return createGitHubClient({ apiUrl: env.GITHUB_API_URL, token })
+}
+
+/**
+ * Fetch an installation of this App, or null if GitHub does not know it
+ */
+export async function getAppInstallation(
+  env: GitHubAppEnv,
+  installationId: number
+): Promise<GitHubAppInstallation | null> {
+  const app = await createAppClient(env)
+
+  try {
+    return await app.request<GitHubAppInstallation>(`/app/installations/${installationId}`)
+  } catch (error) {
+    if (error instanceof GitHubNotFoundError) {
+      return null
+    }
+    throw error
+  }
+}
+
+async function createAppClient(env: GitHubAppEnv): Promise<GitHubClient> {
+  return createGitHubClient({ apiUrl: env.GITHUB_API_URL, token: await generateAppToken(env) })
+}
+
+/**
+ * Import the App private key
+ * GitHub hands out PKCS#1 keys ("BEGIN RSA PRIVATE KEY") but WebCrypto only imports PKCS#8,
+ * so PKCS#1 keys are wrapped in a PKCS#8 envelope first.
+ */
+async function importPrivateKey(pem: string): Promise<CryptoKey> {
+  const isPkcs1 = pem.includes('BEGIN RSA PRIVATE KEY')
+  const der = decodePem(pem)
+  return await crypto.subtle.importKey(
+    'pkcs8',
+    isPkcs1 ? wrapPkcs1(der) : der,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+}
+
+function decodePem(pem: string): Uint8Array {
+  const base64 = pem
+    .replace(/\\n/g, '\n')
+    .replace(/-+(BEGIN|END)[^-]*-+/g, '')
+    .replace(/\s/g, '')
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
+
+// AlgorithmIdentifier for rsaEncryption (OID 1.2.840.113549.1.1.1) with NULL parameters
+const RSA_ALGORITHM_IDENTIFIER = [
+  0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00,
+]
+
+function wrapPkcs1(pkcs1: Uint8Array): Uint8Array {
+  const version = [0x02, 0x01, 0x00]
+  const privateKey = [0x04, ...derLength(pkcs1.length), ...pkcs1]
+  const body = [...version, ...RSA_ALGORITHM_IDENTIFIER, ...privateKey]
+  return new Uint8Array([0x30, ...derLength(body.length), ...body])
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) {
+    return [length]
+  }
+  const bytes: number[] = []
+  for (let remaining = length; remaining > 0; remaining >>= 8) {
+    bytes.unshift(remaining & 0xff)
+  }
+  return [0x80 | bytes.length, ...bytes]
+}
@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest'
+import { createGitHubClient, createMemoryETagCache, parseNextLink } from './client'
+import {
+  GitHubError,
+  GitHubForbiddenError,
+  GitHubNotFoundError,
+  GitHubRateLimitedError,
+} from './errors'
+
+const API_URL = 'https://api.github.test'
+
+interface RecordedRequest {
+  url: string
+  method: string
+  headers: Headers
+  body: string | null
+}
+
+/**
+ * Client wired to canned responses, recording every request and sleep
+ */
+function setup(responses: Array<() => Response>, options: { maxRetries?: number } = {}) {
+  const requests: RecordedRequest[] = []
+  const sleeps: number[] = []
+
+  const fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({
+      url: String(input),
+      method: init?.method ?? 'GET',
+      headers: new Headers(init?.headers),
+      body: (init?.body as string | undefined) ?? null,
+    })
+    const next = responses.shift()
+    if (!next) {
+      throw new Error(`Unexpected request: ${String(input)}`)
+    }
+    return next()
+  }) as typeof globalThis.fetch
+
+  const client = createGitHubClient({
+    apiUrl: API_URL,
+    token: 'ghs_test',
+    fetch,
+    sleep: async (ms) => {
+      sleeps.push(ms)
+    },
+    etagCache: createMemoryETagCache(),
+    ...options,
+  })
+
+  return { client, requests, sleeps }
+}
+
+function json(status: number, data: unknown, headers: Record<string, string> = {}) {
+  return () =>
+    new Response(JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    })
+}
+
+describe('GitHub client', () => {
+  it('sends auth and API version headers and JSON bodies', async () => {
+    const { client, requests } = setup([json(201, { number: 7 })])
+
+    const pr = await client.request<{ number: number }>('/repos/octocat/codiro/pulls', {
+      method: 'POST',
+      body: { title: 'Fix' },
+    })
+
+    expect(pr.number).toBe(7)
+    expect(requests[0].url).toBe(`${API_URL}/repos/octocat/codiro/pulls`)
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer ghs_test')
+    expect(requests[0].headers.get('X-GitHub-Api-Version')).toBe('2022-11-28')
+    expect(requests[0].headers.get('Content-Type')).toBe('application/json')
+    expect(JSON.parse(requests[0].body!)).toEqual({ title: 'Fix' })
+  })
+
+  it('revalidates with If-None-Match and reuses the cached body on 304', async () => {
+    const { client, requests } = setup([
+      json(200, { login: 'octocat' }, { ETag: 'W/"abc"' }),
+      () => new Response(null, { status: 304 }),
+    ])
+
+    expect(await client.request('/user')).toEqual({ login: 'octocat' })
+    expect(await client.request('/user')).toEqual({ login: 'octocat' })
+
+    expect(requests[0].headers.has('If-None-Match')).toBe(false)
+    expect(requests[1].headers.get('If-None-Match')).toBe('W/"abc"')
+  })
+
+  it('leaves requests with cache: false out of the ETag cache', async () => {
+    const { client, requests } = setup([
+      json(200, { sha: 'b1' }, { ETag: 'W/"blob"' }),
+      json(200, { sha: 'b1' }, { ETag: 'W/"blob"' }),
+    ])
+
+    await client.request('/repos/octocat/codiro/git/blobs/b1', { cache: false })
+    await client.request('/repos/octocat/codiro/git/blobs/b1', { cache: false })
+
+    expect(requests[1].headers.has('If-None-Match')).toBe(false)
+  })
+
+  it('follows Link headers across pages', async () => {
+    const { client, requests } = setup([
+      json(200, { items: [1, 2] }, { Link: `<${API_URL}/things?page=2>; rel="next"` }),
+      json(200, { items: [3] }),
+    ])
+
+    const items = await client.paginate<{ items: number[] }, number>('/things', (p) => p.items)
+
+    expect(items).toEqual([1, 2, 3])
+    expect(requests.map((request) => request.url)).toEqual([
+      `${API_URL}/things`,
+      `${API_URL}/things?page=2`,
+    ])
+  })
+
+  it('does not follow Link headers to another host', async () => {
+    const { client, requests } = setup([
+      json(200, [1], { Link: '<https://evil.test/things?page=2>; rel="next"' }),
+    ])
+
+    await expect(client.paginate<number[], number>('/things', (p) => p)).rejects.toThrow(
+      'Refusing to send a GitHub request to https://evil.test'
+    )
+    expect(requests).toHaveLength(1)
+  })
+
+  it('maps failures to typed errors', async () => {
+    const { client } = setup([
+      json(404, { message: 'Not Found' }),
+      json(403, { message: 'Resource not accessible by integration' }),
+      json(422, { message: 'Validation Failed' }),
+    ])
+
+    await expect(client.request('/repos/octocat/missing')).rejects.toBeInstanceOf(
+      GitHubNotFoundError
+    )
+    await expect(client.request('/repos/octocat/private')).rejects.toBeInstanceOf(
+      GitHubForbiddenError
+    )
+    const error = await client
+      .request('/repos/octocat/codiro/pulls', { method: 'POST' })
+      .catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(GitHubError)
+    expect((error as GitHubError).status).toBe(422)
+    expect((error as GitHubError).message).toBe(
+      'GitHub request POST /repos/octocat/codiro/pulls failed: 422'
+    )
+  })
+
+  it('waits for Retry-After on a secondary rate limit and retries', async () => {
+    const { client, sleeps } = setup([
+      json(403, { message: 'You have exceeded a secondary rate limit' }, { 'Retry-After': '2' }),
+      json(200, { ok: true }),
+    ])
+
+    expect(await client.request('/user')).toEqual({ ok: true })
+    expect(sleeps).toEqual([2000])
+  })
+
+  it('throws GitHubRateLimitedError when the wait is too long', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600
+    const { client, requests } = setup([
+      json(
+        403,
+        { message: 'API rate limit exceeded' },
+        { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(reset) }
+      ),
+    ])
+
+    const error = await client.request('/user').catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(GitHubRateLimitedError)
+    expect((error as GitHubRateLimitedError).retryAfter).toBeGreaterThan(3500)
+    expect(requests).toHaveLength(1)
+  })
+
+  it('stops sending once the remaining quota hits zero', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600
+    const { client, requests } = setup([
+      json(200, {}, { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(reset) }),
+    ])
+
+    await client.request('/user')
+    await expect(client.request('/user')).rejects.toBeInstanceOf(GitHubRateLimitedError)
+    expect(requests).toHaveLength(1)
+  })
+
+  it('retries server errors on reads with jittered backoff', async () => {
+    const { client, sleeps } = setup([
+      json(502, { message: 'Bad Gateway' }),
+      json(503, { message: 'Unavailable' }),
+      json(200, { ok: true }),
+    ])
+
+    expect(await client.request('/user')).toEqual({ ok: true })
+    expect(sleeps).toHaveLength(2)
+    expect(sleeps[0]).toBeGreaterThanOrEqual(500)
+    expect(sleeps[0]).toBeLessThanOrEqual(1000)
+    expect(sleeps[1]).toBeGreaterThanOrEqual(1000)
+    expect(sleeps[1]).toBeLessThanOrEqual(2000)
+  })
+
+  it('gives up after the retry limit', async () => {
+    const { client, requests } = setup([json(500, {}), json(500, {}), json(500, {})], {
+      maxRetries: 2,
+    })
+
+    await expect(client.request('/user')).rejects.toThrow('failed: 500')
+    expect(requests).toHaveLength(3)
+  })
+
+  it('does not retry server errors on writes', async () => {
+    const { client, requests, sleeps } = setup([json(502, {})])
+
+    await expect(
+      client.request('/repos/octocat/codiro/git/refs', { method: 'POST', body: {} })
+    ).rejects.toThrow('failed: 502')
+    expect(requests).toHaveLength(1)
+    expect(sleeps).toEqual([])
+  })
+
+  it('throws GraphQL errors', async () => {
+    const { client } = setup([json(200, { errors: [{ message: 'Could not resolve node' }] })])
+
+    await expect(client.graphql('query { viewer { login } }', {})).rejects.toThrow(
+      'GitHub GraphQL error: Could not resolve node'
+    )
+  })
+})
+
+describe('parseNextLink', () => {
+  it('returns the rel="next" URL', () => {
+    expect(
+      parseNextLink(
+        '<https://api.github.test/x?page=3>; rel="next", <https://api.github.test/x?page=9>; rel="last"'
+      )
+    ).toBe('https://api.github.test/x?page=3')
+  })
+
+  it('returns null on the last page', () => {
+    expect(parseNextLink('<https://api.github.test/x?page=1>; rel="prev"')).toBeNull()
+    expect(parseNextLink(null)).toBeNull()
+  })
+})
@@ -0,0 +1,321 @@
+import {
+  GitHubError,
+  GitHubForbiddenError,
+  GitHubNotFoundError,
+  GitHubRateLimitedError,
+} from './errors'
+
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_RETRY_BASE_DELAY = 1000 // ms
+// Waits longer than this fail fast instead of holding the request open
+const DEFAULT_MAX_RETRY_DELAY = 10_000 // ms
+const ETAG_CACHE_SIZE = 500
+
+// Server errors worth retrying; only for reads, which are safe to repeat
+const RETRYABLE_STATUSES = [500, 502, 503, 504]
+
+export interface GitHubClientConfig {
+  apiUrl: string
+  token: string
+  fetch?: typeof fetch
+  maxRetries?: number
+  retryBaseDelay?: number
+  maxRetryDelay?: number
+  sleep?: (ms: number) => Promise<void>
+  etagCache?: ETagCache
+}
+
+export interface RequestOptions {
+  method?: string
+  body?: unknown // sent as JSON
+  // false keeps a GET out of the ETag cache: large bodies addressed by SHA never change
+  cache?: boolean
+}
+
+interface CachedResponse {
+  etag: string
+  data: unknown
+  link: string | null
+}
+
+export interface ETagCache {
+  get(url: string): CachedResponse | undefined
+  set(url: string, response: CachedResponse): void
+}
+
+interface GraphQLResponse<T> {
+  data?: T
+  errors?: Array<{ message: string }>
+}
+
+interface ClientResponse {
+  data: unknown
+  link: string | null
+}
+
+/**
+ * In-memory ETag cache, least recently used entries are evicted first
+ */
+export function createMemoryETagCache(maxEntries: number = ETAG_CACHE_SIZE): ETagCache {
+  const entries = new Map<string, CachedResponse>()
+
+  return {
+    get(url) {
+      const entry = entries.get(url)
+      if (entry) {
+        entries.delete(url)
+        entries.set(url, entry)
+      }
+      return entry
+    },
+    set(url, response) {
+      entries.delete(url)
+      entries.set(url, response)
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+  }
+}
+
+// Shared by every client in this isolate. Keyed by URL: GitHub varies ETags by
+// Authorization, so another token never gets a 304 for a body it could not see.
+const sharedETagCache = createMemoryETagCache()
+
+/**
+ * REST and GraphQL client for the GitHub API
+ *
+ * - Sends the auth, `X-GitHub-Api-Version` and `User-Agent: codiro-app` headers
+ * - Revalidates GET responses with `If-None-Match`; 304s do not count against the rate limit.
+ *   Requests with `cache: false` are neither revalidated nor stored
+ * - Waits for the rate limit reset (or `Retry-After`) when it is short, with jittered
+ *   exponential backoff for secondary limits and 5xx reads; longer waits throw
+ * - Maps failures to GitHubNotFoundError, GitHubForbiddenError, GitHubRateLimitedError
+ *   or GitHubError
+ */
+export function createGitHubClient(config: GitHubClientConfig) {
+  const fetchImpl = config.fetch ?? fetch
+  const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES
+  const baseDelay = config.retryBaseDelay ?? DEFAULT_RETRY_BASE_DELAY
+  const maxDelay = config.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY
+  const sleep = config.sleep ?? ((ms: number) => new Promise((resolve) => setTimeout(resolve, ms)))
+  const etagCache = config.etagCache ?? sharedETagCache
+
+  // Primary rate limit exhausted until this time (ms); set from X-RateLimit-* headers
+  let rateLimitResetAt = 0
+
+  function resolveUrl(path: string): string {
+    // Absolute URLs come from `Link` headers; never send the token anywhere else
+    if (path.startsWith(`${config.apiUrl}/`)) {
+      return path
+    }
+    if (/^https?:\/\//.test(path)) {
+      throw new Error(`Refusing to send a GitHub request to ${new URL(path).origin}`)
+    }
+    return `${config.apiUrl}${path}`
+  }
+
+  async function execute(path: string, options: RequestOptions = {}): Promise<ClientResponse> {
+    const method = options.method ?? 'GET'
+    const url = resolveUrl(path)
+    const description = `${method} ${path}`
+    const cacheable = method === 'GET' && options.cache !== false
+    const cached = cacheable ? etagCache.get(url) : undefined
+
+    for (let attempt = 0; ; attempt++) {
+      await waitForRateLimitReset(description)
+
+      const response = await fetchImpl(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${config.token}`,
+          Accept: 'application/vnd.github+json',
+          'X-GitHub-Api-Version': '2022-11-28',
+          'User-Agent': 'codiro-app',
+          ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...(cached ? { 'If-None-Match': cached.etag } : {}),
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      })
+
+      trackRateLimit(response)
+
+      if (response.status === 304 && cached) {
+        return { data: cached.data, link: cached.link }
+      }
+
+      if (response.ok) {
+        const text = await response.text()
+        const result = {
+          data: text ? JSON.parse(text) : undefined,
+          link: response.headers.get('Link'),
+        }
+        const etag = response.headers.get('ETag')
+        if (cacheable && etag) {
+          etagCache.set(url, { etag, ...result })
+        }
+        return result
+      }
+
+      const error = await toGitHubError(response, description)
+      const delay = retryDelay(error, method, attempt)
+      if (delay === null) {
+        throw error
+      }
+      await sleep(delay)
+    }
+  }
+
+  async function waitForRateLimitReset(description: string) {
+    const wait = rateLimitResetAt - Date.now()
+    if (wait <= 0) {
+      return
+    }
+    if (wait > maxDelay) {
+      throw new GitHubRateLimitedError(
+        `GitHub rate limit exhausted, not sending ${description}`,
+        403,
+        Math.ceil(wait / 1000)
+      )
+    }
+    await sleep(wait)
+  }
+
+  function trackRateLimit(response: Response) {
+    const remaining = response.headers.get('X-RateLimit-Remaining')
+    const reset = response.headers.get('X-RateLimit-Reset')
+    rateLimitResetAt = remaining === '0' && reset ? Number(reset) * 1000 : 0
+  }
+
+  function retryDelay(error: GitHubError, method: string, attempt: number): number | null {
+    if (attempt >= maxRetries) {
+      return null
+    }
+
+    if (error instanceof GitHubRateLimitedError) {
+      if (error.retryAfter !== null) {
+        const wait = error.retryAfter * 1000
+        return wait <= maxDelay ? wait : null
+      }
+      return backoff(attempt)
+    }
+
+    if (RETRYABLE_STATUSES.includes(error.status) && (method === 'GET' || method === 'HEAD')) {
+      return backoff(attempt)
+    }
+
+    return null
+  }
+
+  // Exponential backoff with "equal jitter": half fixed, half random
+  function backoff(attempt: number): number {
+    const delay = Math.min(maxDelay, baseDelay * 2 ** attempt)
+    return delay / 2 + Math.random() * (delay / 2)
+  }
+
+  return {
+    /**
+     * Send a request and return the parsed JSON body (undefined for empty responses)
+     */
+    async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+      const { data } = await execute(path, options)
+      return data as T
+    },
+
+    /**
+     * GET every page of a list endpoint, following `Link: <...>; rel="next"`
+     * `select` picks the items out of each page (some endpoints wrap them in an object).
+     */
+    async paginate<Page, Item>(path: string, select: (page: Page) => Item[]): Promise<Item[]> {
+      const items: Item[] = []
+      let next: string | null = path
+
+      while (next) {
+        const { data, link } = await execute(next)
+        items.push(...select(data as Page))
+        next = parseNextLink(link)
+      }
+
+      return items
+    },
+
+    /**
+     * Run a GraphQL query; GraphQL errors are thrown like HTTP errors
+     */
+    async graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+      const { data } = await execute('/graphql', { method: 'POST', body: { query, variables } })
+      const result = data as GraphQLResponse<T>
+
+      if (result.errors?.length) {
+        throw new Error(`GitHub GraphQL error: ${result.errors[0].message}`)
+      }
+
+      return result.data as T
+    },
+  }
+}
+
+export type GitHubClient = ReturnType<typeof createGitHubClient>
+
+/**
+ * Turn a failed response into the matching typed error
+ */
+async function toGitHubError(response: Response, description: string): Promise<GitHubError> {
+  const errorText = await response.text()
+  console.error('GitHub API error:', response.status, errorText)
+
+  const message = `GitHub request ${description} failed: ${response.status}`
+
+  if (isRateLimited(response, errorText)) {
+    return new GitHubRateLimitedError(message, response.status, retryAfterSeconds(response))
+  }
+  if (response.status === 404) {
+    return new GitHubNotFoundError(message)
+  }
+  if (response.status === 403) {
+    return new GitHubForbiddenError(message)
+  }
+  return new GitHubError(message, response.status)
+}
+
+function isRateLimited(response: Response, errorText: string): boolean {
+  return (
+    response.status === 429 ||
+    (response.status === 403 &&
+      (response.headers.get('X-RateLimit-Remaining') === '0' ||
+        response.headers.has('Retry-After') ||
+        /secondary rate limit/i.test(errorText)))
+  )
+}
+
+function retryAfterSeconds(response: Response): number | null {
+  const retryAfter = response.headers.get('Retry-After')
+  if (retryAfter) {
+    return Number(retryAfter)
+  }
+
+  const reset = response.headers.get('X-RateLimit-Reset')
+  if (reset && response.headers.get('X-RateLimit-Remaining') === '0') {
+    return Math.max(0, Number(reset) - Math.floor(Date.now() / 1000))
+  }
+
+  return null
+}
+
+/**
+ * Extract the rel="next" URL from a `Link` header
+ */
+export function parseNextLink(header: string | null): string | null {
+  if (!header) {
+    return null
+  }
+
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/)
+    if (match && match[2].split(' ').includes('next')) {
+      return match[1]
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,60 @@
+/**
+ * A GitHub API request that failed with a non-2xx status
+ */
+export class GitHubError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'GitHubError'
+    this.status = status
+  }
+}
+
+/**
+ * 404: the resource does not exist or the token cannot see it
+ */
+export class GitHubNotFoundError extends GitHubError {
+  constructor(message: string) {
+    super(message, 404)
+    this.name = 'GitHubNotFoundError'
+  }
+}
+
+/**
+ * 403 that is not a rate limit: the token lacks a permission
+ */
+export class GitHubForbiddenError extends GitHubError {
+  constructor(message: string) {
+    super(message, 403)
+    this.name = 'GitHubForbiddenError'
+  }
+}
+
+/**
+ * GitHub refused the request because a primary or secondary rate limit was hit
+ */
+export class GitHubRateLimitedError extends GitHubError {
+  // Seconds until requests are accepted again, when GitHub says
+  readonly retryAfter: number | null
+
+  constructor(message: string, status: number, retryAfter: number | null) {
+    super(message, status)
+    this.name = 'GitHubRateLimitedError'
+    this.retryAfter = retryAfter
+  }
+}
+
+/**
+ * The base branch moved and the new commits touch files a change set edits, so the changes
+ * cannot be rebased onto it without overwriting them
+ */
+export class RebaseConflictError extends Error {
+  readonly paths: string[]
+
+  constructor(branch: string, paths: string[]) {
+    super(`${branch} has moved and changed files this job edits: ${paths.join(', ')}`)
+    this.name = 'RebaseConflictError'
+    this.paths = paths
+  }
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest'
+import { createGitHubClient } from './client'
+import { RebaseConflictError } from './errors'
+import { commitChanges } from './git-data'
+
+const API_URL = 'https://api.github.test'
+const REPO = '/repos/octocat/codiro'
+
+interface RecordedRequest {
+  method: string
+  path: string
+  body: Record<string, unknown> | null
+}
+
+/**
+ * Client backed by a minimal Git Data API for one repository whose `main` branch is at `head`
+ * with the given files; records every request
+ */
+function setup(
+  options: {
+    files?: Record<string, { sha: string; mode?: string }>
+    head?: string
+    branchExists?: boolean
+    changedUpstream?: string[]
+  } = {}
+) {
+  const head = options.head ?? 'head-sha'
+  const requests: RecordedRequest[] = []
+  let blobs = 0
+
+  const routes: Record<string, (body: Record<string, unknown> | null) => [number, unknown]> = {
+    [`GET ${REPO}/git/ref/heads/main`]: () => [200, { object: { sha: head } }],
+    [`GET ${REPO}/git/commits/${head}`]: () => [200, { tree: { sha: 'base-tree' } }],
+    [`GET ${REPO}/git/trees/base-tree?recursive=1`]: () => [
+      200,
+      {
+        tree: Object.entries(options.files ?? {}).map(([path, file]) => ({
+          path,
+          mode: file.mode ?? '100644',
+          type: 'blob',
+          sha: file.sha,
+        })),
+      },
+    ],
+    [`GET ${REPO}/compare/old-sha...${head}`]: () => [
+      200,
+      { files: (options.changedUpstream ?? []).map((filename) => ({ filename })) },
+    ],
+    [`POST ${REPO}/git/blobs`]: () => [201, { sha: `blob-${++blobs}` }],
+    [`POST ${REPO}/git/trees`]: () => [201, { sha: 'new-tree' }],
+    [`POST ${REPO}/git/commits`]: () => [201, { sha: 'new-commit' }],
+    [`POST ${REPO}/git/refs`]: () =>
+      options.branchExists
+        ? [422, { message: 'Reference already exists' }]
+        : [201, { ref: 'refs/heads/codiro/issue-7' }],
+    [`PATCH ${REPO}/git/refs/heads/codiro/issue-7`]: () => [200, {}],
+  }
+
+  const fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input))
+    const method = init?.method ?? 'GET'
+    const path = url.pathname + url.search
+    const body = init?.body ? JSON.parse(init.body as string) : null
+    requests.push({ method, path, body })
+
+    const route = routes[`${method} ${path}`]
+    if (!route) {
+      throw new Error(`Unexpected request: ${method} ${path}`)
+    }
+    const [status, data] = route(body)
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }) as typeof globalThis.fetch
+
+  const client = createGitHubClient({ apiUrl: API_URL, token: 'ghs_test', fetch })
+  const sent = (method: string, path: string) =>
+    requests.filter((request) => request.method === method && request.path === `${REPO}${path}`)
+
+  return { client, requests, sent }
+}
+
+const input = {
+  baseBranch: 'main',
+  branch: 'codiro/issue-7',
+  message: 'Implement #7: Add greeting',
+}
+
+describe('commitChanges', () => {
+  it('commits creates, edits, deletes and renames as one tree on the base head', async () => {
+    const { client, sent } = setup({
+      files: {
+        'bin/run': { sha: 'run-sha', mode: '100755' },
+        'old.txt': { sha: 'old-sha' },
+        README: { sha: 'readme-sha' },
+      },
+    })
+
+    const result = await commitChanges(client, REPO, {
+      ...input,
+      changes: [
+        { action: 'create', path: 'hello.txt', content: 'Hello!\n' },
+        { action: 'modify', path: 'bin/run', content: '#!/bin/sh\necho hi\n' },
+        { action: 'delete', path: 'old.txt' },
+        { action: 'delete', path: 'gone.txt' },
+        { action: 'rename', previousPath: 'README', path: 'README.md' },
+      ],
+    })
+
+    expect(result).toEqual({ sha: 'new-commit', parentSha: 'head-sha' })
+    expect(sent('POST', '/git/blobs').map((request) => request.body)).toEqual([
+      { content: 'Hello!\n', encoding: 'utf-8' },
+      { content: '#!/bin/sh\necho hi\n', encoding: 'utf-8' },
+    ])
+    expect(sent('POST', '/git/trees')[0].body).toEqual({
+      base_tree: 'base-tree',
+      tree: [
+        { path: 'hello.txt', mode: '100644', type: 'blob', sha: 'blob-1' },
+        { path: 'bin/run', mode: '100755', type: 'blob', sha: 'blob-2' },
+        { path: 'old.txt', mode: '100644', type: 'blob', sha: null },
+        { path: 'README', mode: '100644', type: 'blob', sha: null },
+        { path: 'README.md', mode: '100644', type: 'blob', sha: 'readme-sha' },
+      ],
+    })
+    expect(sent('POST', '/git/commits')[0].body).toEqual({
+      message: 'Implement #7: Add greeting',
+      tree: 'new-tree',
+      parents: ['head-sha'],
+    })
+    expect(sent('POST', '/git/refs')[0].body).toEqual({
+      ref: 'refs/heads/codiro/issue-7',
+      sha: 'new-commit',
+    })
+  })
+
+  it('force-updates the branch left by an earlier run', async () => {
+    const { client, sent } = setup({ branchExists: true })
+
+    await commitChanges(client, REPO, {
+      ...input,
+      changes: [{ action: 'create', path: 'a.txt', content: 'a' }],
+    })
+
+    expect(sent('PATCH', '/git/refs/heads/codiro/issue-7')[0].body).toEqual({
+      sha: 'new-commit',
+      force: true,
+    })
+  })
+
+  it('rebases onto a base branch that moved when other files changed', async () => {
+    const { client, sent } = setup({ changedUpstream: ['package.json'] })
+
+    const result = await commitChanges(client, REPO, {
+      ...input,
+      baseSha: 'old-sha',
+      changes: [{ action: 'create', path: 'a.txt', content: 'a' }],
+    })
+
+    expect(result.parentSha).toBe('head-sha')
+    expect(sent('GET', '/compare/old-sha...head-sha')).toHaveLength(1)
+  })
+
+  it('refuses to rebase over upstream changes to the same files', async () => {
+    const { client, sent } = setup({ changedUpstream: ['README', 'package.json'] })
+
+    const commit = commitChanges(client, REPO, {
+      ...input,
+      baseSha: 'old-sha',
+      changes: [{ action: 'rename', previousPath: 'README', path: 'README.md' }],
+    })
+
+    await expect(commit).rejects.toThrow(RebaseConflictError)
+    await expect(commit).rejects.toThrow('main has moved and changed files this job edits: README')
+    expect(sent('POST', '/git/commits')).toEqual([])
+  })
+
+  it('refuses to rename a file that does not exist', async () => {
+    const { client } = setup()
+
+    await expect(
+      commitChanges(client, REPO, {
+        ...input,
+        changes: [{ action: 'rename', previousPath: 'missing.txt', path: 'found.txt' }],
+      })
+    ).rejects.toThrow('Cannot rename missing.txt: the file does not exist')
+  })
+})
@@ -0,0 +1,187 @@
+import type { GitHubClient } from './client'
+import { GitHubError, RebaseConflictError } from './errors'
+import type { FileChange } from '../types/jobs'
+
+const FILE_MODE = '100644'
+
+interface TreeEntry {
+  path: string
+  mode: string
+  type: 'blob' | 'tree' | 'commit'
+  sha: string
+}
+
+// Entry of a tree to create; a null sha deletes the path
+interface NewTreeEntry {
+  path: string
+  mode: string
+  type: 'blob'
+  sha: string | null
+}
+
+export interface CommitChangesInput {
+  baseBranch: string
+  // Commit the changes were generated against. When the base branch has moved past it, the
+  // changes are rebased onto the new head, unless the new commits touch the same files.
+  baseSha?: string
+  branch: string
+  message: string
+  changes: FileChange[]
+}
+
+export interface CommittedChanges {
+  // The new commit on `branch`
+  sha: string
+  // Head of the base branch it was made on
+  parentSha: string
+}
+
+/**
+ * Commit a set of file edits as a single commit on top of the base branch's head, with the
+ * Git Data API (blobs, tree, commit), and point `branch` at it
+ *
+ * The branch is created, or force-updated when it exists from an earlier run, so re-running a
+ * job replaces its previous commit instead of stacking on it. When `branch` is the base branch
+ * itself, the commit is added on top of it instead. File modes are kept for edited
+ * and renamed files; deleting a file the base no longer has is a no-op.
+ * Throws RebaseConflictError when the base branch moved and changed files the edits touch.
+ */
+export async function commitChanges(
+  client: GitHubClient,
+  repoPath: string,
+  input: CommitChangesInput
+): Promise<CommittedChanges> {
+  const head = await client.request<{ object: { sha: string } }>(
+    `${repoPath}/git/ref/heads/${encodePath(input.baseBranch)}`
+  )
+  const parentSha = head.object.sha
+
+  if (input.baseSha && input.baseSha !== parentSha) {
+    await assertRebasable(client, repoPath, input, parentSha)
+  }
+
+  const parent = await client.request<{ tree: { sha: string } }>(
+    `${repoPath}/git/commits/${parentSha}`
+  )
+  const baseTree = await client.request<{ tree: TreeEntry[] }>(
+    `${repoPath}/git/trees/${parent.tree.sha}?recursive=1`,
+    { cache: false }
+  )
+  const existing = new Map(
+    baseTree.tree.filter((entry) => entry.type === 'blob').map((entry) => [entry.path, entry])
+  )
+
+  const createBlob = async (content: string) => {
+    const blob = await client.request<{ sha: string }>(`${repoPath}/git/blobs`, {
+      method: 'POST',
+      body: { content, encoding: 'utf-8' },
+    })
+    return blob.sha
+  }
+
+  const entries: NewTreeEntry[] = []
+  for (const change of input.changes) {
+    const current = existing.get(change.path)
+
+    switch (change.action) {
+      case 'create':
+      case 'modify':
+        entries.push(blobEntry(change.path, current?.mode, await createBlob(change.content)))
+        break
+
+      case 'delete':
+        if (current) {
+          entries.push(blobEntry(change.path, current.mode, null))
+        }
+        break
+
+      case 'rename': {
+        const source = existing.get(change.previousPath)
+        if (!source && change.content === undefined) {
+          throw new Error(`Cannot rename ${change.previousPath}: the file does not exist`)
+        }
+        const sha = change.content === undefined ? source!.sha : await createBlob(change.content)
+        if (source) {
+          entries.push(blobEntry(change.previousPath, source.mode, null))
+        }
+        entries.push(blobEntry(change.path, source?.mode, sha))
+        break
+      }
+    }
+  }
+
+  const tree = await client.request<{ sha: string }>(`${repoPath}/git/trees`, {
+    method: 'POST',
+    body: { base_tree: parent.tree.sha, tree: entries },
+  })
+  const commit = await client.request<{ sha: string }>(`${repoPath}/git/commits`, {
+    method: 'POST',
+    body: { message: input.message, tree: tree.sha, parents: [parentSha] },
+  })
+
+  if (input.branch === input.baseBranch) {
+    // Adding to the branch itself: only a fast-forward, so commits pushed meanwhile are kept
+    await client.request(`${repoPath}/git/refs/heads/${encodePath(input.branch)}`, {
+      method: 'PATCH',
+      body: { sha: commit.sha, force: false },
+    })
+  } else {
+    await setBranch(client, repoPath, input.branch, commit.sha)
+  }
+  return { sha: commit.sha, parentSha }
+}
+
+// Files touched by the base branch's new commits must not overlap the edits
+async function assertRebasable(
+  client: GitHubClient,
+  repoPath: string,
+  input: CommitChangesInput,
+  headSha: string
+) {
+  const comparison = await client.request<{
+    files?: Array<{ filename: string; previous_filename?: string }>
+  }>(`${repoPath}/compare/${input.baseSha}...${headSha}`, { cache: false })
+
+  const changedUpstream = new Set(
+    (comparison.files ?? []).flatMap((file) =>
+      file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]
+    )
+  )
+  const touched = input.changes.flatMap((change) =>
+    change.action === 'rename' ? [change.previousPath, change.path] : [change.path]
+  )
+  const conflicts = [...new Set(touched.filter((path) => changedUpstream.has(path)))]
+
+  if (conflicts.length > 0) {
+    throw new RebaseConflictError(input.baseBranch, conflicts)
+  }
+}
+
+async function setBranch(client: GitHubClient, repoPath: string, branch: string, sha: string) {
+  try {
+    await client.request(`${repoPath}/git/refs`, {
+      method: 'POST',
+      body: { ref: `refs/heads/${branch}`, sha },
+    })
+  } catch (error) {
+    // 422: the branch exists from an earlier run; replace its commits
+    if (!(error instanceof GitHubError) || error.status !== 422) {
+      throw error
+    }
+    await client.request(`${repoPath}/git/refs/heads/${encodePath(branch)}`, {
+      method: 'PATCH',
+      body: { sha, force: true },
+    })
+  }
+}
+
+function blobEntry(path: string, mode: string | undefined, sha: string | null): NewTreeEntry {
+  return { path, mode: mode ?? FILE_MODE, type: 'blob', sha }
+}
+
+/**
+ * Encode a repository path for use in a URL, keeping its slashes
+ */
+export function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/')
+}
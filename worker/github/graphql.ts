@@ -0,0 +1,28 @@
+import type { GitHubClient } from './client'
+
+export interface IssueNode {
+  number: number
+  title: string
+  url: string
+  repository: { name: string; owner: { login: string } }
+}
+
+/**
+ * Resolve the issue behind a node id (e.g. a Projects v2 item's content), or null if it is not an issue
+ */
+export async function getIssueByNodeId(
+  client: GitHubClient,
+  nodeId: string
+): Promise<IssueNode | null> {
+  const data = await client.graphql<{ node: Partial<IssueNode> | null }>(
+    `query($id: ID!) {
+      node(id: $id) {
+        ... on Issue { number title url repository { name owner { login } } }
+      }
+    }`,
+    { id: nodeId }
+  )
+
+  const node = data?.node
+  return node?.number ? (node as IssueNode) : null
+}
@@ -0,0 +1,127 @@
+import { and, eq } from 'drizzle-orm'
+import type { Database } from '../db'
+import { createGitHubClient } from './client'
+import { listInstallationRepositories } from './repositories'
+import { getGitHubUserToken } from './user-tokens'
+import type { GitHubAppInstallation, UserInstallationsPage } from '../types/github'
+import { githubInstallations, githubInstallationUsers, identities } from '../../db/schema'
+
+/**
+ * Insert or refresh an installation row from GitHub's installation object
+ */
+export async function upsertInstallation(db: Database, installation: GitHubAppInstallation) {
+  const values = {
+    accountId: installation.account.id,
+    accountLogin: installation.account.login,
+    accountType: installation.account.type,
+    suspendedAt: installation.suspended_at,
+  }
+
+  await db
+    .insert(githubInstallations)
+    .values({ installationId: installation.id, ...values })
+    .onConflictDoUpdate({
+      target: githubInstallations.installationId,
+      set: { ...values, updatedAt: new Date().toISOString() },
+    })
+}
+
+/**
+ * Record an installation and grant the given user access to it
+ */
+export async function linkInstallationToUser(
+  db: Database,
+  installation: GitHubAppInstallation,
+  userId: string
+) {
+  await upsertInstallation(db, installation)
+  await db
+    .insert(githubInstallationUsers)
+    .values({ installationId: installation.id, userId })
+    .onConflictDoNothing()
+}
+
+/**
+ * Whether one of the user's GitHub accounts can reach an installation, asked with their stored
+ * user tokens (GET /user/installations); false when none of them has a usable token
+ */
+export async function userCanAccessInstallation(
+  db: Database,
+  env: Env,
+  userId: string,
+  installationId: number
+): Promise<boolean> {
+  const githubIdentities = await db.query.identities.findMany({
+    where: and(eq(identities.userId, userId), eq(identities.provider, 'github')),
+    columns: { id: true },
+  })
+
+  for (const identity of githubIdentities) {
+    const token = await getGitHubUserToken(db, env, identity.id)
+    if (!token) {
+      continue
+    }
+
+    const client = createGitHubClient({ apiUrl: env.GITHUB_API_URL, token })
+    const installations = await client.paginate<UserInstallationsPage, GitHubAppInstallation>(
+      '/user/installations?per_page=100',
+      (page) => page.installations
+    )
+    if (installations.some((installation) => installation.id === installationId)) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * List installations the user has linked
+ */
+export async function listUserInstallations(db: Database, userId: string) {
+  return db
+    .select({
+      installationId: githubInstallations.installationId,
+      accountId: githubInstallations.accountId,
+      accountLogin: githubInstallations.accountLogin,
+      accountType: githubInstallations.accountType,
+      suspendedAt: githubInstallations.suspendedAt,
+      createdAt: githubInstallations.createdAt,
+    })
+    .from(githubInstallationUsers)
+    .innerJoin(
+      githubInstallations,
+      eq(githubInstallations.installationId, githubInstallationUsers.installationId)
+    )
+    .where(eq(githubInstallationUsers.userId, userId))
+}
+
+export type InstallationRepositoryAccess = 'allowed' | 'not_linked' | 'repository_not_covered'
+
+/**
+ * Check that a user may attach an installation to a project of the given repository
+ * The user must have linked the installation, and the installation must reach the repository.
+ */
+export async function checkInstallationRepository(
+  db: Database,
+  env: Env,
+  userId: string,
+  installationId: number,
+  repository: { githubOwner: string; githubRepo: string }
+): Promise<InstallationRepositoryAccess> {
+  const link = await db.query.githubInstallationUsers.findFirst({
+    where: and(
+      eq(githubInstallationUsers.installationId, installationId),
+      eq(githubInstallationUsers.userId, userId)
+    ),
+  })
+  if (!link) {
+    return 'not_linked'
+  }
+
+  const fullName = `${repository.githubOwner}/${repository.githubRepo}`.toLowerCase()
+  const repositories = await listInstallationRepositories(env, installationId)
+  return repositories.some((candidate) => candidate.fullName.toLowerCase() === fullName)
+    ? 'allowed'
+    : 'repository_not_covered'
+}
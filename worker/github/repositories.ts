@@ -0,0 +1,77 @@
+import { createInstallationClient } from './app'
+import type { GitHubRepository, InstallationRepositoriesPage } from '../types/github'
+
+// Repository lists change rarely; keep them briefly to spare the rate limit
+const REPOSITORY_CACHE_TTL = 60 // seconds
+
+export interface InstallationRepository {
+  id: number
+  name: string
+  fullName: string
+  owner: string
+  private: boolean
+  archived: boolean
+  defaultBranch: string
+  description: string | null
+  htmlUrl: string
+  installationId: number
+}
+
+/**
+ * List every repository an installation can access
+ * Results are cached per installation with the Cache API; `refresh` skips the cache.
+ */
+export async function listInstallationRepositories(
+  env: Env,
+  installationId: number,
+  options: { refresh?: boolean } = {}
+): Promise<InstallationRepository[]> {
+  const cache = caches.default
+  const cacheKey = new Request(
+    new URL(`/internal-cache/github/installations/${installationId}/repositories`, env.APP_URL)
+  )
+
+  if (!options.refresh) {
+    const cached = await cache.match(cacheKey)
+    if (cached) {
+      return cached.json()
+    }
+  }
+
+  const client = await createInstallationClient(env, installationId)
+  const repositories = await client.paginate<InstallationRepositoriesPage, GitHubRepository>(
+    '/installation/repositories?per_page=100',
+    (page) => page.repositories
+  )
+
+  const result = repositories.map((repository) =>
+    toInstallationRepository(repository, installationId)
+  )
+
+  await cache.put(
+    cacheKey,
+    Response.json(result, {
+      headers: { 'Cache-Control': `max-age=${REPOSITORY_CACHE_TTL}` },
+    })
+  )
+
+  return result
+}
+
+function toInstallationRepository(
+  repository: GitHubRepository,
+  installationId: number
+): InstallationRepository {
+  return {
+    id: repository.id,
+    name: repository.name,
+    fullName: repository.full_name,
+    owner: repository.owner.login,
+    private: repository.private,
+    archived: repository.archived,
+    defaultBranch: repository.default_branch,
+    description: repository.description,
+    htmlUrl: repository.html_url,
+    installationId,
+  }
+}
@@ -0,0 +1,163 @@
+import type { GitHubClient } from './client'
+import { commitChanges, encodePath } from './git-data'
+import type {
+  OpenedPullRequest,
+  RepositoryGateway,
+  RepositoryIssue,
+  RepositoryPullRequest,
+  ReviewThread,
+} from '../types/jobs'
+
+interface PullRequestFile {
+  filename: string
+  previous_filename?: string
+  status: string
+  // Missing for binary files and very large diffs
+  patch?: string
+}
+
+interface ReviewComment {
+  id: number
+  in_reply_to_id?: number
+  path: string
+  line: number | null
+  body: string
+  user: { login: string }
+}
+
+interface RepositoryGatewayConfig {
+  client: GitHubClient
+  owner: string
+  repo: string
+}
+
+/**
+ * Repository operations for jobs and spec discussions, authenticated with an installation token
+ */
+export function createRepositoryGateway(config: RepositoryGatewayConfig): RepositoryGateway {
+  const { client } = config
+  const repoPath = `/repos/${config.owner}/${config.repo}`
+
+  return {
+    async getIssue(issueNumber: number): Promise<RepositoryIssue> {
+      return client.request<RepositoryIssue>(`${repoPath}/issues/${issueNumber}`)
+    },
+
+    async updateIssueBody(issueNumber: number, body: string): Promise<void> {
+      await client.request(`${repoPath}/issues/${issueNumber}`, { method: 'PATCH', body: { body } })
+    },
+
+    async createIssueComment(issueNumber: number, body: string): Promise<{ url: string }> {
+      const comment = await client.request<{ html_url: string }>(
+        `${repoPath}/issues/${issueNumber}/comments`,
+        { method: 'POST', body: { body } }
+      )
+      return { url: comment.html_url }
+    },
+
+    async listFiles(ref: string): Promise<string[]> {
+      const tree = await client.request<{ tree: Array<{ path: string; type: string }> }>(
+        `${repoPath}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+        { cache: false }
+      )
+      return tree.tree.filter((entry) => entry.type === 'blob').map((entry) => entry.path)
+    },
+
+    async getBranchSha(branch: string): Promise<string> {
+      const ref = await client.request<{ object: { sha: string } }>(
+        `${repoPath}/git/ref/heads/${encodePath(branch)}`
+      )
+      return ref.object.sha
+    },
+
+    async openPullRequest(input): Promise<OpenedPullRequest> {
+      await commitChanges(client, repoPath, {
+        baseBranch: input.baseBranch,
+        baseSha: input.baseSha,
+        branch: input.branch,
+        message: input.commitMessage,
+        changes: input.files,
+      })
+
+      const existing = await client.request<Array<{ number: number; html_url: string }>>(
+        `${repoPath}/pulls?state=open&head=${encodeURIComponent(`${config.owner}:${input.branch}`)}`
+      )
+      if (existing[0]) {
+        await client.request(`${repoPath}/pulls/${existing[0].number}`, {
+          method: 'PATCH',
+          body: { title: input.title, body: input.body },
+        })
+        return { number: existing[0].number, url: existing[0].html_url, created: false }
+      }
+
+      const pr = await client.request<{ number: number; html_url: string }>(`${repoPath}/pulls`, {
+        method: 'POST',
+        body: {
+          title: input.title,
+          body: input.body,
+          head: input.branch,
+          base: input.baseBranch,
+        },
+      })
+
+      return { number: pr.number, url: pr.html_url, created: true }
+    },
+
+    async getPullRequest(number: number): Promise<RepositoryPullRequest> {
+      const pr = await client.request<{
+        number: number
+        html_url: string
+        state: 'open' | 'closed'
+        head: { ref: string; sha: string }
+      }>(`${repoPath}/pulls/${number}`)
+      return {
+        number: pr.number,
+        url: pr.html_url,
+        state: pr.state,
+        branch: pr.head.ref,
+        headSha: pr.head.sha,
+      }
+    },
+
+    async getPullRequestDiff(number: number): Promise<string> {
+      const files = await client.paginate(
+        `${repoPath}/pulls/${number}/files?per_page=100`,
+        (page: PullRequestFile[]) => page
+      )
+      return files
+        .map((file) => {
+          const from = file.previous_filename ?? file.filename
+          const header = `diff --git a/${from} b/${file.filename}`
+          return [header, file.patch ?? `(${file.status}; no textual diff)`].join('\n')
+        })
+        .join('\n')
+    },
+
+    async listReviewThreads(number: number): Promise<ReviewThread[]> {
+      const comments = await client.paginate(
+        `${repoPath}/pulls/${number}/comments?per_page=100`,
+        (page: ReviewComment[]) => page
+      )
+      const threads = new Map<number, ReviewThread>()
+      for (const comment of comments) {
+        const root = comment.in_reply_to_id ?? comment.id
+        if (!threads.has(root)) {
+          threads.set(root, { path: comment.path, line: comment.line, comments: [] })
+        }
+        threads.get(root)!.comments.push({ author: comment.user.login, body: comment.body })
+      }
+      return [...threads.values()]
+    },
+
+    async pushChanges(input): Promise<{ sha: string }> {
+      const { sha } = await commitChanges(client, repoPath, {
+        baseBranch: input.branch,
+        baseSha: input.baseSha,
+        branch: input.branch,
+        message: input.commitMessage,
+        changes: input.files,
+      })
+      return { sha }
+    },
+  }
+}
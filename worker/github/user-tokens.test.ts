@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest'
+import { env, fetchMock } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import { getGitHubUserToken, saveGitHubUserTokens } from './user-tokens'
+import { createTestUser } from '../test/helpers'
+import { getDB } from '../db'
+import { githubUserTokens, identities } from '../../db/schema'
+
+const db = () => getDB(env.DB)
+
+async function createGitHubIdentity() {
+  const user = await createTestUser()
+  const [identity] = await db()
+    .insert(identities)
+    .values({
+      userId: user.id,
+      provider: 'github',
+      subject: String(Math.floor(Math.random() * 1e9)),
+      username: user.username,
+    })
+    .returning()
+  return identity.id
+}
+
+function inMinutes(minutes: number) {
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString()
+}
+
+function findRow(identityId: string) {
+  return db().query.githubUserTokens.findFirst({
+    where: eq(githubUserTokens.identityId, identityId),
+  })
+}
+
+describe('GitHub user tokens', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  it('returns tokens that are still valid without refreshing', async () => {
+    const identityId = await createGitHubIdentity()
+    await saveGitHubUserTokens(db(), env, identityId, {
+      accessToken: 'ghu_valid',
+      refreshToken: 'ghr_valid',
+      accessTokenExpiresAt: inMinutes(60),
+      refreshTokenExpiresAt: inMinutes(60 * 24),
+    })
+
+    expect(await getGitHubUserToken(db(), env, identityId)).toBe('ghu_valid')
+  })
+
+  it('keeps non-expiring tokens', async () => {
+    const identityId = await createGitHubIdentity()
+    await saveGitHubUserTokens(db(), env, identityId, {
+      accessToken: 'ghu_forever',
+      refreshToken: null,
+      accessTokenExpiresAt: null,
+      refreshTokenExpiresAt: null,
+    })
+
+    expect(await getGitHubUserToken(db(), env, identityId)).toBe('ghu_forever')
+  })
+
+  it('refreshes expired tokens and stores the rotated pair', async () => {
+    const identityId = await createGitHubIdentity()
+    await saveGitHubUserTokens(db(), env, identityId, {
+      accessToken: 'ghu_expired',
+      refreshToken: 'ghr_old',
+      accessTokenExpiresAt: inMinutes(-1),
+      refreshTokenExpiresAt: inMinutes(60 * 24),
+    })
+
+    let requestBody: Record<string, string> = {}
+    fetchMock
+      .get('https://github.com')
+      .intercept({ path: '/login/oauth/access_token', method: 'POST' })
+      .reply(({ body }) => {
+        requestBody = JSON.parse(String(body))
+        return {
+          statusCode: 200,
+          data: {
+            access_token: 'ghu_new',
+            token_type: 'bearer',
+            scope: '',
+            refresh_token: 'ghr_new',
+            expires_in: 28800,
+            refresh_token_expires_in: 15811200,
+          },
+        }
+      })
+
+    expect(await getGitHubUserToken(db(), env, identityId)).toBe('ghu_new')
+    expect(requestBody).toMatchObject({
+      grant_type: 'refresh_token',
+      refresh_token: 'ghr_old',
+      client_id: env.GITHUB_APP_CLIENT_ID,
+    })
+
+    // The new pair is used from now on
+    expect(await getGitHubUserToken(db(), env, identityId)).toBe('ghu_new')
+  })
+
+  it('gives up when GitHub rejects the refresh token', async () => {
+    const identityId = await createGitHubIdentity()
+    await saveGitHubUserTokens(db(), env, identityId, {
+      accessToken: 'ghu_expired',
+      refreshToken: 'ghr_revoked',
+      accessTokenExpiresAt: inMinutes(-1),
+      refreshTokenExpiresAt: inMinutes(60),
+    })
+    fetchMock
+      .get('https://github.com')
+      .intercept({ path: '/login/oauth/access_token', method: 'POST' })
+      .reply(200, { error: 'bad_refresh_token' })
+
+    expect(await getGitHubUserToken(db(), env, identityId)).toBeNull()
+  })
+
+  it('does not try to refresh with an expired refresh token', async () => {
+    const identityId = await createGitHubIdentity()
+    await saveGitHubUserTokens(db(), env, identityId, {
+      accessToken: 'ghu_expired',
+      refreshToken: 'ghr_expired',
+      accessTokenExpiresAt: inMinutes(-60),
+      refreshTokenExpiresAt: inMinutes(-1),
+    })
+
+    expect(await getGitHubUserToken(db(), env, identityId)).toBeNull()
+  })
+
+  it('re-encrypts tokens stored under a retired key', async () => {
+    const identityId = await createGitHubIdentity()
+    await saveGitHubUserTokens(db(), env, identityId, {
+      accessToken: 'ghu_rotate',
+      refreshToken: 'ghr_rotate',
+      accessTokenExpiresAt: inMinutes(60),
+      refreshTokenExpiresAt: inMinutes(60 * 24),
+    })
+
+    const newKey = btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))))
+    const rotated = {
+      ...env,
+      TOKEN_ENCRYPTION_KEYS: `test-2:${newKey},${env.TOKEN_ENCRYPTION_KEYS}`,
+    }
+
+    expect(await getGitHubUserToken(db(), rotated, identityId)).toBe('ghu_rotate')
+    expect(await findRow(identityId)).toMatchObject({ keyId: 'test-2' })
+
+    // The old key can now be dropped
+    const newOnly = { ...env, TOKEN_ENCRYPTION_KEYS: `test-2:${newKey}` }
+    expect(await getGitHubUserToken(db(), newOnly, identityId)).toBe('ghu_rotate')
+  })
+
+  it('is removed together with its identity', async () => {
+    const identityId = await createGitHubIdentity()
+    await saveGitHubUserTokens(db(), env, identityId, {
+      accessToken: 'ghu_gone',
+      refreshToken: null,
+      accessTokenExpiresAt: null,
+      refreshTokenExpiresAt: null,
+    })
+
+    await db().delete(identities).where(eq(identities.id, identityId))
+
+    expect(await findRow(identityId)).toBeUndefined()
+  })
+})
@@ -0,0 +1,117 @@
+import { eq } from 'drizzle-orm'
+import type { Database } from '../db'
+import type { GitHubUserTokens } from '../types/auth'
+import { currentEncryptionKeyId, decryptSecret, encryptSecret } from '../auth/encryption'
+import { refreshGitHubUserToken } from '../auth/providers/github'
+import { githubUserTokens, type GitHubUserToken } from '../../db/schema'
+
+// Refresh a little early so the token does not expire mid-request
+const REFRESH_MARGIN = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Store a GitHub identity's user tokens, encrypted with the current key
+ */
+export async function saveGitHubUserTokens(
+  db: Database,
+  env: Env,
+  identityId: string,
+  tokens: GitHubUserTokens
+): Promise<void> {
+  const access = await encryptSecret(env, tokens.accessToken, tokenContext(identityId, 'access'))
+  const refresh = tokens.refreshToken
+    ? await encryptSecret(env, tokens.refreshToken, tokenContext(identityId, 'refresh'))
+    : null
+
+  const values = {
+    accessTokenCiphertext: access.ciphertext,
+    refreshTokenCiphertext: refresh?.ciphertext ?? null,
+    keyId: access.keyId,
+    accessTokenExpiresAt: tokens.accessTokenExpiresAt,
+    refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
+    updatedAt: new Date().toISOString(),
+  }
+
+  await db
+    .insert(githubUserTokens)
+    .values({ identityId, ...values })
+    .onConflictDoUpdate({ target: githubUserTokens.identityId, set: values })
+}
+
+/**
+ * Get a usable access token for a GitHub identity
+ * Expired tokens are refreshed; rows under an old encryption key are re-encrypted.
+ * Returns null when there is no token or it can no longer be refreshed.
+ */
+export async function getGitHubUserToken(
+  db: Database,
+  env: Env,
+  identityId: string
+): Promise<string | null> {
+  const row = await findTokenRow(db, identityId)
+  if (!row) {
+    return null
+  }
+
+  const tokens = await decryptTokens(env, row)
+
+  if (!isExpiring(tokens.accessTokenExpiresAt)) {
+    if (row.keyId !== currentEncryptionKeyId(env)) {
+      await saveGitHubUserTokens(db, env, identityId, tokens)
+    }
+    return tokens.accessToken
+  }
+
+  if (!tokens.refreshToken || isExpiring(tokens.refreshTokenExpiresAt)) {
+    return null
+  }
+
+  try {
+    const refreshed = await refreshGitHubUserToken(env, tokens.refreshToken)
+    await saveGitHubUserTokens(db, env, identityId, refreshed)
+    return refreshed.accessToken
+  } catch (error) {
+    // A concurrent request may have used the refresh token first; take its result
+    const latest = await findTokenRow(db, identityId)
+    if (latest && latest.updatedAt !== row.updatedAt) {
+      return (await decryptTokens(env, latest)).accessToken
+    }
+
+    console.error('GitHub user token refresh failed:', error)
+    return null
+  }
+}
+
+async function findTokenRow(db: Database, identityId: string) {
+  return db.query.githubUserTokens.findFirst({
+    where: eq(githubUserTokens.identityId, identityId),
+  })
+}
+
+async function decryptTokens(env: Env, row: GitHubUserToken): Promise<GitHubUserTokens> {
+  const { identityId, keyId } = row
+
+  return {
+    accessToken: await decryptSecret(
+      env,
+      { ciphertext: row.accessTokenCiphertext, keyId },
+      tokenContext(identityId, 'access')
+    ),
+    refreshToken: row.refreshTokenCiphertext
+      ? await decryptSecret(
+          env,
+          { ciphertext: row.refreshTokenCiphertext, keyId },
+          tokenContext(identityId, 'refresh')
+        )
+      : null,
+    accessTokenExpiresAt: row.accessTokenExpiresAt,
+    refreshTokenExpiresAt: row.refreshTokenExpiresAt,
+  }
+}
+
+function isExpiring(expiresAt: string | null): boolean {
+  return expiresAt !== null && new Date(expiresAt).getTime() - REFRESH_MARGIN <= Date.now()
+}
+
+function tokenContext(identityId: string, kind: 'access' | 'refresh'): string {
+  return `github_user_tokens:${identityId}:${kind}`
+}
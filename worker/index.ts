@@ -1,11 +1,44 @@
 import { Hono } from 'hono'
 import auth from './routes/auth'
+import projects from './routes/projects'
+import github from './routes/github'
+import webhooks from './routes/webhooks'
+import usage from './routes/usage'
+import audit from './routes/audit'
+import workspaces from './routes/workspaces'
+import invitations from './routes/invitations'
+import jobControl from './routes/job-control'
+import { reconcileIssueMirrors } from './issues/sync'
+import { reconcileRepositorySnapshots } from './context/indexer'
+import { getDB } from './db'
 
 const app = new Hono<{ Bindings: Env }>()
 
 // Auth routes
 app.route('/api/auth', auth)
 
+// Project routes
+app.route('/api/projects', projects)
+
+// GitHub App routes
+app.route('/api/github', github)
+
+// GitHub webhooks
+app.route('/api/webhooks', webhooks)
+
+// Job cancellation and live logs
+app.route('/api/jobs', jobControl)
+
+// Usage and quota report
+app.route('/api/usage', usage)
+
+// Audit log
+app.route('/api/audit', audit)
+
+// Workspaces, memberships and invitations
+app.route('/api/workspaces', workspaces)
+app.route('/api/invitations', invitations)
+
 // Test endpoint
 app.get('/api/test', (c) => {
   return c.json({
@@ -26,4 +59,16 @@ app.all('*', (c) => {
   return c.notFound()
 })
 
-export default app
+// Durable Object classes (wrangler.jsonc)
+export { JobCoordinator } from './jobs/coordinator'
+
+export default {
+  fetch: app.fetch,
+
+  // Cron trigger (wrangler.jsonc): backfill new projects, reconcile issue mirrors and
+  // continue repository indexing
+  scheduled(_controller, env, ctx) {
+    ctx.waitUntil(reconcileIssueMirrors(getDB(env.DB), env))
+    ctx.waitUntil(reconcileRepositorySnapshots(getDB(env.DB), env))
+  },
+} satisfies ExportedHandler<Env>
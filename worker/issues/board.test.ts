@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { boardColumnOf, issueChangeForColumn } from './board'
+import { DEFAULT_BOARD_COLUMN_LABELS } from '../../db/schema'
+
+const columns = DEFAULT_BOARD_COLUMN_LABELS
+
+describe('boardColumnOf', () => {
+  it('places issues by their column label and state', () => {
+    expect(boardColumnOf({ state: 'open', labels: ['bug'] }, columns)).toBe('backlog')
+    expect(boardColumnOf({ state: 'open', labels: ['in progress'] }, columns)).toBe('in_progress')
+    expect(boardColumnOf({ state: 'open', labels: ['In Progress', 'In Review'] }, columns)).toBe(
+      'in_review'
+    )
+    expect(boardColumnOf({ state: 'closed', labels: ['In Progress'] }, columns)).toBe('done')
+  })
+
+  it('uses the labels of the project mapping', () => {
+    const custom = { backlog: 'Todo', in_progress: 'Doing', in_review: null, done: 'Shipped' }
+    expect(boardColumnOf({ state: 'open', labels: ['In Review'] }, custom)).toBe('backlog')
+    expect(boardColumnOf({ state: 'open', labels: ['doing'] }, custom)).toBe('in_progress')
+    expect(boardColumnOf({ state: 'open', labels: ['Shipped'] }, custom)).toBe('done')
+  })
+})
+
+describe('issueChangeForColumn', () => {
+  it('swaps the column labels and keeps the others', () => {
+    expect(issueChangeForColumn({ labels: ['bug', 'in progress'] }, columns, 'in_review')).toEqual({
+      labels: ['bug', 'In Review'],
+      state: 'open',
+    })
+    expect(issueChangeForColumn({ labels: ['In Review'] }, columns, 'backlog')).toEqual({
+      labels: [],
+      state: 'open',
+    })
+  })
+
+  it('closes issues moved to Done', () => {
+    expect(issueChangeForColumn({ labels: ['bug', 'In Review'] }, columns, 'done')).toEqual({
+      labels: ['bug'],
+      state: 'closed',
+    })
+  })
+})
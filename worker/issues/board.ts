@@ -0,0 +1,74 @@
+import type { Database } from '../db'
+import type { GitHubClient } from '../github/client'
+import type { GitHubIssue } from '../types/github'
+import { upsertIssues } from './mirror'
+import {
+  BOARD_COLUMNS,
+  type BoardColumn,
+  type BoardColumnLabels,
+  type Project,
+} from '../../db/schema'
+
+/**
+ * Column of an issue on the project board
+ * Closed issues are done. An open issue sits in the right-most column whose label it carries,
+ * and in the backlog without any.
+ */
+export function boardColumnOf(
+  issue: { state: 'open' | 'closed'; labels: string[] },
+  columns: BoardColumnLabels
+): BoardColumn {
+  if (issue.state === 'closed') {
+    return 'done'
+  }
+  const labels = new Set(issue.labels.map(normalize))
+  const match = [...BOARD_COLUMNS]
+    .reverse()
+    .find((column) => columns[column] !== null && labels.has(normalize(columns[column])))
+  return match ?? 'backlog'
+}
+
+/**
+ * Labels and state that put an issue in a column: the labels of the other columns are taken
+ * off, the column's own label is added, and only Done closes the issue
+ */
+export function issueChangeForColumn(
+  issue: { labels: string[] },
+  columns: BoardColumnLabels,
+  column: BoardColumn
+): { labels: string[]; state: 'open' | 'closed' } {
+  const mapped = new Set(
+    Object.values(columns)
+      .filter((label) => label !== null)
+      .map(normalize)
+  )
+  const labels = issue.labels.filter((label) => !mapped.has(normalize(label)))
+  const label = columns[column]
+  if (label !== null) {
+    labels.push(label)
+  }
+  return { labels, state: column === 'done' ? 'closed' : 'open' }
+}
+
+/**
+ * Move an issue to a board column on GitHub and write the result to the mirror
+ */
+export async function moveIssueToColumn(
+  db: Database,
+  client: GitHubClient,
+  project: Project,
+  issue: { number: number; labels: string[] },
+  column: BoardColumn
+): Promise<GitHubIssue> {
+  const updated = await client.request<GitHubIssue>(
+    `/repos/${project.githubOwner}/${project.githubRepo}/issues/${issue.number}`,
+    { method: 'PATCH', body: issueChangeForColumn(issue, project.boardColumns, column) }
+  )
+  await upsertIssues(db, project.id, [updated])
+  return updated
+}
+
+// GitHub label names are case-insensitive
+function normalize(label: string) {
+  return label.trim().toLowerCase()
+}
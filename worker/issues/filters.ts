@@ -0,0 +1,111 @@
+import { and, eq, or, sql, type SQL } from 'drizzle-orm'
+import { issues } from '../../db/schema'
+
+const DEFAULT_PER_PAGE = 30
+const MAX_PER_PAGE = 100
+const MAX_LABELS = 10
+const ISSUE_STATES = ['open', 'closed', 'all'] as const
+
+export interface IssueListQuery {
+  state: (typeof ISSUE_STATES)[number]
+  labels: string[]
+  // Login, or 'none' for unassigned issues
+  assignee: string | null
+  search: string | null
+  page: number
+  perPage: number
+}
+
+type ParseResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string }
+
+/**
+ * Validate the query string of GET /api/projects/:projectId/issues
+ */
+export function parseIssueListQuery(query: {
+  state?: string
+  label: string[]
+  assignee?: string
+  q?: string
+  page?: string
+  perPage?: string
+}): ParseResult<IssueListQuery> {
+  const state = query.state ?? 'open'
+  if (!isIssueState(state)) {
+    return { error: `state must be one of: ${ISSUE_STATES.join(', ')}` }
+  }
+
+  const labels = query.label.map((label) => label.trim()).filter(Boolean)
+  if (labels.length > MAX_LABELS) {
+    return { error: `At most ${MAX_LABELS} labels can be combined` }
+  }
+
+  const page = parsePositiveInt(query.page, 1)
+  const perPage = parsePositiveInt(query.perPage, DEFAULT_PER_PAGE)
+  if (page === null || perPage === null || perPage > MAX_PER_PAGE) {
+    return { error: `page must be >= 1 and perPage between 1 and ${MAX_PER_PAGE}` }
+  }
+
+  return {
+    data: {
+      state,
+      labels,
+      assignee: query.assignee?.trim() || null,
+      search: query.q?.trim() || null,
+      page,
+      perPage,
+    },
+  }
+}
+
+/**
+ * WHERE clause for a project's issues matching the filters
+ * Labels must all be present; label and assignee names compare case-insensitively, like GitHub.
+ */
+export function issueListConditions(projectId: string, query: IssueListQuery): SQL | undefined {
+  const conditions: Array<SQL | undefined> = [eq(issues.projectId, projectId)]
+
+  if (query.state !== 'all') {
+    conditions.push(eq(issues.state, query.state))
+  }
+
+  for (const label of query.labels) {
+    conditions.push(
+      sql`exists (select 1 from json_each(${issues.labels}) where lower(json_each.value) = ${label.toLowerCase()})`
+    )
+  }
+
+  if (query.assignee === 'none') {
+    conditions.push(sql`json_array_length(${issues.assignees}) = 0`)
+  } else if (query.assignee) {
+    conditions.push(
+      sql`exists (select 1 from json_each(${issues.assignees}) where lower(json_each.value) = ${query.assignee.toLowerCase()})`
+    )
+  }
+
+  if (query.search) {
+    // "#12" or "12" also matches the issue number; LIKE is case-insensitive for ASCII
+    const number = /^#?(\d+)$/.exec(query.search)?.[1]
+    const pattern = `%${query.search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`
+    conditions.push(
+      or(
+        sql`${issues.title} like ${pattern} escape '\\'`,
+        sql`${issues.body} like ${pattern} escape '\\'`,
+        number ? eq(issues.number, Number(number)) : undefined
+      )
+    )
+  }
+
+  return and(...conditions)
+}
+
+function isIssueState(value: string): value is IssueListQuery['state'] {
+  return (ISSUE_STATES as readonly string[]).includes(value)
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number | null {
+  if (value === undefined) {
+    return fallback
+  }
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : null
+}
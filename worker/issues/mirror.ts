@@ -0,0 +1,195 @@
+import { and, eq, inArray, isNull, sql, type SQL } from 'drizzle-orm'
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core'
+import type { Database } from '../db'
+import type { GitHubIssue, GitHubIssueComment } from '../types/github'
+import { issueComments, issues, type NewIssue, type NewIssueComment } from '../../db/schema'
+
+/**
+ * Write issues into a project's mirror
+ * Rows only move forward: a payload older than the stored issue (by GitHub's updated_at) is
+ * skipped, so a slow backfill page cannot undo a newer webhook. Pull requests are ignored.
+ */
+export async function upsertIssues(db: Database, projectId: string, payloads: GitHubIssue[]) {
+  const rows = payloads.filter((issue) => !issue.pull_request).map((i) => toIssueRow(projectId, i))
+  if (rows.length === 0) {
+    return
+  }
+
+  const [first, ...rest] = rows.map((row) =>
+    db
+      .insert(issues)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [issues.projectId, issues.number],
+        set: excluded(issues, [
+          'githubId',
+          'nodeId',
+          'title',
+          'body',
+          'state',
+          'stateReason',
+          'authorLogin',
+          'labels',
+          'assignees',
+          'commentsCount',
+          'htmlUrl',
+          'githubUpdatedAt',
+          'closedAt',
+        ]),
+        setWhere: sql`excluded.github_updated_at >= ${issues.githubUpdatedAt}`,
+      })
+  )
+  await db.batch([first, ...rest])
+}
+
+/**
+ * Remove a deleted or transferred issue and its comments from the mirror
+ */
+export async function removeIssue(db: Database, projectId: string, number: number) {
+  await db.batch([
+    db
+      .delete(issueComments)
+      .where(and(eq(issueComments.projectId, projectId), eq(issueComments.issueNumber, number))),
+    db.delete(issues).where(and(eq(issues.projectId, projectId), eq(issues.number, number))),
+  ])
+}
+
+/**
+ * Write comments of one or more mirrored issues
+ * Like issues, stale payloads are skipped; tombstoned comments are never brought back.
+ */
+export async function upsertComments(
+  db: Database,
+  projectId: string,
+  comments: Array<{ issueNumber: number; comment: GitHubIssueComment }>
+) {
+  if (comments.length === 0) {
+    return
+  }
+
+  const [first, ...rest] = comments.map(({ issueNumber, comment }) =>
+    db
+      .insert(issueComments)
+      .values(toCommentRow(projectId, issueNumber, comment))
+      .onConflictDoUpdate({
+        target: [issueComments.projectId, issueComments.githubId],
+        set: excluded(issueComments, ['body', 'htmlUrl', 'githubUpdatedAt']),
+        setWhere: and(
+          sql`excluded.github_updated_at >= ${issueComments.githubUpdatedAt}`,
+          isNull(issueComments.deletedAt)
+        ),
+      })
+  )
+  await db.batch([first, ...rest])
+}
+
+/**
+ * Mark a comment deleted on GitHub
+ * The row is kept (without its body) so threads keep their shape; a tombstone is written even
+ * for comments the mirror has not seen yet, so a backfill running behind cannot insert it.
+ */
+export async function tombstoneComment(
+  db: Database,
+  projectId: string,
+  issueNumber: number,
+  comment: GitHubIssueComment
+) {
+  const now = new Date().toISOString()
+  await db
+    .insert(issueComments)
+    .values({ ...toCommentRow(projectId, issueNumber, comment), body: null, deletedAt: now })
+    .onConflictDoUpdate({
+      target: [issueComments.projectId, issueComments.githubId],
+      set: { body: null, deletedAt: now, updatedAt: now },
+      setWhere: isNull(issueComments.deletedAt),
+    })
+}
+
+/**
+ * Tombstone an issue's live comments that GitHub no longer returns
+ * Deletions do not show up in `since` listings, so reconciliation compares full comment lists.
+ */
+export async function tombstoneMissingComments(
+  db: Database,
+  projectId: string,
+  issueNumber: number,
+  presentGithubIds: number[]
+) {
+  const now = new Date().toISOString()
+  const live = await db
+    .select({ githubId: issueComments.githubId })
+    .from(issueComments)
+    .where(
+      and(
+        eq(issueComments.projectId, projectId),
+        eq(issueComments.issueNumber, issueNumber),
+        isNull(issueComments.deletedAt)
+      )
+    )
+
+  const present = new Set(presentGithubIds)
+  const missing = live.map((row) => row.githubId).filter((id) => !present.has(id))
+  if (missing.length === 0) {
+    return 0
+  }
+
+  await db
+    .update(issueComments)
+    .set({ body: null, deletedAt: now, updatedAt: now })
+    .where(and(eq(issueComments.projectId, projectId), inArray(issueComments.githubId, missing)))
+  return missing.length
+}
+
+function toIssueRow(projectId: string, issue: GitHubIssue): NewIssue {
+  return {
+    projectId,
+    githubId: issue.id,
+    nodeId: issue.node_id,
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state,
+    stateReason: issue.state_reason,
+    authorLogin: issue.user.login,
+    labels: issue.labels.map((label) => label.name),
+    assignees: issue.assignees.map((assignee) => assignee.login),
+    commentsCount: issue.comments,
+    htmlUrl: issue.html_url,
+    githubCreatedAt: issue.created_at,
+    githubUpdatedAt: issue.updated_at,
+    closedAt: issue.closed_at,
+  }
+}
+
+function toCommentRow(
+  projectId: string,
+  issueNumber: number,
+  comment: GitHubIssueComment
+): NewIssueComment {
+  return {
+    projectId,
+    issueNumber,
+    githubId: comment.id,
+    authorLogin: comment.user.login,
+    authorType: comment.user.type,
+    body: comment.body,
+    htmlUrl: comment.html_url,
+    githubCreatedAt: comment.created_at,
+    githubUpdatedAt: comment.updated_at,
+  }
+}
+
+/**
+ * `SET column = excluded.column` for an upsert, plus a fresh updated_at
+ */
+function excluded<T extends { updatedAt: SQLiteColumn }>(
+  table: T,
+  keys: Array<keyof T & string>
+): Record<string, SQL | string> {
+  const set: Record<string, SQL | string> = { updatedAt: new Date().toISOString() }
+  for (const key of keys) {
+    const column = table[key] as SQLiteColumn
+    set[key] = sql.raw(`excluded.${column.name}`)
+  }
+  return set
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest'
+import { env, fetchMock } from 'cloudflare:test'
+import { and, eq } from 'drizzle-orm'
+import { reconcileIssueMirrors } from './sync'
+import { getDB } from '../db'
+import { githubComment, githubIssue } from '../test/fakes'
+import { createTestProject, createTestUser } from '../test/helpers'
+import { issueComments, issueSyncs, issues } from '../../db/schema'
+
+const ISSUES_PATH = '/repos/octocat/codiro/issues?state=all&sort=updated&direction=asc&per_page=100'
+const COMMENTS_PATH =
+  '/repos/octocat/codiro/issues/comments?sort=updated&direction=asc&per_page=100'
+
+function since(timestamp: string) {
+  return `&since=${encodeURIComponent(timestamp)}`
+}
+
+function mockInstallationToken(installationId: number) {
+  fetchMock
+    .get(env.GITHUB_API_URL)
+    .intercept({ path: `/app/installations/${installationId}/access_tokens`, method: 'POST' })
+    .reply(201, {
+      token: `ghs_${installationId}`,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    })
+}
+
+function mockListing(path: string, items: unknown[]) {
+  fetchMock.get(env.GITHUB_API_URL).intercept({ path }).reply(200, items)
+}
+
+describe('Issue mirror reconciliation', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  it('backfills issues and comments, then syncs from the cursor', async () => {
+    const db = getDB(env.DB)
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 401 })
+    // No installation: skipped
+    await createTestProject(user, { githubRepo: 'other' })
+
+    mockInstallationToken(401)
+    mockListing(ISSUES_PATH, [
+      githubIssue(1, { comments: 2, updated_at: '2025-01-01T00:00:00Z' }),
+      githubIssue(2, { pull_request: { url: 'https://x.test/pr/2' } }),
+      githubIssue(3, { updated_at: '2025-01-03T00:00:00Z' }),
+    ])
+    mockListing(COMMENTS_PATH, [
+      githubComment(601, 1, { updated_at: '2025-01-01T00:00:00Z' }),
+      githubComment(602, 2),
+      githubComment(603, 1, { updated_at: '2025-01-02T00:00:00Z' }),
+    ])
+
+    await reconcileIssueMirrors(db, env)
+
+    const mirrored = await db.query.issues.findMany({ where: eq(issues.projectId, project.id) })
+    expect(mirrored.map((issue) => issue.number).sort()).toEqual([1, 3])
+    const comments = await db.query.issueComments.findMany({
+      where: eq(issueComments.projectId, project.id),
+    })
+    expect(comments.map((comment) => comment.githubId).sort()).toEqual([601, 603])
+
+    const state = await db.query.issueSyncs.findFirst({
+      where: eq(issueSyncs.projectId, project.id),
+    })
+    expect(state).toMatchObject({
+      issuesCursor: '2025-01-03T00:00:00Z',
+      commentsCursor: '2025-01-02T00:00:00Z',
+      lastError: null,
+    })
+    expect(state?.backfilledAt).not.toBeNull()
+
+    // Next pass: a comment was deleted without a webhook reaching us
+    mockListing(`${ISSUES_PATH}${since('2025-01-03T00:00:00Z')}`, [
+      githubIssue(1, { title: 'Renamed', comments: 1, updated_at: '2025-01-04T00:00:00Z' }),
+    ])
+    mockListing(`${COMMENTS_PATH}${since('2025-01-02T00:00:00Z')}`, [])
+    mockListing('/repos/octocat/codiro/issues/1/comments?per_page=100', [
+      githubComment(601, 1, { updated_at: '2025-01-01T00:00:00Z' }),
+    ])
+
+    await reconcileIssueMirrors(db, env)
+
+    const renamed = await db.query.issues.findFirst({
+      where: and(eq(issues.projectId, project.id), eq(issues.number, 1)),
+    })
+    expect(renamed?.title).toBe('Renamed')
+    const deleted = await db.query.issueComments.findFirst({
+      where: and(eq(issueComments.projectId, project.id), eq(issueComments.githubId, 603)),
+    })
+    expect(deleted).toMatchObject({ body: null })
+    expect(deleted?.deletedAt).not.toBeNull()
+  })
+
+  it('moves the cursor forward across full pages', async () => {
+    const db = getDB(env.DB)
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 402 })
+
+    const minute = (n: number) => new Date(Date.UTC(2025, 0, 1, 0, n)).toISOString()
+    mockInstallationToken(402)
+    mockListing(
+      ISSUES_PATH,
+      Array.from({ length: 100 }, (_, i) => githubIssue(i + 1, { updated_at: minute(i) }))
+    )
+    mockListing(`${ISSUES_PATH}${since(minute(99))}`, [
+      githubIssue(101, { updated_at: minute(100) }),
+    ])
+    mockListing(COMMENTS_PATH, [])
+
+    await reconcileIssueMirrors(db, env)
+
+    const mirrored = await db.query.issues.findMany({ where: eq(issues.projectId, project.id) })
+    expect(mirrored).toHaveLength(101)
+    const state = await db.query.issueSyncs.findFirst({
+      where: eq(issueSyncs.projectId, project.id),
+    })
+    expect(state?.issuesCursor).toBe(minute(100))
+  })
+
+  it('records the error when a sync fails', async () => {
+    const db = getDB(env.DB)
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 403 })
+
+    mockInstallationToken(403)
+    fetchMock
+      .get(env.GITHUB_API_URL)
+      .intercept({ path: ISSUES_PATH })
+      .reply(404, { message: 'Not Found' })
+
+    await reconcileIssueMirrors(db, env)
+
+    const state = await db.query.issueSyncs.findFirst({
+      where: eq(issueSyncs.projectId, project.id),
+    })
+    expect(state?.lastError).toContain('404')
+    expect(state?.backfilledAt).toBeNull()
+    expect(state?.lastSyncedAt).not.toBeNull()
+  })
+})
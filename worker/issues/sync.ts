@@ -0,0 +1,254 @@
+import { and, asc, eq, inArray, isNotNull, isNull, sql } from 'drizzle-orm'
+import type { Database } from '../db'
+import { createInstallationClient } from '../github/app'
+import type { GitHubClient } from '../github/client'
+import type { GitHubIssue, GitHubIssueComment } from '../types/github'
+import {
+  issueComments,
+  issueSyncs,
+  issues,
+  projects,
+  type IssueSync,
+  type Project,
+} from '../../db/schema'
+import { tombstoneMissingComments, upsertComments, upsertIssues } from './mirror'
+
+const PER_PAGE = 100
+// Requests per listing in one pass; a large backfill continues from its cursor next time
+const MAX_PAGES_PER_PASS = 10
+// Projects reconciled per cron run, least recently synced first
+const MAX_PROJECTS_PER_RUN = 10
+
+export interface IssueSyncResult {
+  issues: number
+  comments: number
+  tombstoned: number
+  // Both listings reached the end; false when the page budget ran out first
+  complete: boolean
+}
+
+/**
+ * Bring a project's issue mirror up to date with GitHub
+ *
+ * Issues and comments are listed oldest-update first with `since` set to the newest
+ * `updated_at` already mirrored, so the first pass is a backfill and later passes only fetch
+ * what changed (including anything a missed webhook would have carried). Once both listings
+ * are complete, issues whose comment count disagrees with the mirror get their comments
+ * re-listed, which catches deletions.
+ */
+export async function syncProjectIssues(
+  db: Database,
+  client: GitHubClient,
+  project: Project
+): Promise<IssueSyncResult> {
+  const state = await db.query.issueSyncs.findFirst({
+    where: eq(issueSyncs.projectId, project.id),
+  })
+  const repoPath = `/repos/${project.githubOwner}/${project.githubRepo}`
+
+  const issueListing = await listSince<GitHubIssue>(
+    client,
+    `${repoPath}/issues?state=all&sort=updated&direction=asc&per_page=${PER_PAGE}`,
+    state?.issuesCursor ?? null,
+    (page) => upsertIssues(db, project.id, page)
+  )
+
+  // Comments wait for the issue backfill, or comments on issues not mirrored yet would be
+  // skipped while their cursor moves past them
+  let commentCount = 0
+  const commentListing = issueListing.complete
+    ? await listSince<GitHubIssueComment>(
+        client,
+        `${repoPath}/issues/comments?sort=updated&direction=asc&per_page=${PER_PAGE}`,
+        state?.commentsCursor ?? null,
+        async (page) => {
+          // The repository-wide listing includes pull request comments; keep mirrored issues only
+          const mirrored = await mirroredIssueNumbers(db, project.id, page.map(issueNumberOf))
+          const rows = page
+            .map((comment) => ({ issueNumber: issueNumberOf(comment), comment }))
+            .filter((row) => mirrored.has(row.issueNumber))
+          commentCount += rows.length
+          await upsertComments(db, project.id, rows)
+        }
+      )
+    : { items: [], cursor: state?.commentsCursor ?? null, complete: false }
+
+  const tombstoned =
+    issueListing.complete && commentListing.complete
+      ? await reconcileComments(db, client, project, issueListing.items)
+      : 0
+
+  const complete = issueListing.complete && commentListing.complete
+  const now = new Date().toISOString()
+  const values: Partial<IssueSync> = {
+    issuesCursor: issueListing.cursor,
+    commentsCursor: commentListing.cursor,
+    lastSyncedAt: now,
+    lastError: null,
+    ...(complete && !state?.backfilledAt ? { backfilledAt: now } : {}),
+  }
+  await db
+    .insert(issueSyncs)
+    .values({ projectId: project.id, ...values })
+    .onConflictDoUpdate({ target: issueSyncs.projectId, set: values })
+
+  return {
+    issues: issueListing.items.filter((issue) => !issue.pull_request).length,
+    comments: commentCount,
+    tombstoned,
+    complete,
+  }
+}
+
+/**
+ * Cron entry point: sync the least recently synced projects that have an installation
+ * Never-synced projects come first, so new projects are backfilled on the next run.
+ */
+export async function reconcileIssueMirrors(db: Database, env: Env) {
+  const candidates = await db
+    .select({ project: projects })
+    .from(projects)
+    .leftJoin(issueSyncs, eq(issueSyncs.projectId, projects.id))
+    .where(and(isNotNull(projects.installationId), isNull(projects.archivedAt)))
+    .orderBy(sql`${issueSyncs.lastSyncedAt} IS NOT NULL`, asc(issueSyncs.lastSyncedAt))
+    .limit(MAX_PROJECTS_PER_RUN)
+
+  for (const { project } of candidates) {
+    try {
+      const client = await createInstallationClient(env, project.installationId!)
+      await syncProjectIssues(db, client, project)
+    } catch (error) {
+      console.error('Issue sync failed:', project.id, error)
+      const values = {
+        lastSyncedAt: new Date().toISOString(),
+        lastError: error instanceof Error ? error.message : String(error),
+      }
+      await db
+        .insert(issueSyncs)
+        .values({ projectId: project.id, ...values })
+        .onConflictDoUpdate({ target: issueSyncs.projectId, set: values })
+    }
+  }
+}
+
+/**
+ * Walk a `sort=updated&direction=asc` listing from a cursor
+ * The cursor moves to the last item's updated_at after each full page. `since` is inclusive,
+ * so a page whose items all share the cursor's timestamp is stepped over with `page`.
+ */
+async function listSince<T extends { updated_at: string }>(
+  client: GitHubClient,
+  path: string,
+  cursor: string | null,
+  handlePage: (items: T[]) => Promise<void>
+): Promise<{ items: T[]; cursor: string | null; complete: boolean }> {
+  const items: T[] = []
+  let since = cursor
+  let page = 1
+
+  for (let requests = 0; requests < MAX_PAGES_PER_PASS; requests++) {
+    const query = `${since ? `&since=${encodeURIComponent(since)}` : ''}${page > 1 ? `&page=${page}` : ''}`
+    const batch = await client.request<T[]>(`${path}${query}`)
+    await handlePage(batch)
+    items.push(...batch)
+
+    const last = batch.at(-1)?.updated_at
+    if (batch.length < PER_PAGE) {
+      return { items, cursor: last ?? since, complete: true }
+    }
+    if (last === since) {
+      page++
+    } else {
+      since = last!
+      page = 1
+    }
+  }
+
+  return { items, cursor: since, complete: false }
+}
+
+/**
+ * Re-list the comments of fetched issues whose comment count disagrees with the mirror
+ * Deletions never show up in `since` listings, and a comment on an issue created between the
+ * two listings is skipped by the repository-wide one; both surface as a count mismatch.
+ */
+async function reconcileComments(
+  db: Database,
+  client: GitHubClient,
+  project: Project,
+  fetched: GitHubIssue[]
+): Promise<number> {
+  const candidates = fetched.filter((issue) => !issue.pull_request)
+  if (candidates.length === 0) {
+    return 0
+  }
+
+  const liveCounts = new Map<number, number>()
+  for (const numbers of chunk(candidates.map((issue) => issue.number))) {
+    const counts = await db
+      .select({ issueNumber: issueComments.issueNumber, live: sql<number>`count(*)` })
+      .from(issueComments)
+      .where(
+        and(
+          eq(issueComments.projectId, project.id),
+          inArray(issueComments.issueNumber, numbers),
+          isNull(issueComments.deletedAt)
+        )
+      )
+      .groupBy(issueComments.issueNumber)
+    counts.forEach((row) => liveCounts.set(row.issueNumber, row.live))
+  }
+
+  let tombstoned = 0
+  for (const issue of candidates) {
+    if ((liveCounts.get(issue.number) ?? 0) === issue.comments) {
+      continue
+    }
+    const comments = await client.paginate<GitHubIssueComment[], GitHubIssueComment>(
+      `/repos/${project.githubOwner}/${project.githubRepo}/issues/${issue.number}/comments?per_page=${PER_PAGE}`,
+      (page) => page
+    )
+    await upsertComments(
+      db,
+      project.id,
+      comments.map((comment) => ({ issueNumber: issue.number, comment }))
+    )
+    tombstoned += await tombstoneMissingComments(
+      db,
+      project.id,
+      issue.number,
+      comments.map((comment) => comment.id)
+    )
+  }
+  return tombstoned
+}
+
+async function mirroredIssueNumbers(
+  db: Database,
+  projectId: string,
+  numbers: number[]
+): Promise<Set<number>> {
+  const mirrored = new Set<number>()
+  for (const batch of chunk([...new Set(numbers)])) {
+    const rows = await db
+      .select({ number: issues.number })
+      .from(issues)
+      .where(and(eq(issues.projectId, projectId), inArray(issues.number, batch)))
+    rows.forEach((row) => mirrored.add(row.number))
+  }
+  return mirrored
+}
+
+// D1 allows 100 bound parameters per statement
+function chunk<T>(items: T[], size: number = 90): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+// Comments only carry their issue as a URL: .../issues/<number>
+function issueNumberOf(comment: GitHubIssueComment): number {
+  return Number(comment.issue_url.slice(comment.issue_url.lastIndexOf('/') + 1))
+}
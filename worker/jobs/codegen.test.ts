@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { parseGeneratedChanges } from './codegen'
+
+describe('parseGeneratedChanges', () => {
+  it('parses summary and files', () => {
+    const changes = parseGeneratedChanges(
+      JSON.stringify({ summary: 'Done', files: [{ path: 'src/a.ts', content: 'export {}\n' }] })
+    )
+    expect(changes).toEqual({
+      summary: 'Done',
+      files: [{ action: 'modify', path: 'src/a.ts', content: 'export {}\n' }],
+    })
+  })
+
+  it('parses create, delete and rename edits', () => {
+    const changes = parseGeneratedChanges(
+      JSON.stringify({
+        files: [
+          { action: 'create', path: 'src/b.ts', content: '' },
+          { action: 'delete', path: 'old.txt' },
+          { action: 'rename', previousPath: 'a.md', path: 'docs/a.md' },
+        ],
+      })
+    )
+    expect(changes.files).toEqual([
+      { action: 'create', path: 'src/b.ts', content: '' },
+      { action: 'delete', path: 'old.txt' },
+      { action: 'rename', previousPath: 'a.md', path: 'docs/a.md' },
+    ])
+  })
+
+  it('rejects unknown actions and renames without a source', () => {
+    expect(() =>
+      parseGeneratedChanges(JSON.stringify({ files: [{ action: 'chmod', path: 'a' }] }))
+    ).toThrow('unknown file action: chmod')
+    expect(() =>
+      parseGeneratedChanges(JSON.stringify({ files: [{ action: 'rename', path: 'a' }] }))
+    ).toThrow('rename without previousPath')
+  })
+
+  it('rejects replies that are not JSON', () => {
+    expect(() => parseGeneratedChanges('Sure! Here is the code')).toThrow('not valid JSON')
+  })
+
+  it.each(['/etc/passwd', '../outside.txt', 'src/../../x', '.git/config', 'a//b'])(
+    'rejects unsafe path %s',
+    (path) => {
+      expect(() =>
+        parseGeneratedChanges(JSON.stringify({ files: [{ path, content: '' }] }))
+      ).toThrow('unsafe path')
+      expect(() =>
+        parseGeneratedChanges(
+          JSON.stringify({ files: [{ action: 'rename', previousPath: path, path: 'ok.txt' }] })
+        )
+      ).toThrow('unsafe path')
+    }
+  )
+})
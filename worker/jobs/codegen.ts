@@ -0,0 +1,170 @@
+import type { ChatModel } from '../types/llm'
+import type {
+  CodeModel,
+  FileChange,
+  GeneratedChanges,
+  PromptContext,
+  ReviewContext,
+} from '../types/jobs'
+
+const SYSTEM_PROMPT = `You are Codiro, an AI software engineer implementing GitHub issues.
+You receive an issue, the list of files in the repository and excerpts of the files most relevant to it.
+Reply with a single JSON object and nothing else:
+{"summary": "<what you changed, for the pull request body>", "files": [{"action": "create" | "modify" | "delete" | "rename", "path": "<repository-relative path>", "previousPath": "<old path, for rename>", "content": "<full new file content>"}]}
+Only include files you create, change, delete or rename. create and modify need the complete content;
+delete needs none; rename takes content only when the file changes as well.
+When you are given a pull request under review, the repository is at the pull request's head:
+reply with the edits that address the review request, on top of the changes already made.`
+
+/**
+ * Code model that asks a chat model for file changes as JSON
+ */
+export function createLLMCodeModel(chat: ChatModel): CodeModel {
+  return {
+    async generateChanges(context: PromptContext): Promise<GeneratedChanges> {
+      const completion = await chat.complete(
+        [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: buildUserPrompt(context) },
+        ],
+        { json: true, temperature: 0.2 }
+      )
+      return parseGeneratedChanges(completion.content)
+    },
+  }
+}
+
+function buildUserPrompt(context: PromptContext): string {
+  const { repository, issue, files, snippets, spec, review } = context
+  return [
+    `Repository: ${repository.owner}/${repository.repo} (default branch ${repository.defaultBranch})`,
+    `Issue #${issue.number}: ${issue.title}`,
+    '',
+    issue.body || '(no description)',
+    ...(spec ? ['', 'Agreed spec:', spec] : []),
+    ...(review ? ['', ...buildReviewPrompt(review)] : []),
+    '',
+    'Files:',
+    ...files,
+    ...(snippets && snippets.length > 0
+      ? [
+          '',
+          'Relevant code:',
+          ...snippets.flatMap((snippet) => [
+            `--- ${snippet.path} (lines ${snippet.startLine}-${snippet.endLine})`,
+            snippet.content,
+          ]),
+        ]
+      : []),
+  ].join('\n')
+}
+
+function buildReviewPrompt(review: ReviewContext): string[] {
+  const { pullRequest, diff, threads, request } = review
+  return [
+    `Pull request #${pullRequest.number} (branch ${pullRequest.branch}) — changes so far:`,
+    diff || '(empty diff)',
+    '',
+    'Review threads:',
+    ...(threads.length === 0
+      ? ['(none)']
+      : threads.flatMap((thread) => [
+          thread.path
+            ? `On ${thread.path}${thread.line ? `:${thread.line}` : ''}:`
+            : 'On the pull request:',
+          ...thread.comments.map((comment) => `  @${comment.author}: ${comment.body}`),
+        ])),
+    '',
+    `Review request from @${request.author}:`,
+    request.body,
+  ]
+}
+
+/**
+ * Parse and validate the model's JSON reply
+ */
+export function parseGeneratedChanges(content: string): GeneratedChanges {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    throw new Error('Model reply was not valid JSON')
+  }
+
+  if (
+    typeof parsed !== 'object' ||
+    parsed === null ||
+    !Array.isArray((parsed as { files?: unknown }).files)
+  ) {
+    throw new Error('Model reply did not contain a files array')
+  }
+
+  const { summary, files } = parsed as { summary?: unknown; files: unknown[] }
+
+  return {
+    summary: typeof summary === 'string' ? summary : '',
+    files: files.map(parseFileChange),
+  }
+}
+
+const FILE_ACTIONS = ['create', 'modify', 'delete', 'rename'] as const
+
+// A missing action means the file is written, as in replies from before actions existed
+function parseFileChange(file: unknown): FileChange {
+  const {
+    action = 'modify',
+    path,
+    previousPath,
+    content,
+  } = (file ?? {}) as {
+    action?: unknown
+    path?: unknown
+    previousPath?: unknown
+    content?: unknown
+  }
+
+  if (!FILE_ACTIONS.includes(action as FileChange['action'])) {
+    throw new Error(`Model reply contained an unknown file action: ${String(action)}`)
+  }
+  if (typeof path !== 'string') {
+    throw new Error('Model reply contained a file without path')
+  }
+  assertSafePath(path)
+
+  switch (action as FileChange['action']) {
+    case 'delete':
+      return { action: 'delete', path }
+
+    case 'rename':
+      if (typeof previousPath !== 'string') {
+        throw new Error('Model reply contained a rename without previousPath')
+      }
+      if (content !== undefined && typeof content !== 'string') {
+        throw new Error('Model reply contained a file without path or content')
+      }
+      assertSafePath(previousPath)
+      return { action: 'rename', previousPath, path, ...(content === undefined ? {} : { content }) }
+
+    default:
+      if (typeof content !== 'string') {
+        throw new Error('Model reply contained a file without path or content')
+      }
+      return { action: action as 'create' | 'modify', path, content }
+  }
+}
+
+function assertSafePath(path: string) {
+  if (!isSafePath(path)) {
+    throw new Error(`Model reply contained an unsafe path: ${path}`)
+  }
+}
+
+function isSafePath(path: string): boolean {
+  const segments = path.split('/')
+  return (
+    path.length > 0 &&
+    !path.startsWith('/') &&
+    segments.every((segment) => segment !== '' && segment !== '.' && segment !== '..') &&
+    segments[0] !== '.git'
+  )
+}
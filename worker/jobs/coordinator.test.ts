@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest'
+import { env, fetchMock, runDurableObjectAlarm, runInDurableObject } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import { enqueueJob } from './queue'
+import { jobCoordinator } from './runner'
+import { listJobSteps } from './steps'
+import { transitionJob } from './state'
+import { readUsageLimits } from '../quotas/limits'
+import { createTestProject, createTestUser } from '../test/helpers'
+import { getDB } from '../db'
+import { auditEvents, jobs } from '../../db/schema'
+
+const issue = {
+  number: 7,
+  title: 'Add greeting',
+  url: 'https://github.com/octocat/codiro/issues/7',
+}
+
+async function queuedJob(installationId: number) {
+  const db = getDB(env.DB)
+  const project = await createTestProject(await createTestUser(), { installationId })
+  const queued = await enqueueJob(db, project, issue, 'issue_label', readUsageLimits(env, project))
+  return { db, job: queued!.job }
+}
+
+// GitHub refuses to mint an installation token, failing the attempt with a server error
+function failTokenRequest(installationId: number) {
+  fetchMock
+    .get(env.GITHUB_API_URL)
+    .intercept({ path: `/app/installations/${installationId}/access_tokens`, method: 'POST' })
+    .reply(502, { message: 'Bad Gateway' })
+}
+
+async function runAttempt(jobId: string) {
+  const coordinator = jobCoordinator(env, jobId)
+  await runInDurableObject(coordinator, async (_instance, state) => {
+    await state.storage.put('jobId', jobId)
+    await state.storage.setAlarm(Date.now() + 60_000)
+  })
+  expect(await runDurableObjectAlarm(coordinator)).toBe(true)
+  return coordinator
+}
+
+async function scheduledAlarm(jobId: string) {
+  return runInDurableObject(jobCoordinator(env, jobId), (_instance, state) =>
+    state.storage.getAlarm()
+  )
+}
+
+describe('Job coordinator', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  it('retries a failed attempt with exponential backoff', async () => {
+    const { db, job } = await queuedJob(71)
+
+    failTokenRequest(71)
+    const before = Date.now()
+    await runAttempt(job.id)
+
+    const retrying = await db.query.jobs.findFirst({ where: eq(jobs.id, job.id) })
+    expect(retrying).toMatchObject({
+      status: 'queued',
+      attempts: 1,
+      failureReason: expect.stringContaining('502'),
+    })
+    const retryAt = Date.parse(retrying!.nextAttemptAt!)
+    expect(retryAt - before).toBeGreaterThanOrEqual(30_000)
+    expect(retryAt - Date.now()).toBeLessThanOrEqual(30_000)
+    expect(await scheduledAlarm(job.id)).toBe(retryAt)
+
+    failTokenRequest(71)
+    await runDurableObjectAlarm(jobCoordinator(env, job.id))
+    const second = await db.query.jobs.findFirst({ where: eq(jobs.id, job.id) })
+    expect(second).toMatchObject({ status: 'queued', attempts: 2 })
+    expect(Date.parse(second!.nextAttemptAt!) - Date.now()).toBeGreaterThan(30_000)
+
+    const steps = await listJobSteps(db, job.id)
+    expect(steps.map((step) => [step.attempt, step.step, step.level])).toEqual([
+      [1, 'error', 'error'],
+      [1, 'retry', 'info'],
+      [2, 'error', 'error'],
+      [2, 'retry', 'info'],
+    ])
+  })
+
+  it('fails the job once the attempts are used up', async () => {
+    const { db, job } = await queuedJob(72)
+    await db.update(jobs).set({ attempts: 2 }).where(eq(jobs.id, job.id))
+
+    failTokenRequest(72)
+    await runAttempt(job.id)
+
+    expect(await db.query.jobs.findFirst({ where: eq(jobs.id, job.id) })).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      nextAttemptAt: null,
+      finishedAt: expect.any(String),
+    })
+    expect(await scheduledAlarm(job.id)).toBeNull()
+
+    // The runner audits the attempt and its outcome as the system
+    const events = await vi.waitFor(async () => {
+      const rows = await db.query.auditEvents.findMany({
+        where: eq(auditEvents.targetId, job.id),
+        orderBy: [auditEvents.createdAt],
+      })
+      expect(rows).toHaveLength(2)
+      return rows
+    })
+    expect(events).toMatchObject([
+      { actorType: 'system', action: 'job.started', metadata: { issueNumber: 7, attempt: 3 } },
+      { action: 'job.failed', metadata: { reason: expect.stringContaining('502') } },
+    ])
+  })
+
+  it('counts an attempt cut off by an eviction as failed and starts the next', async () => {
+    const { db, job } = await queuedJob(73)
+    await transitionJob(db, job.id, 'running')
+
+    failTokenRequest(73)
+    await runAttempt(job.id)
+
+    expect(await db.query.jobs.findFirst({ where: eq(jobs.id, job.id) })).toMatchObject({
+      status: 'queued',
+      attempts: 2,
+    })
+  })
+
+  it('cancels a job waiting for its retry', async () => {
+    const { db, job } = await queuedJob(74)
+    failTokenRequest(74)
+    const coordinator = await runAttempt(job.id)
+
+    const cancelled = await coordinator.cancel(job.id)
+
+    expect(cancelled).toMatchObject({ status: 'cancelled', nextAttemptAt: null })
+    expect(await scheduledAlarm(job.id)).toBeNull()
+    expect((await listJobSteps(db, job.id)).at(-1)).toMatchObject({ step: 'cancelled' })
+    expect(await coordinator.cancel(job.id)).toBeNull()
+  })
+})
@@ -0,0 +1,202 @@
+import { DurableObject } from 'cloudflare:workers'
+import { eq } from 'drizzle-orm'
+import { getDB } from '../db'
+import { recordAuditEvent, SYSTEM_ACTOR } from '../audit/events'
+import { nextRetryDelay } from './retry'
+import { createJobRunnerDeps, runJob } from './runner'
+import { isTerminalJobStatus, transitionJob } from './state'
+import { listJobSteps, recordJobStep } from './steps'
+import type { JobLogMessage } from '../types/jobs'
+import { jobs, projects, type AuditAction, type Job, type JobStepLevel } from '../../db/schema'
+
+/**
+ * Durable Object coordinating one job (named by the job id)
+ *
+ * Attempts run from alarms, so a run is not bound to the request that queued it, and failed
+ * attempts are retried by scheduling the next alarm. The job row and its step log in D1 are the
+ * source of truth; storage only remembers which job this object runs, so an eviction loses
+ * nothing but the attempt in progress, which the next alarm counts as failed.
+ * Browsers follow the step log over hibernatable WebSockets.
+ */
+export class JobCoordinator extends DurableObject<Env> {
+  // Aborts the attempt in progress when the job is cancelled
+  private attempt: AbortController | null = null
+
+  /**
+   * Run a queued job; the first attempt starts right away
+   */
+  async start(jobId: string): Promise<void> {
+    await this.ctx.storage.put('jobId', jobId)
+    await this.ctx.storage.setAlarm(Date.now())
+  }
+
+  /**
+   * Cancel the job and any retry scheduled for it
+   * Returns the cancelled job, or null when it had already finished.
+   */
+  async cancel(jobId: string): Promise<Job | null> {
+    const db = getDB(this.env.DB)
+    const job = await transitionJob(db, jobId, 'cancelled')
+    if (!job) {
+      return null
+    }
+
+    await this.ctx.storage.deleteAlarm()
+    this.attempt?.abort()
+    await this.log(jobId, job.attempts, 'cancelled', 'The job was cancelled')
+    this.finish(job)
+    return job
+  }
+
+  async alarm(): Promise<void> {
+    const jobId = await this.ctx.storage.get<string>('jobId')
+    if (!jobId) {
+      return
+    }
+
+    const db = getDB(this.env.DB)
+    let job = await db.query.jobs.findFirst({ where: eq(jobs.id, jobId) })
+    if (job?.status === 'running' && !this.attempt) {
+      // The previous attempt was cut off (eviction, deploy); treat it as failed
+      job =
+        (await transitionJob(db, jobId, 'queued', {
+          failureReason: 'The job runner was interrupted',
+        })) ?? undefined
+    }
+    const project =
+      job && (await db.query.projects.findFirst({ where: eq(projects.id, job.projectId) }))
+    if (job?.status !== 'queued' || !project) {
+      return
+    }
+
+    const attempt = job.attempts + 1
+    this.audit(job, 'job.started', { attempt })
+    this.attempt = new AbortController()
+    let result: Job | null
+    try {
+      result = await runJob(db, jobId, () => createJobRunnerDeps(this.env, db, project, jobId), {
+        log: (step, message, level) => this.log(jobId, attempt, step, message, level),
+        signal: this.attempt.signal,
+        retryDelay: (error) => nextRetryDelay(attempt, error),
+      })
+    } finally {
+      this.attempt = null
+    }
+
+    if (result?.status === 'queued' && result.nextAttemptAt) {
+      await this.ctx.storage.setAlarm(Date.parse(result.nextAttemptAt))
+      await this.log(jobId, attempt, 'retry', `Retrying at ${result.nextAttemptAt}`)
+      this.audit(result, 'job.retry_scheduled', {
+        attempt,
+        nextAttemptAt: result.nextAttemptAt,
+        reason: result.failureReason,
+      })
+      this.broadcast(statusMessage(result))
+    } else if (result) {
+      if (result.status === 'pr_opened') {
+        this.audit(result, result.iteration > 0 ? 'pull_request.updated' : 'pull_request.opened', {
+          prNumber: result.prNumber,
+          prUrl: result.prUrl,
+          iteration: result.iteration,
+        })
+      } else if (result.status === 'failed') {
+        this.audit(result, 'job.failed', { attempt, reason: result.failureReason })
+      }
+      this.finish(result)
+    }
+  }
+
+  /**
+   * WebSocket of a job's live log (?jobId=); authorization is up to the caller
+   * New clients get the steps so far and the job status, then each step as it is recorded.
+   */
+  async fetch(request: Request): Promise<Response> {
+    if (request.headers.get('Upgrade') !== 'websocket') {
+      return new Response('Expected a WebSocket upgrade', { status: 426 })
+    }
+
+    const jobId = new URL(request.url).searchParams.get('jobId')
+    const db = getDB(this.env.DB)
+    const job = jobId ? await db.query.jobs.findFirst({ where: eq(jobs.id, jobId) }) : undefined
+    if (!job) {
+      return new Response('Job not found', { status: 404 })
+    }
+
+    const { 0: client, 1: server } = new WebSocketPair()
+    this.ctx.acceptWebSocket(server)
+
+    for (const step of await listJobSteps(db, job.id)) {
+      send(server, { type: 'step', step })
+    }
+    send(server, statusMessage(job))
+    if (isTerminalJobStatus(job.status)) {
+      server.close(1000, 'Job finished')
+    }
+
+    return new Response(null, { status: 101, webSocket: client })
+  }
+
+  async webSocketClose(ws: WebSocket, code: number) {
+    ws.close(code, 'Closed')
+  }
+
+  private async log(
+    jobId: string,
+    attempt: number,
+    step: string,
+    message: string,
+    level?: JobStepLevel
+  ) {
+    const row = await recordJobStep(getDB(this.env.DB), jobId, attempt, step, message, level)
+    this.broadcast({ type: 'step', step: row })
+  }
+
+  // Audit a step of the job's lifecycle in the background; the runner acts as the system
+  private audit(job: Job, action: AuditAction, metadata: Record<string, unknown>) {
+    this.ctx.waitUntil(
+      recordAuditEvent(getDB(this.env.DB), {
+        actor: SYSTEM_ACTOR,
+        action,
+        target: { type: 'job', id: job.id },
+        projectId: job.projectId,
+        metadata: { issueNumber: job.issueNumber, ...metadata },
+      })
+    )
+  }
+
+  private broadcast(message: JobLogMessage) {
+    for (const ws of this.ctx.getWebSockets()) {
+      send(ws, message)
+    }
+  }
+
+  // Final status to all clients, then close their sockets
+  private finish(job: Job) {
+    this.broadcast(statusMessage(job))
+    for (const ws of this.ctx.getWebSockets()) {
+      ws.close(1000, 'Job finished')
+    }
+  }
+}
+
+function statusMessage(job: Job): JobLogMessage {
+  return {
+    type: 'status',
+    job: {
+      id: job.id,
+      status: job.status,
+      attempts: job.attempts,
+      nextAttemptAt: job.nextAttemptAt,
+      prUrl: job.prUrl,
+      failureReason: job.failureReason,
+    },
+  }
+}
+
+function send(ws: WebSocket, message: JobLogMessage) {
+  try {
+    ws.send(JSON.stringify(message))
+  } catch {
+    // The client went away; the runtime cleans the socket up
+  }
+}
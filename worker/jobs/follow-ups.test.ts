@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest'
+import { env } from 'cloudflare:test'
+import { asksForFollowUp, requestFollowUp } from './follow-ups'
+import { enqueueJob } from './queue'
+import { runJob } from './runner'
+import { readUsageLimits } from '../quotas/limits'
+import { createTestProject, createTestUser } from '../test/helpers'
+import { createFakeCodeModel, createFakeRepositoryGateway } from '../test/fakes'
+import { getDB } from '../db'
+import type { ReviewRequest } from '../types/jobs'
+import { conversations, type NewProject } from '../../db/schema'
+
+const appUrl = 'https://codiro.test'
+const user = { type: 'User', association: 'MEMBER' } as const
+const request: ReviewRequest = {
+  source: 'issue_comment',
+  id: 900,
+  author: 'reviewer',
+  body: '@codiro please greet the world instead',
+  url: 'https://github.com/octocat/codiro/pull/101#issuecomment-900',
+}
+
+// A project whose first job opened pull request #101 for issue #7
+async function projectWithPullRequest(overrides: Partial<NewProject> = {}) {
+  const db = getDB(env.DB)
+  const project = await createTestProject(await createTestUser(), {
+    installationId: 1,
+    ...overrides,
+  })
+  const queued = await enqueueJob(
+    db,
+    project,
+    { number: 7, title: 'Add greeting', url: 'https://github.com/octocat/codiro/issues/7' },
+    'issue_label',
+    readUsageLimits(env, project)
+  )
+  const { model } = createFakeCodeModel({
+    summary: 'Adds a greeting',
+    files: [{ action: 'create', path: 'hello.txt', content: 'Hello!\n' }],
+  })
+  const { github } = createFakeRepositoryGateway()
+  await runJob(db, queued!.job.id, { model, github, appUrl })
+  return { db, project, limits: readUsageLimits(env, project) }
+}
+
+describe('asksForFollowUp', () => {
+  it.each([
+    ['@codiro fix the typo', true],
+    ['Thanks! @Codiro, can you rename it?', true],
+    ['cc @codiro-team', false],
+    ['email me at me@codiro', false],
+    ['no mention here', false],
+  ])('%s → %s', (body, expected) => {
+    expect(asksForFollowUp(body, user, '@codiro')).toBe(expected)
+  })
+
+  it('ignores bots, including Codiro itself', () => {
+    expect(asksForFollowUp('@codiro again', { ...user, type: 'Bot' }, '@codiro')).toBe(false)
+  })
+
+  it.each([
+    ['OWNER', true],
+    ['MEMBER', true],
+    ['COLLABORATOR', true],
+    ['CONTRIBUTOR', false],
+    ['FIRST_TIME_CONTRIBUTOR', false],
+    ['NONE', false],
+  ] as const)('only accepts repository insiders: %s → %s', (association, expected) => {
+    expect(asksForFollowUp('@codiro again', { type: 'User', association }, '@codiro')).toBe(
+      expected
+    )
+  })
+
+  it('uses the configured trigger', () => {
+    expect(asksForFollowUp('/iterate please', user, '/iterate')).toBe(true)
+    expect(asksForFollowUp('@codiro please', user, '/iterate')).toBe(false)
+  })
+})
+
+describe('Follow-up jobs', () => {
+  it('queue on the pull request branch, one iteration at a time, up to the limit', async () => {
+    const { db, project, limits } = await projectWithPullRequest({ maxReviewIterations: 2 })
+
+    const first = await requestFollowUp(db, project, 101, request, limits)
+    expect(first).toMatchObject({
+      outcome: 'queued',
+      job: {
+        trigger: 'review_comment',
+        issueNumber: 7,
+        iteration: 1,
+        branch: 'codiro/issue-7',
+        prNumber: 101,
+      },
+    })
+    expect(await requestFollowUp(db, project, 101, request, limits)).toMatchObject({
+      outcome: 'busy',
+    })
+
+    const { model } = createFakeCodeModel({
+      summary: '',
+      files: [{ action: 'modify', path: 'hello.txt', content: 'Hello, world!\n' }],
+    })
+    const { github } = createFakeRepositoryGateway()
+    await runJob(db, (first as { job: { id: string } }).job.id, { model, github, appUrl })
+
+    expect(await requestFollowUp(db, project, 101, request, limits)).toMatchObject({
+      outcome: 'queued',
+      job: { iteration: 2 },
+    })
+    expect(await requestFollowUp(db, project, 101, request, limits)).toMatchObject({
+      outcome: 'limit_reached',
+    })
+  })
+
+  it('ignore pull requests Codiro did not open and projects that turned them off', async () => {
+    const { db, project, limits } = await projectWithPullRequest()
+    expect(await requestFollowUp(db, project, 55, request, limits)).toEqual({
+      outcome: 'unknown_pull_request',
+    })
+
+    const off = await projectWithPullRequest({ maxReviewIterations: 0 })
+    expect(await requestFollowUp(off.db, off.project, 101, request, off.limits)).toEqual({
+      outcome: 'disabled',
+    })
+  })
+
+  it('push a commit addressing the review and reply to the reviewer', async () => {
+    const { db, project, limits } = await projectWithPullRequest()
+    await db.insert(conversations).values({
+      id: crypto.randomUUID(),
+      projectId: project.id,
+      issueNumber: 7,
+      status: 'finalized',
+      spec: '- Greet the user',
+      finalizedAt: new Date().toISOString(),
+    })
+    const followUp = await requestFollowUp(db, project, 101, request, limits)
+    const { model, contexts } = createFakeCodeModel({
+      summary: 'Greets the world',
+      files: [{ action: 'modify', path: 'hello.txt', content: 'Hello, world!\n' }],
+    })
+    const { github, pushes, comments, pullRequests } = createFakeRepositoryGateway()
+
+    const result = await runJob(db, (followUp as { job: { id: string } }).job.id, {
+      model,
+      github,
+      appUrl,
+    })
+
+    expect(result).toMatchObject({ status: 'pr_opened', prNumber: 101 })
+    expect(contexts[0]).toMatchObject({
+      repository: { baseSha: 'head-sha' },
+      spec: '- Greet the user',
+      review: {
+        pullRequest: { number: 101, branch: 'codiro/issue-7' },
+        diff: expect.stringContaining('+Hello!'),
+        threads: [{ path: 'hello.txt', comments: [{ author: 'reviewer' }] }],
+        request,
+      },
+    })
+    expect(pushes).toEqual([
+      {
+        branch: 'codiro/issue-7',
+        baseSha: 'head-sha',
+        commitMessage: `Address review of #101 (follow-up 1)\n\n${request.url}`,
+        files: [{ action: 'modify', path: 'hello.txt', content: 'Hello, world!\n' }],
+      },
+    ])
+    expect(pullRequests).toEqual([])
+    expect(comments).toEqual([
+      {
+        issueNumber: 101,
+        body: '@reviewer I pushed pushed1 to address your comment.\n\nGreets the world',
+      },
+    ])
+  })
+})
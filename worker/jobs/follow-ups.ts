@@ -0,0 +1,106 @@
+import { and, desc, eq, isNotNull } from 'drizzle-orm'
+import type { Database } from '../db'
+import { enqueueJob, type QueuedJob } from './queue'
+import type { ReviewRequest } from '../types/jobs'
+import type { AuthorAssociation } from '../types/github'
+import type { UsageLimits } from '../types/quotas'
+import { jobs, type Job, type Project } from '../../db/schema'
+
+export type FollowUpResult =
+  // The project turned follow-ups off (maxReviewIterations 0)
+  | { outcome: 'disabled' }
+  // Not a pull request Codiro opened for this project
+  | { outcome: 'unknown_pull_request' }
+  | { outcome: 'limit_reached'; previous: Job }
+  // A job for the issue is already queued or running
+  | { outcome: 'busy'; previous: Job }
+  | ({ outcome: 'queued'; previous: Job } & QueuedJob)
+
+// Author of a comment or review: the user type and their association with the repository
+export interface FollowUpAuthor {
+  type: string
+  association: AuthorAssociation
+}
+
+// Associations whose comments may start follow-up jobs
+const FOLLOW_UP_ASSOCIATIONS: readonly AuthorAssociation[] = ['OWNER', 'MEMBER', 'COLLABORATOR']
+
+/**
+ * Whether a comment asks Codiro for a follow-up: it mentions the trigger (case-insensitive)
+ * as a word of its own, and was written by an owner, member or collaborator of the repository
+ * rather than a bot — which includes Codiro's own replies
+ */
+export function asksForFollowUp(
+  body: string | null | undefined,
+  author: FollowUpAuthor,
+  trigger: string
+): boolean {
+  if (!body || author.type === 'Bot' || !FOLLOW_UP_ASSOCIATIONS.includes(author.association)) {
+    return false
+  }
+  const escaped = trigger.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|[^\\w@/-])${escaped}(?![\\w-])`, 'i').test(body)
+}
+
+/**
+ * Queue a follow-up job on a pull request an earlier job opened
+ * The follow-up works on the same issue and branch, one iteration after the latest job of the
+ * pull request; projects cap the iterations with maxReviewIterations.
+ */
+export async function requestFollowUp(
+  db: Database,
+  project: Project,
+  prNumber: number,
+  request: ReviewRequest,
+  limits: UsageLimits
+): Promise<FollowUpResult> {
+  if (project.maxReviewIterations === 0) {
+    return { outcome: 'disabled' }
+  }
+
+  const previous = await db.query.jobs.findFirst({
+    where: and(eq(jobs.projectId, project.id), eq(jobs.prNumber, prNumber), isNotNull(jobs.branch)),
+    orderBy: [desc(jobs.iteration), desc(jobs.createdAt)],
+  })
+
+  if (!previous) {
+    return { outcome: 'unknown_pull_request' }
+  }
+  if (previous.iteration >= project.maxReviewIterations) {
+    return { outcome: 'limit_reached', previous }
+  }
+
+  const queued = await enqueueJob(
+    db,
+    project,
+    { number: previous.issueNumber, title: previous.issueTitle, url: previous.issueUrl },
+    'review_comment',
+    limits,
+    {
+      iteration: previous.iteration + 1,
+      reviewRequest: JSON.stringify(request),
+      branch: previous.branch,
+      prNumber,
+      prUrl: previous.prUrl,
+    }
+  )
+
+  return queued ? { outcome: 'queued', previous, ...queued } : { outcome: 'busy', previous }
+}
+
+/**
+ * Reply on the pull request once a follow-up has been pushed
+ */
+export function followUpReply(request: ReviewRequest, sha: string, summary: string): string {
+  const what = request.source === 'review' ? 'review' : 'comment'
+  return [`@${request.author} I pushed ${sha.slice(0, 7)} to address your ${what}.`, summary]
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+/**
+ * Reply on the pull request when it has used up its follow-up iterations
+ */
+export function iterationLimitReply(author: string, limit: number): string {
+  return `@${author} This pull request has had ${limit} follow-up ${limit === 1 ? 'round' : 'rounds'}, the most this project allows, so Codiro will not change it further. Please take it from here or raise the limit in the project settings.`
+}
@@ -0,0 +1,86 @@
+import { eq } from 'drizzle-orm'
+import type { Database } from '../db'
+import { reserveJob } from '../quotas/counters'
+import { QuotaExceededError } from '../quotas/errors'
+import type { QuotaWarning, UsageLimits } from '../types/quotas'
+import {
+  DEFAULT_BOARD_COLUMN_LABELS,
+  jobs,
+  type Job,
+  type NewJob,
+  type Project,
+} from '../../db/schema'
+
+export interface QueuedJob {
+  job: Job
+  // Soft limits this job crossed, to be announced on the issue
+  warnings: QuotaWarning[]
+}
+
+/**
+ * Whether a label or project status name means "In Progress" for a project: the label of its
+ * board's In Progress column
+ */
+export function isInProgress(
+  name: string | null | undefined,
+  project: Pick<Project, 'boardColumns'>
+): boolean {
+  const status = project.boardColumns.in_progress ?? DEFAULT_BOARD_COLUMN_LABELS.in_progress!
+  return name?.trim().toLowerCase() === status.toLowerCase()
+}
+
+/**
+ * Queue a job for an issue unless one is already queued or running
+ * The job is counted against the monthly quotas of the project and its owner once it is queued;
+ * when a limit is reached, it is recorded as failed with the reason instead. Returns null when an
+ * active job exists for the issue: the unique index on active jobs makes concurrent calls queue
+ * one job between them. `fields` sets further columns, such as those of follow-ups.
+ */
+export async function enqueueJob(
+  db: Database,
+  project: Project,
+  issue: { number: number; title: string; url: string | null },
+  trigger: NewJob['trigger'],
+  limits: UsageLimits,
+  fields: Partial<Omit<NewJob, 'id' | 'projectId' | 'status'>> = {}
+): Promise<QueuedJob | null> {
+  const [queued] = await db
+    .insert(jobs)
+    .values({
+      id: crypto.randomUUID(),
+      projectId: project.id,
+      issueNumber: issue.number,
+      issueTitle: issue.title,
+      issueUrl: issue.url,
+      trigger,
+      ...fields,
+      status: 'queued',
+    })
+    .onConflictDoNothing()
+    .returning()
+
+  if (!queued) {
+    return null
+  }
+
+  try {
+    const warnings = await reserveJob(db, limits, {
+      userId: project.userId,
+      projectId: project.id,
+    })
+    return { job: queued, warnings }
+  } catch (error) {
+    if (!(error instanceof QuotaExceededError)) {
+      // Free the issue again rather than leave a job nothing will run
+      await db.delete(jobs).where(eq(jobs.id, queued.id))
+      throw error
+    }
+    const now = new Date().toISOString()
+    const [job] = await db
+      .update(jobs)
+      .set({ status: 'failed', failureReason: error.message, finishedAt: now, updatedAt: now })
+      .where(eq(jobs.id, queued.id))
+      .returning()
+    return { job, warnings: [] }
+  }
+}
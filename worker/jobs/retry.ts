@@ -0,0 +1,30 @@
+import { GitHubError, GitHubRateLimitedError } from '../github/errors'
+import { QuotaExceededError } from '../quotas/errors'
+
+// Attempts per job, including the first
+export const MAX_JOB_ATTEMPTS = 3
+
+const RETRY_BASE_DELAY = 30_000 // ms
+const MAX_RETRY_DELAY = 15 * 60_000 // ms
+
+/**
+ * Delay before the next attempt of a job whose attempt failed with `error`, or null when the
+ * failure is final: the attempts are used up, a quota is exhausted, or GitHub refused the
+ * request for a reason retrying will not fix (4xx other than rate limits)
+ * Delays double per attempt (30s, 1m, 2m, …); a rate limit waits at least as long as GitHub asks.
+ */
+export function nextRetryDelay(attempt: number, error: unknown): number | null {
+  if (attempt >= MAX_JOB_ATTEMPTS || error instanceof QuotaExceededError) {
+    return null
+  }
+
+  const delay = Math.min(MAX_RETRY_DELAY, RETRY_BASE_DELAY * 2 ** (attempt - 1))
+
+  if (error instanceof GitHubRateLimitedError) {
+    return Math.max(delay, (error.retryAfter ?? 0) * 1000)
+  }
+  if (error instanceof GitHubError && error.status < 500) {
+    return null
+  }
+  return delay
+}
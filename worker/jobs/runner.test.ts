@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest'
+import { env } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import { runJob } from './runner'
+import { refreshSnapshot } from '../context/indexer'
+import { enqueueJob } from './queue'
+import { QuotaExceededError } from '../quotas/errors'
+import { readUsageLimits } from '../quotas/limits'
+import { createTestProject, createTestUser } from '../test/helpers'
+import {
+  createFakeCodeModel,
+  createFakeRepositoryClient,
+  createFakeRepositoryGateway,
+} from '../test/fakes'
+import { getDB } from '../db'
+import { jobs } from '../../db/schema'
+
+const appUrl = 'https://codiro.test'
+const issue = {
+  number: 7,
+  title: 'Add greeting',
+  url: 'https://github.com/octocat/codiro/issues/7',
+}
+
+describe('Job runner', () => {
+  async function queuedJob() {
+    const db = getDB(env.DB)
+    const project = await createTestProject(await createTestUser(), { installationId: 1 })
+    const queued = await enqueueJob(
+      db,
+      project,
+      issue,
+      'issue_label',
+      readUsageLimits(env, project)
+    )
+    return { db, project, job: queued!.job }
+  }
+
+  it('opens a pull request with the generated changes', async () => {
+    const { db, project, job } = await queuedJob()
+    const { model, contexts } = createFakeCodeModel({
+      summary: 'Adds a greeting',
+      files: [
+        { action: 'create', path: 'hello.txt', content: 'Hello!\n' },
+        { action: 'rename', previousPath: 'README', path: 'README.md' },
+      ],
+    })
+    const { github, pullRequests } = createFakeRepositoryGateway(['README', 'src/index.ts'])
+
+    const result = await runJob(db, job.id, { model, github, appUrl })
+
+    expect(result).toMatchObject({
+      status: 'pr_opened',
+      branch: 'codiro/issue-7',
+      prNumber: 101,
+      prUrl: 'https://github.com/octocat/codiro/pull/101',
+      finishedAt: expect.any(String),
+    })
+    expect(contexts[0]).toMatchObject({
+      repository: { owner: 'octocat', repo: 'codiro', defaultBranch: 'main', baseSha: 'base-sha' },
+      issue: { number: 7, body: 'Please add a greeting.' },
+      files: ['README', 'src/index.ts'],
+    })
+    expect(pullRequests[0]).toMatchObject({
+      branch: 'codiro/issue-7',
+      baseSha: 'base-sha',
+      body: [
+        'Adds a greeting',
+        'Closes #7',
+        'Changes:\n- create `hello.txt`\n- rename `README` → `README.md`',
+        `Generated by Codiro job \`${job.id}\` from the [project board](${appUrl}/projects/${project.id})`,
+      ].join('\n\n'),
+      files: [
+        { action: 'create', path: 'hello.txt', content: 'Hello!\n' },
+        { action: 'rename', previousPath: 'README', path: 'README.md' },
+      ],
+    })
+    expect(JSON.parse(result!.promptContext!)).toEqual(contexts[0])
+    expect(JSON.parse(result!.modelOutput!)).toMatchObject({ summary: 'Adds a greeting' })
+  })
+
+  it('adds the snippets the repository snapshot ranks highest for the issue', async () => {
+    const { db, project, job } = await queuedJob()
+    const { client } = createFakeRepositoryClient(
+      {
+        c1: {
+          'src/greeting.ts': 'export function greeting(name: string) {\n  return name\n}\n',
+          'src/math.ts': 'export const add = (a: number, b: number) => a + b\n',
+        },
+      },
+      'c1'
+    )
+    await refreshSnapshot(db, client, project, 'c1')
+    const { model, contexts } = createFakeCodeModel({
+      summary: '',
+      files: [{ action: 'create', path: 'hello.txt', content: 'Hello!\n' }],
+    })
+    const { github } = createFakeRepositoryGateway()
+
+    await runJob(db, job.id, { model, github, appUrl })
+
+    // "add" matches src/math.ts too, below the file named after the greeting
+    expect(contexts[0].snippets).toEqual([
+      {
+        path: 'src/greeting.ts',
+        startLine: 1,
+        endLine: 3,
+        score: expect.any(Number),
+        content: 'export function greeting(name: string) {\n  return name\n}',
+      },
+      expect.objectContaining({ path: 'src/math.ts' }),
+    ])
+  })
+
+  it('fails the job when the model proposes nothing', async () => {
+    const { db, job } = await queuedJob()
+    const { model } = createFakeCodeModel({ summary: '', files: [] })
+    const { github, pullRequests } = createFakeRepositoryGateway()
+
+    const result = await runJob(db, job.id, { model, github, appUrl })
+
+    expect(result).toMatchObject({
+      status: 'failed',
+      failureReason: 'The model did not propose any file changes',
+    })
+    expect(pullRequests).toEqual([])
+  })
+
+  it('records GitHub errors as the failure reason', async () => {
+    const { db, job } = await queuedJob()
+    const { model } = createFakeCodeModel({
+      summary: '',
+      files: [{ action: 'create', path: 'a', content: 'b' }],
+    })
+    const { github } = createFakeRepositoryGateway()
+    github.openPullRequest = async () => {
+      throw new Error('GitHub request POST /repos/octocat/codiro/pulls failed: 422')
+    }
+
+    const result = await runJob(db, job.id, { model, github, appUrl })
+
+    expect(result).toMatchObject({
+      status: 'failed',
+      failureReason: 'GitHub request POST /repos/octocat/codiro/pulls failed: 422',
+    })
+  })
+
+  it('does not run a job twice', async () => {
+    const { db, job } = await queuedJob()
+    const { model } = createFakeCodeModel({
+      summary: '',
+      files: [{ action: 'create', path: 'a', content: 'b' }],
+    })
+    const { github } = createFakeRepositoryGateway()
+
+    await runJob(db, job.id, { model, github, appUrl })
+    expect(await runJob(db, job.id, { model, github, appUrl })).toBeNull()
+  })
+
+  it('updates the pull request of an earlier run instead of opening another', async () => {
+    const { db, job } = await queuedJob()
+    const { model } = createFakeCodeModel({
+      summary: '',
+      files: [{ action: 'modify', path: 'a', content: 'b' }],
+    })
+    const { github } = createFakeRepositoryGateway()
+    // An earlier run for the issue left its pull request open
+    await github.openPullRequest({
+      baseBranch: 'main',
+      branch: 'codiro/issue-7',
+      title: 'Add greeting',
+      body: '',
+      commitMessage: 'Implement #7: Add greeting',
+      files: [],
+    })
+    const steps: string[] = []
+
+    const result = await runJob(
+      db,
+      job.id,
+      { model, github, appUrl },
+      {
+        log: async (_step, message) => {
+          steps.push(message)
+        },
+      }
+    )
+
+    expect(result).toMatchObject({ status: 'pr_opened', prNumber: 101 })
+    expect(steps).toContain('Updated pull request #101 from codiro/issue-7')
+  })
+
+  it('does not queue a second job while one is active', async () => {
+    const { db, project } = await queuedJob()
+    expect(
+      await enqueueJob(db, project, issue, 'issue_label', readUsageLimits(env, project))
+    ).toBeNull()
+  })
+
+  it('queues one job when the same issue is queued concurrently', async () => {
+    const db = getDB(env.DB)
+    const project = await createTestProject(await createTestUser(), { installationId: 1 })
+    const limits = readUsageLimits(env, project)
+
+    const results = await Promise.all(
+      [1, 2, 3].map(() => enqueueJob(db, project, issue, 'issue_label', limits))
+    )
+
+    expect(results.filter((result) => result !== null)).toHaveLength(1)
+    const rows = await db.query.jobs.findMany({ where: eq(jobs.projectId, project.id) })
+    expect(rows).toMatchObject([{ status: 'queued' }])
+  })
+
+  it('fails with the quota reason and tells the issue when a limit is hit mid-run', async () => {
+    const { db, job } = await queuedJob()
+    const { github, comments } = createFakeRepositoryGateway()
+    const model = {
+      async generateChanges(): Promise<never> {
+        throw new QuotaExceededError('project', 'tokens', 1000, '2026-10')
+      },
+    }
+
+    const result = await runJob(db, job.id, { model, github, appUrl })
+
+    expect(result).toMatchObject({
+      status: 'failed',
+      failureReason: 'Monthly token limit of this project reached (1,000 tokens in 2026-10)',
+    })
+    expect(comments).toHaveLength(1)
+    expect(comments[0].body).toContain(
+      'Codiro stopped working on this issue: Monthly token limit of this project reached'
+    )
+  })
+})
@@ -0,0 +1,349 @@
+import { and, desc, eq } from 'drizzle-orm'
+import type { Database } from '../db'
+import { recordAuditEvent, SYSTEM_ACTOR } from '../audit/events'
+import { contextQuery, retrieveContext } from '../context/retrieval'
+import { createInstallationClient } from '../github/app'
+import { createRepositoryGateway } from '../github/repository'
+import { createChatModel } from '../llm/models'
+import { QuotaExceededError } from '../quotas/errors'
+import { commentOnIssue, quotaExceededComment, quotaWarningComment } from '../quotas/notices'
+import { createLLMCodeModel } from './codegen'
+import { followUpReply } from './follow-ups'
+import type { QueuedJob } from './queue'
+import { transitionJob } from './state'
+import type { AuditActor } from '../types/audit'
+import type {
+  GeneratedChanges,
+  JobRunOptions,
+  JobRunnerDeps,
+  JobRunnerDepsFactory,
+  JobStepLogger,
+  PromptContext,
+  RepositoryGateway,
+  ReviewContext,
+  ReviewRequest,
+} from '../types/jobs'
+import { conversations, jobs, projects, type Job, type Project } from '../../db/schema'
+
+// Upper bound on file paths sent to the model as repository context
+const MAX_CONTEXT_FILES = 500
+
+/**
+ * Branch a job pushes its changes to; re-running a job for the same issue reuses it
+ */
+export function jobBranchName(issueNumber: number): string {
+  return `codiro/issue-${issueNumber}`
+}
+
+/**
+ * Build the production model and GitHub dependencies for a job
+ * Model usage is billed to the project owner.
+ */
+export async function createJobRunnerDeps(
+  env: Env,
+  db: Database,
+  project: Project,
+  jobId: string
+): Promise<JobRunnerDeps> {
+  if (!project.installationId) {
+    throw new Error('Project is not linked to a GitHub App installation')
+  }
+
+  const client = await createInstallationClient(env, project.installationId)
+
+  return {
+    model: createLLMCodeModel(
+      createChatModel(env, db, project, { userId: project.userId, feature: 'job', jobId })
+    ),
+    github: createRepositoryGateway({
+      client,
+      owner: project.githubOwner,
+      repo: project.githubRepo,
+    }),
+    appUrl: env.APP_URL,
+  }
+}
+
+/**
+ * Run one attempt of a queued job: gather context, generate changes and open a pull request
+ * Follow-ups (jobs with a review request) instead add a commit to their pull request's branch
+ * and reply to the reviewer. A failure the options allow to retry puts the job back to queued
+ * with its next attempt time; other failures fail it. Returns the job in its resulting state, or
+ * null if it was not queued (already started, finished or cancelled).
+ */
+export async function runJob(
+  db: Database,
+  jobId: string,
+  deps: JobRunnerDeps | JobRunnerDepsFactory,
+  options: JobRunOptions = {}
+): Promise<Job | null> {
+  const job = await transitionJob(db, jobId, 'running')
+  if (!job) {
+    return null
+  }
+
+  const log: JobStepLogger = options.log ?? (async () => {})
+  // Cancellation takes effect between steps
+  const checkpoint = () => options.signal?.throwIfAborted()
+  let github: RepositoryGateway | null = null
+
+  try {
+    const project = await db.query.projects.findFirst({ where: eq(projects.id, job.projectId) })
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    const resolved = typeof deps === 'function' ? await deps() : deps
+    const { model, appUrl } = resolved
+    github = resolved.github
+    await log('start', `Attempt ${job.attempts} started`)
+
+    const fail = async (reason: string) => {
+      await log('error', reason, 'error')
+      return await transitionJob(db, jobId, 'failed', { failureReason: reason })
+    }
+
+    const issue = await github.getIssue(job.issueNumber)
+    const spec = await findFinalizedSpec(db, project.id, issue.number)
+    // Follow-ups add to the pull request's branch; first runs start from the default branch
+    const request: ReviewRequest | null = job.reviewRequest ? JSON.parse(job.reviewRequest) : null
+    const pr = request ? await github.getPullRequest(job.prNumber!) : null
+    if (pr && pr.state !== 'open') {
+      return await fail(`Pull request #${pr.number} has been closed`)
+    }
+    const baseSha = pr?.headSha ?? (await github.getBranchSha(project.defaultBranch))
+    const files = await github.listFiles(baseSha)
+    const review: ReviewContext | undefined =
+      pr && request
+        ? {
+            pullRequest: { number: pr.number, url: pr.url, branch: pr.branch },
+            diff: await github.getPullRequestDiff(pr.number),
+            threads: await github.listReviewThreads(pr.number),
+            request,
+          }
+        : undefined
+    const retrieved = await retrieveContext(
+      db,
+      project.id,
+      contextQuery(issue, spec, request?.body)
+    )
+    const snippets = retrieved?.snippets ?? []
+    checkpoint()
+
+    const context: PromptContext = {
+      repository: {
+        owner: project.githubOwner,
+        repo: project.githubRepo,
+        defaultBranch: project.defaultBranch,
+        baseSha,
+      },
+      issue: {
+        number: issue.number,
+        title: issue.title,
+        body: issue.body ?? '',
+        url: issue.html_url,
+      },
+      files: files.slice(0, MAX_CONTEXT_FILES),
+      ...(snippets.length > 0 ? { snippets } : {}),
+      ...(spec ? { spec } : {}),
+      ...(review ? { review } : {}),
+    }
+    await updateJob(db, jobId, { promptContext: JSON.stringify(context) })
+    await log(
+      'context',
+      (review
+        ? `Read pull request #${review.pullRequest.number}, ${review.threads.length} review thread(s) and ${context.files.length} file paths`
+        : `Read issue #${issue.number} and ${context.files.length} file paths`) +
+        (retrieved && snippets.length > 0
+          ? `; picked ${snippets.length} snippet(s) from the snapshot at ${retrieved.commitSha.slice(0, 7)}`
+          : '')
+    )
+
+    const changes = await model.generateChanges(context)
+    await updateJob(db, jobId, { modelOutput: JSON.stringify(changes) })
+    checkpoint()
+
+    if (changes.files.length === 0) {
+      return await fail('The model did not propose any file changes')
+    }
+    await log('generate', `The model proposed changes to ${changes.files.length} file(s)`)
+
+    if (review) {
+      const { sha } = await github.pushChanges({
+        branch: review.pullRequest.branch,
+        baseSha,
+        commitMessage: `Address review of #${review.pullRequest.number} (follow-up ${job.iteration})\n\n${review.request.url}`,
+        files: changes.files,
+      })
+      await log('push', `Pushed ${sha.slice(0, 7)} to ${review.pullRequest.branch}`)
+
+      await github.createIssueComment(
+        review.pullRequest.number,
+        followUpReply(review.request, sha, changes.summary)
+      )
+      await log('reply', `Replied to @${review.request.author} on #${review.pullRequest.number}`)
+
+      return await transitionJob(db, jobId, 'pr_opened')
+    }
+
+    const branch = jobBranchName(issue.number)
+    const opened = await github.openPullRequest({
+      baseBranch: project.defaultBranch,
+      baseSha,
+      branch,
+      title: issue.title,
+      body: pullRequestBody(changes, issue.number, jobId, `${appUrl}/projects/${project.id}`),
+      commitMessage: `Implement #${issue.number}: ${issue.title}`,
+      files: changes.files,
+    })
+    await log(
+      'pull_request',
+      `${opened.created ? 'Opened' : 'Updated'} pull request #${opened.number} from ${branch}`
+    )
+
+    return await transitionJob(db, jobId, 'pr_opened', {
+      branch,
+      prNumber: opened.number,
+      prUrl: opened.url,
+    })
+  } catch (error) {
+    if (options.signal?.aborted) {
+      // Cancelled meanwhile; the job is already in its final state
+      return (await db.query.jobs.findFirst({ where: eq(jobs.id, jobId) })) ?? null
+    }
+
+    console.error('Job failed:', jobId, error)
+    const reason = error instanceof Error ? error.message : String(error)
+    await log('error', reason, 'error')
+
+    const delay = options.retryDelay?.(error) ?? null
+    if (delay !== null) {
+      return await transitionJob(db, jobId, 'queued', {
+        failureReason: reason,
+        nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+      })
+    }
+
+    if (error instanceof QuotaExceededError && github) {
+      await github
+        .createIssueComment(job.issueNumber, quotaExceededComment(error.message, true))
+        .catch((commentError) => console.error('Failed to comment on issue:', jobId, commentError))
+    }
+    return await transitionJob(db, jobId, 'failed', { failureReason: reason })
+  }
+}
+
+/**
+ * Hand a freshly queued job to its coordinator, which runs it in the background
+ * Jobs that cannot run at all (no installation) fail immediately.
+ */
+export async function startJob(db: Database, env: Env, job: Job, project: Project) {
+  if (!project.installationId) {
+    await transitionJob(db, job.id, 'failed', {
+      failureReason: 'Project is not linked to a GitHub App installation',
+    })
+    return
+  }
+
+  await jobCoordinator(env, job.id).start(job.id)
+}
+
+export interface JobStartContext {
+  db: Database
+  env: Env
+  waitUntil(promise: Promise<unknown>): void
+  // Who queued the job; webhooks act as the system
+  actor?: AuditActor
+}
+
+/**
+ * Start a job from `enqueueJob`, and tell the issue or pull request about quota refusals and
+ * warnings in the background
+ * The job is audited as queued, or as refused when a quota was reached.
+ */
+export async function startQueuedJob(
+  ctx: JobStartContext,
+  project: Project,
+  issueNumber: number,
+  { job, warnings }: QueuedJob
+) {
+  ctx.waitUntil(
+    recordAuditEvent(ctx.db, {
+      actor: ctx.actor ?? SYSTEM_ACTOR,
+      action: job.status === 'queued' ? 'job.queued' : 'job.refused',
+      target: { type: 'job', id: job.id },
+      projectId: project.id,
+      metadata: {
+        issueNumber: job.issueNumber,
+        trigger: job.trigger,
+        ...(job.failureReason ? { reason: job.failureReason } : {}),
+      },
+    })
+  )
+
+  if (job.status === 'queued') {
+    await startJob(ctx.db, ctx.env, job, project)
+  }
+
+  // A job that was not queued was refused by a quota
+  const notice =
+    job.status === 'failed'
+      ? quotaExceededComment(job.failureReason!, false)
+      : warnings.length > 0
+        ? quotaWarningComment(warnings)
+        : null
+  if (notice) {
+    ctx.waitUntil(commentOnIssue(ctx.env, project, issueNumber, notice))
+  }
+}
+
+/**
+ * The Durable Object coordinating a job
+ */
+export function jobCoordinator(env: Env, jobId: string) {
+  return env.JOB_COORDINATOR.get(env.JOB_COORDINATOR.idFromName(jobId))
+}
+
+// Summary, the file edits, the issue (closed on merge), the job id and a link to the board
+function pullRequestBody(
+  changes: GeneratedChanges,
+  issueNumber: number,
+  jobId: string,
+  boardUrl: string
+): string {
+  const edits = changes.files.map((file) =>
+    file.action === 'rename'
+      ? `- rename \`${file.previousPath}\` → \`${file.path}\``
+      : `- ${file.action} \`${file.path}\``
+  )
+  return [
+    changes.summary,
+    `Closes #${issueNumber}`,
+    `Changes:\n${edits.join('\n')}`,
+    `Generated by Codiro job \`${jobId}\` from the [project board](${boardUrl})`,
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+/**
+ * The spec of an issue's latest finalized spec discussion
+ */
+export async function findFinalizedSpec(db: Database, projectId: string, issueNumber: number) {
+  const conversation = await db.query.conversations.findFirst({
+    where: and(
+      eq(conversations.projectId, projectId),
+      eq(conversations.issueNumber, issueNumber),
+      eq(conversations.status, 'finalized')
+    ),
+    orderBy: [desc(conversations.finalizedAt)],
+  })
+  return conversation?.spec ?? null
+}
+
+async function updateJob(db: Database, jobId: string, fields: Partial<Job>) {
+  await db
+    .update(jobs)
+    .set({ ...fields, updatedAt: new Date().toISOString() })
+    .where(eq(jobs.id, jobId))
+}
@@ -0,0 +1,56 @@
+import { and, eq, inArray, sql } from 'drizzle-orm'
+import type { Database } from '../db'
+import { jobs, type Job, type JobStatus } from '../../db/schema'
+
+// Allowed status transitions; pr_opened, failed and cancelled are terminal.
+// running → queued is a failed attempt waiting for its retry.
+const TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  queued: ['running', 'failed', 'cancelled'],
+  running: ['queued', 'pr_opened', 'failed', 'cancelled'],
+  pr_opened: [],
+  failed: [],
+  cancelled: [],
+}
+
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', 'running']
+
+/**
+ * Whether a job status is final
+ */
+export function isTerminalJobStatus(status: JobStatus): boolean {
+  return TRANSITIONS[status].length === 0
+}
+
+/**
+ * Move a job to a new status
+ * Starting a job (→ running) counts an attempt.
+ * The update only applies if the job is still in a status that may move to `to`,
+ * so concurrent runners cannot overwrite each other. Returns null when the transition was refused.
+ */
+export async function transitionJob(
+  db: Database,
+  jobId: string,
+  to: JobStatus,
+  fields: Partial<Omit<Job, 'id' | 'status'>> = {}
+): Promise<Job | null> {
+  const from = (Object.keys(TRANSITIONS) as JobStatus[]).filter((status) =>
+    TRANSITIONS[status].includes(to)
+  )
+  const now = new Date().toISOString()
+
+  const [job] = await db
+    .update(jobs)
+    .set({
+      ...fields,
+      status: to,
+      updatedAt: now,
+      ...(to === 'running'
+        ? { startedAt: now, attempts: sql`${jobs.attempts} + 1`, nextAttemptAt: null }
+        : {}),
+      ...(isTerminalJobStatus(to) ? { finishedAt: now, nextAttemptAt: null } : {}),
+    })
+    .where(and(eq(jobs.id, jobId), inArray(jobs.status, from)))
+    .returning()
+
+  return job ?? null
+}
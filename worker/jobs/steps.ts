@@ -0,0 +1,39 @@
+import { asc, eq } from 'drizzle-orm'
+import type { Database } from '../db'
+import { jobSteps, type JobStep, type JobStepLevel } from '../../db/schema'
+
+/**
+ * Append a step to a job's log
+ */
+export async function recordJobStep(
+  db: Database,
+  jobId: string,
+  attempt: number,
+  step: string,
+  message: string,
+  level: JobStepLevel = 'info'
+): Promise<JobStep> {
+  const [row] = await db
+    .insert(jobSteps)
+    .values({
+      id: crypto.randomUUID(),
+      jobId,
+      attempt,
+      step,
+      level,
+      message,
+      createdAt: new Date().toISOString(),
+    })
+    .returning()
+  return row
+}
+
+/**
+ * A job's step log, oldest first
+ */
+export async function listJobSteps(db: Database, jobId: string): Promise<JobStep[]> {
+  return db.query.jobSteps.findMany({
+    where: eq(jobSteps.jobId, jobId),
+    orderBy: [asc(jobSteps.createdAt), asc(jobSteps.id)],
+  })
+}
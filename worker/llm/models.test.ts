@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import { env } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import { createChatModel, resolveModelSettings } from './models'
+import type { WorkersAIBinding } from './workers-ai'
+import { getDB } from '../db'
+import { createTestProject, createTestUser } from '../test/helpers'
+import { llmUsage } from '../../db/schema'
+
+/**
+ * Workers AI binding that answers every run from a script and records the inputs
+ */
+function createStubAI(reply: (inputs: Record<string, unknown>) => unknown) {
+  const runs: Array<{ model: string; inputs: Record<string, unknown> }> = []
+  const binding: WorkersAIBinding = {
+    async run(model, inputs) {
+      runs.push({ model, inputs })
+      return reply(inputs)
+    },
+  }
+  return { binding, runs }
+}
+
+function eventStream(events: unknown[]) {
+  const text = [...events.map((e) => `data: ${JSON.stringify(e)}\n\n`), 'data: [DONE]\n\n'].join('')
+  return new Response(text).body
+}
+
+describe('Project chat models', () => {
+  it('falls back to the deployment defaults', () => {
+    const empty = {
+      llmProvider: null,
+      llmModel: null,
+      llmTemperature: null,
+      llmMaxTokens: null,
+      llmSystemPrompt: null,
+    }
+    expect(resolveModelSettings({ LLM_MODEL: 'gpt-test' }, empty)).toEqual({
+      provider: 'openai',
+      model: 'gpt-test',
+      temperature: null,
+      maxTokens: null,
+      systemPrompt: null,
+    })
+    expect(
+      resolveModelSettings({ LLM_MODEL: 'gpt-test' }, { ...empty, llmProvider: 'workers_ai' })
+    ).toMatchObject({ provider: 'workers_ai', model: '@cf/meta/llama-3.3-70b-instruct-fp8-fast' })
+  })
+
+  it('applies project settings and records usage of completions and streams', async () => {
+    const db = getDB(env.DB)
+    const user = await createTestUser()
+    const project = await createTestProject(user, {
+      llmProvider: 'workers_ai',
+      llmModel: '@cf/test/model',
+      llmTemperature: 0.9,
+      llmMaxTokens: 256,
+      llmSystemPrompt: 'Answer in French.',
+    })
+    const { binding, runs } = createStubAI((inputs) =>
+      inputs.stream
+        ? eventStream([
+            { response: 'Bon' },
+            { response: 'jour' },
+            { response: '', usage: { prompt_tokens: 4, completion_tokens: 2 } },
+          ])
+        : {
+            response: '',
+            tool_calls: [{ name: 'read_file', arguments: { path: 'a.ts' } }],
+            usage: { prompt_tokens: 10, completion_tokens: 6 },
+          }
+    )
+    const model = createChatModel({ ...env, AI: binding as Ai }, db, project, {
+      userId: user.id,
+      feature: 'spec_discussion',
+    })
+
+    const completion = await model.complete(
+      [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Read a.ts' },
+      ],
+      { temperature: 0.2 }
+    )
+    expect(completion.toolCalls).toEqual([
+      { id: 'call_0', name: 'read_file', arguments: '{"path":"a.ts"}' },
+    ])
+    expect(runs[0]).toMatchObject({
+      model: '@cf/test/model',
+      inputs: {
+        temperature: 0.9,
+        max_tokens: 256,
+        messages: [
+          { role: 'system', content: 'Be brief.\n\nAnswer in French.' },
+          { role: 'user', content: 'Read a.ts' },
+        ],
+      },
+    })
+
+    const deltas: string[] = []
+    for await (const delta of model.stream([{ role: 'user', content: 'Hello' }])) {
+      deltas.push(delta)
+    }
+    expect(deltas).toEqual(['Bon', 'jour'])
+    expect(runs[1].inputs.messages).toEqual([
+      { role: 'system', content: 'Answer in French.' },
+      { role: 'user', content: 'Hello' },
+    ])
+
+    const usage = await db.query.llmUsage.findMany({ where: eq(llmUsage.projectId, project.id) })
+    expect(usage).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          userId: user.id,
+          feature: 'spec_discussion',
+          provider: 'workers_ai',
+          model: '@cf/test/model',
+          promptTokens: 10,
+          completionTokens: 6,
+        }),
+        expect.objectContaining({ promptTokens: 4, completionTokens: 2 }),
+      ])
+    )
+    expect(usage).toHaveLength(2)
+  })
+
+  it('refuses Workers AI when the binding is missing', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { llmProvider: 'workers_ai' })
+
+    expect(() =>
+      createChatModel(env, getDB(env.DB), project, { userId: user.id, feature: 'job' })
+    ).toThrow('Workers AI is not available')
+  })
+})
@@ -0,0 +1,117 @@
+import type { Database } from '../db'
+import { assertTokensAvailable } from '../quotas/counters'
+import { readUsageLimits } from '../quotas/limits'
+import type { ChatMessage, ChatModel, ModelSettings, UsageScope } from '../types/llm'
+import { createOpenAIChatModel } from './openai'
+import { recordUsage, withPreflight, withUsageRecording } from './usage'
+import { createWorkersAIChatModel } from './workers-ai'
+import type { Project } from '../../db/schema'
+
+// Used when a project selects Workers AI without naming a model
+const DEFAULT_WORKERS_AI_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast'
+
+/**
+ * A project's model settings, falling back to the deployment defaults
+ */
+export function resolveModelSettings(
+  env: Pick<Env, 'LLM_MODEL'>,
+  project: Pick<
+    Project,
+    'llmProvider' | 'llmModel' | 'llmTemperature' | 'llmMaxTokens' | 'llmSystemPrompt'
+  >
+): ModelSettings {
+  const provider = project.llmProvider ?? 'openai'
+
+  return {
+    provider,
+    model: project.llmModel ?? (provider === 'openai' ? env.LLM_MODEL : DEFAULT_WORKERS_AI_MODEL),
+    temperature: project.llmTemperature,
+    maxTokens: project.llmMaxTokens,
+    systemPrompt: project.llmSystemPrompt,
+  }
+}
+
+/**
+ * Chat model for a project's AI features
+ * Uses the project's provider and settings, refuses calls once a monthly token limit of the
+ * project or user is used up (QuotaExceededError), and records the token usage of every call.
+ */
+export function createChatModel(
+  env: Env,
+  db: Database,
+  project: Project,
+  scope: Omit<UsageScope, 'projectId'>
+): ChatModel {
+  const settings = resolveModelSettings(env, project)
+  const limits = readUsageLimits(env, project)
+  const usageScope = { ...scope, projectId: project.id }
+  const model = withModelSettings(createProviderModel(env, settings), settings)
+
+  return withUsageRecording(
+    withPreflight(model, () => assertTokensAvailable(db, limits, usageScope)),
+    (usage) => recordUsage(db, usageScope, model, usage)
+  )
+}
+
+/**
+ * Adapter for the selected provider
+ */
+export function createProviderModel(
+  env: Pick<Env, 'AI' | 'LLM_API_URL' | 'LLM_API_KEY'>,
+  settings: Pick<ModelSettings, 'provider' | 'model'>
+): ChatModel {
+  if (settings.provider === 'workers_ai') {
+    if (!env.AI) {
+      throw new Error('Workers AI is not available: the worker has no AI binding')
+    }
+    return createWorkersAIChatModel({ binding: env.AI, model: settings.model })
+  }
+
+  return createOpenAIChatModel({
+    baseUrl: env.LLM_API_URL,
+    apiKey: env.LLM_API_KEY,
+    model: settings.model,
+  })
+}
+
+/**
+ * Apply project settings to every call
+ * The project's temperature and max tokens replace the caller's; its system prompt additions are
+ * appended to the caller's system prompt.
+ */
+export function withModelSettings(
+  model: ChatModel,
+  settings: Pick<ModelSettings, 'temperature' | 'maxTokens' | 'systemPrompt'>
+): ChatModel {
+  function apply<T extends { temperature?: number; maxTokens?: number }>(options: T = {} as T) {
+    return {
+      ...options,
+      temperature: settings.temperature ?? options.temperature,
+      maxTokens: settings.maxTokens ?? options.maxTokens,
+    }
+  }
+
+  return {
+    provider: model.provider,
+    model: model.model,
+    complete: (messages, options) =>
+      model.complete(withSystemPrompt(messages, settings.systemPrompt), apply(options)),
+    stream: (messages, options) =>
+      model.stream(withSystemPrompt(messages, settings.systemPrompt), apply(options)),
+  }
+}
+
+function withSystemPrompt(messages: ChatMessage[], additions: string | null): ChatMessage[] {
+  if (!additions?.trim()) {
+    return messages
+  }
+
+  const index = messages.findIndex((message) => message.role === 'system')
+  if (index === -1) {
+    return [{ role: 'system', content: additions.trim() }, ...messages]
+  }
+
+  return messages.map((message, i) =>
+    i === index ? { ...message, content: `${message.content}\n\n${additions.trim()}` } : message
+  )
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest'
+import { fetchMock } from 'cloudflare:test'
+import { createOpenAIChatModel } from './openai'
+
+const model = createOpenAIChatModel({
+  baseUrl: 'https://llm.test/v1',
+  apiKey: 'test-llm-key',
+  model: 'gpt-test',
+})
+
+function sse(events: unknown[]) {
+  return [...events.map((event) => `data: ${JSON.stringify(event)}\n\n`), 'data: [DONE]\n\n'].join(
+    ''
+  )
+}
+
+describe('OpenAI-compatible chat model', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  it('sends messages and tools and parses tool calls and usage', async () => {
+    let sent: Record<string, unknown> = {}
+    fetchMock
+      .get('https://llm.test')
+      .intercept({
+        path: '/v1/chat/completions',
+        method: 'POST',
+        headers: { Authorization: 'Bearer test-llm-key' },
+      })
+      .reply(200, ({ body }) => {
+        sent = JSON.parse(body as string)
+        return {
+          choices: [
+            {
+              message: {
+                content: null,
+                tool_calls: [
+                  {
+                    id: 'call_1',
+                    type: 'function',
+                    function: { name: 'read_file', arguments: '{"path":"README.md"}' },
+                  },
+                ],
+              },
+            },
+          ],
+          usage: { prompt_tokens: 12, completion_tokens: 5 },
+        }
+      })
+
+    const completion = await model.complete(
+      [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'What does the README say?' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_0', name: 'list_files', arguments: '{}' }],
+        },
+        { role: 'tool', content: 'README.md', toolCallId: 'call_0' },
+      ],
+      {
+        temperature: 0.3,
+        maxTokens: 100,
+        tools: [
+          {
+            name: 'read_file',
+            description: 'Read a file',
+            parameters: { type: 'object', properties: { path: { type: 'string' } } },
+          },
+        ],
+      }
+    )
+
+    expect(completion).toEqual({
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'read_file', arguments: '{"path":"README.md"}' }],
+      usage: { promptTokens: 12, completionTokens: 5 },
+    })
+    expect(sent).toMatchObject({
+      model: 'gpt-test',
+      temperature: 0.3,
+      max_tokens: 100,
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'What does the README say?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id: 'call_0', type: 'function', function: { name: 'list_files', arguments: '{}' } },
+          ],
+        },
+        { role: 'tool', content: 'README.md', tool_call_id: 'call_0' },
+      ],
+      tools: [{ type: 'function', function: { name: 'read_file', description: 'Read a file' } }],
+    })
+    expect(sent).not.toHaveProperty('stream')
+  })
+
+  it('streams content deltas and returns the assembled completion', async () => {
+    let sent: Record<string, unknown> = {}
+    fetchMock
+      .get('https://llm.test')
+      .intercept({ path: '/v1/chat/completions', method: 'POST' })
+      .reply(
+        200,
+        ({ body }) => {
+          sent = JSON.parse(body as string)
+          return sse([
+            { choices: [{ delta: { role: 'assistant', content: '' } }] },
+            { choices: [{ delta: { content: 'Hello' } }] },
+            { choices: [{ delta: { content: ', world' } }] },
+            {
+              choices: [
+                {
+                  delta: {
+                    tool_calls: [
+                      { index: 0, id: 'call_9', function: { name: 'done', arguments: '{"ok"' } },
+                    ],
+                  },
+                },
+              ],
+            },
+            {
+              choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: ':1}' } }] } }],
+            },
+            { choices: [], usage: { prompt_tokens: 7, completion_tokens: 3 } },
+          ])
+        },
+        { headers: { 'Content-Type': 'text/event-stream' } }
+      )
+
+    const stream = model.stream([{ role: 'user', content: 'Hi' }])
+    const deltas: string[] = []
+    let result = await stream.next()
+    while (!result.done) {
+      deltas.push(result.value)
+      result = await stream.next()
+    }
+
+    expect(deltas).toEqual(['Hello', ', world'])
+    expect(result.value).toEqual({
+      content: 'Hello, world',
+      toolCalls: [{ id: 'call_9', name: 'done', arguments: '{"ok":1}' }],
+      usage: { promptTokens: 7, completionTokens: 3 },
+    })
+    expect(sent).toMatchObject({ stream: true, stream_options: { include_usage: true } })
+  })
+
+  it('throws on error responses', async () => {
+    fetchMock
+      .get('https://llm.test')
+      .intercept({ path: '/v1/chat/completions', method: 'POST' })
+      .reply(429, { error: { message: 'Rate limited' } })
+
+    await expect(model.complete([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+      'Model request failed: 429'
+    )
+  })
+})
@@ -0,0 +1,162 @@
+import type {
+  ChatCompletion,
+  ChatCompletionOptions,
+  ChatMessage,
+  ChatModel,
+  ChatToolCall,
+} from '../types/llm'
+import { readServerSentEvents } from './sse'
+
+interface OpenAIConfig {
+  baseUrl: string
+  apiKey: string
+  model: string
+}
+
+interface OpenAIToolCall {
+  id: string
+  function: { name: string; arguments: string }
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number
+  completion_tokens: number
+}
+
+interface OpenAIChatResponse {
+  choices: Array<{ message: { content: string | null; tool_calls?: OpenAIToolCall[] } }>
+  usage?: OpenAIUsage
+}
+
+interface OpenAIChatChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null
+      // Tool calls arrive in pieces keyed by index; id and name only on the first piece
+      tool_calls?: Array<{
+        index: number
+        id?: string
+        function?: { name?: string; arguments?: string }
+      }>
+    }
+  }>
+  // Only on the final chunk, with stream_options.include_usage
+  usage?: OpenAIUsage | null
+}
+
+/**
+ * Chat model backed by an OpenAI-compatible /chat/completions endpoint
+ */
+export function createOpenAIChatModel(config: OpenAIConfig): ChatModel {
+  async function send(messages: ChatMessage[], options: ChatCompletionOptions, stream: boolean) {
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: messages.map(toOpenAIMessage),
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        response_format: options.json ? { type: 'json_object' } : undefined,
+        tools: options.tools?.length
+          ? options.tools.map((tool) => ({ type: 'function', function: tool }))
+          : undefined,
+        stream: stream || undefined,
+        stream_options: stream ? { include_usage: true } : undefined,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('LLM API error:', response.status, errorText)
+      throw new Error(`Model request failed: ${response.status}`)
+    }
+
+    return response
+  }
+
+  return {
+    provider: 'openai',
+    model: config.model,
+
+    async complete(
+      messages: ChatMessage[],
+      options: ChatCompletionOptions = {}
+    ): Promise<ChatCompletion> {
+      const response = await send(messages, options, false)
+      const data: OpenAIChatResponse = await response.json()
+      const message = data.choices[0]?.message
+
+      return {
+        content: message?.content ?? '',
+        toolCalls: (message?.tool_calls ?? []).map((call) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        })),
+        usage: toUsage(data.usage),
+      }
+    },
+
+    async *stream(messages: ChatMessage[], options: ChatCompletionOptions = {}) {
+      const response = await send(messages, options, true)
+
+      let content = ''
+      const toolCalls: ChatToolCall[] = []
+      let usage: OpenAIUsage | null | undefined
+
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') {
+          break
+        }
+        const chunk: OpenAIChatChunk = JSON.parse(data)
+        usage = chunk.usage ?? usage
+
+        const delta = chunk.choices[0]?.delta
+        for (const piece of delta?.tool_calls ?? []) {
+          const call = (toolCalls[piece.index] ??= { id: '', name: '', arguments: '' })
+          call.id ||= piece.id ?? ''
+          call.name += piece.function?.name ?? ''
+          call.arguments += piece.function?.arguments ?? ''
+        }
+        if (delta?.content) {
+          content += delta.content
+          yield delta.content
+        }
+      }
+
+      return { content, toolCalls: toolCalls.filter(Boolean), usage: toUsage(usage) }
+    },
+  }
+}
+
+/**
+ * Message in the OpenAI wire format, which Workers AI accepts too
+ */
+export function toOpenAIMessage(message: ChatMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', content: message.content, tool_call_id: message.toolCallId }
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    }
+  }
+  return { role: message.role, content: message.content }
+}
+
+function toUsage(usage: OpenAIUsage | null | undefined) {
+  return {
+    promptTokens: usage?.prompt_tokens ?? 0,
+    completionTokens: usage?.completion_tokens ?? 0,
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Yield the `data` of each event in a text/event-stream body
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array> | null
+): AsyncGenerator<string> {
+  if (!body) {
+    return
+  }
+
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    buffer += value ?? ''
+
+    // Events are separated by a blank line
+    const events = buffer.split(/\r?\n\r?\n/)
+    buffer = done ? '' : events.pop()!
+
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n')
+      if (data) {
+        yield data
+      }
+    }
+
+    if (done) {
+      return
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import type { Database } from '../db'
+import { incrementTokens } from '../quotas/counters'
+import type { ChatModel, ChatUsage, UsageScope } from '../types/llm'
+import { llmUsage } from '../../db/schema'
+
+/**
+ * Store the token usage of one model call and add it to the monthly quota counters
+ * A failed write is logged, not thrown: the call itself has already succeeded.
+ */
+export async function recordUsage(
+  db: Database,
+  scope: UsageScope,
+  model: Pick<ChatModel, 'provider' | 'model'>,
+  usage: ChatUsage
+) {
+  try {
+    await db.batch([
+      db.insert(llmUsage).values({
+        id: crypto.randomUUID(),
+        ...scope,
+        provider: model.provider,
+        model: model.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+      }),
+      ...incrementTokens(db, scope, usage.promptTokens + usage.completionTokens),
+    ])
+  } catch (error) {
+    console.error('Failed to record LLM usage:', scope, error)
+  }
+}
+
+/**
+ * Report the usage of every completed call
+ * Streams are reported once they finish; a stream abandoned by its reader is not.
+ */
+export function withUsageRecording(
+  model: ChatModel,
+  record: (usage: ChatUsage) => Promise<void>
+): ChatModel {
+  return {
+    provider: model.provider,
+    model: model.model,
+
+    async complete(messages, options) {
+      const completion = await model.complete(messages, options)
+      await record(completion.usage)
+      return completion
+    },
+
+    async *stream(messages, options) {
+      const completion = yield* model.stream(messages, options)
+      await record(completion.usage)
+      return completion
+    },
+  }
+}
+
+/**
+ * Run a check (such as a quota) before every call; a check that throws stops the call
+ */
+export function withPreflight(model: ChatModel, check: () => Promise<void>): ChatModel {
+  return {
+    provider: model.provider,
+    model: model.model,
+
+    async complete(messages, options) {
+      await check()
+      return model.complete(messages, options)
+    },
+
+    async *stream(messages, options) {
+      await check()
+      return yield* model.stream(messages, options)
+    },
+  }
+}
@@ -0,0 +1,114 @@
+import type {
+  ChatCompletion,
+  ChatCompletionOptions,
+  ChatMessage,
+  ChatModel,
+  ChatToolCall,
+} from '../types/llm'
+import { toOpenAIMessage } from './openai'
+import { readServerSentEvents } from './sse'
+
+// The part of the Workers AI binding the adapter uses
+export interface WorkersAIBinding {
+  run(model: string, inputs: Record<string, unknown>): Promise<unknown>
+}
+
+interface WorkersAIConfig {
+  binding: WorkersAIBinding
+  model: string
+}
+
+// Older models return { name, arguments: object }, newer ones the OpenAI shape
+type WorkersAIToolCall =
+  | { name: string; arguments: unknown }
+  | { id: string; function: { name: string; arguments: string } }
+
+interface WorkersAIOutput {
+  response?: string | null
+  tool_calls?: WorkersAIToolCall[]
+  usage?: { prompt_tokens: number; completion_tokens: number }
+}
+
+/**
+ * Chat model backed by a Workers AI text generation model (e.g. @cf/meta/llama-3.3-70b-instruct-fp8-fast)
+ */
+export function createWorkersAIChatModel(config: WorkersAIConfig): ChatModel {
+  async function run(messages: ChatMessage[], options: ChatCompletionOptions, stream: boolean) {
+    try {
+      return await config.binding.run(config.model, {
+        messages: messages.map(toOpenAIMessage),
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        response_format: options.json ? { type: 'json_object' } : undefined,
+        tools: options.tools?.length
+          ? options.tools.map((tool) => ({ type: 'function', function: tool }))
+          : undefined,
+        stream: stream || undefined,
+      })
+    } catch (error) {
+      console.error('Workers AI error:', config.model, error)
+      throw new Error(`Model request failed: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  return {
+    provider: 'workers_ai',
+    model: config.model,
+
+    async complete(
+      messages: ChatMessage[],
+      options: ChatCompletionOptions = {}
+    ): Promise<ChatCompletion> {
+      const output = (await run(messages, options, false)) as WorkersAIOutput
+
+      return {
+        content: output.response ?? '',
+        toolCalls: (output.tool_calls ?? []).map(toToolCall),
+        usage: toUsage(output),
+      }
+    },
+
+    async *stream(messages: ChatMessage[], options: ChatCompletionOptions = {}) {
+      const body = (await run(messages, options, true)) as ReadableStream<Uint8Array>
+
+      let content = ''
+      const toolCalls: ChatToolCall[] = []
+      let usage: WorkersAIOutput = {}
+
+      for await (const data of readServerSentEvents(body)) {
+        if (data === '[DONE]') {
+          break
+        }
+        const chunk: WorkersAIOutput = JSON.parse(data)
+        usage = chunk.usage ? chunk : usage
+        toolCalls.push(
+          ...(chunk.tool_calls ?? []).map((call, i) => toToolCall(call, toolCalls.length + i))
+        )
+        if (chunk.response) {
+          content += chunk.response
+          yield chunk.response
+        }
+      }
+
+      return { content, toolCalls, usage: toUsage(usage) }
+    },
+  }
+}
+
+function toToolCall(call: WorkersAIToolCall, index: number): ChatToolCall {
+  if ('function' in call) {
+    return { id: call.id, name: call.function.name, arguments: call.function.arguments }
+  }
+  return {
+    id: `call_${index}`,
+    name: call.name,
+    arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments),
+  }
+}
+
+function toUsage(output: WorkersAIOutput) {
+  return {
+    promptTokens: output.usage?.prompt_tokens ?? 0,
+    completionTokens: output.usage?.completion_tokens ?? 0,
+  }
+}
@@ -0,0 +1,99 @@
+import type { Context } from 'hono'
+import { and, eq, inArray, isNull, or, sql, type SQL } from 'drizzle-orm'
+import type { Database } from '../db'
+import { can, type ProjectAction } from '../workspaces/permissions'
+import { projects, workspaceMembers, type Project, type WorkspaceRole } from '../../db/schema'
+
+export type ProjectAccess =
+  | { status: 'allowed'; project: Project; role: WorkspaceRole }
+  | { status: 'not_found' }
+  | { status: 'forbidden'; role: WorkspaceRole; action: ProjectAction }
+
+/**
+ * Load a project and check that the user may take an action on it
+ * Workspace projects go by the user's role in the workspace; personal projects are owned by
+ * their user. Users without any role get not_found, so callers can answer 404 without leaking
+ * which ids exist; users whose role is too low get forbidden.
+ */
+export async function authorizeProject(
+  db: Database,
+  projectId: string,
+  userId: string,
+  action: ProjectAction
+): Promise<ProjectAccess> {
+  const row = await db
+    .select({ project: projects, memberRole: workspaceMembers.role })
+    .from(projects)
+    .leftJoin(
+      workspaceMembers,
+      and(
+        eq(workspaceMembers.workspaceId, projects.workspaceId),
+        eq(workspaceMembers.userId, userId)
+      )
+    )
+    .where(eq(projects.id, projectId))
+    .get()
+
+  const role = row?.project.workspaceId
+    ? row.memberRole
+    : row?.project.userId === userId
+      ? 'owner'
+      : null
+
+  if (!row || !role) {
+    return { status: 'not_found' }
+  }
+  if (!can(role, action)) {
+    return { status: 'forbidden', role, action }
+  }
+  return { status: 'allowed', project: row.project, role }
+}
+
+/**
+ * Answer a refused `authorizeProject`: 404 without a role, 403 when the role is too low
+ */
+export function denyProjectAccess(
+  c: Context,
+  access: Exclude<ProjectAccess, { status: 'allowed' }>
+): Response {
+  return access.status === 'not_found'
+    ? c.json({ error: 'Project not found' }, 404)
+    : c.json({ error: `The ${access.role} role does not allow ${access.action}` }, 403)
+}
+
+/**
+ * WHERE clause for the projects a user can see: their personal projects and the projects of
+ * their workspaces
+ */
+export function visibleProjectsCondition(db: Database, userId: string): SQL {
+  const memberships = db
+    .select({ workspaceId: workspaceMembers.workspaceId })
+    .from(workspaceMembers)
+    .where(eq(workspaceMembers.userId, userId))
+
+  return or(
+    and(isNull(projects.workspaceId), eq(projects.userId, userId)),
+    inArray(projects.workspaceId, memberships)
+  )!
+}
+
+/**
+ * Find active projects linked to a GitHub repository through an installation
+ * Only projects using the installation count: anyone can create a project named after a
+ * repository. GitHub owner and repository names are case-insensitive.
+ */
+export async function findProjectsForRepository(
+  db: Database,
+  installationId: number,
+  githubOwner: string,
+  githubRepo: string
+): Promise<Project[]> {
+  return db.query.projects.findMany({
+    where: and(
+      eq(projects.installationId, installationId),
+      sql`lower(${projects.githubOwner}) = ${githubOwner.toLowerCase()}`,
+      sql`lower(${projects.githubRepo}) = ${githubRepo.toLowerCase()}`,
+      isNull(projects.archivedAt)
+    ),
+  })
+}
@@ -0,0 +1,282 @@
+import {
+  BOARD_COLUMNS,
+  LLM_PROVIDERS,
+  type BoardColumnLabels,
+  type LLMProvider,
+} from '../../db/schema'
+
+const OWNER_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/
+const REPO_PATTERN = /^[A-Za-z0-9._-]{1,100}$/
+const BRANCH_PATTERN = /^[^\s~^:?*[\\]{1,255}$/
+const MAX_NAME_LENGTH = 100
+const MODEL_PATTERN = /^[A-Za-z0-9@][\w@./:-]{0,199}$/
+const MAX_TEMPERATURE = 2
+const MAX_TOKENS_LIMIT = 128_000
+const MAX_SYSTEM_PROMPT_LENGTH = 4000
+const REVIEW_TRIGGER_PATTERN = /^[^\s]{2,50}$/
+const MAX_REVIEW_ITERATIONS = 20
+// GitHub rejects longer label names
+const MAX_LABEL_LENGTH = 50
+
+export interface CreateProjectInput {
+  name: string
+  githubOwner: string
+  githubRepo: string
+  defaultBranch: string
+  installationId: number | null
+  // Workspace to create the project in; null for a personal project
+  workspaceId: string | null
+}
+
+// Per-project model settings; null resets a setting to the deployment default
+export interface ModelSettingsInput {
+  llmProvider: LLMProvider | null
+  llmModel: string | null
+  llmTemperature: number | null
+  llmMaxTokens: number | null
+  llmSystemPrompt: string | null
+}
+
+// Monthly budgets; null removes the project's own limit
+export interface ProjectBudgetInput {
+  monthlyTokenLimit: number | null
+  monthlyJobLimit: number | null
+}
+
+// Follow-ups from pull request reviews
+export interface ReviewSettingsInput {
+  reviewTrigger: string
+  maxReviewIterations: number
+}
+
+// Project board: the GitHub label of each column
+export interface BoardSettingsInput {
+  boardColumns: BoardColumnLabels
+}
+
+export type UpdateProjectInput = Partial<
+  Pick<CreateProjectInput, 'name' | 'defaultBranch' | 'installationId'> &
+    ModelSettingsInput &
+    ProjectBudgetInput &
+    ReviewSettingsInput &
+    BoardSettingsInput
+>
+
+type ParseResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string }
+
+/**
+ * Validate the body of POST /api/projects
+ */
+export function parseCreateProjectInput(body: unknown): ParseResult<CreateProjectInput> {
+  if (!isRecord(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const { githubOwner, githubRepo, workspaceId } = body
+  if (typeof githubOwner !== 'string' || !OWNER_PATTERN.test(githubOwner)) {
+    return { error: 'githubOwner must be a valid GitHub user or organization name' }
+  }
+  if (typeof githubRepo !== 'string' || !REPO_PATTERN.test(githubRepo)) {
+    return { error: 'githubRepo must be a valid GitHub repository name' }
+  }
+  if (workspaceId !== undefined && workspaceId !== null && typeof workspaceId !== 'string') {
+    return { error: 'workspaceId must be a string or null' }
+  }
+
+  const rest = parseUpdateProjectInput({
+    name: body.name ?? githubRepo,
+    defaultBranch: body.defaultBranch ?? 'main',
+    installationId: body.installationId ?? null,
+  })
+  if (rest.error !== undefined) {
+    return rest
+  }
+
+  return {
+    data: {
+      githubOwner,
+      githubRepo,
+      name: rest.data.name!,
+      defaultBranch: rest.data.defaultBranch!,
+      installationId: rest.data.installationId ?? null,
+      workspaceId: workspaceId ?? null,
+    },
+  }
+}
+
+/**
+ * Validate the body of PATCH /api/projects/:id
+ * Only fields present in the body are returned.
+ */
+export function parseUpdateProjectInput(body: unknown): ParseResult<UpdateProjectInput> {
+  if (!isRecord(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const data: UpdateProjectInput = {}
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > MAX_NAME_LENGTH) {
+      return { error: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` }
+    }
+    data.name = body.name.trim()
+  }
+
+  if (body.defaultBranch !== undefined) {
+    if (typeof body.defaultBranch !== 'string' || !BRANCH_PATTERN.test(body.defaultBranch)) {
+      return { error: 'defaultBranch must be a valid branch name' }
+    }
+    data.defaultBranch = body.defaultBranch
+  }
+
+  if (body.installationId !== undefined) {
+    if (
+      body.installationId !== null &&
+      (typeof body.installationId !== 'number' ||
+        !Number.isSafeInteger(body.installationId) ||
+        body.installationId <= 0)
+    ) {
+      return { error: 'installationId must be a positive integer or null' }
+    }
+    data.installationId = body.installationId
+  }
+
+  if (body.llmProvider !== undefined) {
+    if (body.llmProvider !== null && !LLM_PROVIDERS.includes(body.llmProvider as LLMProvider)) {
+      return { error: `llmProvider must be one of ${LLM_PROVIDERS.join(', ')} or null` }
+    }
+    data.llmProvider = body.llmProvider as LLMProvider | null
+  }
+
+  if (body.llmModel !== undefined) {
+    if (
+      body.llmModel !== null &&
+      (typeof body.llmModel !== 'string' || !MODEL_PATTERN.test(body.llmModel))
+    ) {
+      return { error: 'llmModel must be a model name or null' }
+    }
+    data.llmModel = body.llmModel
+  }
+
+  if (body.llmTemperature !== undefined) {
+    if (
+      body.llmTemperature !== null &&
+      (typeof body.llmTemperature !== 'number' ||
+        !(body.llmTemperature >= 0 && body.llmTemperature <= MAX_TEMPERATURE))
+    ) {
+      return { error: `llmTemperature must be a number between 0 and ${MAX_TEMPERATURE} or null` }
+    }
+    data.llmTemperature = body.llmTemperature
+  }
+
+  if (body.llmMaxTokens !== undefined) {
+    if (
+      body.llmMaxTokens !== null &&
+      (typeof body.llmMaxTokens !== 'number' ||
+        !Number.isSafeInteger(body.llmMaxTokens) ||
+        body.llmMaxTokens <= 0 ||
+        body.llmMaxTokens > MAX_TOKENS_LIMIT)
+    ) {
+      return { error: `llmMaxTokens must be an integer between 1 and ${MAX_TOKENS_LIMIT} or null` }
+    }
+    data.llmMaxTokens = body.llmMaxTokens
+  }
+
+  if (body.llmSystemPrompt !== undefined) {
+    if (
+      body.llmSystemPrompt !== null &&
+      (typeof body.llmSystemPrompt !== 'string' ||
+        body.llmSystemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH)
+    ) {
+      return {
+        error: `llmSystemPrompt must be a string of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters or null`,
+      }
+    }
+    data.llmSystemPrompt = body.llmSystemPrompt?.trim() || null
+  }
+
+  for (const key of ['monthlyTokenLimit', 'monthlyJobLimit'] as const) {
+    const value = body[key]
+    if (value === undefined) {
+      continue
+    }
+    if (
+      value !== null &&
+      (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0)
+    ) {
+      return { error: `${key} must be a non-negative integer or null` }
+    }
+    data[key] = value
+  }
+
+  if (body.reviewTrigger !== undefined) {
+    if (
+      typeof body.reviewTrigger !== 'string' ||
+      !REVIEW_TRIGGER_PATTERN.test(body.reviewTrigger)
+    ) {
+      return { error: 'reviewTrigger must be 2 to 50 characters without spaces' }
+    }
+    data.reviewTrigger = body.reviewTrigger
+  }
+
+  if (body.maxReviewIterations !== undefined) {
+    if (
+      typeof body.maxReviewIterations !== 'number' ||
+      !Number.isSafeInteger(body.maxReviewIterations) ||
+      body.maxReviewIterations < 0 ||
+      body.maxReviewIterations > MAX_REVIEW_ITERATIONS
+    ) {
+      return {
+        error: `maxReviewIterations must be an integer between 0 and ${MAX_REVIEW_ITERATIONS}`,
+      }
+    }
+    data.maxReviewIterations = body.maxReviewIterations
+  }
+
+  if (body.boardColumns !== undefined) {
+    const columns = parseBoardColumns(body.boardColumns)
+    if (columns.error !== undefined) {
+      return columns
+    }
+    data.boardColumns = columns.data
+  }
+
+  return { data }
+}
+
+/**
+ * Every column needs an entry; In Progress needs a label since it starts jobs, and no two
+ * columns may share one (GitHub label names are case-insensitive)
+ */
+function parseBoardColumns(value: unknown): ParseResult<BoardColumnLabels> {
+  if (!isRecord(value)) {
+    return { error: `boardColumns must be an object with ${BOARD_COLUMNS.join(', ')}` }
+  }
+
+  const columns = {} as BoardColumnLabels
+  const seen = new Set<string>()
+  for (const column of BOARD_COLUMNS) {
+    const entry = value[column]
+    const label = typeof entry === 'string' ? entry.trim() : entry
+    if (label === null && column !== 'in_progress') {
+      columns[column] = null
+      continue
+    }
+    if (typeof label !== 'string' || !label || label.length > MAX_LABEL_LENGTH) {
+      const orNull = column === 'in_progress' ? '' : ' or null'
+      return {
+        error: `boardColumns.${column} must be a label of at most ${MAX_LABEL_LENGTH} characters${orNull}`,
+      }
+    }
+    if (seen.has(label.toLowerCase())) {
+      return { error: `boardColumns.${column} uses the label of another column` }
+    }
+    seen.add(label.toLowerCase())
+    columns[column] = label
+  }
+  return { data: columns }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
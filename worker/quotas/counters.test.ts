@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { env } from 'cloudflare:test'
+import { assertTokensAvailable, incrementTokens, readCounters, reserveJob } from './counters'
+import { QuotaExceededError } from './errors'
+import { getDB } from '../db'
+import { createTestProject, createTestUser } from '../test/helpers'
+import type { UsageLimits } from '../types/quotas'
+
+function limits(overrides: Partial<UsageLimits> = {}): UsageLimits {
+  return {
+    user: { tokens: null, jobs: null },
+    project: { tokens: null, jobs: null },
+    softLimitPercent: 80,
+    ...overrides,
+  }
+}
+
+async function subjects() {
+  const user = await createTestUser()
+  const project = await createTestProject(user)
+  return { userId: user.id, projectId: project.id }
+}
+
+describe('Quota counters', () => {
+  it('never reserves past a job limit under concurrent requests', async () => {
+    const db = getDB(env.DB)
+    const owner = await subjects()
+    const jobLimits = limits({ project: { tokens: null, jobs: 3 } })
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 6 }, () => reserveJob(db, jobLimits, owner))
+    )
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(3)
+    const refused = results.filter((result) => result.status === 'rejected')
+    expect(refused).toHaveLength(3)
+    expect((refused[0] as PromiseRejectedResult).reason).toBeInstanceOf(QuotaExceededError)
+
+    const counters = await readCounters(db, owner)
+    expect(counters.find((row) => row.scope === 'project')?.jobs).toBe(3)
+    // Refused reservations released the user counter again
+    expect(counters.find((row) => row.scope === 'user')?.jobs).toBe(3)
+  })
+
+  it('refuses every job when the limit is zero', async () => {
+    const db = getDB(env.DB)
+    await expect(
+      reserveJob(db, limits({ user: { tokens: null, jobs: 0 } }), await subjects())
+    ).rejects.toThrow("Monthly job limit of the project owner's account reached (0 jobs in")
+  })
+
+  it('sends each soft-limit warning once', async () => {
+    const db = getDB(env.DB)
+    const owner = await subjects()
+    const jobLimits = limits({ project: { tokens: null, jobs: 5 } })
+
+    const warnings = []
+    for (let i = 0; i < 5; i++) {
+      warnings.push(await reserveJob(db, jobLimits, owner))
+    }
+
+    // 4 of 5 is the 80% threshold
+    expect(warnings.map((claimed) => claimed.length)).toEqual([0, 0, 0, 1, 0])
+    expect(warnings[3]).toEqual([{ scope: 'project', metric: 'jobs', used: 4, limit: 5 }])
+  })
+
+  it('stops model calls and jobs once a token budget is used up', async () => {
+    const db = getDB(env.DB)
+    const owner = await subjects()
+    const tokenLimits = limits({ user: { tokens: 1000, jobs: null } })
+
+    const [first, ...rest] = incrementTokens(db, owner, 999)
+    await db.batch([first, ...rest])
+    await assertTokensAvailable(db, tokenLimits, owner)
+
+    const [again, ...more] = incrementTokens(db, owner, 1)
+    await db.batch([again, ...more])
+    await expect(assertTokensAvailable(db, tokenLimits, owner)).rejects.toThrow(
+      "Monthly token limit of the project owner's account reached (1,000 tokens in"
+    )
+    await expect(reserveJob(db, tokenLimits, owner)).rejects.toBeInstanceOf(QuotaExceededError)
+  })
+})
@@ -0,0 +1,198 @@
+import { and, eq, isNull, or, sql } from 'drizzle-orm'
+import type { BatchItem } from 'drizzle-orm/batch'
+import type { Database } from '../db'
+import type { QuotaMetric, QuotaSubjects, QuotaWarning, UsageLimits } from '../types/quotas'
+import { QuotaExceededError } from './errors'
+import { quotaPeriod } from './limits'
+import { usageCounters, type QuotaScope, type UsageCounter } from '../../db/schema'
+
+interface CounterKey {
+  scope: QuotaScope
+  scopeId: string
+}
+
+/**
+ * Upserts adding a model call's tokens to the user and project counters, for a batch
+ */
+export function incrementTokens(
+  db: Database,
+  subjects: QuotaSubjects,
+  tokens: number,
+  period: string = quotaPeriod()
+): BatchItem<'sqlite'>[] {
+  return counterKeys(subjects).map(({ scope, scopeId }) =>
+    db
+      .insert(usageCounters)
+      .values({ scope, scopeId, period, tokens })
+      .onConflictDoUpdate({
+        target: [usageCounters.scope, usageCounters.scopeId, usageCounters.period],
+        set: {
+          tokens: sql`${usageCounters.tokens} + ${tokens}`,
+          updatedAt: new Date().toISOString(),
+        },
+      })
+  )
+}
+
+/**
+ * Count a job against this month's job limits
+ *
+ * Each counter is incremented by a single conditional upsert, so concurrent reservations can
+ * never push it past its limit. If the project counter refuses after the user counter accepted,
+ * the user reservation is released again. Token budgets must not be exhausted either.
+ * Throws QuotaExceededError; otherwise returns the soft-limit warnings this reservation crossed.
+ */
+export async function reserveJob(
+  db: Database,
+  limits: UsageLimits,
+  subjects: QuotaSubjects
+): Promise<QuotaWarning[]> {
+  const period = quotaPeriod()
+  await assertTokensAvailable(db, limits, subjects, period)
+
+  const reserved: CounterKey[] = []
+  for (const key of counterKeys(subjects)) {
+    const limit = limits[key.scope].jobs
+    const accepted = limit !== 0 && (await incrementJobsBelow(db, key, period, limit))
+
+    if (!accepted) {
+      for (const done of reserved) {
+        await releaseJob(db, done, period)
+      }
+      throw new QuotaExceededError(key.scope, 'jobs', limit!, period)
+    }
+    reserved.push(key)
+  }
+
+  return claimWarnings(db, limits, subjects, period)
+}
+
+/**
+ * Throw QuotaExceededError when a token budget of the user or project is used up
+ * Checked before each model call; the call itself may still go over by its own size.
+ */
+export async function assertTokensAvailable(
+  db: Database,
+  limits: UsageLimits,
+  subjects: QuotaSubjects,
+  period: string = quotaPeriod()
+) {
+  const counters = await readCounters(db, subjects, period)
+
+  for (const { scope, scopeId } of counterKeys(subjects)) {
+    const limit = limits[scope].tokens
+    const used = counters.find((row) => row.scope === scope && row.scopeId === scopeId)?.tokens ?? 0
+    if (limit !== null && used >= limit) {
+      throw new QuotaExceededError(scope, 'tokens', limit, period)
+    }
+  }
+}
+
+/**
+ * The user and project counters of a period (missing rows mean no usage yet)
+ */
+export async function readCounters(
+  db: Database,
+  subjects: QuotaSubjects,
+  period: string = quotaPeriod()
+): Promise<UsageCounter[]> {
+  return db
+    .select()
+    .from(usageCounters)
+    .where(
+      and(
+        eq(usageCounters.period, period),
+        or(
+          ...counterKeys(subjects).map(({ scope, scopeId }) =>
+            and(eq(usageCounters.scope, scope), eq(usageCounters.scopeId, scopeId))
+          )
+        )
+      )
+    )
+}
+
+/**
+ * Record that the soft limits now reached have been warned about
+ * Returns only the warnings claimed by this call, so each is sent once per period even when
+ * several jobs cross the threshold at the same time.
+ */
+export async function claimWarnings(
+  db: Database,
+  limits: UsageLimits,
+  subjects: QuotaSubjects,
+  period: string = quotaPeriod()
+): Promise<QuotaWarning[]> {
+  const warnings: QuotaWarning[] = []
+  const now = new Date().toISOString()
+
+  for (const { scope, scopeId } of counterKeys(subjects)) {
+    for (const metric of ['tokens', 'jobs'] as QuotaMetric[]) {
+      const limit = limits[scope][metric]
+      if (limit === null) {
+        continue
+      }
+
+      const used = metric === 'tokens' ? usageCounters.tokens : usageCounters.jobs
+      const warnedAt =
+        metric === 'tokens' ? usageCounters.tokensWarnedAt : usageCounters.jobsWarnedAt
+      const [claimed] = await db
+        .update(usageCounters)
+        .set(metric === 'tokens' ? { tokensWarnedAt: now } : { jobsWarnedAt: now })
+        .where(
+          and(
+            eq(usageCounters.scope, scope),
+            eq(usageCounters.scopeId, scopeId),
+            eq(usageCounters.period, period),
+            isNull(warnedAt),
+            sql`${used} * 100 >= ${limit * limits.softLimitPercent}`
+          )
+        )
+        .returning()
+
+      if (claimed) {
+        warnings.push({ scope, metric, used: claimed[metric], limit })
+      }
+    }
+  }
+
+  return warnings
+}
+
+async function incrementJobsBelow(
+  db: Database,
+  { scope, scopeId }: CounterKey,
+  period: string,
+  limit: number | null
+): Promise<boolean> {
+  const [row] = await db
+    .insert(usageCounters)
+    .values({ scope, scopeId, period, jobs: 1 })
+    .onConflictDoUpdate({
+      target: [usageCounters.scope, usageCounters.scopeId, usageCounters.period],
+      set: { jobs: sql`${usageCounters.jobs} + 1`, updatedAt: new Date().toISOString() },
+      setWhere: limit === null ? undefined : sql`${usageCounters.jobs} < ${limit}`,
+    })
+    .returning({ jobs: usageCounters.jobs })
+  return row !== undefined
+}
+
+async function releaseJob(db: Database, { scope, scopeId }: CounterKey, period: string) {
+  await db
+    .update(usageCounters)
+    .set({ jobs: sql`max(${usageCounters.jobs} - 1, 0)`, updatedAt: new Date().toISOString() })
+    .where(
+      and(
+        eq(usageCounters.scope, scope),
+        eq(usageCounters.scopeId, scopeId),
+        eq(usageCounters.period, period)
+      )
+    )
+}
+
+// Usage without a user (none today) only counts against the project
+function counterKeys(subjects: QuotaSubjects): CounterKey[] {
+  return [
+    ...(subjects.userId ? [{ scope: 'user' as const, scopeId: subjects.userId }] : []),
+    { scope: 'project' as const, scopeId: subjects.projectId },
+  ]
+}
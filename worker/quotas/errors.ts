@@ -0,0 +1,24 @@
+import type { QuotaScope } from '../../db/schema'
+import type { QuotaMetric } from '../types/quotas'
+
+/**
+ * A monthly token or job limit has been reached
+ * The message is written for the job failure reason and the GitHub comment.
+ */
+export class QuotaExceededError extends Error {
+  readonly scope: QuotaScope
+  readonly metric: QuotaMetric
+  readonly limit: number
+
+  constructor(scope: QuotaScope, metric: QuotaMetric, limit: number, period: string) {
+    const owner = scope === 'project' ? 'this project' : "the project owner's account"
+    const amount = metric === 'tokens' ? `${limit.toLocaleString('en-US')} tokens` : `${limit} jobs`
+    super(
+      `Monthly ${metric === 'tokens' ? 'token' : 'job'} limit of ${owner} reached (${amount} in ${period})`
+    )
+    this.name = 'QuotaExceededError'
+    this.scope = scope
+    this.metric = metric
+    this.limit = limit
+  }
+}
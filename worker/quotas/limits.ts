@@ -0,0 +1,74 @@
+import type { Project } from '../../db/schema'
+import type { UsageLimits } from '../types/quotas'
+
+const DEFAULT_SOFT_LIMIT_PERCENT = 80
+
+type QuotaEnv = Pick<
+  Env,
+  | 'QUOTA_USER_MONTHLY_TOKENS'
+  | 'QUOTA_USER_MONTHLY_JOBS'
+  | 'QUOTA_PROJECT_MONTHLY_TOKENS'
+  | 'QUOTA_PROJECT_MONTHLY_JOBS'
+  | 'QUOTA_SOFT_LIMIT_PERCENT'
+>
+
+/**
+ * Limits that apply to a project and its owner this month
+ * Deployment-wide limits come from the QUOTA_* variables (empty for unlimited); a project's own
+ * budget can only lower them.
+ */
+export function readUsageLimits(
+  env: QuotaEnv,
+  project: Pick<Project, 'monthlyTokenLimit' | 'monthlyJobLimit'>
+): UsageLimits {
+  return {
+    user: {
+      tokens: parseLimit('QUOTA_USER_MONTHLY_TOKENS', env.QUOTA_USER_MONTHLY_TOKENS),
+      jobs: parseLimit('QUOTA_USER_MONTHLY_JOBS', env.QUOTA_USER_MONTHLY_JOBS),
+    },
+    project: {
+      tokens: lowest(
+        parseLimit('QUOTA_PROJECT_MONTHLY_TOKENS', env.QUOTA_PROJECT_MONTHLY_TOKENS),
+        project.monthlyTokenLimit
+      ),
+      jobs: lowest(
+        parseLimit('QUOTA_PROJECT_MONTHLY_JOBS', env.QUOTA_PROJECT_MONTHLY_JOBS),
+        project.monthlyJobLimit
+      ),
+    },
+    softLimitPercent:
+      parseLimit('QUOTA_SOFT_LIMIT_PERCENT', env.QUOTA_SOFT_LIMIT_PERCENT) ??
+      DEFAULT_SOFT_LIMIT_PERCENT,
+  }
+}
+
+/**
+ * The quota period a moment falls in: its UTC month (YYYY-MM)
+ */
+export function quotaPeriod(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7)
+}
+
+/**
+ * Whether usage has reached the warning threshold of a limit
+ */
+export function isPastSoftLimit(used: number, limit: number | null, softLimitPercent: number) {
+  return limit !== null && used * 100 >= limit * softLimitPercent
+}
+
+function parseLimit(name: string, value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') {
+    return null
+  }
+
+  const limit = Number(value)
+  if (!Number.isSafeInteger(limit) || limit < 0) {
+    throw new Error(`${name} must be a non-negative integer or empty`)
+  }
+  return limit
+}
+
+function lowest(...limits: Array<number | null>): number | null {
+  const set = limits.filter((limit): limit is number => limit !== null)
+  return set.length > 0 ? Math.min(...set) : null
+}
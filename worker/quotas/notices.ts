@@ -0,0 +1,56 @@
+import { createInstallationClient } from '../github/app'
+import { createRepositoryGateway } from '../github/repository'
+import type { QuotaWarning } from '../types/quotas'
+import type { Project } from '../../db/schema'
+
+/**
+ * Issue comment explaining that a quota stopped a job
+ */
+export function quotaExceededComment(reason: string, started: boolean): string {
+  return [
+    started
+      ? `Codiro stopped working on this issue: ${reason}.`
+      : `Codiro did not start working on this issue: ${reason}.`,
+    '',
+    'Usage resets at the start of next month (UTC). Move the issue to In Progress again after that, or ask the project owner to raise the limit.',
+  ].join('\n')
+}
+
+/**
+ * Issue comment warning that a quota is nearly used up
+ */
+export function quotaWarningComment(warnings: QuotaWarning[]): string {
+  const lines = warnings.map(({ scope, metric, used, limit }) => {
+    const owner = scope === 'project' ? 'This project' : "The project owner's account"
+    const unit = metric === 'tokens' ? 'tokens' : 'jobs'
+    const percent = Math.floor((used * 100) / limit)
+    return `- ${owner} has used ${percent}% of its monthly ${metric === 'tokens' ? 'token' : 'job'} limit (${used.toLocaleString('en-US')} of ${limit.toLocaleString('en-US')} ${unit}).`
+  })
+  return ['Codiro usage is approaching its monthly limit:', '', ...lines].join('\n')
+}
+
+/**
+ * Post a comment on an issue through the project's installation
+ * Best effort: a failure is logged, since the comment only informs about something already done.
+ */
+export async function commentOnIssue(
+  env: Env,
+  project: Project,
+  issueNumber: number,
+  body: string
+) {
+  if (!project.installationId) {
+    return
+  }
+
+  try {
+    const client = await createInstallationClient(env, project.installationId)
+    await createRepositoryGateway({
+      client,
+      owner: project.githubOwner,
+      repo: project.githubRepo,
+    }).createIssueComment(issueNumber, body)
+  } catch (error) {
+    console.error('Failed to comment on issue:', project.id, issueNumber, error)
+  }
+}
@@ -0,0 +1,178 @@
+import { and, asc, eq, gte, lt, or, sql } from 'drizzle-orm'
+import type { Database } from '../db'
+import type { QuotaMetric, QuotaStatus, UsageLimits } from '../types/quotas'
+import { isPastSoftLimit, readUsageLimits } from './limits'
+import {
+  jobs,
+  llmUsage,
+  projects,
+  usageCounters,
+  type QuotaScope,
+  type UsageCounter,
+} from '../../db/schema'
+
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+export interface UsageReport {
+  period: string
+  user: Record<QuotaMetric, QuotaStatus>
+  projects: Array<{ projectId: string; name: string } & Record<QuotaMetric, QuotaStatus>>
+  days: Array<{
+    date: string
+    projectId: string
+    promptTokens: number
+    completionTokens: number
+    jobs: number
+  }>
+  warnings: Array<{
+    scope: QuotaScope
+    projectId: string | null
+    metric: QuotaMetric
+    used: number
+    limit: number
+  }>
+}
+
+/**
+ * Whether a string is a quota period (YYYY-MM)
+ */
+export function isQuotaPeriod(value: string): boolean {
+  return PERIOD_PATTERN.test(value)
+}
+
+/**
+ * A user's usage for one month: quota status of the user and each of their projects, and
+ * tokens and jobs per day and project
+ * Quota status comes from the counters the limits are enforced on; the daily breakdown comes
+ * from llm_usage and jobs, so it also lists jobs a quota refused.
+ */
+export async function buildUsageReport(
+  db: Database,
+  env: Env,
+  userId: string,
+  period: string
+): Promise<UsageReport> {
+  const [start, end] = periodRange(period)
+
+  const owned = await db.query.projects.findMany({
+    where: eq(projects.userId, userId),
+    orderBy: [asc(projects.name)],
+  })
+
+  const counters = await db
+    .select({ counter: usageCounters })
+    .from(usageCounters)
+    .leftJoin(projects, eq(projects.id, usageCounters.scopeId))
+    .where(
+      and(
+        eq(usageCounters.period, period),
+        or(
+          and(eq(usageCounters.scope, 'user'), eq(usageCounters.scopeId, userId)),
+          and(eq(usageCounters.scope, 'project'), eq(projects.userId, userId))
+        )
+      )
+    )
+  const counterFor = (scope: QuotaScope, scopeId: string) =>
+    counters.find(({ counter }) => counter.scope === scope && counter.scopeId === scopeId)?.counter
+
+  const tokensByDay = await db
+    .select({
+      date: sql<string>`substr(${llmUsage.createdAt}, 1, 10)`,
+      projectId: llmUsage.projectId,
+      promptTokens: sql<number>`sum(${llmUsage.promptTokens})`,
+      completionTokens: sql<number>`sum(${llmUsage.completionTokens})`,
+    })
+    .from(llmUsage)
+    .innerJoin(projects, eq(projects.id, llmUsage.projectId))
+    .where(
+      and(eq(projects.userId, userId), gte(llmUsage.createdAt, start), lt(llmUsage.createdAt, end))
+    )
+    .groupBy(sql`1`, llmUsage.projectId)
+
+  const jobsByDay = await db
+    .select({
+      date: sql<string>`substr(${jobs.createdAt}, 1, 10)`,
+      projectId: jobs.projectId,
+      jobs: sql<number>`count(*)`,
+    })
+    .from(jobs)
+    .innerJoin(projects, eq(projects.id, jobs.projectId))
+    .where(and(eq(projects.userId, userId), gte(jobs.createdAt, start), lt(jobs.createdAt, end)))
+    .groupBy(sql`1`, jobs.projectId)
+
+  const days = new Map<string, UsageReport['days'][number]>()
+  const day = (date: string, projectId: string) => {
+    const key = `${date}/${projectId}`
+    if (!days.has(key)) {
+      days.set(key, { date, projectId, promptTokens: 0, completionTokens: 0, jobs: 0 })
+    }
+    return days.get(key)!
+  }
+  tokensByDay.forEach((row) =>
+    Object.assign(day(row.date, row.projectId), {
+      promptTokens: row.promptTokens,
+      completionTokens: row.completionTokens,
+    })
+  )
+  jobsByDay.forEach((row) => (day(row.date, row.projectId).jobs = row.jobs))
+
+  // User limits do not depend on the project
+  const userLimits = readUsageLimits(env, { monthlyTokenLimit: null, monthlyJobLimit: null })
+  const report: UsageReport = {
+    period,
+    user: quotaStatuses(counterFor('user', userId), userLimits, 'user'),
+    projects: owned.map((project) => ({
+      projectId: project.id,
+      name: project.name,
+      ...quotaStatuses(counterFor('project', project.id), readUsageLimits(env, project), 'project'),
+    })),
+    days: [...days.values()].sort(
+      (a, b) => a.date.localeCompare(b.date) || a.projectId.localeCompare(b.projectId)
+    ),
+    warnings: [],
+  }
+
+  const subjects = [
+    { scope: 'user' as const, projectId: null, status: report.user },
+    ...report.projects.map((project) => ({
+      scope: 'project' as const,
+      projectId: project.projectId,
+      status: project,
+    })),
+  ]
+  for (const { scope, projectId, status } of subjects) {
+    for (const metric of ['tokens', 'jobs'] as QuotaMetric[]) {
+      const { used, limit, warning } = status[metric]
+      if (warning && limit !== null) {
+        report.warnings.push({ scope, projectId, metric, used, limit })
+      }
+    }
+  }
+
+  return report
+}
+
+function quotaStatuses(
+  counter: UsageCounter | undefined,
+  limits: UsageLimits,
+  scope: QuotaScope
+): Record<QuotaMetric, QuotaStatus> {
+  const status = (metric: QuotaMetric): QuotaStatus => {
+    const used = counter?.[metric] ?? 0
+    const limit = limits[scope][metric]
+    return {
+      used,
+      limit,
+      warning: isPastSoftLimit(used, limit, limits.softLimitPercent),
+      exceeded: limit !== null && used >= limit,
+    }
+  }
+  return { tokens: status('tokens'), jobs: status('jobs') }
+}
+
+// Timestamps are compared as text, which works for both ISO and datetime('now') formats
+function periodRange(period: string): [string, string] {
+  const [year, month] = period.split('-').map(Number)
+  const next = month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`
+  return [`${period}-01`, `${next}-01`]
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi } from 'vitest'
+import { SELF, env } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import {
+  authCookie,
+  createTestProject,
+  createTestSession,
+  createTestUser,
+  startSignIn,
+} from '../test/helpers'
+import { getDB } from '../db'
+import {
+  auditEvents,
+  sessions,
+  type AuditEvent,
+  type NewAuditEvent,
+  type User,
+} from '../../db/schema'
+
+interface AuditPage {
+  events: AuditEvent[]
+  nextCursor: string | null
+}
+
+async function listAudit(user: User, query = '') {
+  const response = await SELF.fetch(`http://localhost/api/audit${query}`, {
+    headers: { Cookie: await authCookie(user) },
+  })
+  return { status: response.status, body: await response.json<AuditPage>() }
+}
+
+// Events written in the background show up once the request's waitUntil work is done
+function waitForEvents(where: (event: AuditEvent) => boolean, count = 1) {
+  return vi.waitFor(async () => {
+    const rows = (await getDB(env.DB).select().from(auditEvents)).filter(where)
+    expect(rows).toHaveLength(count)
+    return rows
+  })
+}
+
+async function insertEvents(events: Array<Partial<NewAuditEvent>>) {
+  await getDB(env.DB)
+    .insert(auditEvents)
+    .values(
+      events.map((event, index) => ({
+        id: crypto.randomUUID(),
+        actorType: 'user' as const,
+        action: 'project.updated' as const,
+        createdAt: new Date(Date.UTC(2025, 0, 1, 0, index)).toISOString(),
+        ...event,
+      }))
+    )
+}
+
+describe('Audit log', () => {
+  it('records failed sign-ins with the reason', async () => {
+    await SELF.fetch('http://localhost/api/auth/github/callback', {
+      headers: { 'CF-Connecting-IP': '198.51.100.9', 'User-Agent': 'curl' },
+      redirect: 'manual',
+    })
+    const { state } = await startSignIn('github')
+    // The state does not match the browser's flow cookie
+    const response = await SELF.fetch(
+      `http://localhost/api/auth/github/callback?code=abc&state=${state}`,
+      { redirect: 'manual' }
+    )
+    expect(response.headers.get('Location')).toBe('/?error=invalid_state')
+
+    const events = await waitForEvents((event) => event.action === 'auth.login.failed', 2)
+    expect(events).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          actorId: null,
+          ipAddress: '198.51.100.9',
+          userAgent: 'curl',
+          metadata: { provider: 'github', reason: 'missing_params' },
+        }),
+        expect.objectContaining({ metadata: { provider: 'github', reason: 'invalid_state' } }),
+      ])
+    )
+  })
+
+  it('records token refreshes and failed refreshes of the user', async () => {
+    const user = await createTestUser()
+    const { session, cookie } = await createTestSession(user)
+    const expired = await createTestSession(user)
+    await getDB(env.DB)
+      .update(sessions)
+      .set({ expiresAt: new Date(Date.now() - 1000).toISOString() })
+      .where(eq(sessions.id, expired.session.id))
+    const refresh = (cookie: string) =>
+      SELF.fetch('http://localhost/api/auth/refresh', {
+        method: 'POST',
+        headers: { Cookie: cookie },
+      })
+
+    expect((await refresh(cookie)).status).toBe(200)
+    await waitForEvents((event) => event.actorId === user.id)
+    expect((await refresh(expired.cookie)).status).toBe(401)
+
+    await waitForEvents((event) => event.actorId === user.id, 2)
+    const { body } = await listAudit(user)
+    expect(body.events).toMatchObject([
+      { action: 'auth.token.refresh_failed', metadata: { reason: 'session_expired' } },
+      { action: 'auth.token.refreshed', targetType: 'session', targetId: session.familyId },
+    ])
+  })
+
+  it('shows project changes to the project owner only', async () => {
+    const owner = await createTestUser()
+    const other = await createTestUser()
+    const cookie = await authCookie(owner)
+    const created = await SELF.fetch('http://localhost/api/projects', {
+      method: 'POST',
+      headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Audited', githubOwner: 'octocat', githubRepo: 'audited' }),
+    })
+    const { project } = await created.json<{ project: { id: string } }>()
+    await SELF.fetch(`http://localhost/api/projects/${project.id}`, {
+      method: 'PATCH',
+      headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Renamed' }),
+    })
+    await SELF.fetch(`http://localhost/api/projects/${project.id}/archive`, {
+      method: 'POST',
+      headers: { Cookie: cookie },
+    })
+
+    await waitForEvents((event) => event.projectId === project.id, 3)
+    const { body } = await listAudit(owner, `?project=${project.id}`)
+    expect(body.events.map((event) => event.action)).toEqual([
+      'project.archived',
+      'project.updated',
+      'project.created',
+    ])
+    expect(body.events[1]).toMatchObject({ actorId: owner.id, metadata: { fields: ['name'] } })
+
+    expect((await listAudit(other)).body.events).toEqual([])
+    expect((await listAudit(other, `?project=${project.id}`)).status).toBe(404)
+  })
+
+  it("hides the IP address and user agent of other users' events", async () => {
+    const user = await createTestUser()
+    const teammate = await createTestUser()
+    const project = await createTestProject(user)
+    const client = { ipAddress: '203.0.113.7', userAgent: 'Firefox' }
+    await insertEvents([
+      { actorId: teammate.id, projectId: project.id, action: 'issue.moved', ...client },
+      { actorId: user.id, projectId: project.id, ...client },
+    ])
+
+    const { body } = await listAudit(user)
+    expect(body.events).toMatchObject([
+      { actorId: user.id, ...client },
+      { actorId: teammate.id, ipAddress: null, userAgent: null },
+    ])
+  })
+
+  it('filters by actor, action and time range', async () => {
+    const user = await createTestUser()
+    const teammate = await createTestUser()
+    const project = await createTestProject(user)
+    await insertEvents([
+      { actorId: user.id, action: 'auth.logout' },
+      { actorType: 'system', projectId: project.id, action: 'job.started' },
+      { actorType: 'system', projectId: project.id, action: 'job.failed' },
+      { actorId: teammate.id, projectId: project.id, action: 'issue.moved' },
+    ])
+
+    const actions = async (query: string) =>
+      (await listAudit(user, query)).body.events.map((event) => event.action)
+
+    expect(await actions('?action=job.*')).toEqual(['job.failed', 'job.started'])
+    expect(await actions('?action=auth.logout')).toEqual(['auth.logout'])
+    expect(await actions(`?user=${teammate.id}`)).toEqual(['issue.moved'])
+    expect(await actions('?from=2025-01-01T00:01:00Z&to=2025-01-01T00:03:00Z')).toEqual([
+      'job.failed',
+      'job.started',
+    ])
+  })
+
+  it('pages with a cursor and exports NDJSON', async () => {
+    const user = await createTestUser()
+    await insertEvents(Array.from({ length: 5 }, () => ({ actorId: user.id })))
+
+    const first = await listAudit(user, '?limit=2')
+    const second = await listAudit(user, `?limit=2&cursor=${first.body.nextCursor}`)
+    const third = await listAudit(user, `?limit=2&cursor=${second.body.nextCursor}`)
+    const paged = [...first.body.events, ...second.body.events, ...third.body.events]
+    expect(third.body.nextCursor).toBeNull()
+    expect(paged.map((event) => event.createdAt)).toEqual(
+      [4, 3, 2, 1, 0].map((minute) => new Date(Date.UTC(2025, 0, 1, 0, minute)).toISOString())
+    )
+
+    const response = await SELF.fetch('http://localhost/api/audit/export?action=project.*', {
+      headers: { Cookie: await authCookie(user) },
+    })
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson')
+    const lines = (await response.text()).trim().split('\n')
+    expect(lines.map((line) => JSON.parse(line))).toEqual(paged)
+  })
+
+  it('validates filters and needs the audit:read scope for tokens', async () => {
+    const user = await createTestUser()
+
+    expect((await listAudit(user, '?from=yesterday')).status).toBe(400)
+    expect((await listAudit(user, '?action=DROP TABLE')).status).toBe(400)
+    expect((await listAudit(user, '?cursor=nope')).status).toBe(400)
+    expect((await listAudit(user, '?limit=201')).status).toBe(400)
+
+    const created = await SELF.fetch('http://localhost/api/auth/tokens', {
+      method: 'POST',
+      headers: { Cookie: await authCookie(user), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'CI', scopes: ['projects:read'] }),
+    })
+    const { token } = await created.json<{ token: string }>()
+    const response = await SELF.fetch('http://localhost/api/audit', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    expect(response.status).toBe(403)
+  })
+
+  it('refuses to change or delete recorded events', async () => {
+    const user = await createTestUser()
+    await insertEvents([{ actorId: user.id }])
+    const db = getDB(env.DB)
+
+    await expect(
+      db.update(auditEvents).set({ action: 'auth.logout' }).where(eq(auditEvents.actorId, user.id))
+    ).rejects.toThrow()
+    await expect(db.delete(auditEvents).where(eq(auditEvents.actorId, user.id))).rejects.toThrow()
+  })
+})
@@ -0,0 +1,96 @@
+import { Hono } from 'hono'
+import { stream } from 'hono/streaming'
+import { listAuditEvents } from '../audit/events'
+import { encodeAuditCursor, MAX_LIMIT, parseAuditQuery } from '../audit/filters'
+import { authMiddleware, requireScope } from '../auth/middleware'
+import { authorizeProject, denyProjectAccess } from '../projects/access'
+import type { User } from '../types/auth'
+import { getDB } from '../db'
+
+// Upper bound on the events of one export; narrow the time range to export more
+const MAX_EXPORT_EVENTS = 10_000
+
+const audit = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+audit.use('*', authMiddleware)
+
+/**
+ * GET /api/audit
+ * Audit events the current user may see, newest first: their own and those of the projects they
+ * can see
+ * Filters: ?user=, ?project=, ?action= (exact, or a prefix like "job.*"), ?from=, ?to=;
+ * pages with ?limit= and the `nextCursor` of the previous page (?cursor=)
+ */
+audit.get('/', requireScope('audit:read'), async (c) => {
+  const input = parseAuditQuery(c.req.query())
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+  const userId = c.get('user').id
+
+  if (input.data.projectId) {
+    const access = await authorizeProject(db, input.data.projectId, userId, 'project.view')
+    if (access.status !== 'allowed') {
+      return denyProjectAccess(c, access)
+    }
+  }
+
+  const rows = await listAuditEvents(db, userId, input.data)
+  const events = rows.slice(0, input.data.limit)
+
+  return c.json({
+    events,
+    nextCursor: rows.length > input.data.limit ? encodeAuditCursor(events.at(-1)!) : null,
+  })
+})
+
+/**
+ * GET /api/audit/export
+ * The same events as newline-delimited JSON, one event per line, with the same filters
+ * (?cursor= and ?limit= excluded); at most 10,000 events per export
+ */
+audit.get('/export', requireScope('audit:read'), async (c) => {
+  const { user, project, action, from, to } = c.req.query()
+  const input = parseAuditQuery({ user, project, action, from, to })
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+  const userId = c.get('user').id
+
+  if (input.data.projectId) {
+    const access = await authorizeProject(db, input.data.projectId, userId, 'project.view')
+    if (access.status !== 'allowed') {
+      return denyProjectAccess(c, access)
+    }
+  }
+
+  c.header('Content-Type', 'application/x-ndjson')
+  c.header('Content-Disposition', 'attachment; filename="audit-events.ndjson"')
+
+  return stream(c, async (output) => {
+    let query = { ...input.data, limit: MAX_LIMIT }
+    let exported = 0
+
+    while (exported < MAX_EXPORT_EVENTS) {
+      const rows = await listAuditEvents(db, userId, query)
+      const events = rows.slice(0, Math.min(query.limit, MAX_EXPORT_EVENTS - exported))
+      if (events.length > 0) {
+        await output.write(events.map((event) => JSON.stringify(event) + '\n').join(''))
+      }
+      exported += events.length
+
+      if (rows.length <= query.limit) {
+        break
+      }
+      query = { ...query, cursor: events.at(-1)! }
+    }
+  })
+})
+
+export default audit
@@ -0,0 +1,379 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest'
+import { SELF, env, fetchMock } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import {
+  authCookie,
+  cookiesFrom,
+  createTestSession,
+  createTestUser,
+  startSignIn,
+} from '../test/helpers'
+import { getDB } from '../db'
+import { getGitHubUserToken } from '../github/user-tokens'
+import { auditEvents, githubUserTokens, identities, sessions, users } from '../../db/schema'
+
+function refresh(cookie: string) {
+  return SELF.fetch('http://localhost/api/auth/refresh', {
+    method: 'POST',
+    headers: { Cookie: cookie },
+  })
+}
+
+describe('Refresh token rotation', () => {
+  it('issues a new refresh token and consumes the old one', async () => {
+    const user = await createTestUser()
+    const { session, cookie } = await createTestSession(user)
+
+    const response = await refresh(cookie)
+    expect(response.status).toBe(200)
+
+    const next = cookiesFrom(response)
+    expect(next).toContain('access_token=')
+    expect(next).toContain('refresh_token=')
+    expect(next).not.toContain(cookie)
+
+    const db = getDB(env.DB)
+    const family = await db.query.sessions.findMany({
+      where: eq(sessions.familyId, session.familyId),
+    })
+    expect(family).toHaveLength(2)
+    expect(family.find((row) => row.id === session.id)?.consumedAt).toEqual(expect.any(String))
+
+    // The new refresh token works in turn
+    const again = await refresh(next)
+    expect(again.status).toBe(200)
+  })
+
+  it('keeps the expiry of the sign-in and deletes tokens consumed before the grace period', async () => {
+    const user = await createTestUser()
+    const { session, cookie } = await createTestSession(user)
+    const next = cookiesFrom(await refresh(cookie))
+
+    const db = getDB(env.DB)
+    await db
+      .update(sessions)
+      .set({ consumedAt: new Date(Date.now() - 5 * 60 * 1000).toISOString() })
+      .where(eq(sessions.id, session.id))
+    expect((await refresh(next)).status).toBe(200)
+
+    const family = await db.query.sessions.findMany({
+      where: eq(sessions.familyId, session.familyId),
+    })
+    expect(family.map((row) => row.id)).not.toContain(session.id)
+    expect(family).toHaveLength(2)
+    for (const row of family) {
+      expect(row).toMatchObject({ expiresAt: session.expiresAt, createdAt: session.createdAt })
+    }
+
+    // A deleted token still names its family: presenting it is reuse
+    const replay = await refresh(cookie)
+    expect(replay.status).toBe(401)
+    expect(await replay.json()).toEqual({ error: 'Refresh token reuse detected' })
+    expect(
+      await db.query.sessions.findMany({ where: eq(sessions.familyId, session.familyId) })
+    ).toEqual([])
+  })
+
+  it('revokes the whole family when a consumed token is replayed', async () => {
+    const user = await createTestUser()
+    const { session, cookie } = await createTestSession(user)
+    const other = await createTestSession(user)
+
+    const rotated = await refresh(cookie)
+    const next = cookiesFrom(rotated)
+
+    // Move the consumption outside the grace period
+    const db = getDB(env.DB)
+    await db
+      .update(sessions)
+      .set({ consumedAt: new Date(Date.now() - 5 * 60 * 1000).toISOString() })
+      .where(eq(sessions.id, session.id))
+
+    const replay = await refresh(cookie)
+    expect(replay.status).toBe(401)
+    expect(await replay.json()).toEqual({ error: 'Refresh token reuse detected' })
+
+    // The legitimate successor is revoked too...
+    expect((await refresh(next)).status).toBe(401)
+    expect(
+      await db.query.sessions.findMany({ where: eq(sessions.familyId, session.familyId) })
+    ).toEqual([])
+
+    // ...but other sign-ins of the same user are untouched
+    expect((await refresh(other.cookie)).status).toBe(200)
+  })
+
+  it('lets exactly one of two concurrent refreshes rotate the token', async () => {
+    const user = await createTestUser()
+    const { session, cookie } = await createTestSession(user)
+
+    const responses = await Promise.all([refresh(cookie), refresh(cookie)])
+    const statuses = responses.map((response) => response.status).sort()
+    expect(statuses).toEqual([200, 409])
+
+    // The race is not treated as theft: the winner's token still works
+    const winner = responses.find((response) => response.status === 200)!
+    expect((await refresh(cookiesFrom(winner))).status).toBe(200)
+
+    const family = await getDB(env.DB).query.sessions.findMany({
+      where: eq(sessions.familyId, session.familyId),
+    })
+    expect(family).toHaveLength(3)
+  })
+
+  it('rejects expired sessions', async () => {
+    const user = await createTestUser()
+    const { session, cookie } = await createTestSession(user)
+    await getDB(env.DB)
+      .update(sessions)
+      .set({ expiresAt: new Date(Date.now() - 1000).toISOString() })
+      .where(eq(sessions.id, session.id))
+
+    const response = await refresh(cookie)
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ error: 'Session expired' })
+  })
+
+  it('logout revokes the whole family', async () => {
+    const user = await createTestUser()
+    const { session, cookie } = await createTestSession(user)
+    const next = cookiesFrom(await refresh(cookie))
+
+    await SELF.fetch('http://localhost/api/auth/logout', {
+      method: 'POST',
+      headers: { Cookie: next },
+    })
+
+    const family = await getDB(env.DB).query.sessions.findMany({
+      where: eq(sessions.familyId, session.familyId),
+    })
+    expect(family).toEqual([])
+  })
+})
+
+describe('GitHub sign-in', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  it('records client details on the new session', async () => {
+    fetchMock
+      .get('https://github.com')
+      .intercept({ path: '/login/oauth/access_token', method: 'POST' })
+      .reply(200, {
+        access_token: 'ghu_test',
+        token_type: 'bearer',
+        scope: '',
+        refresh_token: 'ghr_test',
+        expires_in: 28800,
+        refresh_token_expires_in: 15811200,
+      })
+    fetchMock.get(env.GITHUB_API_URL).intercept({ path: '/user' }).reply(200, {
+      id: 4242,
+      login: 'octocat',
+      email: 'octocat@example.com',
+      avatar_url: 'https://avatars.example.com/octocat',
+      name: null,
+    })
+
+    const { state, cookie } = await startSignIn('github')
+    const response = await SELF.fetch(
+      `http://localhost/api/auth/github/callback?code=abc&state=${state}`,
+      {
+        headers: { Cookie: cookie, 'User-Agent': 'Firefox', 'CF-Connecting-IP': '198.51.100.7' },
+        redirect: 'manual',
+      }
+    )
+    expect(response.headers.get('Location')).toBe('/')
+
+    const [session] = await getDB(env.DB).query.sessions.findMany()
+    expect(session).toMatchObject({
+      userAgent: 'Firefox',
+      ipAddress: '198.51.100.7',
+      lastUsedAt: expect.any(String),
+    })
+
+    const identity = await getDB(env.DB).query.identities.findFirst({
+      where: eq(identities.userId, session.userId),
+    })
+    expect(identity).toMatchObject({ provider: 'github', subject: '4242', username: 'octocat' })
+
+    // The user's GitHub token is kept, encrypted
+    const stored = await getDB(env.DB).query.githubUserTokens.findFirst({
+      where: eq(githubUserTokens.identityId, identity!.id),
+    })
+    expect(stored).toMatchObject({ keyId: 'test-1', accessTokenExpiresAt: expect.any(String) })
+    expect(stored?.accessTokenCiphertext).not.toContain('ghu_test')
+    expect(await getGitHubUserToken(getDB(env.DB), env, identity!.id)).toBe('ghu_test')
+
+    const login = await vi.waitFor(async () => {
+      const event = await getDB(env.DB).query.auditEvents.findFirst({
+        where: eq(auditEvents.actorId, session.userId),
+      })
+      expect(event).toBeDefined()
+      return event
+    })
+    expect(login).toMatchObject({
+      action: 'auth.login.succeeded',
+      targetId: session.familyId,
+      ipAddress: '198.51.100.7',
+      userAgent: 'Firefox',
+      metadata: { provider: 'github' },
+    })
+  })
+})
+
+describe('Session management', () => {
+  async function signedIn() {
+    const user = await createTestUser()
+    const current = await createTestSession(user)
+    const cookie = `${await authCookie(user, current.session)}; ${current.cookie}`
+    return { user, current, cookie }
+  }
+
+  it('lists active sessions and marks the current one', async () => {
+    const { user, current, cookie } = await signedIn()
+    const other = await createTestSession(user)
+    // Rotated sessions are listed once, under their family id
+    await refresh(other.cookie)
+
+    const response = await SELF.fetch('http://localhost/api/auth/sessions', {
+      headers: { Cookie: cookie },
+    })
+    const { sessions: listed } = await response.json<{ sessions: Array<Record<string, unknown>> }>()
+
+    expect(listed).toHaveLength(2)
+    expect(listed.find((s) => s.id === current.session.familyId)).toMatchObject({
+      current: true,
+      userAgent: 'vitest',
+      ipAddress: '203.0.113.1',
+      country: 'JP',
+    })
+    expect(listed.find((s) => s.id === other.session.familyId)).toMatchObject({ current: false })
+  })
+
+  it('revokes a session so its refresh token stops working', async () => {
+    const { user, cookie } = await signedIn()
+    const other = await createTestSession(user)
+
+    const response = await SELF.fetch(
+      `http://localhost/api/auth/sessions/${other.session.familyId}`,
+      { method: 'DELETE', headers: { Cookie: cookie } }
+    )
+    expect(response.status).toBe(200)
+    expect((await refresh(other.cookie)).status).toBe(401)
+  })
+
+  it("cannot revoke another user's session", async () => {
+    const { cookie } = await signedIn()
+    const stranger = await createTestSession(await createTestUser())
+
+    const response = await SELF.fetch(
+      `http://localhost/api/auth/sessions/${stranger.session.familyId}`,
+      { method: 'DELETE', headers: { Cookie: cookie } }
+    )
+    expect(response.status).toBe(404)
+    expect((await refresh(stranger.cookie)).status).toBe(200)
+  })
+
+  it('signs out everywhere else', async () => {
+    const { user, current, cookie } = await signedIn()
+    const others = [await createTestSession(user), await createTestSession(user)]
+
+    const response = await SELF.fetch('http://localhost/api/auth/sessions/revoke-others', {
+      method: 'POST',
+      headers: { Cookie: cookie },
+    })
+    expect(response.status).toBe(200)
+
+    for (const other of others) {
+      expect((await refresh(other.cookie)).status).toBe(401)
+    }
+    expect((await refresh(current.cookie)).status).toBe(200)
+  })
+})
+
+describe('Access token revocation', () => {
+  function me(cookie: string) {
+    return SELF.fetch('http://localhost/api/auth/me', { headers: { Cookie: cookie } })
+  }
+
+  it('accepts access tokens of an active session', async () => {
+    const user = await createTestUser()
+    const response = await me(await authCookie(user))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      user: expect.not.objectContaining({ tokenVersion: expect.anything() }),
+    })
+  })
+
+  it('keeps access tokens valid across refresh token rotation', async () => {
+    const user = await createTestUser()
+    const { session, cookie } = await createTestSession(user)
+    const access = await authCookie(user, session)
+
+    await refresh(cookie)
+
+    expect((await me(access)).status).toBe(200)
+  })
+
+  it('rejects access tokens as soon as their session is revoked', async () => {
+    const user = await createTestUser()
+    const current = await createTestSession(user)
+    const other = await createTestSession(user)
+    const otherAccess = await authCookie(user, other.session)
+
+    await SELF.fetch(`http://localhost/api/auth/sessions/${other.session.familyId}`, {
+      method: 'DELETE',
+      headers: { Cookie: await authCookie(user, current.session) },
+    })
+
+    const response = await me(otherAccess)
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ error: 'Token revoked' })
+  })
+
+  it('signing out everywhere invalidates every access token at once', async () => {
+    const user = await createTestUser()
+    const first = await authCookie(user)
+    const second = await authCookie(user)
+
+    const response = await SELF.fetch('http://localhost/api/auth/sessions/revoke-all', {
+      method: 'POST',
+      headers: { Cookie: first },
+    })
+    expect(response.status).toBe(200)
+
+    expect((await me(first)).status).toBe(401)
+    expect((await me(second)).status).toBe(401)
+  })
+
+  it('rejects tokens issued before the token version was bumped', async () => {
+    const user = await createTestUser()
+    const { session } = await createTestSession(user)
+    const access = await authCookie(user, session)
+
+    await getDB(env.DB)
+      .update(users)
+      .set({ tokenVersion: user.tokenVersion + 1 })
+      .where(eq(users.id, user.id))
+
+    expect((await me(access)).status).toBe(401)
+  })
+
+  it('rejects tokens of deleted users', async () => {
+    const user = await createTestUser()
+    const access = await authCookie(user)
+
+    await getDB(env.DB).delete(users).where(eq(users.id, user.id))
+
+    const response = await me(access)
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ error: 'User not found' })
+  })
+})
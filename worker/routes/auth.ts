@@ -1,7 +1,13 @@
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import { getCookie } from 'hono/cookie'
-import { eq, lt } from 'drizzle-orm'
-import { initiateGitHubOAuth, handleGitHubCallback } from '../auth/github'
+import { desc, eq, lt } from 'drizzle-orm'
+import { auditRequest } from '../audit/events'
+import {
+  linkIdentity,
+  listUserIdentities,
+  unlinkIdentity,
+  upsertIdentityUser,
+} from '../auth/identities'
 import {
   generateAccessToken,
   generateRefreshToken,
@@ -9,55 +15,38 @@ import {
   setAuthCookies,
   clearAuthCookies,
 } from '../auth/jwt'
-import { authMiddleware } from '../auth/middleware'
+import { authMiddleware, requireSessionAuth } from '../auth/middleware'
+import { beginAuthorization, completeAuthorization } from '../auth/oauth'
+import { getIdentityProvider, listIdentityProviders } from '../auth/providers'
+import {
+  createSession,
+  getSessionClient,
+  listActiveSessions,
+  revokeAllUserSessions,
+  revokeOtherSessions,
+  revokeSessionFamily,
+  revokeUserSession,
+  rotateSession,
+} from '../auth/sessions'
+import {
+  deletePersonalAccessToken,
+  generatePersonalAccessToken,
+  parseCreateTokenInput,
+} from '../auth/tokens'
+import { saveGitHubUserTokens } from '../github/user-tokens'
 import type { User } from '../types/auth'
-import { getDB } from '../db'
-import { sessions, users } from '../../db/schema'
+import { getDB, type Database } from '../db'
+import { personalAccessTokens, sessions, users } from '../../db/schema'
 
 const auth = new Hono<{ Bindings: Env; Variables: { user: User } }>()
 
 /**
- * GET /api/auth/github
- * Initiate GitHub OAuth flow
- */
-auth.get('/github', async (c) => {
-  return initiateGitHubOAuth(c)
-})
-
-/**
- * GET /api/auth/github/callback
- * Handle GitHub OAuth callback
+ * GET /api/auth/providers
+ * List the identity providers users can sign in with
  */
-auth.get('/github/callback', async (c) => {
-  const result = await handleGitHubCallback(c)
-
-  // If result is a redirect (error case), return it
-  if (result instanceof Response) {
-    return result
-  }
-
-  const { userId, githubUser } = result
-  const db = getDB(c.env.DB)
-
-  // Create session
-  const sessionId = crypto.randomUUID()
-  const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
-
-  await db.insert(sessions).values({
-    id: sessionId,
-    userId,
-    expiresAt: expiresAt.toISOString(),
-  })
-
-  // Generate tokens
-  const accessToken = await generateAccessToken(c, userId, githubUser.login)
-  const refreshToken = await generateRefreshToken(c, userId, sessionId)
-
-  // Set cookies
-  setAuthCookies(c, accessToken, refreshToken)
-
-  // Redirect to homepage
-  return c.redirect('/')
+auth.get('/providers', async (c) => {
+  const providers = listIdentityProviders(c.env).map(({ id, name }) => ({ id, name }))
+  return c.json({ providers })
 })
 
 /**
@@ -74,44 +63,60 @@ auth.post('/refresh', async (c) => {
   const payload = await verifyRefreshToken(c, refreshToken)
 
   if (!payload) {
+    auditRequest(c, { action: 'auth.token.refresh_failed', metadata: { reason: 'invalid_token' } })
     return c.json({ error: 'Invalid refresh token' }, 401)
   }
 
   const db = getDB(c.env.DB)
-
-  // Verify session exists and is valid
-  const session = await db.query.sessions.findFirst({
-    where: eq(sessions.id, payload.sessionId),
-  })
-
-  if (!session) {
-    return c.json({ error: 'Session not found' }, 401)
+  const refreshFailed = (reason: string) =>
+    auditRequest(c, {
+      actorId: payload.sub,
+      action: 'auth.token.refresh_failed',
+      metadata: { reason },
+    })
+
+  // Rotate: the presented token is consumed and a new one is issued in the same family
+  const rotation = await rotateSession(db, payload, getSessionClient(c))
+
+  switch (rotation.status) {
+    case 'not_found':
+      refreshFailed('session_not_found')
+      return c.json({ error: 'Session not found' }, 401)
+    case 'expired':
+      refreshFailed('session_expired')
+      return c.json({ error: 'Session expired' }, 401)
+    case 'race':
+      // A concurrent request already rotated this token and set the new cookies
+      return c.json({ error: 'Refresh token already rotated' }, 409)
+    case 'reused':
+      refreshFailed('token_reused')
+      clearAuthCookies(c)
+      return c.json({ error: 'Refresh token reuse detected' }, 401)
   }
 
-  if (new Date(session.expiresAt) < new Date()) {
-    // Session expired, clean up
-    await db.delete(sessions).where(eq(sessions.id, session.id))
-    return c.json({ error: 'Session expired' }, 401)
-  }
+  const { session } = rotation
 
   // Get user info
   const user = await db.query.users.findFirst({
     where: eq(users.id, session.userId),
-    columns: { username: true },
+    columns: { id: true, username: true, tokenVersion: true },
   })
 
   if (!user) {
+    refreshFailed('user_not_found')
     return c.json({ error: 'User not found' }, 401)
   }
 
-  // Generate new access token
-  const newAccessToken = await generateAccessToken(c, session.userId, user.username)
+  // Generate new token pair
+  const newAccessToken = await generateAccessToken(c, user, session.familyId)
+  const newRefreshToken = await generateRefreshToken(c, session.userId, session)
 
-  // Optionally: Generate new refresh token (token rotation)
-  // For now, we'll reuse the same refresh token
-
-  // Set new access token cookie
-  setAuthCookies(c, newAccessToken, refreshToken)
+  setAuthCookies(c, newAccessToken, newRefreshToken)
+  auditRequest(c, {
+    actorId: user.id,
+    action: 'auth.token.refreshed',
+    target: { type: 'session', id: session.familyId },
+  })
 
   return c.json({ success: true })
 })
@@ -128,8 +133,18 @@ auth.post('/logout', async (c) => {
     const payload = await verifyRefreshToken(c, refreshToken)
 
     if (payload) {
-      // Delete current session from database
-      await db.delete(sessions).where(eq(sessions.id, payload.sessionId))
+      // Delete every token of the current sign-in
+      const session = await db.query.sessions.findFirst({
+        where: eq(sessions.id, payload.sessionId),
+      })
+      if (session) {
+        await revokeSessionFamily(db, session.familyId)
+        auditRequest(c, {
+          actorId: session.userId,
+          action: 'auth.logout',
+          target: { type: 'session', id: session.familyId },
+        })
+      }
     }
   }
 
@@ -151,4 +166,329 @@ auth.get('/me', authMiddleware, async (c) => {
   return c.json({ user })
 })
 
+/**
+ * GET /api/auth/sessions
+ * List the current user's active sessions
+ */
+auth.get('/sessions', authMiddleware, requireSessionAuth, async (c) => {
+  const db = getDB(c.env.DB)
+  const currentId = await getCurrentSessionFamily(c, db)
+  const active = await listActiveSessions(db, c.get('user').id)
+
+  return c.json({
+    sessions: active.map((session) => ({ ...session, current: session.id === currentId })),
+  })
+})
+
+/**
+ * POST /api/auth/sessions/revoke-others
+ * Sign out everywhere except the current session
+ */
+auth.post('/sessions/revoke-others', authMiddleware, requireSessionAuth, async (c) => {
+  const db = getDB(c.env.DB)
+  const currentId = await getCurrentSessionFamily(c, db)
+
+  if (!currentId) {
+    return c.json({ error: 'Current session not found' }, 400)
+  }
+
+  await revokeOtherSessions(db, c.get('user').id, currentId)
+  auditRequest(c, { action: 'auth.sessions.revoked_others' })
+
+  return c.json({ success: true })
+})
+
+/**
+ * POST /api/auth/sessions/revoke-all
+ * Sign out everywhere, including here; outstanding access tokens stop working immediately
+ */
+auth.post('/sessions/revoke-all', authMiddleware, requireSessionAuth, async (c) => {
+  const db = getDB(c.env.DB)
+
+  await revokeAllUserSessions(db, c.get('user').id)
+  clearAuthCookies(c)
+  auditRequest(c, { action: 'auth.sessions.revoked_all' })
+
+  return c.json({ success: true })
+})
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revoke one of the current user's sessions
+ * Its refresh and access tokens stop working immediately.
+ */
+auth.delete('/sessions/:id', authMiddleware, requireSessionAuth, async (c) => {
+  const db = getDB(c.env.DB)
+  const familyId = c.req.param('id')
+  const currentId = await getCurrentSessionFamily(c, db)
+
+  const revoked = await revokeUserSession(db, c.get('user').id, familyId)
+
+  if (!revoked) {
+    return c.json({ error: 'Session not found' }, 404)
+  }
+
+  auditRequest(c, { action: 'auth.session.revoked', target: { type: 'session', id: familyId } })
+
+  if (familyId === currentId) {
+    clearAuthCookies(c)
+  }
+
+  return c.json({ success: true })
+})
+
+/**
+ * POST /api/auth/tokens
+ * Create a personal access token; the token is only returned in this response
+ */
+auth.post('/tokens', authMiddleware, requireSessionAuth, async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const input = parseCreateTokenInput(body)
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+  const { token, tokenHash, tokenPrefix } = await generatePersonalAccessToken()
+
+  const [created] = await db
+    .insert(personalAccessTokens)
+    .values({
+      id: crypto.randomUUID(),
+      userId: c.get('user').id,
+      tokenHash,
+      tokenPrefix,
+      ...input.data,
+    })
+    .returning(tokenColumns)
+
+  auditRequest(c, {
+    action: 'auth.pat.created',
+    target: { type: 'personal_access_token', id: created.id },
+    metadata: { name: created.name, scopes: created.scopes, expiresAt: created.expiresAt },
+  })
+
+  return c.json({ token, personalAccessToken: created }, 201)
+})
+
+/**
+ * GET /api/auth/tokens
+ * List the current user's personal access tokens (without the secrets)
+ */
+auth.get('/tokens', authMiddleware, requireSessionAuth, async (c) => {
+  const db = getDB(c.env.DB)
+  const tokens = await db
+    .select(tokenColumns)
+    .from(personalAccessTokens)
+    .where(eq(personalAccessTokens.userId, c.get('user').id))
+    .orderBy(desc(personalAccessTokens.createdAt))
+
+  return c.json({ personalAccessTokens: tokens })
+})
+
+/**
+ * DELETE /api/auth/tokens/:id
+ * Revoke a personal access token
+ */
+auth.delete('/tokens/:id', authMiddleware, requireSessionAuth, async (c) => {
+  const db = getDB(c.env.DB)
+  const deleted = await deletePersonalAccessToken(db, c.get('user').id, c.req.param('id'))
+
+  if (!deleted) {
+    return c.json({ error: 'Token not found' }, 404)
+  }
+
+  auditRequest(c, {
+    action: 'auth.pat.revoked',
+    target: { type: 'personal_access_token', id: c.req.param('id') },
+  })
+
+  return c.json({ success: true })
+})
+
+/**
+ * GET /api/auth/identities
+ * List the identities linked to the current user
+ */
+auth.get('/identities', authMiddleware, requireSessionAuth, async (c) => {
+  const db = getDB(c.env.DB)
+  const linked = await listUserIdentities(db, c.get('user').id)
+  return c.json({ identities: linked })
+})
+
+/**
+ * DELETE /api/auth/identities/:id
+ * Unlink an identity; the last one cannot be removed
+ */
+auth.delete('/identities/:id', authMiddleware, requireSessionAuth, async (c) => {
+  const db = getDB(c.env.DB)
+  const result = await unlinkIdentity(db, c.get('user').id, c.req.param('id'))
+
+  switch (result) {
+    case 'not_found':
+      return c.json({ error: 'Identity not found' }, 404)
+    case 'last_identity':
+      return c.json({ error: 'Cannot unlink the only identity of an account' }, 409)
+  }
+
+  auditRequest(c, {
+    action: 'auth.identity.unlinked',
+    target: { type: 'identity', id: c.req.param('id') },
+  })
+
+  return c.json({ success: true })
+})
+
+/**
+ * GET /api/auth/:provider
+ * Start signing in with an identity provider (e.g. /api/auth/github)
+ * Registered last so the fixed routes above take precedence.
+ */
+auth.get('/:provider', async (c) => {
+  const provider = getIdentityProvider(c.env, c.req.param('provider'))
+
+  if (!provider) {
+    return c.json({ error: 'Unknown identity provider' }, 404)
+  }
+
+  return beginAuthorization(c, provider)
+})
+
+/**
+ * GET /api/auth/:provider/link
+ * Start linking another identity from this provider to the current user
+ */
+auth.get('/:provider/link', authMiddleware, requireSessionAuth, async (c) => {
+  const provider = getIdentityProvider(c.env, c.req.param('provider'))
+
+  if (!provider) {
+    return c.json({ error: 'Unknown identity provider' }, 404)
+  }
+
+  return beginAuthorization(c, provider, { linkUserId: c.get('user').id })
+})
+
+/**
+ * GET /api/auth/:provider/callback
+ * Handle the identity provider's OAuth callback, for both sign-in and linking
+ */
+auth.get('/:provider/callback', async (c) => {
+  const provider = getIdentityProvider(c.env, c.req.param('provider'))
+
+  if (!provider) {
+    return c.json({ error: 'Unknown identity provider' }, 404)
+  }
+
+  const result = await completeAuthorization(c, provider)
+
+  if ('error' in result) {
+    auditRequest(c, {
+      action: 'auth.login.failed',
+      metadata: { provider: provider.id, reason: result.error },
+    })
+    return c.redirect(`/?error=${result.error}`)
+  }
+
+  const db = getDB(c.env.DB)
+
+  const { profile, linkUserId } = result
+
+  if (linkUserId) {
+    const linked = await linkIdentity(db, linkUserId, provider.id, profile)
+
+    if (linked.status === 'conflict') {
+      auditRequest(c, {
+        actorId: linkUserId,
+        action: 'auth.login.failed',
+        metadata: { provider: provider.id, reason: 'identity_in_use' },
+      })
+      return c.redirect('/?error=identity_in_use')
+    }
+
+    if (linked.status === 'linked') {
+      auditRequest(c, {
+        actorId: linkUserId,
+        action: 'auth.identity.linked',
+        target: { type: 'identity', id: linked.identityId },
+        metadata: { provider: provider.id },
+      })
+    }
+
+    if (profile.githubTokens) {
+      await saveGitHubUserTokens(db, c.env, linked.identityId, profile.githubTokens)
+    }
+
+    return c.redirect('/')
+  }
+
+  const { userId, identityId } = await upsertIdentityUser(db, provider.id, profile)
+
+  // Keep the user's GitHub token to act on their behalf later
+  if (profile.githubTokens) {
+    await saveGitHubUserTokens(db, c.env, identityId, profile.githubTokens)
+  }
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, username: true, tokenVersion: true },
+  })
+
+  if (!user) {
+    auditRequest(c, {
+      action: 'auth.login.failed',
+      metadata: { provider: provider.id, reason: 'auth_failed' },
+    })
+    return c.redirect('/?error=auth_failed')
+  }
+
+  // Create session
+  const session = await createSession(db, userId, getSessionClient(c))
+  auditRequest(c, {
+    actorId: userId,
+    action: 'auth.login.succeeded',
+    target: { type: 'session', id: session.familyId },
+    metadata: { provider: provider.id },
+  })
+
+  // Generate tokens
+  const accessToken = await generateAccessToken(c, user, session.familyId)
+  const refreshToken = await generateRefreshToken(c, userId, session)
+
+  // Set cookies
+  setAuthCookies(c, accessToken, refreshToken)
+
+  // Redirect to homepage
+  return c.redirect('/')
+})
+
+const tokenColumns = {
+  id: personalAccessTokens.id,
+  name: personalAccessTokens.name,
+  tokenPrefix: personalAccessTokens.tokenPrefix,
+  scopes: personalAccessTokens.scopes,
+  expiresAt: personalAccessTokens.expiresAt,
+  lastUsedAt: personalAccessTokens.lastUsedAt,
+  createdAt: personalAccessTokens.createdAt,
+}
+
+/**
+ * Resolve the session family of the request's refresh token
+ */
+async function getCurrentSessionFamily(c: Context, db: Database): Promise<string | null> {
+  const refreshToken = getCookie(c, 'refresh_token')
+  const payload = refreshToken ? await verifyRefreshToken(c, refreshToken) : null
+
+  if (!payload) {
+    return null
+  }
+
+  const session = await db.query.sessions.findFirst({
+    where: eq(sessions.id, payload.sessionId),
+    columns: { familyId: true },
+  })
+
+  return session?.familyId ?? null
+}
+
 export default auth
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest'
+import { SELF, env, fetchMock } from 'cloudflare:test'
+import { findSnapshot, refreshSnapshot } from '../context/indexer'
+import { upsertIssues } from '../issues/mirror'
+import { createFakeRepositoryClient, githubIssue } from '../test/fakes'
+import { authCookie, createTestProject, createTestUser, sendWebhook } from '../test/helpers'
+import { getDB } from '../db'
+
+const repository = {
+  id: 1,
+  name: 'codiro',
+  full_name: 'octocat/codiro',
+  owner: { login: 'octocat' },
+  default_branch: 'main',
+}
+const sender = { id: 1, login: 'octocat', type: 'User' }
+
+function pushEvent(ref: string) {
+  return {
+    ref,
+    before: '0000000000000000000000000000000000000000',
+    after: 'c9',
+    created: false,
+    deleted: false,
+    forced: false,
+    repository,
+    sender,
+    installation: { id: 71 },
+  }
+}
+
+describe('Context API', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  it('reports the snapshot and previews the context of an issue', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user)
+    const cookie = await authCookie(user)
+    const db = getDB(env.DB)
+    await upsertIssues(db, project.id, [
+      githubIssue(4, { title: 'Greet returning users', body: 'Say welcome back' }),
+    ])
+
+    const before = await SELF.fetch(`http://localhost/api/projects/${project.id}/context`, {
+      headers: { Cookie: cookie },
+    })
+    expect(await before.json()).toEqual({ snapshot: null })
+    const early = await SELF.fetch(`http://localhost/api/projects/${project.id}/context/issues/4`, {
+      headers: { Cookie: cookie },
+    })
+    expect(early.status).toBe(409)
+
+    const { client } = createFakeRepositoryClient(
+      {
+        c1: {
+          'src/greet.ts':
+            'export function greetUser(user: User) {\n  return `Hello ${user.name}`\n}\n',
+          'src/math.ts': 'export const add = (a: number, b: number) => a + b\n',
+        },
+      },
+      'c1'
+    )
+    await refreshSnapshot(db, client, project, 'c1')
+
+    const snapshot = await SELF.fetch(`http://localhost/api/projects/${project.id}/context`, {
+      headers: { Cookie: cookie },
+    })
+    expect(await snapshot.json()).toMatchObject({
+      snapshot: {
+        commitSha: 'c1',
+        status: 'ready',
+        fileCount: 2,
+        languages: { TypeScript: expect.any(Number) },
+      },
+    })
+
+    const preview = await SELF.fetch(
+      `http://localhost/api/projects/${project.id}/context/issues/4`,
+      { headers: { Cookie: cookie } }
+    )
+    expect(await preview.json()).toMatchObject({
+      context: {
+        commitSha: 'c1',
+        files: [{ path: 'src/greet.ts', language: 'TypeScript' }],
+        snippets: [{ path: 'src/greet.ts', startLine: 1, endLine: 3 }],
+      },
+    })
+
+    const missing = await SELF.fetch(
+      `http://localhost/api/projects/${project.id}/context/issues/5`,
+      { headers: { Cookie: cookie } }
+    )
+    expect(missing.status).toBe(404)
+  })
+
+  it('needs an installation to reindex', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user)
+
+    const response = await SELF.fetch(
+      `http://localhost/api/projects/${project.id}/context/reindex`,
+      { method: 'POST', headers: { Cookie: await authCookie(user) } }
+    )
+    expect(response.status).toBe(409)
+  })
+
+  it("returns 404 for another user's project", async () => {
+    const project = await createTestProject(await createTestUser())
+    const response = await SELF.fetch(`http://localhost/api/projects/${project.id}/context`, {
+      headers: { Cookie: await authCookie(await createTestUser()) },
+    })
+    expect(response.status).toBe(404)
+  })
+
+  it('indexes the default branch on push', async () => {
+    const project = await createTestProject(await createTestUser(), { installationId: 71 })
+    const api = fetchMock.get(env.GITHUB_API_URL)
+    api
+      .intercept({ path: '/app/installations/71/access_tokens', method: 'POST' })
+      .reply(201, { token: 'ghs_test', expires_at: new Date(Date.now() + 3600_000).toISOString() })
+    api.intercept({ path: '/repos/octocat/codiro/git/trees/c9?recursive=1' }).reply(200, {
+      truncated: false,
+      tree: [{ path: 'index.ts', type: 'blob', sha: 'b1', size: 12 }],
+    })
+    api
+      .intercept({ path: '/repos/octocat/codiro/git/blobs/b1' })
+      .reply(200, { content: btoa('hello world\n'), encoding: 'base64', size: 12 })
+
+    const ignored = await sendWebhook('push', pushEvent('refs/heads/feature'))
+    expect(await ignored.json()).toEqual({ ok: true, outcome: 'ignored' })
+
+    const response = await sendWebhook('push', pushEvent('refs/heads/main'))
+    expect(await response.json()).toEqual({ ok: true, outcome: 'processed' })
+
+    await vi.waitFor(async () =>
+      expect(await findSnapshot(getDB(env.DB), project.id)).toMatchObject({
+        commitSha: 'c9',
+        status: 'ready',
+        fileCount: 1,
+      })
+    )
+  })
+})
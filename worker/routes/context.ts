@@ -0,0 +1,122 @@
+import { Hono } from 'hono'
+import { and, eq } from 'drizzle-orm'
+import { requireScope } from '../auth/middleware'
+import { findSnapshot, updateRepositorySnapshot } from '../context/indexer'
+import { contextQuery, retrieveContext } from '../context/retrieval'
+import { findFinalizedSpec } from '../jobs/runner'
+import { authorizeProject, denyProjectAccess } from '../projects/access'
+import type { User } from '../types/auth'
+import { getDB } from '../db'
+import { issues, type RepositorySnapshot } from '../../db/schema'
+
+// Mounted at /api/projects/:projectId/context; authMiddleware is applied by the projects router
+const contextRoutes = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+/**
+ * GET /api/projects/:projectId/context
+ * Get the state of the project's repository snapshot (null before its first pass)
+ */
+contextRoutes.get('/', requireScope('projects:read'), async (c) => {
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    c.get('user').id,
+    'project.view'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  const snapshot = await findSnapshot(db, project.id)
+  return c.json({ snapshot: snapshot && serializeSnapshot(snapshot) })
+})
+
+/**
+ * POST /api/projects/:projectId/context/reindex
+ * Re-read the repository at the head of the default branch, in the background
+ * Unchanged files are not read again.
+ */
+contextRoutes.post('/reindex', requireScope('projects:write'), async (c) => {
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    c.get('user').id,
+    'context.reindex'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+  if (!project.installationId) {
+    return c.json({ error: 'Project is not linked to a GitHub App installation' }, 409)
+  }
+
+  c.executionCtx.waitUntil(updateRepositorySnapshot(db, c.env, project))
+  return c.json({ ok: true }, 202)
+})
+
+/**
+ * GET /api/projects/:projectId/context/issues/:number
+ * Preview the files and snippets a job for a mirrored issue would get from the snapshot
+ */
+contextRoutes.get('/issues/:number', requireScope('projects:read'), async (c) => {
+  const number = Number(c.req.param('number'))
+  if (!Number.isInteger(number) || number < 1) {
+    return c.json({ error: 'Issue not found' }, 404)
+  }
+
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    c.get('user').id,
+    'project.view'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  const issue = await db
+    .select({ title: issues.title, body: issues.body })
+    .from(issues)
+    .where(and(eq(issues.projectId, project.id), eq(issues.number, number)))
+    .get()
+
+  if (!issue) {
+    return c.json({ error: 'Issue not found' }, 404)
+  }
+
+  const spec = await findFinalizedSpec(db, project.id, number)
+  const context = await retrieveContext(db, project.id, contextQuery(issue, spec))
+
+  if (!context) {
+    return c.json({ error: 'The repository has not been indexed yet' }, 409)
+  }
+
+  return c.json({ context })
+})
+
+function serializeSnapshot(snapshot: RepositorySnapshot) {
+  return {
+    commitSha: snapshot.commitSha,
+    status: snapshot.status,
+    fileCount: snapshot.fileCount,
+    truncated: snapshot.truncated,
+    languages: snapshot.languages,
+    lastError: snapshot.lastError,
+    indexedAt: snapshot.indexedAt,
+    updatedAt: snapshot.updatedAt,
+  }
+}
+
+export default contextRoutes
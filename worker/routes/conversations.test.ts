@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest'
+import { SELF, env, fetchMock } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import { upsertIssues } from '../issues/mirror'
+import { githubIssue } from '../test/fakes'
+import { authCookie, createTestProject, createTestUser } from '../test/helpers'
+import { getDB } from '../db'
+import { auditEvents, llmUsage, projects, type User } from '../../db/schema'
+
+async function request(user: User, path: string, body?: unknown) {
+  return SELF.fetch(`http://localhost/api/projects/${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: { Cookie: await authCookie(user), 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+async function startConversation(user: User, projectId: string, issueNumber = 1) {
+  await upsertIssues(getDB(env.DB), projectId, [githubIssue(issueNumber)])
+  const response = await request(user, `${projectId}/conversations`, { issueNumber })
+  const { conversation } = await response.json<{ conversation: { id: string } }>()
+  return conversation
+}
+
+function mockCompletionStream(chunks: string[]) {
+  const body = [
+    ...chunks.map(
+      (content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`
+    ),
+    `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 40, completion_tokens: 3 } })}\n\n`,
+    'data: [DONE]\n\n',
+  ].join('')
+  fetchMock
+    .get('https://llm.test')
+    .intercept({ path: '/v1/chat/completions', method: 'POST' })
+    .reply(200, body, { headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+function parseEvents(text: string) {
+  return text
+    .split('\n\n')
+    .filter(Boolean)
+    .map((block) => {
+      const lines = block.split('\n')
+      const event = lines.find((line) => line.startsWith('event: '))?.slice(7)
+      const data = lines.find((line) => line.startsWith('data: '))?.slice(6)
+      return { event, data: data ? JSON.parse(data) : null }
+    })
+}
+
+describe('Spec discussion routes', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  it('starts a conversation about a mirrored issue only', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user)
+
+    const missing = await request(user, `${project.id}/conversations`, { issueNumber: 99 })
+    expect(missing.status).toBe(404)
+
+    const conversation = await startConversation(user, project.id)
+    expect(conversation).toMatchObject({ issueNumber: 1, status: 'open', createdBy: user.id })
+
+    const list = await request(user, `${project.id}/conversations?issueNumber=1`)
+    expect(await list.json()).toMatchObject({ conversations: [{ id: conversation.id }] })
+
+    for (const issueNumber of ['abc', '1.5', '0', '']) {
+      const invalid = await request(user, `${project.id}/conversations?issueNumber=${issueNumber}`)
+      expect(invalid.status).toBe(400)
+    }
+  })
+
+  it('streams the reply and stores both messages', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user)
+    const conversation = await startConversation(user, project.id)
+
+    mockCompletionStream(['Which ', 'languages?'])
+    const response = await request(
+      user,
+      `${project.id}/conversations/${conversation.id}/messages`,
+      { content: '  Add a greeting  ' }
+    )
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+    const events = parseEvents(await response.text())
+    expect(events).toMatchObject([
+      { event: 'message', data: { role: 'user', content: 'Add a greeting' } },
+      { event: 'delta', data: { content: 'Which ' } },
+      { event: 'delta', data: { content: 'languages?' } },
+      { event: 'done', data: { role: 'assistant', content: 'Which languages?' } },
+    ])
+
+    const detail = await request(user, `${project.id}/conversations/${conversation.id}`)
+    expect(await detail.json()).toMatchObject({
+      messages: [
+        { role: 'user', content: 'Add a greeting' },
+        { role: 'assistant', content: 'Which languages?' },
+      ],
+    })
+
+    const usage = await getDB(env.DB).query.llmUsage.findMany({
+      where: eq(llmUsage.conversationId, conversation.id),
+    })
+    expect(usage).toMatchObject([
+      { userId: user.id, feature: 'spec_discussion', promptTokens: 40, completionTokens: 3 },
+    ])
+  })
+
+  it('reports a failed reply as an error event', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user)
+    const conversation = await startConversation(user, project.id)
+
+    fetchMock
+      .get('https://llm.test')
+      .intercept({ path: '/v1/chat/completions', method: 'POST' })
+      .reply(500, { error: { message: 'Overloaded' } })
+    const response = await request(
+      user,
+      `${project.id}/conversations/${conversation.id}/messages`,
+      { content: 'Add a greeting' }
+    )
+
+    const events = parseEvents(await response.text())
+    expect(events.map((event) => event.event)).toEqual(['message', 'error'])
+    expect(events[1].data).toEqual({ error: 'The AI reply failed; please try again' })
+  })
+
+  it('rejects empty messages', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user)
+    const conversation = await startConversation(user, project.id)
+
+    const response = await request(
+      user,
+      `${project.id}/conversations/${conversation.id}/messages`,
+      { content: '   ' }
+    )
+    expect(response.status).toBe(400)
+  })
+
+  it('refuses messages on archived projects', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user)
+    const conversation = await startConversation(user, project.id)
+    await getDB(env.DB)
+      .update(projects)
+      .set({ archivedAt: new Date().toISOString() })
+      .where(eq(projects.id, project.id))
+
+    const response = await request(
+      user,
+      `${project.id}/conversations/${conversation.id}/messages`,
+      { content: 'One more thing' }
+    )
+    expect(response.status).toBe(409)
+    expect(await response.json()).toEqual({ error: 'Archived projects cannot be modified' })
+  })
+
+  it('records finalized specs in the audit log', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 121 })
+    const conversation = await startConversation(user, project.id)
+    const api = fetchMock.get(env.GITHUB_API_URL)
+    api
+      .intercept({ path: '/app/installations/121/access_tokens', method: 'POST' })
+      .reply(201, { token: 'ghs_test', expires_at: new Date(Date.now() + 3600_000).toISOString() })
+    api
+      .intercept({ path: '/repos/octocat/codiro/issues/1/comments', method: 'POST' })
+      .reply(201, { html_url: 'https://github.com/octocat/codiro/issues/1#issuecomment-5' })
+
+    const response = await request(
+      user,
+      `${project.id}/conversations/${conversation.id}/finalize`,
+      { target: 'comment', spec: 'Greet the world.' }
+    )
+    expect(response.status).toBe(200)
+
+    const events = await vi.waitFor(async () => {
+      const rows = await getDB(env.DB)
+        .select()
+        .from(auditEvents)
+        .where(eq(auditEvents.targetId, conversation.id))
+      expect(rows).toHaveLength(1)
+      return rows
+    })
+    expect(events[0]).toMatchObject({
+      actorId: user.id,
+      action: 'conversation.finalized',
+      targetType: 'conversation',
+      projectId: project.id,
+      metadata: {
+        issueNumber: 1,
+        target: 'comment',
+        specUrl: 'https://github.com/octocat/codiro/issues/1#issuecomment-5',
+      },
+    })
+  })
+
+  it('answers 502 and keeps the conversation open when GitHub refuses the spec', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 122 })
+    const conversation = await startConversation(user, project.id)
+    const api = fetchMock.get(env.GITHUB_API_URL)
+    api
+      .intercept({ path: '/app/installations/122/access_tokens', method: 'POST' })
+      .reply(201, { token: 'ghs_test', expires_at: new Date(Date.now() + 3600_000).toISOString() })
+    api
+      .intercept({ path: '/repos/octocat/codiro/issues/1/comments', method: 'POST' })
+      .reply(403, { message: 'Resource not accessible by integration' })
+
+    const response = await request(
+      user,
+      `${project.id}/conversations/${conversation.id}/finalize`,
+      { target: 'comment', spec: 'Greet the world.' }
+    )
+    expect(response.status).toBe(502)
+    expect(await response.json()).toEqual({
+      error: expect.stringMatching(/^GitHub refused to write the spec: /),
+    })
+
+    const stored = await request(user, `${project.id}/conversations/${conversation.id}`)
+    expect(await stored.json()).toMatchObject({ conversation: { status: 'open' } })
+  })
+
+  it('validates finalize requests', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user)
+    const conversation = await startConversation(user, project.id)
+    const path = `${project.id}/conversations/${conversation.id}/finalize`
+
+    expect((await request(user, path, { target: 'wiki' })).status).toBe(400)
+
+    const unlinked = await request(user, path, { target: 'comment', spec: 'Greet.' })
+    expect(unlinked.status).toBe(409)
+    expect(await unlinked.json()).toEqual({
+      error: 'Project is not linked to a GitHub App installation',
+    })
+  })
+
+  it("hides other users' conversations", async () => {
+    const owner = await createTestUser()
+    const other = await createTestUser()
+    const project = await createTestProject(owner)
+    const conversation = await startConversation(owner, project.id)
+
+    const response = await request(other, `${project.id}/conversations/${conversation.id}`)
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,310 @@
+import { Hono } from 'hono'
+import { streamSSE } from 'hono/streaming'
+import { and, desc, eq } from 'drizzle-orm'
+import { auditRequest } from '../audit/events'
+import { requireScope } from '../auth/middleware'
+import {
+  addUserMessage,
+  createFinalizeSpecDeps,
+  createSpecModel,
+  finalizeConversation,
+  generateReply,
+  listMessages,
+} from '../conversations/discussion'
+import {
+  parseConversationListQuery,
+  parseCreateConversationInput,
+  parseFinalizeInput,
+  parseMessageInput,
+} from '../conversations/validation'
+import { GitHubError } from '../github/errors'
+import { authorizeProject, denyProjectAccess } from '../projects/access'
+import { QuotaExceededError } from '../quotas/errors'
+import type { User } from '../types/auth'
+import { getDB } from '../db'
+import { conversations, issues } from '../../db/schema'
+
+// Mounted at /api/projects/:projectId/conversations; authMiddleware is applied by the projects router
+const conversationRoutes = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+/**
+ * POST /api/projects/:projectId/conversations
+ * Start a spec discussion about a mirrored issue
+ */
+conversationRoutes.post('/', requireScope('projects:write'), async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const input = parseCreateConversationInput(body)
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+  const user = c.get('user')
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    user.id,
+    'conversation.write'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  if (project.archivedAt) {
+    return c.json({ error: 'Archived projects cannot be modified' }, 409)
+  }
+
+  const issue = await db.query.issues.findFirst({
+    where: and(eq(issues.projectId, project.id), eq(issues.number, input.data.issueNumber)),
+  })
+
+  if (!issue) {
+    return c.json({ error: 'Issue not found' }, 404)
+  }
+
+  const [conversation] = await db
+    .insert(conversations)
+    .values({
+      id: crypto.randomUUID(),
+      projectId: project.id,
+      issueNumber: issue.number,
+      createdBy: user.id,
+    })
+    .returning()
+
+  return c.json({ conversation }, 201)
+})
+
+/**
+ * GET /api/projects/:projectId/conversations
+ * List a project's spec discussions, most recently active first (?issueNumber= narrows to one issue)
+ */
+conversationRoutes.get('/', requireScope('projects:read'), async (c) => {
+  const query = parseConversationListQuery({ issueNumber: c.req.query('issueNumber') })
+
+  if (query.error !== undefined) {
+    return c.json({ error: query.error }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    c.get('user').id,
+    'project.view'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  const { issueNumber } = query.data
+  const rows = await db.query.conversations.findMany({
+    where:
+      issueNumber !== null
+        ? and(eq(conversations.projectId, project.id), eq(conversations.issueNumber, issueNumber))
+        : eq(conversations.projectId, project.id),
+    orderBy: [desc(conversations.updatedAt), desc(conversations.createdAt)],
+  })
+
+  return c.json({ conversations: rows })
+})
+
+/**
+ * GET /api/projects/:projectId/conversations/:conversationId
+ * Get a conversation with its messages
+ */
+conversationRoutes.get('/:conversationId', requireScope('projects:read'), async (c) => {
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    c.get('user').id,
+    'project.view'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  const conversation = await db.query.conversations.findFirst({
+    where: and(
+      eq(conversations.id, c.req.param('conversationId')),
+      eq(conversations.projectId, project.id)
+    ),
+  })
+
+  if (!conversation) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+
+  return c.json({ conversation, messages: await listMessages(db, conversation.id) })
+})
+
+/**
+ * POST /api/projects/:projectId/conversations/:conversationId/messages
+ * Post a message and stream the AI's reply as Server-Sent Events:
+ * `message` (the stored user message), `delta` ({ content }) per chunk, then `done` (the stored
+ * reply) or `error` ({ error }).
+ */
+conversationRoutes.post('/:conversationId/messages', requireScope('projects:write'), async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const input = parseMessageInput(body)
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+  const user = c.get('user')
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    user.id,
+    'conversation.write'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  if (project.archivedAt) {
+    return c.json({ error: 'Archived projects cannot be modified' }, 409)
+  }
+
+  const conversation = await db.query.conversations.findFirst({
+    where: and(
+      eq(conversations.id, c.req.param('conversationId')),
+      eq(conversations.projectId, project.id)
+    ),
+  })
+
+  if (!conversation) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+
+  if (conversation.status !== 'open') {
+    return c.json({ error: 'Conversation has been finalized' }, 409)
+  }
+
+  const message = await addUserMessage(db, conversation, user.id, input.data.content)
+  const model = createSpecModel(c.env, db, project, conversation, user.id)
+
+  return streamSSE(c, async (stream) => {
+    await stream.writeSSE({ event: 'message', data: JSON.stringify(message) })
+
+    try {
+      const reply = await generateReply(db, project, conversation, model, (content) =>
+        stream.writeSSE({ event: 'delta', data: JSON.stringify({ content }) })
+      )
+      await stream.writeSSE({ event: 'done', data: JSON.stringify(reply) })
+    } catch (error) {
+      console.error('Spec discussion reply failed:', conversation.id, error)
+      await stream.writeSSE({
+        event: 'error',
+        data: JSON.stringify({
+          error:
+            error instanceof QuotaExceededError
+              ? error.message
+              : 'The AI reply failed; please try again',
+        }),
+      })
+    }
+  })
+})
+
+/**
+ * POST /api/projects/:projectId/conversations/:conversationId/finalize
+ * Write the agreed spec to the GitHub issue (body section or comment) and close the conversation
+ * Body: { target: 'issue_body' | 'comment', spec?: string }; without a spec the AI drafts one.
+ */
+conversationRoutes.post('/:conversationId/finalize', requireScope('projects:write'), async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const input = parseFinalizeInput(body)
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+  const user = c.get('user')
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    user.id,
+    'conversation.write'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  if (project.archivedAt) {
+    return c.json({ error: 'Archived projects cannot be modified' }, 409)
+  }
+
+  const conversation = await db.query.conversations.findFirst({
+    where: and(
+      eq(conversations.id, c.req.param('conversationId')),
+      eq(conversations.projectId, project.id)
+    ),
+  })
+
+  if (!conversation) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+
+  if (conversation.status !== 'open') {
+    return c.json({ error: 'Conversation has been finalized' }, 409)
+  }
+
+  if (!project.installationId) {
+    return c.json({ error: 'Project is not linked to a GitHub App installation' }, 409)
+  }
+
+  let finalized
+  try {
+    const deps = await createFinalizeSpecDeps(c.env, db, project, conversation, user.id)
+    finalized = await finalizeConversation(db, project, conversation, deps, input.data)
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return c.json({ error: error.message }, 429)
+    }
+    if (error instanceof GitHubError) {
+      console.error('Writing the spec failed:', project.id, conversation.issueNumber, error)
+      return c.json({ error: `GitHub refused to write the spec: ${error.message}` }, 502)
+    }
+    throw error
+  }
+
+  if (!finalized) {
+    return c.json({ error: 'Conversation has been finalized' }, 409)
+  }
+
+  auditRequest(c, {
+    action: 'conversation.finalized',
+    target: { type: 'conversation', id: finalized.id },
+    projectId: project.id,
+    metadata: {
+      issueNumber: finalized.issueNumber,
+      target: finalized.specTarget,
+      specUrl: finalized.specUrl,
+    },
+  })
+
+  return c.json({ conversation: finalized })
+})
+
+export default conversationRoutes
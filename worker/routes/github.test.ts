@@ -0,0 +1,360 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest'
+import { SELF, env, fetchMock } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import { authCookie, createTestProject, createTestUser } from '../test/helpers'
+import { saveGitHubUserTokens } from '../github/user-tokens'
+import { getDB } from '../db'
+import { githubInstallationUsers, githubInstallations, identities } from '../../db/schema'
+
+const SETUP_URL = 'http://localhost/api/github/setup'
+
+function mockInstallation(id: number, account: { id: number; login: string; type: string }) {
+  fetchMock
+    .get(env.GITHUB_API_URL)
+    .intercept({ path: `/app/installations/${id}` })
+    .reply(200, { id, account, suspended_at: null })
+}
+
+describe('GitHub App setup', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  async function signedInGitHubUser(githubId: number) {
+    const user = await createTestUser()
+    const [identity] = await getDB(env.DB)
+      .insert(identities)
+      .values({
+        userId: user.id,
+        provider: 'github',
+        subject: String(githubId),
+        username: user.username,
+      })
+      .returning()
+    return { user, identity, cookie: await authCookie(user) }
+  }
+
+  // GET /user/installations, as the user with the given token
+  function mockUserInstallations(token: string, installationIds: number[]) {
+    fetchMock
+      .get(env.GITHUB_API_URL)
+      .intercept({
+        path: '/user/installations?per_page=100',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      .reply(200, {
+        total_count: installationIds.length,
+        installations: installationIds.map((id) => ({
+          id,
+          account: { id: 777, login: 'codiro-org', type: 'Organization' },
+          suspended_at: null,
+        })),
+      })
+  }
+
+  async function saveUserToken(identityId: string, accessToken: string) {
+    await saveGitHubUserTokens(getDB(env.DB), env, identityId, {
+      accessToken,
+      refreshToken: null,
+      accessTokenExpiresAt: null,
+      refreshTokenExpiresAt: null,
+    })
+  }
+
+  it('redirects anonymous users back to the app', async () => {
+    const response = await SELF.fetch(`${SETUP_URL}?installation_id=1`, { redirect: 'manual' })
+    expect(response.headers.get('Location')).toBe('/?error=not_authenticated')
+  })
+
+  it("records an installation on the user's own account", async () => {
+    const { cookie } = await signedInGitHubUser(5001)
+    mockInstallation(201, { id: 5001, login: 'octocat', type: 'User' })
+
+    const response = await SELF.fetch(`${SETUP_URL}?installation_id=201&setup_action=install`, {
+      headers: { Cookie: cookie },
+      redirect: 'manual',
+    })
+    expect(response.headers.get('Location')).toBe('/')
+
+    const list = await SELF.fetch('http://localhost/api/github/installations', {
+      headers: { Cookie: cookie },
+    })
+    expect(await list.json()).toMatchObject({
+      installations: [{ installationId: 201, accountLogin: 'octocat', accountType: 'User' }],
+    })
+  })
+
+  it("refuses to claim another user's personal installation", async () => {
+    const { cookie } = await signedInGitHubUser(5002)
+    mockInstallation(202, { id: 9999, login: 'someone-else', type: 'User' })
+
+    const response = await SELF.fetch(`${SETUP_URL}?installation_id=202`, {
+      headers: { Cookie: cookie },
+      redirect: 'manual',
+    })
+    expect(response.headers.get('Location')).toBe('/?error=installation_forbidden')
+  })
+
+  it('accepts installations on any of the linked GitHub accounts', async () => {
+    const { user, cookie } = await signedInGitHubUser(5006)
+    await getDB(env.DB).insert(identities).values({
+      userId: user.id,
+      provider: 'github',
+      subject: '5007',
+      username: 'octocat-work',
+    })
+    mockInstallation(206, { id: 5007, login: 'octocat-work', type: 'User' })
+
+    const response = await SELF.fetch(`${SETUP_URL}?installation_id=206`, {
+      headers: { Cookie: cookie },
+      redirect: 'manual',
+    })
+    expect(response.headers.get('Location')).toBe('/')
+  })
+
+  it('records organization installations GitHub lists for the user', async () => {
+    const { identity, cookie } = await signedInGitHubUser(5003)
+    await saveUserToken(identity.id, 'ghu_5003')
+    mockInstallation(203, { id: 777, login: 'codiro-org', type: 'Organization' })
+    mockUserInstallations('ghu_5003', [203])
+
+    const response = await SELF.fetch(`${SETUP_URL}?installation_id=203`, {
+      headers: { Cookie: cookie },
+      redirect: 'manual',
+    })
+    expect(response.headers.get('Location')).toBe('/')
+  })
+
+  it('refuses organization installations the user cannot reach', async () => {
+    const { identity, cookie } = await signedInGitHubUser(5008)
+    await saveUserToken(identity.id, 'ghu_5008')
+    mockInstallation(208, { id: 777, login: 'codiro-org', type: 'Organization' })
+    mockUserInstallations('ghu_5008', [207])
+
+    const response = await SELF.fetch(`${SETUP_URL}?installation_id=208`, {
+      headers: { Cookie: cookie },
+      redirect: 'manual',
+    })
+    expect(response.headers.get('Location')).toBe('/?error=installation_forbidden')
+
+    // Without a stored user token there is nothing to confirm access with
+    const { cookie: tokenless } = await signedInGitHubUser(5009)
+    mockInstallation(208, { id: 777, login: 'codiro-org', type: 'Organization' })
+    const refused = await SELF.fetch(`${SETUP_URL}?installation_id=208`, {
+      headers: { Cookie: tokenless },
+      redirect: 'manual',
+    })
+    expect(refused.headers.get('Location')).toBe('/?error=installation_forbidden')
+  })
+
+  it('rejects installations unknown to GitHub', async () => {
+    const { cookie } = await signedInGitHubUser(5004)
+    fetchMock
+      .get(env.GITHUB_API_URL)
+      .intercept({ path: '/app/installations/204' })
+      .reply(404, { message: 'Not Found' })
+
+    const response = await SELF.fetch(`${SETUP_URL}?installation_id=204`, {
+      headers: { Cookie: cookie },
+      redirect: 'manual',
+    })
+    expect(response.headers.get('Location')).toBe('/?error=installation_not_found')
+  })
+})
+
+describe('Repository picker', () => {
+  const REPOSITORIES_URL = 'http://localhost/api/github/repositories'
+
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  function repository(id: number, owner: string, name: string, description: string | null = null) {
+    return {
+      id,
+      name,
+      full_name: `${owner}/${name}`,
+      owner: { id: id * 10, login: owner, type: 'User' },
+      private: false,
+      archived: false,
+      default_branch: 'main',
+      description,
+      html_url: `https://github.com/${owner}/${name}`,
+    }
+  }
+
+  async function linkInstallation(userId: string, installationId: number, login: string) {
+    const db = getDB(env.DB)
+    await db.insert(githubInstallations).values({
+      installationId,
+      accountId: installationId * 10,
+      accountLogin: login,
+      accountType: 'User',
+    })
+    await db.insert(githubInstallationUsers).values({ installationId, userId })
+  }
+
+  function mockInstallationToken(installationId: number) {
+    fetchMock
+      .get(env.GITHUB_API_URL)
+      .intercept({ path: `/app/installations/${installationId}/access_tokens`, method: 'POST' })
+      .reply(201, {
+        token: `ghs_${installationId}`,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      })
+  }
+
+  function mockRepositoryPage(
+    installationId: number,
+    page: number,
+    repositories: unknown[],
+    nextPage?: number
+  ) {
+    const path = `/installation/repositories?per_page=100${page > 1 ? `&page=${page}` : ''}`
+    const headers: Record<string, string> = nextPage
+      ? {
+          Link: `<${env.GITHUB_API_URL}/installation/repositories?per_page=100&page=${nextPage}>; rel="next"`,
+        }
+      : {}
+    fetchMock
+      .get(env.GITHUB_API_URL)
+      .intercept({
+        path,
+        headers: { Authorization: `Bearer ghs_${installationId}` },
+      })
+      .reply(200, { total_count: repositories.length, repositories }, { headers })
+  }
+
+  it('merges repositories across installations and marks linked ones', async () => {
+    const user = await createTestUser()
+    await linkInstallation(user.id, 301, 'octocat')
+    await linkInstallation(user.id, 302, 'codiro-org')
+    const project = await createTestProject(user, { githubOwner: 'Octocat', githubRepo: 'Hello' })
+
+    mockInstallationToken(301)
+    mockRepositoryPage(301, 1, [repository(1, 'octocat', 'hello')], 2)
+    mockRepositoryPage(301, 2, [repository(2, 'octocat', 'zeta')])
+    mockInstallationToken(302)
+    mockRepositoryPage(302, 1, [repository(3, 'codiro-org', 'api')])
+
+    const response = await SELF.fetch(REPOSITORIES_URL, {
+      headers: { Cookie: await authCookie(user) },
+    })
+
+    expect(await response.json()).toEqual({
+      repositories: [
+        expect.objectContaining({
+          fullName: 'codiro-org/api',
+          installationId: 302,
+          linkedProjectId: null,
+        }),
+        expect.objectContaining({
+          fullName: 'octocat/hello',
+          installationId: 301,
+          defaultBranch: 'main',
+          linkedProjectId: project.id,
+        }),
+        expect.objectContaining({ fullName: 'octocat/zeta', linkedProjectId: null }),
+      ],
+      page: 1,
+      perPage: 30,
+      totalCount: 3,
+      hasNextPage: false,
+    })
+  })
+
+  it('searches and paginates', async () => {
+    const user = await createTestUser()
+    await linkInstallation(user.id, 311, 'octocat')
+    mockInstallationToken(311)
+    mockRepositoryPage(311, 1, [
+      repository(11, 'octocat', 'api-server'),
+      repository(12, 'octocat', 'web', 'Frontend for the API'),
+      repository(13, 'octocat', 'docs'),
+      repository(14, 'octocat', 'api-client'),
+    ])
+
+    const response = await SELF.fetch(`${REPOSITORIES_URL}?q=API&perPage=2&page=2`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+
+    const body = await response.json<{ repositories: Array<{ fullName: string }> }>()
+    expect(body).toMatchObject({ page: 2, perPage: 2, totalCount: 3, hasNextPage: false })
+    expect(body.repositories.map((r) => r.fullName)).toEqual(['octocat/web'])
+  })
+
+  it('serves repeated requests from the cache until a refresh is requested', async () => {
+    const user = await createTestUser()
+    const cookie = await authCookie(user)
+    await linkInstallation(user.id, 321, 'octocat')
+    mockInstallationToken(321)
+    mockRepositoryPage(321, 1, [repository(21, 'octocat', 'cached')])
+
+    await SELF.fetch(REPOSITORIES_URL, { headers: { Cookie: cookie } })
+    const cached = await SELF.fetch(REPOSITORIES_URL, { headers: { Cookie: cookie } })
+    expect(await cached.json()).toMatchObject({ totalCount: 1 })
+
+    mockRepositoryPage(321, 1, [
+      repository(21, 'octocat', 'cached'),
+      repository(22, 'octocat', 'new'),
+    ])
+    const refreshed = await SELF.fetch(`${REPOSITORIES_URL}?refresh=true`, {
+      headers: { Cookie: cookie },
+    })
+    expect(await refreshed.json()).toMatchObject({ totalCount: 2 })
+  })
+
+  it('reports GitHub rate limits', async () => {
+    const user = await createTestUser()
+    await linkInstallation(user.id, 331, 'octocat')
+    mockInstallationToken(331)
+    fetchMock
+      .get(env.GITHUB_API_URL)
+      .intercept({ path: '/installation/repositories?per_page=100' })
+      .reply(
+        403,
+        { message: 'API rate limit exceeded' },
+        { headers: { 'X-RateLimit-Remaining': '0', 'Retry-After': '120' } }
+      )
+
+    const response = await SELF.fetch(REPOSITORIES_URL, {
+      headers: { Cookie: await authCookie(user) },
+    })
+
+    expect(response.status).toBe(503)
+    expect(response.headers.get('Retry-After')).toBe('120')
+  })
+
+  it('skips suspended installations', async () => {
+    const user = await createTestUser()
+    await linkInstallation(user.id, 341, 'octocat')
+    await getDB(env.DB)
+      .update(githubInstallations)
+      .set({ suspendedAt: new Date().toISOString() })
+      .where(eq(githubInstallations.installationId, 341))
+
+    const response = await SELF.fetch(REPOSITORIES_URL, {
+      headers: { Cookie: await authCookie(user) },
+    })
+
+    expect(await response.json()).toMatchObject({ repositories: [], totalCount: 0 })
+  })
+
+  it('validates pagination parameters', async () => {
+    const user = await createTestUser()
+    const response = await SELF.fetch(`${REPOSITORIES_URL}?perPage=500`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    expect(response.status).toBe(400)
+  })
+})
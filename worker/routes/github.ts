@@ -0,0 +1,165 @@
+import { Hono } from 'hono'
+import { findGitHubIdsForUser } from '../auth/identities'
+import { authMiddleware, optionalAuthMiddleware, requireScope } from '../auth/middleware'
+import { getAppInstallation } from '../github/app'
+import { GitHubRateLimitedError } from '../github/errors'
+import {
+  linkInstallationToUser,
+  listUserInstallations,
+  userCanAccessInstallation,
+} from '../github/installations'
+import { listInstallationRepositories, type InstallationRepository } from '../github/repositories'
+import { visibleProjectsCondition } from '../projects/access'
+import type { User } from '../types/auth'
+import { getDB } from '../db'
+import { projects } from '../../db/schema'
+
+const DEFAULT_PER_PAGE = 30
+const MAX_PER_PAGE = 100
+
+const github = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+/**
+ * GET /api/github/setup
+ * GitHub App "Setup URL": GitHub redirects here after the app is installed or reconfigured
+ */
+github.get('/setup', optionalAuthMiddleware, async (c) => {
+  const user = c.get('user')
+  if (!user) {
+    return c.redirect('/?error=not_authenticated')
+  }
+
+  const installationId = Number(c.req.query('installation_id'))
+  if (!Number.isSafeInteger(installationId) || installationId <= 0) {
+    return c.redirect('/?error=missing_params')
+  }
+
+  try {
+    // Confirm the installation belongs to this App before trusting the query parameter
+    const installation = await getAppInstallation(c.env, installationId)
+    if (!installation) {
+      return c.redirect('/?error=installation_not_found')
+    }
+
+    const db = getDB(c.env.DB)
+
+    // Installations on a personal account may only be claimed by that account's owner;
+    // organization installations by users GitHub lists them for
+    if (installation.account.type === 'User') {
+      const githubIds = await findGitHubIdsForUser(db, user.id)
+      if (!githubIds.includes(installation.account.id)) {
+        return c.redirect('/?error=installation_forbidden')
+      }
+    } else if (!(await userCanAccessInstallation(db, c.env, user.id, installationId))) {
+      return c.redirect('/?error=installation_forbidden')
+    }
+
+    await linkInstallationToUser(db, installation, user.id)
+
+    return c.redirect('/')
+  } catch (error) {
+    console.error('GitHub App setup error:', error)
+    return c.redirect('/?error=installation_failed')
+  }
+})
+
+/**
+ * GET /api/github/installations
+ * List GitHub App installations linked to the current user
+ */
+github.get('/installations', authMiddleware, async (c) => {
+  const db = getDB(c.env.DB)
+  const installations = await listUserInstallations(db, c.get('user').id)
+  return c.json({ installations })
+})
+
+/**
+ * GET /api/github/repositories
+ * Repositories reachable through the user's installations, for picking a project's repository
+ * Query: q (search), page, perPage (max 100), refresh=true (bypass the short cache)
+ */
+github.get('/repositories', authMiddleware, requireScope('projects:read'), async (c) => {
+  const page = parsePositiveInt(c.req.query('page'), 1)
+  const perPage = parsePositiveInt(c.req.query('perPage'), DEFAULT_PER_PAGE)
+
+  if (page === null || perPage === null || perPage > MAX_PER_PAGE) {
+    return c.json({ error: `page must be >= 1 and perPage between 1 and ${MAX_PER_PAGE}` }, 400)
+  }
+
+  const user = c.get('user')
+  const db = getDB(c.env.DB)
+  const installations = (await listUserInstallations(db, user.id)).filter(
+    (installation) => !installation.suspendedAt
+  )
+
+  const results = await Promise.allSettled(
+    installations.map((installation) =>
+      listInstallationRepositories(c.env, installation.installationId, {
+        refresh: c.req.query('refresh') === 'true',
+      })
+    )
+  )
+
+  const repositories = new Map<number, InstallationRepository>()
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      result.value.forEach((repository) => repositories.set(repository.id, repository))
+      continue
+    }
+
+    if (result.reason instanceof GitHubRateLimitedError) {
+      if (result.reason.retryAfter !== null) {
+        c.header('Retry-After', String(result.reason.retryAfter))
+      }
+      return c.json({ error: 'GitHub rate limit exceeded, try again later' }, 503)
+    }
+
+    // One broken installation should not hide the others
+    console.error('Failed to list installation repositories:', result.reason)
+  }
+
+  const search = c.req.query('q')?.trim().toLowerCase()
+  const matches = [...repositories.values()]
+    .filter(
+      (repository) =>
+        !search ||
+        repository.fullName.toLowerCase().includes(search) ||
+        repository.description?.toLowerCase().includes(search)
+    )
+    .sort((a, b) => a.fullName.localeCompare(b.fullName))
+
+  // Mark repositories that already back one of the projects the user can see
+  const userProjects = await db
+    .select({ id: projects.id, githubOwner: projects.githubOwner, githubRepo: projects.githubRepo })
+    .from(projects)
+    .where(visibleProjectsCondition(db, user.id))
+  const linked = new Map(
+    userProjects.map((project) => [
+      `${project.githubOwner}/${project.githubRepo}`.toLowerCase(),
+      project.id,
+    ])
+  )
+
+  const start = (page - 1) * perPage
+
+  return c.json({
+    repositories: matches.slice(start, start + perPage).map((repository) => ({
+      ...repository,
+      linkedProjectId: linked.get(repository.fullName.toLowerCase()) ?? null,
+    })),
+    page,
+    perPage,
+    totalCount: matches.length,
+    hasNextPage: start + perPage < matches.length,
+  })
+})
+
+function parsePositiveInt(value: string | undefined, fallback: number): number | null {
+  if (value === undefined) {
+    return fallback
+  }
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : null
+}
+
+export default github
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest'
+import { SELF, env, fetchMock } from 'cloudflare:test'
+import { and, eq } from 'drizzle-orm'
+import { createFakeOIDCServer } from '../test/fake-oidc'
+import { authCookie, createTestUser, startSignIn } from '../test/helpers'
+import { getDB } from '../db'
+import { identities, sessions, users, type User } from '../../db/schema'
+
+type FakeOIDCServer = Awaited<ReturnType<typeof createFakeOIDCServer>>
+
+async function createUserWithIdentity(provider: string, subject: string) {
+  const user = await createTestUser()
+  const [identity] = await getDB(env.DB)
+    .insert(identities)
+    .values({ userId: user.id, provider, subject, username: user.username })
+    .returning()
+  return { user, identity, cookie: await authCookie(user) }
+}
+
+function findIdentity(provider: string, subject: string) {
+  return getDB(env.DB).query.identities.findFirst({
+    where: and(eq(identities.provider, provider), eq(identities.subject, subject)),
+  })
+}
+
+describe('Linking identities', () => {
+  let idp: FakeOIDCServer
+
+  beforeAll(async () => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+    idp = await createFakeOIDCServer({ issuer: 'https://idp.test', clientId: 'codiro-test' })
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  async function linkAcmeAccount(cookie: string, subject: string) {
+    const flow = await startSignIn('acme/link', cookie)
+    const code = await idp.authorize(flow.authorizationUrl, {
+      sub: subject,
+      preferred_username: 'work',
+    })
+    idp.expectTokenExchange()
+    return SELF.fetch(`http://localhost/api/auth/acme/callback?code=${code}&state=${flow.state}`, {
+      headers: { Cookie: `${cookie}; ${flow.cookie}` },
+      redirect: 'manual',
+    })
+  }
+
+  async function sessionCount(user: User) {
+    const rows = await getDB(env.DB).query.sessions.findMany({
+      where: eq(sessions.userId, user.id),
+    })
+    return rows.length
+  }
+
+  it('attaches the identity to the signed-in user', async () => {
+    const { user, cookie } = await createUserWithIdentity('github', '6001')
+    const sessionsBefore = await sessionCount(user)
+
+    const response = await linkAcmeAccount(cookie, 'acme-link-1')
+
+    expect(response.headers.get('Location')).toBe('/')
+    expect(await findIdentity('acme', 'acme-link-1')).toMatchObject({
+      userId: user.id,
+      username: 'work',
+    })
+    // Linking keeps the current sign-in instead of starting a new one
+    expect(await sessionCount(user)).toBe(sessionsBefore)
+    expect(response.headers.getSetCookie().some((c) => c.startsWith('access_token='))).toBe(false)
+  })
+
+  it('accepts an identity that is already linked to the same user', async () => {
+    const { user, cookie } = await createUserWithIdentity('acme', 'acme-link-2')
+
+    const response = await linkAcmeAccount(cookie, 'acme-link-2')
+
+    expect(response.headers.get('Location')).toBe('/')
+    expect(await findIdentity('acme', 'acme-link-2')).toMatchObject({ userId: user.id })
+  })
+
+  it("refuses to take over another user's identity", async () => {
+    const owner = await createUserWithIdentity('acme', 'acme-link-3')
+    const { cookie } = await createUserWithIdentity('github', '6003')
+
+    const response = await linkAcmeAccount(cookie, 'acme-link-3')
+
+    expect(response.headers.get('Location')).toBe('/?error=identity_in_use')
+    expect(await findIdentity('acme', 'acme-link-3')).toMatchObject({ userId: owner.user.id })
+  })
+
+  it('keeps the user profile when signing in with a linked identity', async () => {
+    const { user, cookie } = await createUserWithIdentity('github', '6004')
+    await linkAcmeAccount(cookie, 'acme-link-4')
+
+    const flow = await startSignIn('acme')
+    const code = await idp.authorize(flow.authorizationUrl, {
+      sub: 'acme-link-4',
+      preferred_username: 'work.renamed',
+      picture: 'https://idp.test/work.png',
+    })
+    idp.expectTokenExchange()
+    await SELF.fetch(`http://localhost/api/auth/acme/callback?code=${code}&state=${flow.state}`, {
+      headers: { Cookie: flow.cookie },
+      redirect: 'manual',
+    })
+
+    expect(await findIdentity('acme', 'acme-link-4')).toMatchObject({ username: 'work.renamed' })
+    const after = await getDB(env.DB).query.users.findFirst({ where: eq(users.id, user.id) })
+    expect(after).toMatchObject({ username: user.username, avatarUrl: user.avatarUrl })
+  })
+
+  it('requires a signed-in user', async () => {
+    const response = await SELF.fetch('http://localhost/api/auth/acme/link', {
+      redirect: 'manual',
+    })
+    expect(response.status).toBe(401)
+  })
+})
+
+describe('Managing identities', () => {
+  it("lists the current user's identities", async () => {
+    const { user, identity, cookie } = await createUserWithIdentity('github', '7001')
+    await createUserWithIdentity('github', '7002')
+
+    const response = await SELF.fetch('http://localhost/api/auth/identities', {
+      headers: { Cookie: cookie },
+    })
+
+    expect(await response.json()).toEqual({
+      identities: [
+        {
+          id: identity.id,
+          provider: 'github',
+          username: user.username,
+          email: null,
+          createdAt: expect.any(String),
+        },
+      ],
+    })
+  })
+
+  it('unlinks an identity but never the last one', async () => {
+    const { user, identity, cookie } = await createUserWithIdentity('github', '7101')
+    const [second] = await getDB(env.DB)
+      .insert(identities)
+      .values({ userId: user.id, provider: 'acme', subject: 'acme-7101', username: 'work' })
+      .returning()
+
+    const unlinked = await SELF.fetch(`http://localhost/api/auth/identities/${second.id}`, {
+      method: 'DELETE',
+      headers: { Cookie: cookie },
+    })
+    expect(unlinked.status).toBe(200)
+    expect(await findIdentity('acme', 'acme-7101')).toBeUndefined()
+
+    const last = await SELF.fetch(`http://localhost/api/auth/identities/${identity.id}`, {
+      method: 'DELETE',
+      headers: { Cookie: cookie },
+    })
+    expect(last.status).toBe(409)
+    expect(await findIdentity('github', '7101')).toBeDefined()
+  })
+
+  it("cannot unlink another user's identity", async () => {
+    const other = await createUserWithIdentity('github', '7201')
+    await getDB(env.DB)
+      .insert(identities)
+      .values({ userId: other.user.id, provider: 'acme', subject: 'acme-7201', username: 'x' })
+    const { cookie } = await createUserWithIdentity('github', '7202')
+
+    const response = await SELF.fetch(`http://localhost/api/auth/identities/${other.identity.id}`, {
+      method: 'DELETE',
+      headers: { Cookie: cookie },
+    })
+    expect(response.status).toBe(404)
+    expect(await findIdentity('github', '7201')).toBeDefined()
+  })
+})
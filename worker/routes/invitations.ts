@@ -0,0 +1,42 @@
+import { Hono } from 'hono'
+import { auditRequest } from '../audit/events'
+import { authMiddleware, requireSessionAuth } from '../auth/middleware'
+import type { User } from '../types/auth'
+import { acceptInvitation } from '../workspaces/invitations'
+import { getDB } from '../db'
+
+const invitations = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+/**
+ * POST /api/invitations/accept
+ * Join a workspace with an invite token (`{ token }`); the signed-in user must be the invitee
+ */
+invitations.post('/accept', authMiddleware, requireSessionAuth, async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const token = (body as { token?: unknown } | null)?.token
+
+  if (typeof token !== 'string' || !token) {
+    return c.json({ error: 'token is required' }, 400)
+  }
+
+  const result = await acceptInvitation(getDB(c.env.DB), token, c.get('user').id)
+
+  switch (result.status) {
+    case 'not_found':
+      return c.json({ error: 'Invitation not found or expired' }, 404)
+    case 'wrong_user':
+      return c.json({ error: 'This invitation is for another user' }, 403)
+    case 'already_member':
+      return c.json({ error: 'Already a member of this workspace' }, 409)
+  }
+
+  auditRequest(c, {
+    action: 'workspace.member.joined',
+    target: { type: 'workspace', id: result.workspace.id },
+    metadata: { invitationId: result.invitation.id, role: result.role },
+  })
+
+  return c.json({ workspace: result.workspace, role: result.role })
+})
+
+export default invitations
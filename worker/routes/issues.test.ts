@@ -0,0 +1,424 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest'
+import { SELF, env, fetchMock } from 'cloudflare:test'
+import { githubComment, githubIssue } from '../test/fakes'
+import { authCookie, createTestProject, createTestUser, sendWebhook } from '../test/helpers'
+import type { GitHubIssue, GitHubIssueComment } from '../types/github'
+import type { User } from '../../db/schema'
+
+const repository = {
+  id: 1,
+  name: 'codiro',
+  full_name: 'octocat/codiro',
+  owner: { login: 'octocat' },
+  default_branch: 'main',
+}
+const sender = { id: 1, login: 'octocat', type: 'User' }
+// Installation of the mirrored projects; events only reach projects using theirs
+const INSTALLATION_ID = 93
+
+function issuesEvent(action: string, issue: GitHubIssue, installationId = INSTALLATION_ID) {
+  return sendWebhook('issues', {
+    action,
+    repository,
+    sender,
+    installation: { id: installationId },
+    issue,
+  })
+}
+
+function commentEvent(action: string, issue: GitHubIssue, comment: GitHubIssueComment) {
+  return sendWebhook('issue_comment', {
+    action,
+    repository,
+    sender,
+    installation: { id: INSTALLATION_ID },
+    issue,
+    comment,
+  })
+}
+
+async function listIssues(user: User, projectId: string, query = '') {
+  const response = await SELF.fetch(`http://localhost/api/projects/${projectId}/issues${query}`, {
+    headers: { Cookie: await authCookie(user) },
+  })
+  return { status: response.status, body: await response.json<Record<string, unknown>>() }
+}
+
+async function issueNumbers(user: User, projectId: string, query = '') {
+  const { body } = await listIssues(user, projectId, query)
+  return (body.issues as Array<{ number: number }>).map((issue) => issue.number)
+}
+
+describe('Issue mirror', () => {
+  it('mirrors issues from webhooks and lists them', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+
+    await issuesEvent(
+      'opened',
+      githubIssue(1, {
+        title: 'Add dark mode',
+        labels: [{ name: 'enhancement' }],
+        assignees: [{ login: 'hubot' }],
+      })
+    )
+
+    const { status, body } = await listIssues(user, project.id)
+    expect(status).toBe(200)
+    expect(body).toMatchObject({
+      issues: [
+        {
+          number: 1,
+          title: 'Add dark mode',
+          state: 'open',
+          labels: ['enhancement'],
+          assignees: ['hubot'],
+          htmlUrl: 'https://github.com/octocat/codiro/issues/1',
+        },
+      ],
+      totalCount: 1,
+      hasNextPage: false,
+      sync: { backfilledAt: null, lastSyncedAt: null },
+    })
+  })
+
+  it('only mirrors into projects using the installation of the event', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+    // Anyone can name a project after a repository; it must not receive that repository's issues
+    const other = await createTestUser()
+    const lookalike = await createTestProject(other, { installationId: 94 })
+
+    await issuesEvent('opened', githubIssue(1))
+
+    expect(await issueNumbers(user, project.id)).toEqual([1])
+    expect(await issueNumbers(other, lookalike.id)).toEqual([])
+  })
+
+  it('ignores payloads older than the mirrored issue', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+
+    await issuesEvent(
+      'edited',
+      githubIssue(2, { title: 'New title', updated_at: '2025-02-02T00:00:00Z' })
+    )
+    await issuesEvent(
+      'edited',
+      githubIssue(2, { title: 'Old title', updated_at: '2025-02-01T00:00:00Z' })
+    )
+
+    const { body } = await listIssues(user, project.id)
+    expect(body.issues).toMatchObject([{ number: 2, title: 'New title' }])
+  })
+
+  it('drops deleted and transferred issues', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+
+    await issuesEvent('opened', githubIssue(3))
+    await issuesEvent('opened', githubIssue(4))
+    await issuesEvent('deleted', githubIssue(3))
+    await issuesEvent('transferred', githubIssue(4))
+
+    expect(await issueNumbers(user, project.id)).toEqual([])
+  })
+
+  it('does not mirror pull requests', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+
+    await issuesEvent('opened', githubIssue(5, { pull_request: { url: 'https://x.test/pr/5' } }))
+
+    expect(await issueNumbers(user, project.id, '?state=all')).toEqual([])
+  })
+
+  it('filters by state, labels, assignee and search', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+
+    await issuesEvent(
+      'opened',
+      githubIssue(10, {
+        title: 'Crash on login',
+        labels: [{ name: 'bug' }, { name: 'P1' }],
+        assignees: [{ login: 'Hubot' }],
+        updated_at: '2025-03-03T00:00:00Z',
+      })
+    )
+    await issuesEvent(
+      'opened',
+      githubIssue(11, {
+        title: 'Dark mode',
+        body: 'Support 100% of themes',
+        labels: [{ name: 'bug' }],
+        updated_at: '2025-03-02T00:00:00Z',
+      })
+    )
+    await issuesEvent(
+      'closed',
+      githubIssue(12, {
+        title: 'Old crash',
+        state: 'closed',
+        state_reason: 'completed',
+        closed_at: '2025-03-01T00:00:00Z',
+        updated_at: '2025-03-01T00:00:00Z',
+      })
+    )
+
+    expect(await issueNumbers(user, project.id)).toEqual([10, 11])
+    expect(await issueNumbers(user, project.id, '?state=closed')).toEqual([12])
+    expect(await issueNumbers(user, project.id, '?state=all')).toEqual([10, 11, 12])
+    expect(await issueNumbers(user, project.id, '?label=BUG')).toEqual([10, 11])
+    expect(await issueNumbers(user, project.id, '?label=bug&label=p1')).toEqual([10])
+    expect(await issueNumbers(user, project.id, '?assignee=hubot')).toEqual([10])
+    expect(await issueNumbers(user, project.id, '?assignee=none')).toEqual([11])
+    expect(await issueNumbers(user, project.id, '?state=all&q=crash')).toEqual([10, 12])
+    expect(await issueNumbers(user, project.id, '?q=100%25')).toEqual([11])
+    expect(await issueNumbers(user, project.id, '?q=%25')).toEqual([11])
+    expect(await issueNumbers(user, project.id, '?state=all&q=%2312')).toEqual([12])
+  })
+
+  it('paginates', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+
+    for (const number of [20, 21, 22]) {
+      await issuesEvent(
+        'opened',
+        githubIssue(number, { updated_at: `2025-04-0${number - 19}T00:00:00Z` })
+      )
+    }
+
+    const { body } = await listIssues(user, project.id, '?perPage=2&page=1')
+    expect(body).toMatchObject({ page: 1, perPage: 2, totalCount: 3, hasNextPage: true })
+    expect(await issueNumbers(user, project.id, '?perPage=2&page=2')).toEqual([20])
+  })
+
+  it('rejects invalid filters', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+
+    expect((await listIssues(user, project.id, '?state=merged')).status).toBe(400)
+    expect((await listIssues(user, project.id, '?perPage=500')).status).toBe(400)
+  })
+
+  it("hides other users' projects", async () => {
+    const owner = await createTestUser()
+    const other = await createTestUser()
+    const project = await createTestProject(owner)
+
+    expect((await listIssues(other, project.id)).status).toBe(404)
+  })
+
+  it('mirrors comments and keeps tombstones for deleted ones', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+    const issue = githubIssue(30, { comments: 2 })
+
+    await commentEvent('created', issue, githubComment(501, 30, { body: 'First' }))
+    await commentEvent('created', issue, githubComment(502, 30, { body: 'Second' }))
+    await commentEvent(
+      'edited',
+      issue,
+      githubComment(501, 30, { body: 'First, edited', updated_at: '2025-01-02T00:00:00Z' })
+    )
+    await commentEvent(
+      'deleted',
+      { ...issue, comments: 1, updated_at: '2025-01-04T00:00:00Z' },
+      githubComment(502, 30)
+    )
+    // A late "edited" delivery must not bring the comment back
+    await commentEvent(
+      'edited',
+      issue,
+      githubComment(502, 30, { body: 'Resurrected', updated_at: '2025-01-03T00:00:00Z' })
+    )
+
+    const response = await SELF.fetch(`http://localhost/api/projects/${project.id}/issues/30`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    expect(await response.json()).toMatchObject({
+      issue: {
+        number: 30,
+        body: 'Please add a greeting.',
+        commentsCount: 1,
+        comments: [
+          { githubId: 501, body: 'First, edited', deleted: false },
+          { githubId: 502, body: null, deleted: true },
+        ],
+      },
+    })
+  })
+
+  it('ignores pull request comments', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+    const pullRequest = githubIssue(31, { pull_request: { url: 'https://x.test/pr/31' } })
+
+    const response = await commentEvent('created', pullRequest, githubComment(503, 31))
+    expect(await response.json()).toEqual({ ok: true, outcome: 'processed' })
+
+    const detail = await SELF.fetch(`http://localhost/api/projects/${project.id}/issues/31`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    expect(detail.status).toBe(404)
+  })
+})
+
+describe('Issue board', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  function moveIssue(user: User, projectId: string, number: number, column: unknown) {
+    return authCookie(user).then((cookie) =>
+      SELF.fetch(`http://localhost/api/projects/${projectId}/issues/${number}/move`, {
+        method: 'POST',
+        headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ column }),
+      })
+    )
+  }
+
+  function githubApi(installationId: number) {
+    const api = fetchMock.get(env.GITHUB_API_URL)
+    api
+      .intercept({ path: `/app/installations/${installationId}/access_tokens`, method: 'POST' })
+      .reply(201, { token: 'ghs_test', expires_at: new Date(Date.now() + 3600_000).toISOString() })
+    return api
+  }
+
+  it('lists issues with the column of the project mapping', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: INSTALLATION_ID })
+    await issuesEvent('opened', githubIssue(1))
+    await issuesEvent('opened', githubIssue(2, { labels: [{ name: 'in review' }] }))
+    await issuesEvent('opened', githubIssue(3, { labels: [{ name: 'Doing' }] }))
+    await issuesEvent('closed', githubIssue(4, { state: 'closed' }))
+
+    const columns = async () => {
+      const { body } = await listIssues(user, project.id, '?state=all')
+      const rows = body.issues as Array<{ number: number; column: string }>
+      return Object.fromEntries(rows.map((issue) => [issue.number, issue.column]))
+    }
+    expect(await columns()).toEqual({ 1: 'backlog', 2: 'in_review', 3: 'backlog', 4: 'done' })
+
+    await SELF.fetch(`http://localhost/api/projects/${project.id}`, {
+      method: 'PATCH',
+      headers: { Cookie: await authCookie(user), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        boardColumns: { backlog: null, in_progress: 'Doing', in_review: null, done: null },
+      }),
+    })
+    expect(await columns()).toEqual({ 1: 'backlog', 2: 'backlog', 3: 'in_progress', 4: 'done' })
+  })
+
+  it('moves an issue to Done by closing it on GitHub', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 91 })
+    await issuesEvent(
+      'opened',
+      githubIssue(5, { labels: [{ name: 'bug' }, { name: 'In Review' }] }),
+      91
+    )
+
+    githubApi(91)
+      .intercept({
+        path: '/repos/octocat/codiro/issues/5',
+        method: 'PATCH',
+        body: JSON.stringify({ labels: ['bug'], state: 'closed' }),
+      })
+      .reply(
+        200,
+        githubIssue(5, {
+          state: 'closed',
+          state_reason: 'completed',
+          labels: [{ name: 'bug' }],
+          updated_at: '2025-01-05T00:00:00Z',
+        })
+      )
+
+    const response = await moveIssue(user, project.id, 5, 'done')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      issue: { number: 5, state: 'closed', labels: ['bug'], column: 'done' },
+      job: null,
+    })
+  })
+
+  it('starts a job when an issue moves to In Progress', async () => {
+    const user = await createTestUser()
+    // A job budget of 0 refuses the job, so nothing runs in the background
+    const project = await createTestProject(user, { installationId: 92, monthlyJobLimit: 0 })
+    await issuesEvent('opened', githubIssue(6, { title: 'Add dark mode' }), 92)
+
+    const api = githubApi(92)
+    api
+      .intercept({
+        path: '/repos/octocat/codiro/issues/6',
+        method: 'PATCH',
+        body: JSON.stringify({ labels: ['In Progress'], state: 'open' }),
+      })
+      .reply(
+        200,
+        githubIssue(6, {
+          title: 'Add dark mode',
+          labels: [{ name: 'In Progress' }],
+          updated_at: '2025-01-05T00:00:00Z',
+        })
+      )
+    api.intercept({ path: '/repos/octocat/codiro/issues/6/comments', method: 'POST' }).reply(201, {
+      html_url: 'https://github.com/octocat/codiro/issues/6#issuecomment-1',
+    })
+
+    const response = await moveIssue(user, project.id, 6, 'in_progress')
+
+    expect(await response.json()).toMatchObject({
+      issue: { number: 6, column: 'in_progress' },
+      job: { issueNumber: 6, trigger: 'board', status: 'failed' },
+    })
+    // The quota refusal is announced on the issue
+    await vi.waitFor(() => fetchMock.assertNoPendingInterceptors())
+  })
+
+  it('validates moves', async () => {
+    const user = await createTestUser()
+    const unlinked = await createTestProject(user)
+
+    expect((await moveIssue(user, unlinked.id, 7, 'archive')).status).toBe(400)
+    expect((await moveIssue(user, unlinked.id, 7, 'done')).status).toBe(409)
+
+    const other = await createTestUser()
+    expect((await moveIssue(other, unlinked.id, 7, 'done')).status).toBe(404)
+  })
+  it('needs jobs:write only to move an issue to In Progress', async () => {
+    const user = await createTestUser()
+    const unlinked = await createTestProject(user)
+    const created = await SELF.fetch('http://localhost/api/auth/tokens', {
+      method: 'POST',
+      headers: { Cookie: await authCookie(user), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Board', scopes: ['projects:write'] }),
+    })
+    const { token } = await created.json<{ token: string }>()
+    const moveWithToken = (column: string) =>
+      SELF.fetch(`http://localhost/api/projects/${unlinked.id}/issues/7/move`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ column }),
+      })
+
+    // Past the scope check: the project has no installation
+    expect((await moveWithToken('done')).status).toBe(409)
+
+    const starting = await moveWithToken('in_progress')
+    expect(starting.status).toBe(403)
+    expect(await starting.json()).toEqual({ error: 'Token is missing the jobs:write scope' })
+  })
+})
@@ -0,0 +1,281 @@
+import { Hono } from 'hono'
+import { and, asc, count, desc, eq, inArray } from 'drizzle-orm'
+import { auditRequest } from '../audit/events'
+import { checkScope, requireScope } from '../auth/middleware'
+import { createInstallationClient } from '../github/app'
+import { GitHubError } from '../github/errors'
+import { boardColumnOf, moveIssueToColumn } from '../issues/board'
+import { issueListConditions, parseIssueListQuery } from '../issues/filters'
+import { enqueueJob } from '../jobs/queue'
+import { startQueuedJob } from '../jobs/runner'
+import { ACTIVE_JOB_STATUSES } from '../jobs/state'
+import { authorizeProject, denyProjectAccess } from '../projects/access'
+import { readUsageLimits } from '../quotas/limits'
+import type { User } from '../types/auth'
+import { getDB } from '../db'
+import { jobSummary } from './jobs'
+import {
+  BOARD_COLUMNS,
+  issueComments,
+  issueSyncs,
+  issues,
+  jobs,
+  type BoardColumn,
+  type IssueComment,
+} from '../../db/schema'
+
+// Mounted at /api/projects/:projectId/issues; authMiddleware is applied by the projects router
+const issueRoutes = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+const issueSummary = {
+  number: issues.number,
+  title: issues.title,
+  state: issues.state,
+  stateReason: issues.stateReason,
+  authorLogin: issues.authorLogin,
+  labels: issues.labels,
+  assignees: issues.assignees,
+  commentsCount: issues.commentsCount,
+  htmlUrl: issues.htmlUrl,
+  githubCreatedAt: issues.githubCreatedAt,
+  githubUpdatedAt: issues.githubUpdatedAt,
+  closedAt: issues.closedAt,
+}
+
+/**
+ * GET /api/projects/:projectId/issues
+ * List mirrored issues, most recently updated first, with their board column
+ * Filters: state (open, closed, all), label (repeatable, all must match), assignee (login or
+ * "none"), q (title, body or issue number).
+ */
+issueRoutes.get('/', requireScope('projects:read'), async (c) => {
+  const input = parseIssueListQuery({
+    state: c.req.query('state'),
+    label: c.req.queries('label') ?? [],
+    assignee: c.req.query('assignee'),
+    q: c.req.query('q'),
+    page: c.req.query('page'),
+    perPage: c.req.query('perPage'),
+  })
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    c.get('user').id,
+    'project.view'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  const { page, perPage } = input.data
+  const where = issueListConditions(project.id, input.data)
+
+  const [rows, [{ total }], sync] = await Promise.all([
+    db
+      .select(issueSummary)
+      .from(issues)
+      .where(where)
+      .orderBy(desc(issues.githubUpdatedAt), desc(issues.number))
+      .limit(perPage)
+      .offset((page - 1) * perPage),
+    db.select({ total: count() }).from(issues).where(where),
+    db.query.issueSyncs.findFirst({ where: eq(issueSyncs.projectId, project.id) }),
+  ])
+
+  return c.json({
+    issues: rows.map((issue) => ({ ...issue, column: boardColumnOf(issue, project.boardColumns) })),
+    page,
+    perPage,
+    totalCount: total,
+    hasNextPage: page * perPage < total,
+    sync: {
+      backfilledAt: sync?.backfilledAt ?? null,
+      lastSyncedAt: sync?.lastSyncedAt ?? null,
+    },
+  })
+})
+
+/**
+ * GET /api/projects/:projectId/issues/:number
+ * Get a mirrored issue with its comments; deleted comments are returned as tombstones
+ */
+issueRoutes.get('/:number', requireScope('projects:read'), async (c) => {
+  const number = Number(c.req.param('number'))
+  if (!Number.isInteger(number) || number < 1) {
+    return c.json({ error: 'Issue not found' }, 404)
+  }
+
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    c.get('user').id,
+    'project.view'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  const issue = await db
+    .select({ ...issueSummary, body: issues.body })
+    .from(issues)
+    .where(and(eq(issues.projectId, project.id), eq(issues.number, number)))
+    .get()
+
+  if (!issue) {
+    return c.json({ error: 'Issue not found' }, 404)
+  }
+
+  const comments = await db
+    .select()
+    .from(issueComments)
+    .where(and(eq(issueComments.projectId, project.id), eq(issueComments.issueNumber, number)))
+    .orderBy(asc(issueComments.githubCreatedAt), asc(issueComments.githubId))
+
+  return c.json({
+    issue: {
+      ...issue,
+      column: boardColumnOf(issue, project.boardColumns),
+      comments: comments.map(serializeComment),
+    },
+  })
+})
+
+/**
+ * POST /api/projects/:projectId/issues/:number/move
+ * Move an issue to a board column: sets the column's label (and state) on GitHub, and moving it
+ * to In Progress starts a job unless one is active, which also needs jobs:write. Body: { column }
+ */
+issueRoutes.post('/:number/move', requireScope('projects:write'), async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const column = (body as { column?: unknown } | null)?.column
+  if (!BOARD_COLUMNS.includes(column as BoardColumn)) {
+    return c.json({ error: `column must be one of: ${BOARD_COLUMNS.join(', ')}` }, 400)
+  }
+
+  const denied = column === 'in_progress' ? checkScope(c, 'jobs:write') : null
+  if (denied) {
+    return denied
+  }
+
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    c.get('user').id,
+    'issue.move'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  if (project.archivedAt) {
+    return c.json({ error: 'Archived projects cannot be modified' }, 409)
+  }
+
+  if (!project.installationId) {
+    return c.json({ error: 'Project is not linked to a GitHub App installation' }, 409)
+  }
+
+  const issue = await db.query.issues.findFirst({
+    where: and(eq(issues.projectId, project.id), eq(issues.number, Number(c.req.param('number')))),
+  })
+
+  if (!issue) {
+    return c.json({ error: 'Issue not found' }, 404)
+  }
+
+  const target = column as BoardColumn
+  let moved
+  try {
+    const client = await createInstallationClient(c.env, project.installationId)
+    moved = await moveIssueToColumn(db, client, project, issue, target)
+  } catch (error) {
+    if (error instanceof GitHubError) {
+      console.error('Moving issue failed:', project.id, issue.number, error)
+      return c.json({ error: `GitHub refused to update the issue: ${error.message}` }, 502)
+    }
+    throw error
+  }
+
+  auditRequest(c, {
+    action: 'issue.moved',
+    target: { type: 'issue', id: String(issue.number) },
+    projectId: project.id,
+    metadata: { from: boardColumnOf(issue, project.boardColumns), to: target },
+  })
+
+  let job = null
+  if (target === 'in_progress') {
+    const ref = { number: issue.number, title: moved.title, url: moved.html_url }
+    const queued = await enqueueJob(db, project, ref, 'board', readUsageLimits(c.env, project))
+    if (queued) {
+      await startQueuedJob(
+        {
+          db,
+          env: c.env,
+          waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+          actor: { type: 'user', id: c.get('user').id },
+        },
+        project,
+        issue.number,
+        queued
+      )
+    }
+    // Without a new job, the one already active (possibly queued by the label's webhook)
+    job = await db
+      .select(jobSummary)
+      .from(jobs)
+      .where(
+        queued
+          ? eq(jobs.id, queued.job.id)
+          : and(
+              eq(jobs.projectId, project.id),
+              eq(jobs.issueNumber, issue.number),
+              inArray(jobs.status, ACTIVE_JOB_STATUSES)
+            )
+      )
+      .get()
+  }
+
+  const summary = await db
+    .select(issueSummary)
+    .from(issues)
+    .where(and(eq(issues.projectId, project.id), eq(issues.number, issue.number)))
+    .get()
+
+  return c.json({
+    issue: { ...summary!, column: boardColumnOf(summary!, project.boardColumns) },
+    job: job ?? null,
+  })
+})
+
+function serializeComment(comment: IssueComment) {
+  return {
+    githubId: comment.githubId,
+    authorLogin: comment.authorLogin,
+    authorType: comment.authorType,
+    body: comment.body,
+    htmlUrl: comment.htmlUrl,
+    githubCreatedAt: comment.githubCreatedAt,
+    githubUpdatedAt: comment.githubUpdatedAt,
+    deleted: comment.deletedAt !== null,
+  }
+}
+
+export default issueRoutes
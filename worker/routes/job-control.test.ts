@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { SELF, env } from 'cloudflare:test'
+import { enqueueJob } from '../jobs/queue'
+import { recordJobStep } from '../jobs/steps'
+import { readUsageLimits } from '../quotas/limits'
+import type { JobLogMessage } from '../types/jobs'
+import { authCookie, createTestProject, createTestUser } from '../test/helpers'
+import { getDB } from '../db'
+import type { User } from '../../db/schema'
+
+async function queuedJob(user: User) {
+  const db = getDB(env.DB)
+  const project = await createTestProject(user, { installationId: 81 })
+  const queued = await enqueueJob(
+    db,
+    project,
+    { number: 5, title: 'Add greeting', url: null },
+    'issue_label',
+    readUsageLimits(env, project)
+  )
+  return queued!.job
+}
+
+async function cancel(user: User, jobId: string) {
+  return SELF.fetch(`http://localhost/api/jobs/${jobId}/cancel`, {
+    method: 'POST',
+    headers: { Cookie: await authCookie(user) },
+  })
+}
+
+// Open the live log and collect its messages until the server closes it
+async function openLog(user: User, jobId: string) {
+  const response = await SELF.fetch(`http://localhost/api/jobs/${jobId}/logs`, {
+    headers: { Cookie: await authCookie(user), Upgrade: 'websocket' },
+  })
+  const ws = response.webSocket!
+  const messages: JobLogMessage[] = []
+  const closed = new Promise<number>((resolve) =>
+    ws.addEventListener('close', (event) => resolve(event.code))
+  )
+  ws.addEventListener('message', (event) => {
+    messages.push(JSON.parse(event.data as string))
+  })
+  ws.accept()
+  return { response, messages, closed }
+}
+
+describe('Job control routes', () => {
+  it('cancels a queued job once', async () => {
+    const user = await createTestUser()
+    const job = await queuedJob(user)
+
+    const response = await cancel(user, job.id)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ job: { id: job.id, status: 'cancelled' } })
+
+    const again = await cancel(user, job.id)
+    expect(again.status).toBe(409)
+    expect(await again.json()).toEqual({ error: 'Job has already finished' })
+  })
+
+  it("hides other users' jobs", async () => {
+    const job = await queuedJob(await createTestUser())
+    const other = await createTestUser()
+
+    expect((await cancel(other, job.id)).status).toBe(404)
+    const logs = await SELF.fetch(`http://localhost/api/jobs/${job.id}/logs`, {
+      headers: { Cookie: await authCookie(other), Upgrade: 'websocket' },
+    })
+    expect(logs.status).toBe(404)
+  })
+
+  it('requires a WebSocket upgrade for the live log', async () => {
+    const user = await createTestUser()
+    const job = await queuedJob(user)
+
+    const response = await SELF.fetch(`http://localhost/api/jobs/${job.id}/logs`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    expect(response.status).toBe(426)
+  })
+
+  it('streams the step log until the job finishes', async () => {
+    const user = await createTestUser()
+    const job = await queuedJob(user)
+    await recordJobStep(getDB(env.DB), job.id, 1, 'context', 'Read issue #5 and 3 file paths')
+
+    const log = await openLog(user, job.id)
+    expect(log.response.status).toBe(101)
+
+    await cancel(user, job.id)
+
+    expect(await log.closed).toBe(1000)
+    expect(log.messages).toMatchObject([
+      { type: 'step', step: { step: 'context', message: 'Read issue #5 and 3 file paths' } },
+      { type: 'status', job: { id: job.id, status: 'queued' } },
+      { type: 'step', step: { step: 'cancelled', level: 'info' } },
+      { type: 'status', job: { id: job.id, status: 'cancelled' } },
+    ])
+  })
+
+  it('sends the history of a finished job and closes', async () => {
+    const user = await createTestUser()
+    const job = await queuedJob(user)
+    await cancel(user, job.id)
+
+    const log = await openLog(user, job.id)
+
+    expect(await log.closed).toBe(1000)
+    expect(log.messages.map((message) => message.type)).toEqual(['step', 'status'])
+  })
+})
@@ -0,0 +1,91 @@
+import { Hono } from 'hono'
+import { eq } from 'drizzle-orm'
+import { auditRequest } from '../audit/events'
+import { authMiddleware, requireScope } from '../auth/middleware'
+import { jobCoordinator } from '../jobs/runner'
+import { authorizeProject, denyProjectAccess, type ProjectAccess } from '../projects/access'
+import type { User } from '../types/auth'
+import type { ProjectAction } from '../workspaces/permissions'
+import { getDB, type Database } from '../db'
+import { jobs, type Job } from '../../db/schema'
+
+const jobControl = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+jobControl.use('*', authMiddleware)
+
+/**
+ * POST /api/jobs/:jobId/cancel
+ * Cancel a queued or running job, including any retry scheduled for it
+ */
+jobControl.post('/:jobId/cancel', requireScope('jobs:write'), async (c) => {
+  const db = getDB(c.env.DB)
+  const access = await authorizeJob(db, c.req.param('jobId'), c.get('user').id, 'job.cancel')
+
+  if (access.status === 'not_found') {
+    return c.json({ error: 'Job not found' }, 404)
+  }
+  if (access.status === 'forbidden') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { job } = access
+  const cancelled = await jobCoordinator(c.env, job.id).cancel(job.id)
+
+  if (!cancelled) {
+    return c.json({ error: 'Job has already finished' }, 409)
+  }
+
+  auditRequest(c, {
+    action: 'job.cancelled',
+    target: { type: 'job', id: job.id },
+    projectId: job.projectId,
+    metadata: { issueNumber: job.issueNumber },
+  })
+
+  return c.json({
+    job: { id: cancelled.id, status: cancelled.status, finishedAt: cancelled.finishedAt },
+  })
+})
+
+/**
+ * GET /api/jobs/:jobId/logs
+ * WebSocket streaming the job's step log: the steps so far, then each new step and status
+ * change as JSON messages (see JobLogMessage); closed once the job has finished
+ */
+jobControl.get('/:jobId/logs', requireScope('jobs:read'), async (c) => {
+  if (c.req.header('Upgrade') !== 'websocket') {
+    return c.json({ error: 'Expected a WebSocket upgrade' }, 426)
+  }
+
+  const db = getDB(c.env.DB)
+  const access = await authorizeJob(db, c.req.param('jobId'), c.get('user').id, 'project.view')
+
+  if (access.status !== 'allowed') {
+    return c.json({ error: 'Job not found' }, 404)
+  }
+
+  const { job } = access
+  return jobCoordinator(c.env, job.id).fetch(
+    `https://job-coordinator/logs?jobId=${encodeURIComponent(job.id)}`,
+    { headers: { Upgrade: 'websocket' } }
+  )
+})
+
+type JobAccess = { status: 'allowed'; job: Job } | Exclude<ProjectAccess, { status: 'allowed' }>
+
+// A job, if the user may take the action on its project (see authorizeProject)
+async function authorizeJob(
+  db: Database,
+  jobId: string,
+  userId: string,
+  action: ProjectAction
+): Promise<JobAccess> {
+  const job = await db.query.jobs.findFirst({ where: eq(jobs.id, jobId) })
+  if (!job) {
+    return { status: 'not_found' }
+  }
+  const access = await authorizeProject(db, job.projectId, userId, action)
+  return access.status === 'allowed' ? { status: 'allowed', job } : access
+}
+
+export default jobControl
@@ -0,0 +1,370 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest'
+import { SELF, env, fetchMock } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import { enqueueJob } from '../jobs/queue'
+import { readUsageLimits } from '../quotas/limits'
+import { githubComment, githubIssue } from '../test/fakes'
+import { authCookie, createTestProject, createTestUser, sendWebhook } from '../test/helpers'
+import type { AuthorAssociation } from '../types/github'
+import { getDB } from '../db'
+import { jobs, type Project } from '../../db/schema'
+
+const repository = {
+  id: 1,
+  name: 'codiro',
+  full_name: 'octocat/codiro',
+  owner: { login: 'octocat' },
+  default_branch: 'main',
+}
+const sender = { id: 1, login: 'octocat', type: 'User' }
+
+function labeledEvent(installationId: number, label: string, number = 12) {
+  return {
+    action: 'labeled',
+    repository,
+    sender,
+    installation: { id: installationId },
+    label: { name: label },
+    issue: githubIssue(number, {
+      title: 'Add dark mode',
+      body: 'Please',
+      labels: [{ name: label }],
+    }),
+  }
+}
+
+// Record that a job of the project opened pull request #101 for issue #7
+async function openedPullRequest(project: Project, iteration = 0) {
+  const db = getDB(env.DB)
+  const queued = await enqueueJob(
+    db,
+    project,
+    { number: 7, title: 'Add greeting', url: null },
+    'issue_label',
+    readUsageLimits(env, project)
+  )
+  await db
+    .update(jobs)
+    .set({ status: 'pr_opened', iteration, branch: 'codiro/issue-7', prNumber: 101 })
+    .where(eq(jobs.id, queued!.job.id))
+}
+
+function pullRequestComment(
+  installationId: number,
+  body: string,
+  user = { login: 'reviewer', type: 'User' },
+  association: AuthorAssociation = 'COLLABORATOR'
+) {
+  return {
+    action: 'created',
+    repository,
+    sender,
+    installation: { id: installationId },
+    issue: githubIssue(101, { pull_request: { url: 'https://api.github.com/pulls/101' } }),
+    comment: githubComment(900, 101, { body, user, author_association: association }),
+  }
+}
+
+// A job budget of 0 refuses jobs, so nothing runs in the background; Codiro announces the
+// refusal on the issue or pull request
+function mockRefusalComment(installationId: number, number: number) {
+  const api = fetchMock.get(env.GITHUB_API_URL)
+  api
+    .intercept({ path: `/app/installations/${installationId}/access_tokens`, method: 'POST' })
+    .reply(201, { token: 'ghs_test', expires_at: new Date(Date.now() + 3600_000).toISOString() })
+  api
+    .intercept({ path: `/repos/octocat/codiro/issues/${number}/comments`, method: 'POST' })
+    .reply(201, { html_url: `https://github.com/octocat/codiro/issues/${number}#issuecomment-1` })
+}
+
+describe('Jobs API', () => {
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  it('queues a job when an issue is labelled In Progress', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 64, monthlyJobLimit: 0 })
+    mockRefusalComment(64, 12)
+
+    const response = await sendWebhook('issues', labeledEvent(64, 'in progress'))
+    expect(await response.json()).toEqual({ ok: true, outcome: 'processed' })
+
+    const list = await SELF.fetch(`http://localhost/api/projects/${project.id}/jobs`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    const { jobs } = await list.json<{ jobs: Array<Record<string, unknown>> }>()
+    expect(jobs).toHaveLength(1)
+    expect(jobs[0]).toMatchObject({
+      issueNumber: 12,
+      issueTitle: 'Add dark mode',
+      trigger: 'issue_label',
+      status: 'failed',
+      failureReason: expect.stringContaining('Monthly job limit of this project reached'),
+    })
+
+    const detail = await SELF.fetch(
+      `http://localhost/api/projects/${project.id}/jobs/${jobs[0].id}`,
+      {
+        headers: { Cookie: await authCookie(user) },
+      }
+    )
+    expect(await detail.json()).toMatchObject({
+      job: { id: jobs[0].id, promptContext: null },
+      steps: [],
+    })
+    await vi.waitFor(() => fetchMock.assertNoPendingInterceptors())
+  })
+
+  it('ignores other labels', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 65 })
+
+    await sendWebhook('issues', labeledEvent(65, 'bug'))
+
+    const list = await SELF.fetch(`http://localhost/api/projects/${project.id}/jobs`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    expect(await list.json()).toEqual({ jobs: [] })
+  })
+
+  it("uses the label of the project's In Progress column", async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, {
+      installationId: 66,
+      monthlyJobLimit: 0,
+      boardColumns: { backlog: null, in_progress: 'Doing', in_review: null, done: null },
+    })
+    mockRefusalComment(66, 12)
+
+    await sendWebhook('issues', labeledEvent(66, 'In Progress'))
+    await sendWebhook('issues', labeledEvent(66, 'doing'))
+
+    const list = await SELF.fetch(`http://localhost/api/projects/${project.id}/jobs`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    const { jobs } = await list.json<{ jobs: Array<Record<string, unknown>> }>()
+    expect(jobs).toHaveLength(1)
+    expect(jobs[0]).toMatchObject({ issueNumber: 12, trigger: 'issue_label' })
+    await vi.waitFor(() => fetchMock.assertNoPendingInterceptors())
+  })
+
+  it('queues a job when a project item moves to In Progress', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 55, monthlyJobLimit: 0 })
+    const api = fetchMock.get(env.GITHUB_API_URL)
+    api
+      .intercept({ path: '/app/installations/55/access_tokens', method: 'POST' })
+      .reply(201, { token: 'ghs_test', expires_at: new Date(Date.now() + 3600_000).toISOString() })
+    api.intercept({ path: '/graphql', method: 'POST' }).reply(200, {
+      data: {
+        node: {
+          number: 3,
+          title: 'Board item',
+          url: 'https://github.com/octocat/codiro/issues/3',
+          repository: { name: 'codiro', owner: { login: 'OctoCat' } },
+        },
+      },
+    })
+    api
+      .intercept({ path: '/repos/octocat/codiro/issues/3/comments', method: 'POST' })
+      .reply(201, { html_url: 'https://github.com/octocat/codiro/issues/3#issuecomment-1' })
+
+    const response = await sendWebhook('projects_v2_item', {
+      action: 'edited',
+      sender,
+      installation: { id: 55 },
+      projects_v2_item: {
+        id: 1,
+        node_id: 'PVTI_1',
+        project_node_id: 'PVT_1',
+        content_node_id: 'I_3',
+        content_type: 'Issue',
+      },
+      changes: {
+        field_value: {
+          field_node_id: 'F_1',
+          field_type: 'single_select',
+          field_name: 'Status',
+          from: { name: 'Todo' },
+          to: { name: 'In Progress' },
+        },
+      },
+    })
+    expect(await response.json()).toEqual({ ok: true, outcome: 'processed' })
+
+    const list = await SELF.fetch(`http://localhost/api/projects/${project.id}/jobs`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    expect(await list.json()).toMatchObject({
+      jobs: [{ issueNumber: 3, issueTitle: 'Board item', trigger: 'project_status' }],
+    })
+    await vi.waitFor(() => fetchMock.assertNoPendingInterceptors())
+  })
+
+  it('ignores In Progress values of project fields other than Status', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 56, monthlyJobLimit: 0 })
+
+    const response = await sendWebhook('projects_v2_item', {
+      action: 'edited',
+      sender,
+      installation: { id: 56 },
+      projects_v2_item: {
+        id: 2,
+        node_id: 'PVTI_2',
+        project_node_id: 'PVT_1',
+        content_node_id: 'I_4',
+        content_type: 'Issue',
+      },
+      changes: {
+        field_value: {
+          field_node_id: 'F_2',
+          field_type: 'single_select',
+          field_name: 'Priority',
+          from: { name: 'Later' },
+          to: { name: 'In Progress' },
+        },
+      },
+    })
+    expect(await response.json()).toEqual({ ok: true, outcome: 'ignored' })
+
+    const list = await SELF.fetch(`http://localhost/api/projects/${project.id}/jobs`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    expect(await list.json()).toEqual({ jobs: [] })
+  })
+
+  it('records a failed job and comments on the issue when a quota is used up', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 62, monthlyJobLimit: 0 })
+    const api = fetchMock.get(env.GITHUB_API_URL)
+    api
+      .intercept({ path: '/app/installations/62/access_tokens', method: 'POST' })
+      .reply(201, { token: 'ghs_test', expires_at: new Date(Date.now() + 3600_000).toISOString() })
+    let comment: { body: string } | undefined
+    api
+      .intercept({ path: '/repos/octocat/codiro/issues/12/comments', method: 'POST' })
+      .reply(201, ({ body }) => {
+        comment = JSON.parse(body as string)
+        return { html_url: 'https://github.com/octocat/codiro/issues/12#issuecomment-1' }
+      })
+
+    await sendWebhook('issues', labeledEvent(62, 'In Progress'))
+
+    const list = await SELF.fetch(`http://localhost/api/projects/${project.id}/jobs`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    const { jobs } = await list.json<{ jobs: Array<Record<string, unknown>> }>()
+    const reason = `Monthly job limit of this project reached (0 jobs in ${new Date().toISOString().slice(0, 7)})`
+    expect(jobs).toMatchObject([{ status: 'failed', failureReason: reason, startedAt: null }])
+
+    await vi.waitFor(() => expect(comment).toBeDefined())
+    expect(comment!.body).toContain(`Codiro did not start working on this issue: ${reason}.`)
+  })
+
+  it('queues a follow-up when a pull request comment mentions the review trigger', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 67, monthlyJobLimit: 0 })
+    await openedPullRequest(project)
+    mockRefusalComment(67, 101)
+
+    const response = await sendWebhook(
+      'issue_comment',
+      pullRequestComment(67, '@codiro please rename it')
+    )
+    expect(await response.json()).toEqual({ ok: true, outcome: 'processed' })
+
+    const list = await SELF.fetch(`http://localhost/api/projects/${project.id}/jobs`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    const { jobs } = await list.json<{ jobs: Array<Record<string, unknown>> }>()
+    expect(jobs).toHaveLength(2)
+    expect(jobs.find((job) => job.trigger === 'review_comment')).toMatchObject({
+      issueNumber: 7,
+      iteration: 1,
+      prNumber: 101,
+    })
+    await vi.waitFor(() => fetchMock.assertNoPendingInterceptors())
+  })
+
+  it('ignores pull request comments from bots, outsiders and without the trigger', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 68 })
+    await openedPullRequest(project)
+
+    await sendWebhook('issue_comment', pullRequestComment(68, 'Looks good to me'))
+    await sendWebhook(
+      'issue_comment',
+      pullRequestComment(68, '@codiro I pushed abc1234', { login: 'codiro[bot]', type: 'Bot' })
+    )
+    await sendWebhook(
+      'issue_comment',
+      pullRequestComment(68, '@codiro rewrite it', { login: 'passerby', type: 'User' }, 'NONE')
+    )
+
+    const list = await SELF.fetch(`http://localhost/api/projects/${project.id}/jobs`, {
+      headers: { Cookie: await authCookie(user) },
+    })
+    expect(await list.json()).toMatchObject({ jobs: [{ trigger: 'issue_label' }] })
+  })
+
+  it('replies to a review once the pull request used up its follow-ups', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user, { installationId: 63, maxReviewIterations: 1 })
+    await openedPullRequest(project, 1)
+    const api = fetchMock.get(env.GITHUB_API_URL)
+    api
+      .intercept({ path: '/app/installations/63/access_tokens', method: 'POST' })
+      .reply(201, { token: 'ghs_test', expires_at: new Date(Date.now() + 3600_000).toISOString() })
+    let comment: { body: string } | undefined
+    api
+      .intercept({ path: '/repos/octocat/codiro/issues/101/comments', method: 'POST' })
+      .reply(201, ({ body }) => {
+        comment = JSON.parse(body as string)
+        return { html_url: 'https://github.com/octocat/codiro/pull/101#issuecomment-1' }
+      })
+
+    const response = await sendWebhook('pull_request_review', {
+      action: 'submitted',
+      repository,
+      sender,
+      installation: { id: 63 },
+      review: {
+        id: 31,
+        body: '@codiro one more pass please',
+        state: 'changes_requested',
+        html_url: 'https://github.com/octocat/codiro/pull/101#pullrequestreview-31',
+        user: { login: 'reviewer', type: 'User' },
+        author_association: 'OWNER',
+      },
+      pull_request: {
+        id: 1,
+        number: 101,
+        title: 'Add greeting',
+        state: 'open',
+        merged: false,
+        html_url: 'https://github.com/octocat/codiro/pull/101',
+        head: { ref: 'codiro/issue-7', sha: 'head-sha' },
+        base: { ref: 'main' },
+      },
+    })
+    expect(await response.json()).toEqual({ ok: true, outcome: 'processed' })
+
+    await vi.waitFor(() => expect(comment).toBeDefined())
+    expect(comment!.body).toMatch(/^@reviewer This pull request has had 1 follow-up round/)
+  })
+
+  it("returns 404 for another user's project", async () => {
+    const project = await createTestProject(await createTestUser())
+    const response = await SELF.fetch(`http://localhost/api/projects/${project.id}/jobs`, {
+      headers: { Cookie: await authCookie(await createTestUser()) },
+    })
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,100 @@
+import { Hono } from 'hono'
+import { and, desc, eq } from 'drizzle-orm'
+import { requireScope } from '../auth/middleware'
+import { listJobSteps } from '../jobs/steps'
+import { authorizeProject, denyProjectAccess } from '../projects/access'
+import type { User } from '../types/auth'
+import { getDB } from '../db'
+import { jobs, type Job } from '../../db/schema'
+
+// Mounted at /api/projects/:projectId/jobs; authMiddleware is applied by the projects router
+const jobRoutes = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+// Columns of a job in lists (also returned when the board starts a job)
+export const jobSummary = {
+  id: jobs.id,
+  projectId: jobs.projectId,
+  issueNumber: jobs.issueNumber,
+  issueTitle: jobs.issueTitle,
+  issueUrl: jobs.issueUrl,
+  trigger: jobs.trigger,
+  iteration: jobs.iteration,
+  status: jobs.status,
+  prNumber: jobs.prNumber,
+  prUrl: jobs.prUrl,
+  failureReason: jobs.failureReason,
+  attempts: jobs.attempts,
+  nextAttemptAt: jobs.nextAttemptAt,
+  createdAt: jobs.createdAt,
+  updatedAt: jobs.updatedAt,
+  startedAt: jobs.startedAt,
+  finishedAt: jobs.finishedAt,
+}
+
+/**
+ * GET /api/projects/:projectId/jobs
+ * List a project's jobs, newest first
+ */
+jobRoutes.get('/', requireScope('jobs:read'), async (c) => {
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    c.get('user').id,
+    'project.view'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  const rows = await db
+    .select(jobSummary)
+    .from(jobs)
+    .where(eq(jobs.projectId, project.id))
+    .orderBy(desc(jobs.createdAt), desc(jobs.id))
+
+  return c.json({ jobs: rows })
+})
+
+/**
+ * GET /api/projects/:projectId/jobs/:jobId
+ * Get a job including its prompt context, model output and step log
+ */
+jobRoutes.get('/:jobId', requireScope('jobs:read'), async (c) => {
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(
+    db,
+    c.req.param('projectId')!,
+    c.get('user').id,
+    'project.view'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+
+  const job = await db.query.jobs.findFirst({
+    where: and(eq(jobs.id, c.req.param('jobId')), eq(jobs.projectId, project.id)),
+  })
+
+  if (!job) {
+    return c.json({ error: 'Job not found' }, 404)
+  }
+
+  return c.json({ job: serializeJob(job), steps: await listJobSteps(db, job.id) })
+})
+
+function serializeJob(job: Job) {
+  return {
+    ...job,
+    promptContext: job.promptContext ? JSON.parse(job.promptContext) : null,
+    modelOutput: job.modelOutput ? JSON.parse(job.modelOutput) : null,
+  }
+}
+
+export default jobRoutes
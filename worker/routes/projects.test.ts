@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest'
+import { SELF, env, fetchMock } from 'cloudflare:test'
+import { authCookie, createTestUser } from '../test/helpers'
+import { getDB } from '../db'
+import { githubInstallationUsers, githubInstallations, type User } from '../../db/schema'
+
+const BASE = 'http://localhost/api/projects'
+
+async function linkInstallation(user: User, installationId: number) {
+  const db = getDB(env.DB)
+  await db.insert(githubInstallations).values({
+    installationId,
+    accountId: installationId * 10,
+    accountLogin: 'zoetin45',
+    accountType: 'User',
+  })
+  await db.insert(githubInstallationUsers).values({ installationId, userId: user.id })
+}
+
+// The installation's token and repository list, as read when a project is linked to it
+function mockInstallationRepositories(installationId: number, fullNames: string[]) {
+  fetchMock
+    .get(env.GITHUB_API_URL)
+    .intercept({ path: `/app/installations/${installationId}/access_tokens`, method: 'POST' })
+    .reply(201, {
+      token: `ghs_${installationId}`,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    })
+  const repositories = fullNames.map((fullName, index) => {
+    const [owner, name] = fullName.split('/')
+    return {
+      id: installationId * 100 + index,
+      name,
+      full_name: fullName,
+      owner: { login: owner },
+      private: true,
+      archived: false,
+      default_branch: 'main',
+      description: null,
+      html_url: `https://github.com/${fullName}`,
+    }
+  })
+  fetchMock
+    .get(env.GITHUB_API_URL)
+    .intercept({ path: '/installation/repositories?per_page=100' })
+    .reply(200, { total_count: repositories.length, repositories })
+}
+
+describe('Projects API', () => {
+  let user: User
+  let cookie: string
+
+  beforeAll(() => {
+    fetchMock.activate()
+    fetchMock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    fetchMock.assertNoPendingInterceptors()
+  })
+
+  beforeEach(async () => {
+    user = await createTestUser()
+    cookie = await authCookie(user)
+  })
+
+  async function createProject(
+    body: Record<string, unknown>,
+    headers: HeadersInit = { Cookie: cookie }
+  ) {
+    return SELF.fetch(BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    })
+  }
+
+  it('requires authentication', async () => {
+    const response = await SELF.fetch(BASE)
+    expect(response.status).toBe(401)
+  })
+
+  it('creates a project linked to a repository', async () => {
+    await linkInstallation(user, 111)
+    mockInstallationRepositories(111, ['zoetin45/codiro'])
+
+    const response = await createProject({
+      githubOwner: 'zoetin45',
+      githubRepo: 'codiro',
+      installationId: 111,
+    })
+    expect(response.status).toBe(201)
+
+    const { project } = await response.json<{ project: Record<string, unknown> }>()
+    expect(project).toMatchObject({
+      name: 'codiro',
+      githubOwner: 'zoetin45',
+      githubRepo: 'codiro',
+      defaultBranch: 'main',
+      installationId: 111,
+      archivedAt: null,
+    })
+  })
+
+  it('refuses installations the user cannot use for the repository', async () => {
+    const notLinked = await createProject({
+      githubOwner: 'zoetin45',
+      githubRepo: 'codiro',
+      installationId: 112,
+    })
+    expect(notLinked.status).toBe(403)
+
+    await linkInstallation(user, 112)
+    mockInstallationRepositories(112, ['zoetin45/other'])
+    const notCovered = await createProject({
+      githubOwner: 'zoetin45',
+      githubRepo: 'codiro',
+      installationId: 112,
+    })
+    expect(notCovered.status).toBe(422)
+    expect(await notCovered.json()).toEqual({
+      error: 'Installation cannot access zoetin45/codiro',
+    })
+
+    const created = await createProject({ githubOwner: 'zoetin45', githubRepo: 'codiro' })
+    const { project } = await created.json<{ project: { id: string } }>()
+    const updated = await SELF.fetch(`${BASE}/${project.id}`, {
+      method: 'PATCH',
+      headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ installationId: 113 }),
+    })
+    expect(updated.status).toBe(403)
+  })
+
+  it('rejects invalid repository names', async () => {
+    const response = await createProject({ githubOwner: '-bad', githubRepo: 'codiro' })
+    expect(response.status).toBe(400)
+  })
+
+  it('rejects linking the same repository twice', async () => {
+    await createProject({ githubOwner: 'zoetin45', githubRepo: 'codiro' })
+    const response = await createProject({ githubOwner: 'zoetin45', githubRepo: 'codiro' })
+    expect(response.status).toBe(409)
+  })
+
+  it('treats repository names that differ only in case as the same repository', async () => {
+    await createProject({ githubOwner: 'Zoetin45', githubRepo: 'Codiro' })
+    const response = await createProject({ githubOwner: 'zoetin45', githubRepo: 'codiro' })
+    expect(response.status).toBe(409)
+  })
+
+  it('lists, gets and updates projects', async () => {
+    const created = await createProject({ githubOwner: 'zoetin45', githubRepo: 'codiro' })
+    const { project } = await created.json<{ project: { id: string } }>()
+
+    const list = await SELF.fetch(BASE, { headers: { Cookie: cookie } })
+    expect(await list.json()).toMatchObject({ projects: [{ id: project.id }] })
+
+    const updated = await SELF.fetch(`${BASE}/${project.id}`, {
+      method: 'PATCH',
+      headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Codiro', defaultBranch: 'develop' }),
+    })
+    expect(updated.status).toBe(200)
+
+    const fetched = await SELF.fetch(`${BASE}/${project.id}`, { headers: { Cookie: cookie } })
+    expect(await fetched.json()).toMatchObject({
+      project: { id: project.id, name: 'Codiro', defaultBranch: 'develop' },
+    })
+  })
+
+  it('updates and resets model settings', async () => {
+    const created = await createProject({ githubOwner: 'zoetin45', githubRepo: 'codiro' })
+    const { project } = await created.json<{ project: { id: string } }>()
+    const patch = (body: unknown) =>
+      SELF.fetch(`${BASE}/${project.id}`, {
+        method: 'PATCH',
+        headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+    const updated = await patch({
+      llmProvider: 'workers_ai',
+      llmModel: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+      llmTemperature: 0.7,
+      llmMaxTokens: 2048,
+      llmSystemPrompt: '  Use British English.  ',
+    })
+    expect(await updated.json()).toMatchObject({
+      project: {
+        llmProvider: 'workers_ai',
+        llmModel: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+        llmTemperature: 0.7,
+        llmMaxTokens: 2048,
+        llmSystemPrompt: 'Use British English.',
+      },
+    })
+
+    const reset = await patch({ llmProvider: null, llmModel: null, llmSystemPrompt: '' })
+    expect(await reset.json()).toMatchObject({
+      project: { llmProvider: null, llmModel: null, llmTemperature: 0.7, llmSystemPrompt: null },
+    })
+
+    expect((await patch({ llmProvider: 'anthropic' })).status).toBe(400)
+    expect((await patch({ llmTemperature: 3 })).status).toBe(400)
+    expect((await patch({ llmMaxTokens: 1.5 })).status).toBe(400)
+    expect((await patch({ llmModel: 'gpt 4' })).status).toBe(400)
+
+    const budget = await patch({ monthlyTokenLimit: 100_000, monthlyJobLimit: 0 })
+    expect(await budget.json()).toMatchObject({
+      project: { monthlyTokenLimit: 100_000, monthlyJobLimit: 0 },
+    })
+    expect((await patch({ monthlyJobLimit: -1 })).status).toBe(400)
+
+    const review = await patch({ reviewTrigger: '/iterate', maxReviewIterations: 0 })
+    expect(await review.json()).toMatchObject({
+      project: { reviewTrigger: '/iterate', maxReviewIterations: 0 },
+    })
+    expect((await patch({ reviewTrigger: '@codiro please' })).status).toBe(400)
+    expect((await patch({ maxReviewIterations: 21 })).status).toBe(400)
+
+    const board = await patch({
+      boardColumns: { backlog: null, in_progress: ' Doing ', in_review: 'Review', done: null },
+    })
+    expect(await board.json()).toMatchObject({
+      project: {
+        boardColumns: { backlog: null, in_progress: 'Doing', in_review: 'Review', done: null },
+      },
+    })
+    const columns = { backlog: null, in_progress: 'Doing', in_review: null, done: null }
+    expect((await patch({ boardColumns: { ...columns, in_progress: null } })).status).toBe(400)
+    expect((await patch({ boardColumns: { ...columns, done: 'doing' } })).status).toBe(400)
+    expect((await patch({ boardColumns: { in_progress: 'Doing' } })).status).toBe(400)
+  })
+
+  it('hides archived projects from the default listing', async () => {
+    const created = await createProject({ githubOwner: 'zoetin45', githubRepo: 'codiro' })
+    const { project } = await created.json<{ project: { id: string } }>()
+
+    const archived = await SELF.fetch(`${BASE}/${project.id}/archive`, {
+      method: 'POST',
+      headers: { Cookie: cookie },
+    })
+    expect(await archived.json()).toMatchObject({ project: { archivedAt: expect.any(String) } })
+
+    const list = await SELF.fetch(BASE, { headers: { Cookie: cookie } })
+    expect(await list.json()).toEqual({ projects: [] })
+
+    const withArchived = await SELF.fetch(`${BASE}?archived=true`, { headers: { Cookie: cookie } })
+    expect(await withArchived.json()).toMatchObject({ projects: [{ id: project.id }] })
+
+    const update = await SELF.fetch(`${BASE}/${project.id}`, {
+      method: 'PATCH',
+      headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Renamed' }),
+    })
+    expect(update.status).toBe(409)
+  })
+
+  it("does not expose another user's projects", async () => {
+    const created = await createProject({ githubOwner: 'zoetin45', githubRepo: 'codiro' })
+    const { project } = await created.json<{ project: { id: string } }>()
+
+    const other = await authCookie(await createTestUser())
+    const response = await SELF.fetch(`${BASE}/${project.id}`, { headers: { Cookie: other } })
+    expect(response.status).toBe(404)
+  })
+})
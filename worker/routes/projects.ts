@@ -0,0 +1,255 @@
+import { Hono, type Context } from 'hono'
+import { and, desc, eq, isNull, or, sql } from 'drizzle-orm'
+import { auditRequest } from '../audit/events'
+import { authMiddleware, requireScope } from '../auth/middleware'
+import { GitHubError } from '../github/errors'
+import { checkInstallationRepository } from '../github/installations'
+import contextRoutes from './context'
+import conversationRoutes from './conversations'
+import issueRoutes from './issues'
+import jobRoutes from './jobs'
+import { authorizeProject, denyProjectAccess, visibleProjectsCondition } from '../projects/access'
+import { parseCreateProjectInput, parseUpdateProjectInput } from '../projects/validation'
+import type { User } from '../types/auth'
+import { authorizeWorkspace, denyWorkspaceAccess } from '../workspaces/access'
+import { getDB, type Database } from '../db'
+import { projects } from '../../db/schema'
+
+const projectRoutes = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+projectRoutes.use('*', authMiddleware)
+
+projectRoutes.route('/:projectId/jobs', jobRoutes)
+projectRoutes.route('/:projectId/issues', issueRoutes)
+projectRoutes.route('/:projectId/conversations', conversationRoutes)
+projectRoutes.route('/:projectId/context', contextRoutes)
+
+/**
+ * POST /api/projects
+ * Link a GitHub repository to a new project owned by the current user, or to a new project of a
+ * workspace (`workspaceId`, maintainers and owners)
+ */
+projectRoutes.post('/', requireScope('projects:write'), async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const input = parseCreateProjectInput(body)
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const user = c.get('user')
+  const db = getDB(c.env.DB)
+
+  if (input.data.workspaceId) {
+    const access = await authorizeWorkspace(db, input.data.workspaceId, user.id, 'project.create')
+    if (access.status !== 'allowed') {
+      return denyWorkspaceAccess(c, access)
+    }
+  }
+
+  // A user links a repository once; a workspace too, whoever linked it
+  const existing = await db.query.projects.findFirst({
+    where: and(
+      input.data.workspaceId
+        ? or(eq(projects.userId, user.id), eq(projects.workspaceId, input.data.workspaceId))
+        : eq(projects.userId, user.id),
+      // GitHub names are case-insensitive, as webhook matching treats them
+      sql`lower(${projects.githubOwner}) = ${input.data.githubOwner.toLowerCase()}`,
+      sql`lower(${projects.githubRepo}) = ${input.data.githubRepo.toLowerCase()}`
+    ),
+  })
+
+  if (existing) {
+    return c.json(
+      { error: 'Repository is already linked to a project', projectId: existing.id },
+      409
+    )
+  }
+
+  if (input.data.installationId !== null) {
+    const refused = await verifyInstallation(c, db, input.data.installationId, input.data)
+    if (refused) {
+      return refused
+    }
+  }
+
+  const [project] = await db
+    .insert(projects)
+    .values({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      ...input.data,
+    })
+    .returning()
+
+  auditRequest(c, {
+    action: 'project.created',
+    target: { type: 'project', id: project.id },
+    projectId: project.id,
+    metadata: { githubOwner: project.githubOwner, githubRepo: project.githubRepo },
+  })
+
+  return c.json({ project }, 201)
+})
+
+/**
+ * GET /api/projects
+ * List the current user's projects and those of their workspaces
+ * (archived ones only with ?archived=true, one workspace with ?workspace=)
+ */
+projectRoutes.get('/', requireScope('projects:read'), async (c) => {
+  const user = c.get('user')
+  const includeArchived = c.req.query('archived') === 'true'
+  const workspaceId = c.req.query('workspace')
+  const db = getDB(c.env.DB)
+
+  const rows = await db.query.projects.findMany({
+    where: and(
+      visibleProjectsCondition(db, user.id),
+      includeArchived ? undefined : isNull(projects.archivedAt),
+      workspaceId ? eq(projects.workspaceId, workspaceId) : undefined
+    ),
+    orderBy: [desc(projects.createdAt)],
+  })
+
+  return c.json({ projects: rows })
+})
+
+/**
+ * GET /api/projects/:id
+ * Get a single project and the current user's role in it
+ */
+projectRoutes.get('/:id', requireScope('projects:read'), async (c) => {
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(db, c.req.param('id'), c.get('user').id, 'project.view')
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  return c.json({ project: access.project, role: access.role })
+})
+
+/**
+ * PATCH /api/projects/:id
+ * Update project name, default branch, GitHub App installation, model settings, budgets,
+ * review follow-up settings or board columns
+ */
+projectRoutes.patch('/:id', requireScope('projects:write'), async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const input = parseUpdateProjectInput(body)
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(db, c.req.param('id'), c.get('user').id, 'project.update')
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+  if (project.archivedAt) {
+    return c.json({ error: 'Archived projects cannot be modified' }, 409)
+  }
+
+  if (input.data.installationId !== undefined && input.data.installationId !== null) {
+    const refused = await verifyInstallation(c, db, input.data.installationId, project)
+    if (refused) {
+      return refused
+    }
+  }
+
+  const [updated] = await db
+    .update(projects)
+    .set({ ...input.data, updatedAt: new Date().toISOString() })
+    .where(eq(projects.id, project.id))
+    .returning()
+
+  auditRequest(c, {
+    action: 'project.updated',
+    target: { type: 'project', id: project.id },
+    projectId: project.id,
+    metadata: { fields: Object.keys(input.data) },
+  })
+
+  return c.json({ project: updated })
+})
+
+/**
+ * POST /api/projects/:id/archive
+ * Archive a project; archived projects are hidden from the default listing
+ */
+projectRoutes.post('/:id/archive', requireScope('projects:write'), async (c) => {
+  const db = getDB(c.env.DB)
+  const access = await authorizeProject(db, c.req.param('id'), c.get('user').id, 'project.archive')
+
+  if (access.status !== 'allowed') {
+    return denyProjectAccess(c, access)
+  }
+
+  const { project } = access
+  if (project.archivedAt) {
+    return c.json({ project })
+  }
+
+  const now = new Date().toISOString()
+  const [archived] = await db
+    .update(projects)
+    .set({ archivedAt: now, updatedAt: now })
+    .where(eq(projects.id, project.id))
+    .returning()
+
+  auditRequest(c, {
+    action: 'project.archived',
+    target: { type: 'project', id: project.id },
+    projectId: project.id,
+  })
+
+  return c.json({ project: archived })
+})
+
+/**
+ * Refuse installations the user has not linked, and installations that cannot reach the
+ * repository; Codiro acts on the repository with the installation's tokens
+ */
+async function verifyInstallation(
+  c: Context<{ Bindings: Env; Variables: { user: User } }>,
+  db: Database,
+  installationId: number,
+  repository: { githubOwner: string; githubRepo: string }
+): Promise<Response | null> {
+  let access
+  try {
+    access = await checkInstallationRepository(
+      db,
+      c.env,
+      c.get('user').id,
+      installationId,
+      repository
+    )
+  } catch (error) {
+    if (error instanceof GitHubError) {
+      console.error('Listing installation repositories failed:', installationId, error)
+      return c.json({ error: `GitHub refused to list the installation's repositories` }, 502)
+    }
+    throw error
+  }
+
+  switch (access) {
+    case 'not_linked':
+      return c.json({ error: 'Installation is not linked to your account' }, 403)
+    case 'repository_not_covered':
+      return c.json(
+        {
+          error: `Installation cannot access ${repository.githubOwner}/${repository.githubRepo}`,
+        },
+        422
+      )
+  }
+  return null
+}
+
+export default projectRoutes
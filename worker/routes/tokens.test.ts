@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import { SELF, env } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import { authCookie, createTestProject, createTestUser } from '../test/helpers'
+import { getDB } from '../db'
+import { personalAccessTokens } from '../../db/schema'
+
+const TOKENS_URL = 'http://localhost/api/auth/tokens'
+
+async function createToken(cookie: string, body: Record<string, unknown>) {
+  const response = await SELF.fetch(TOKENS_URL, {
+    method: 'POST',
+    headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  return response
+}
+
+describe('Bearer authentication', () => {
+  it('accepts access tokens in the Authorization header', async () => {
+    const user = await createTestUser()
+    const accessToken = (await authCookie(user)).replace('access_token=', '')
+
+    const response = await SELF.fetch('http://localhost/api/auth/me', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+    expect(await response.json()).toMatchObject({ user: { id: user.id } })
+  })
+
+  it('rejects unknown personal access tokens', async () => {
+    const response = await SELF.fetch('http://localhost/api/auth/me', {
+      headers: { Authorization: 'Bearer codiro_pat_nope' },
+    })
+    expect(response.status).toBe(401)
+  })
+})
+
+describe('Personal access tokens', () => {
+  it('creates a token that authenticates API calls and records its use', async () => {
+    const user = await createTestUser()
+    const cookie = await authCookie(user)
+
+    const created = await createToken(cookie, { name: 'CI', expiresInDays: 30 })
+    expect(created.status).toBe(201)
+    const { token, personalAccessToken } = await created.json<{
+      token: string
+      personalAccessToken: Record<string, unknown>
+    }>()
+    expect(token).toMatch(/^codiro_pat_/)
+    expect(personalAccessToken).toMatchObject({
+      name: 'CI',
+      scopes: null,
+      tokenPrefix: token.slice(0, 17),
+      expiresAt: expect.any(String),
+    })
+    expect(personalAccessToken).not.toHaveProperty('tokenHash')
+
+    const me = await SELF.fetch('http://localhost/api/auth/me', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    expect(await me.json()).toMatchObject({ user: { id: user.id } })
+
+    const row = await getDB(env.DB).query.personalAccessTokens.findFirst({
+      where: eq(personalAccessTokens.id, personalAccessToken.id as string),
+    })
+    expect(row?.tokenHash).not.toContain(token)
+    expect(row?.lastUsedAt).toEqual(expect.any(String))
+  })
+
+  it('lists and revokes tokens', async () => {
+    const user = await createTestUser()
+    const cookie = await authCookie(user)
+    const { token, personalAccessToken } = await (
+      await createToken(cookie, { name: 'CLI' })
+    ).json<{
+      token: string
+      personalAccessToken: { id: string }
+    }>()
+
+    const list = await SELF.fetch(TOKENS_URL, { headers: { Cookie: cookie } })
+    expect(await list.json()).toMatchObject({
+      personalAccessTokens: [{ id: personalAccessToken.id, name: 'CLI' }],
+    })
+
+    const deleted = await SELF.fetch(`${TOKENS_URL}/${personalAccessToken.id}`, {
+      method: 'DELETE',
+      headers: { Cookie: cookie },
+    })
+    expect(deleted.status).toBe(200)
+
+    const me = await SELF.fetch('http://localhost/api/auth/me', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    expect(me.status).toBe(401)
+  })
+
+  it('rejects expired tokens', async () => {
+    const user = await createTestUser()
+    const { token, personalAccessToken } = await (
+      await createToken(await authCookie(user), { name: 'Old' })
+    ).json<{ token: string; personalAccessToken: { id: string } }>()
+
+    await getDB(env.DB)
+      .update(personalAccessTokens)
+      .set({ expiresAt: new Date(Date.now() - 1000).toISOString() })
+      .where(eq(personalAccessTokens.id, personalAccessToken.id))
+
+    const me = await SELF.fetch('http://localhost/api/auth/me', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    expect(me.status).toBe(401)
+  })
+
+  it('enforces scopes declared by routes', async () => {
+    const user = await createTestUser()
+    await createTestProject(user)
+    const { token } = await (
+      await createToken(await authCookie(user), { name: 'Read only', scopes: ['projects:read'] })
+    ).json<{ token: string }>()
+    const headers = { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }
+
+    const list = await SELF.fetch('http://localhost/api/projects', { headers })
+    expect(list.status).toBe(200)
+
+    const create = await SELF.fetch('http://localhost/api/projects', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ githubOwner: 'octocat', githubRepo: 'other' }),
+    })
+    expect(create.status).toBe(403)
+    expect(await create.json()).toEqual({ error: 'Token is missing the projects:write scope' })
+  })
+
+  it('cannot be used to manage tokens or sessions', async () => {
+    const user = await createTestUser()
+    const { token } = await (
+      await createToken(await authCookie(user), { name: 'All' })
+    ).json<{
+      token: string
+    }>()
+
+    for (const path of ['/api/auth/tokens', '/api/auth/sessions']) {
+      const response = await SELF.fetch(`http://localhost${path}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      expect(response.status).toBe(403)
+    }
+  })
+
+  it('validates the request', async () => {
+    const cookie = await authCookie(await createTestUser())
+    expect((await createToken(cookie, { name: '' })).status).toBe(400)
+    expect((await createToken(cookie, { name: 'x', scopes: ['admin'] })).status).toBe(400)
+    expect((await createToken(cookie, { name: 'x', expiresInDays: 0 })).status).toBe(400)
+  })
+})
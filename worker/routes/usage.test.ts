@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { SELF, env } from 'cloudflare:test'
+import { getDB } from '../db'
+import { reserveJob } from '../quotas/counters'
+import { readUsageLimits } from '../quotas/limits'
+import { recordUsage } from '../llm/usage'
+import { authCookie, createTestProject, createTestUser } from '../test/helpers'
+import { jobs, type User } from '../../db/schema'
+
+async function usageReport(user: User, query = '') {
+  const response = await SELF.fetch(`http://localhost/api/usage${query}`, {
+    headers: { Cookie: await authCookie(user) },
+  })
+  return { status: response.status, body: await response.json<Record<string, unknown>>() }
+}
+
+describe('Usage report', () => {
+  it('breaks usage down by day and project and flags soft limits', async () => {
+    const db = getDB(env.DB)
+    const user = await createTestUser()
+    const busy = await createTestProject(user, { name: 'busy', monthlyTokenLimit: 1000 })
+    const quiet = await createTestProject(user, { name: 'quiet', githubRepo: 'quiet' })
+    const today = new Date().toISOString().slice(0, 10)
+    const model = { provider: 'openai' as const, model: 'gpt-test' }
+
+    await recordUsage(db, { projectId: busy.id, userId: user.id, feature: 'job' }, model, {
+      promptTokens: 700,
+      completionTokens: 150,
+    })
+    await recordUsage(
+      db,
+      { projectId: quiet.id, userId: user.id, feature: 'spec_discussion' },
+      model,
+      { promptTokens: 20, completionTokens: 5 }
+    )
+    await reserveJob(db, readUsageLimits(env, busy), { userId: user.id, projectId: busy.id })
+    await db.insert(jobs).values({
+      id: crypto.randomUUID(),
+      projectId: busy.id,
+      issueNumber: 1,
+      issueTitle: 'One',
+      trigger: 'issue_label',
+    })
+
+    const { status, body } = await usageReport(user)
+    expect(status).toBe(200)
+    expect(body).toMatchObject({
+      period: today.slice(0, 7),
+      user: {
+        tokens: { used: 875, limit: 5_000_000, warning: false, exceeded: false },
+        jobs: { used: 1, limit: 300 },
+      },
+      projects: [
+        {
+          projectId: busy.id,
+          name: 'busy',
+          tokens: { used: 850, limit: 1000, warning: true, exceeded: false },
+          jobs: { used: 1, limit: 100, warning: false },
+        },
+        { projectId: quiet.id, name: 'quiet', tokens: { used: 25, limit: 2_000_000 } },
+      ],
+      days: expect.arrayContaining([
+        { date: today, projectId: busy.id, promptTokens: 700, completionTokens: 150, jobs: 1 },
+        { date: today, projectId: quiet.id, promptTokens: 20, completionTokens: 5, jobs: 0 },
+      ]),
+      warnings: [
+        { scope: 'project', projectId: busy.id, metric: 'tokens', used: 850, limit: 1000 },
+      ],
+    })
+  })
+
+  it('reports other months and validates the month', async () => {
+    const user = await createTestUser()
+    await createTestProject(user)
+
+    const { body } = await usageReport(user, '?month=2020-01')
+    expect(body).toMatchObject({ period: '2020-01', days: [], warnings: [] })
+    expect((await usageReport(user, '?month=2020-13')).status).toBe(400)
+  })
+
+  it('requires authentication', async () => {
+    const response = await SELF.fetch('http://localhost/api/usage')
+    expect(response.status).toBe(401)
+  })
+})
@@ -0,0 +1,28 @@
+import { Hono } from 'hono'
+import { authMiddleware, requireScope } from '../auth/middleware'
+import { quotaPeriod } from '../quotas/limits'
+import { buildUsageReport, isQuotaPeriod } from '../quotas/report'
+import type { User } from '../types/auth'
+import { getDB } from '../db'
+
+const usage = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+usage.use('*', authMiddleware)
+
+/**
+ * GET /api/usage
+ * Monthly usage report for the current user: quota status of the user and their projects,
+ * soft-limit warnings, and tokens and jobs per day and project (?month=YYYY-MM, default current)
+ */
+usage.get('/', requireScope('projects:read'), async (c) => {
+  const period = c.req.query('month') ?? quotaPeriod()
+
+  if (!isQuotaPeriod(period)) {
+    return c.json({ error: 'month must be in YYYY-MM format' }, 400)
+  }
+
+  const report = await buildUsageReport(getDB(c.env.DB), c.env, c.get('user').id, period)
+  return c.json(report)
+})
+
+export default usage
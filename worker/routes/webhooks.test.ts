@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { SELF, env } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import { createTestUser, sendWebhook } from '../test/helpers'
+import { getDB } from '../db'
+import {
+  githubInstallationUsers,
+  githubInstallations,
+  identities,
+  projects,
+  webhookDeliveries,
+} from '../../db/schema'
+
+const installation = {
+  id: 301,
+  account: { id: 8001, login: 'octocat', type: 'User' },
+  suspended_at: null,
+}
+
+describe('GitHub webhooks', () => {
+  it('rejects requests with a bad signature', async () => {
+    const response = await SELF.fetch('http://localhost/api/webhooks/github', {
+      method: 'POST',
+      headers: {
+        'X-GitHub-Event': 'ping',
+        'X-GitHub-Delivery': crypto.randomUUID(),
+        'X-Hub-Signature-256': `sha256=${'0'.repeat(64)}`,
+      },
+      body: '{}',
+    })
+    expect(response.status).toBe(401)
+  })
+
+  it('stores and acknowledges unknown events', async () => {
+    const deliveryId = crypto.randomUUID()
+    const response = await sendWebhook('star', { action: 'created' }, deliveryId)
+    expect(await response.json()).toEqual({ ok: true, outcome: 'ignored' })
+
+    const delivery = await getDB(env.DB).query.webhookDeliveries.findFirst({
+      where: eq(webhookDeliveries.deliveryId, deliveryId),
+    })
+    expect(delivery).toMatchObject({ event: 'star', action: 'created', status: 'ignored' })
+  })
+
+  it('deduplicates deliveries', async () => {
+    const deliveryId = crypto.randomUUID()
+    await sendWebhook('ping', { zen: 'Keep it logically awesome.' }, deliveryId)
+    const response = await sendWebhook('ping', { zen: 'Keep it logically awesome.' }, deliveryId)
+    expect(await response.json()).toEqual({ ok: true, duplicate: true })
+  })
+
+  it('links a new installation to the Codiro user who installed it', async () => {
+    const user = await createTestUser()
+    const db = getDB(env.DB)
+    await db.insert(identities).values({
+      userId: user.id,
+      provider: 'github',
+      subject: '8001',
+      username: 'octocat',
+    })
+
+    const response = await sendWebhook('installation', {
+      action: 'created',
+      installation,
+      sender: { id: 8001, login: 'octocat', type: 'User' },
+    })
+    expect(await response.json()).toEqual({ ok: true, outcome: 'processed' })
+
+    const link = await db.query.githubInstallationUsers.findFirst({
+      where: eq(githubInstallationUsers.installationId, installation.id),
+    })
+    expect(link?.userId).toBe(user.id)
+  })
+
+  it('unlinks projects when an installation is deleted', async () => {
+    const user = await createTestUser()
+    const db = getDB(env.DB)
+    await db.insert(githubInstallations).values({
+      installationId: installation.id,
+      accountId: installation.account.id,
+      accountLogin: installation.account.login,
+      accountType: installation.account.type,
+    })
+    await db.insert(projects).values({
+      id: 'project-1',
+      userId: user.id,
+      name: 'codiro',
+      githubOwner: 'octocat',
+      githubRepo: 'codiro',
+      installationId: installation.id,
+    })
+
+    await sendWebhook('installation', {
+      action: 'deleted',
+      installation,
+      sender: { id: 8001, login: 'octocat', type: 'User' },
+    })
+
+    const project = await db.query.projects.findFirst({ where: eq(projects.id, 'project-1') })
+    expect(project?.installationId).toBeNull()
+    expect(await db.query.githubInstallations.findMany()).toEqual([])
+  })
+
+  it('ignores repository events for repositories without a project', async () => {
+    const response = await sendWebhook('issues', {
+      action: 'opened',
+      repository: {
+        id: 1,
+        name: 'unlinked',
+        full_name: 'octocat/unlinked',
+        owner: { login: 'octocat' },
+      },
+      issue: { number: 1, title: 'Hello', labels: [] },
+      sender: { id: 8001, login: 'octocat', type: 'User' },
+    })
+    expect(await response.json()).toEqual({ ok: true, outcome: 'ignored' })
+  })
+})
@@ -0,0 +1,92 @@
+import { Hono } from 'hono'
+import { eq } from 'drizzle-orm'
+import { verifyWebhookSignature } from '../webhooks/signature'
+import { dispatchWebhookEvent } from '../webhooks/handlers'
+import { getDB } from '../db'
+import { webhookDeliveries } from '../../db/schema'
+
+const webhooks = new Hono<{ Bindings: Env }>()
+
+/**
+ * POST /api/webhooks/github
+ * Receive GitHub App webhooks
+ */
+webhooks.post('/github', async (c) => {
+  const body = await c.req.text()
+
+  const valid = await verifyWebhookSignature(
+    c.env.GITHUB_WEBHOOK_SECRET,
+    body,
+    c.req.header('X-Hub-Signature-256')
+  )
+  if (!valid) {
+    return c.json({ error: 'Invalid signature' }, 401)
+  }
+
+  const event = c.req.header('X-GitHub-Event')
+  const deliveryId = c.req.header('X-GitHub-Delivery')
+  if (!event || !deliveryId) {
+    return c.json({ error: 'Missing GitHub event headers' }, 400)
+  }
+
+  let payload: { action?: string; installation?: { id: number } }
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    return c.json({ error: 'Invalid JSON payload' }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+
+  // Deduplicate on the delivery id; failed deliveries may be redelivered and retried
+  const [inserted] = await db
+    .insert(webhookDeliveries)
+    .values({
+      deliveryId,
+      event,
+      action: payload.action ?? null,
+      installationId: payload.installation?.id ?? null,
+      payload: body,
+      status: 'received',
+    })
+    .onConflictDoUpdate({
+      target: webhookDeliveries.deliveryId,
+      set: { status: 'received', error: null },
+      setWhere: eq(webhookDeliveries.status, 'failed'),
+    })
+    .returning({ deliveryId: webhookDeliveries.deliveryId })
+
+  if (!inserted) {
+    return c.json({ ok: true, duplicate: true })
+  }
+
+  try {
+    const outcome = await dispatchWebhookEvent(
+      { db, env: c.env, waitUntil: (promise) => c.executionCtx.waitUntil(promise) },
+      event,
+      payload
+    )
+
+    await db
+      .update(webhookDeliveries)
+      .set({ status: outcome, processedAt: new Date().toISOString() })
+      .where(eq(webhookDeliveries.deliveryId, deliveryId))
+
+    return c.json({ ok: true, outcome })
+  } catch (error) {
+    console.error('GitHub webhook error:', event, deliveryId, error)
+
+    await db
+      .update(webhookDeliveries)
+      .set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        processedAt: new Date().toISOString(),
+      })
+      .where(eq(webhookDeliveries.deliveryId, deliveryId))
+
+    return c.json({ error: 'Webhook processing failed' }, 500)
+  }
+})
+
+export default webhooks
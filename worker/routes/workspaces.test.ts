@@ -0,0 +1,351 @@
+import { describe, it, expect } from 'vitest'
+import { SELF, env } from 'cloudflare:test'
+import { eq } from 'drizzle-orm'
+import { upsertIssues } from '../issues/mirror'
+import { enqueueJob } from '../jobs/queue'
+import { readUsageLimits } from '../quotas/limits'
+import { githubIssue } from '../test/fakes'
+import { authCookie, createTestProject, createTestUser, createTestWorkspace } from '../test/helpers'
+import { can, type PermissionAction } from '../workspaces/permissions'
+import { getDB } from '../db'
+import {
+  identities,
+  workspaceInvitations,
+  WORKSPACE_ROLES,
+  type Project,
+  type User,
+  type Workspace,
+  type WorkspaceRole,
+} from '../../db/schema'
+
+async function request(user: User, path: string, method = 'GET', body?: unknown) {
+  return SELF.fetch(`http://localhost/api/${path}`, {
+    method,
+    headers: { Cookie: await authCookie(user), 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+// A workspace with one user per role, another viewer to manage and a project with a mirrored issue
+async function workspaceFixture() {
+  const members = Object.fromEntries(
+    await Promise.all(WORKSPACE_ROLES.map(async (role) => [role, await createTestUser()] as const))
+  ) as Record<WorkspaceRole, User>
+  const target = await createTestUser()
+  const workspace = await createTestWorkspace([
+    ...WORKSPACE_ROLES.map((role) => [members[role], role] as [User, WorkspaceRole]),
+    [target, 'viewer'],
+  ])
+  const project = await createTestProject(members.owner, { workspaceId: workspace.id })
+  await upsertIssues(getDB(env.DB), project.id, [githubIssue(1)])
+  return { members, target, workspace, project }
+}
+
+type Fixture = Awaited<ReturnType<typeof workspaceFixture>>
+
+// How each action is taken over HTTP, and the status once the permission check passes; routes
+// that need a GitHub App installation stop at its check with 409
+const ACTIONS: Record<
+  PermissionAction,
+  { allowed: number; send: (user: User, fixture: Fixture) => Promise<Response> }
+> = {
+  'project.view': {
+    allowed: 200,
+    send: (user, { project }) => request(user, `projects/${project.id}`),
+  },
+  'issue.move': {
+    allowed: 409,
+    send: (user, { project }) =>
+      request(user, `projects/${project.id}/issues/1/move`, 'POST', { column: 'done' }),
+  },
+  'job.cancel': {
+    allowed: 200,
+    send: async (user, { project }) => {
+      const job = await queuedJob(project)
+      return request(user, `jobs/${job.id}/cancel`, 'POST')
+    },
+  },
+  'conversation.write': {
+    allowed: 201,
+    send: (user, { project }) =>
+      request(user, `projects/${project.id}/conversations`, 'POST', { issueNumber: 1 }),
+  },
+  'context.reindex': {
+    allowed: 409,
+    send: (user, { project }) => request(user, `projects/${project.id}/context/reindex`, 'POST'),
+  },
+  'project.update': {
+    allowed: 200,
+    send: (user, { project }) =>
+      request(user, `projects/${project.id}`, 'PATCH', { name: 'Renamed' }),
+  },
+  'project.archive': {
+    allowed: 200,
+    send: (user, { project }) => request(user, `projects/${project.id}/archive`, 'POST'),
+  },
+  'workspace.view': {
+    allowed: 200,
+    send: (user, { workspace }) => request(user, `workspaces/${workspace.id}`),
+  },
+  'project.create': {
+    allowed: 201,
+    send: (user, { workspace }) =>
+      request(user, 'projects', 'POST', {
+        workspaceId: workspace.id,
+        githubOwner: 'octocat',
+        githubRepo: 'hello-world',
+      }),
+  },
+  'member.invite': {
+    allowed: 201,
+    send: (user, { workspace }) =>
+      request(user, `workspaces/${workspace.id}/invitations`, 'POST', {
+        role: 'viewer',
+        email: 'friend@example.com',
+      }),
+  },
+  'workspace.update': {
+    allowed: 200,
+    send: (user, { workspace }) =>
+      request(user, `workspaces/${workspace.id}`, 'PATCH', { name: 'Renamed' }),
+  },
+  'member.manage': {
+    allowed: 200,
+    send: (user, { workspace, target }) =>
+      request(user, `workspaces/${workspace.id}/members/${target.id}`, 'PATCH', {
+        role: 'member',
+      }),
+  },
+}
+
+async function queuedJob(project: Project) {
+  const queued = await enqueueJob(
+    getDB(env.DB),
+    project,
+    { number: 1, title: 'Add greeting', url: null },
+    'issue_label',
+    readUsageLimits(env, project)
+  )
+  return queued!.job
+}
+
+async function invite(user: User, workspace: Workspace, body: Record<string, unknown>) {
+  const response = await request(user, `workspaces/${workspace.id}/invitations`, 'POST', body)
+  expect(response.status).toBe(201)
+  return response.json<{ invitation: { id: string }; token: string }>()
+}
+
+async function accept(user: User, token: string) {
+  return request(user, 'invitations/accept', 'POST', { token })
+}
+
+describe('Workspace permissions over HTTP', () => {
+  it.each(
+    [...WORKSPACE_ROLES, 'outsider' as const].flatMap((role) =>
+      (Object.keys(ACTIONS) as PermissionAction[]).map((action) => [role, action] as const)
+    )
+  )('%s: %s', async (role, action) => {
+    const fixture = await workspaceFixture()
+    const user = role === 'outsider' ? await createTestUser() : fixture.members[role]
+
+    const response = await ACTIONS[action].send(user, fixture)
+
+    if (role === 'outsider') {
+      expect(response.status).toBe(404)
+    } else if (can(role, action)) {
+      expect(response.status).toBe(ACTIONS[action].allowed)
+    } else {
+      expect(response.status).toBe(403)
+      expect(await response.json()).toEqual({
+        error: `The ${role} role does not allow ${action}`,
+      })
+    }
+  })
+
+  it('keeps owning personal projects with their user', async () => {
+    const user = await createTestUser()
+    const project = await createTestProject(user)
+
+    const response = await request(user, `projects/${project.id}`)
+    expect(await response.json()).toMatchObject({ project: { id: project.id }, role: 'owner' })
+    expect((await request(await createTestUser(), `projects/${project.id}`)).status).toBe(404)
+  })
+
+  it('lists workspace projects for members only', async () => {
+    const { members, project, workspace } = await workspaceFixture()
+
+    const listed = await request(members.viewer, `projects?workspace=${workspace.id}`)
+    expect(await listed.json()).toMatchObject({ projects: [{ id: project.id }] })
+
+    const outsider = await request(await createTestUser(), `projects?workspace=${workspace.id}`)
+    expect(await outsider.json()).toEqual({ projects: [] })
+  })
+})
+
+describe('Workspaces API', () => {
+  it('makes the creator the owner', async () => {
+    const user = await createTestUser()
+
+    const created = await request(user, 'workspaces', 'POST', { name: '  Platform  ' })
+    expect(created.status).toBe(201)
+    const { workspace, role } = await created.json<{ workspace: Workspace; role: string }>()
+    expect(workspace.name).toBe('Platform')
+    expect(role).toBe('owner')
+
+    const listed = await request(user, 'workspaces')
+    expect(await listed.json()).toEqual({
+      workspaces: [expect.objectContaining({ id: workspace.id, role: 'owner' })],
+    })
+
+    const detail = await request(user, `workspaces/${workspace.id}`)
+    expect(await detail.json()).toMatchObject({
+      members: [{ userId: user.id, username: user.username, role: 'owner' }],
+    })
+  })
+
+  it('keeps at least one owner', async () => {
+    const owner = await createTestUser()
+    const member = await createTestUser()
+    const workspace = await createTestWorkspace([
+      [owner, 'owner'],
+      [member, 'member'],
+    ])
+
+    const demoted = await request(
+      owner,
+      `workspaces/${workspace.id}/members/${owner.id}`,
+      'PATCH',
+      {
+        role: 'maintainer',
+      }
+    )
+    expect(demoted.status).toBe(409)
+    expect(
+      (await request(owner, `workspaces/${workspace.id}/members/${owner.id}`, 'DELETE')).status
+    ).toBe(409)
+
+    // Members leave on their own; removing someone else takes an owner
+    expect(
+      (await request(member, `workspaces/${workspace.id}/members/${owner.id}`, 'DELETE')).status
+    ).toBe(403)
+    expect(
+      (await request(member, `workspaces/${workspace.id}/members/${member.id}`, 'DELETE')).status
+    ).toBe(200)
+    expect((await request(member, `workspaces/${workspace.id}`)).status).toBe(404)
+  })
+
+  it('lets maintainers invite up to their own role', async () => {
+    const maintainer = await createTestUser()
+    const workspace = await createTestWorkspace([[maintainer, 'maintainer']])
+
+    const owner = await request(maintainer, `workspaces/${workspace.id}/invitations`, 'POST', {
+      role: 'owner',
+      githubUsername: 'octocat',
+    })
+    expect(owner.status).toBe(403)
+
+    const { invitation, token } = await invite(maintainer, workspace, {
+      role: 'maintainer',
+      githubUsername: 'octocat',
+    })
+    expect(token).toMatch(/^codiro_inv_/)
+
+    const pending = await request(maintainer, `workspaces/${workspace.id}/invitations`)
+    const { invitations } = await pending.json<{ invitations: Record<string, unknown>[] }>()
+    expect(invitations).toEqual([
+      expect.objectContaining({ id: invitation.id, role: 'maintainer' }),
+    ])
+    expect(invitations[0]).not.toHaveProperty('tokenHash')
+
+    const revoked = await request(
+      maintainer,
+      `workspaces/${workspace.id}/invitations/${invitation.id}`,
+      'DELETE'
+    )
+    expect(revoked.status).toBe(200)
+    expect((await accept(await createTestUser({ username: 'octocat' }), token)).status).toBe(404)
+  })
+
+  it('rejects invitations that are invalid', async () => {
+    const owner = await createTestUser()
+    const workspace = await createTestWorkspace([[owner, 'owner']])
+
+    for (const body of [
+      { role: 'member' },
+      { role: 'member', githubUsername: 'octocat', email: 'octocat@example.com' },
+      { role: 'admin', githubUsername: 'octocat' },
+      { role: 'member', email: 'not-an-email' },
+      { role: 'member', githubUsername: '-octocat' },
+    ]) {
+      const response = await request(owner, `workspaces/${workspace.id}/invitations`, 'POST', body)
+      expect(response.status).toBe(400)
+    }
+  })
+})
+
+describe('Invitations API', () => {
+  it('adds the invited GitHub user with the invited role', async () => {
+    const owner = await createTestUser()
+    const workspace = await createTestWorkspace([[owner, 'owner']])
+    const { token } = await invite(owner, workspace, { role: 'member', githubUsername: 'Hubot' })
+
+    const invitee = await createTestUser()
+    await getDB(env.DB)
+      .insert(identities)
+      .values({ userId: invitee.id, provider: 'github', subject: '4242', username: 'hubot' })
+
+    const response = await accept(invitee, token)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ workspace: { id: workspace.id }, role: 'member' })
+
+    const detail = await request(invitee, `workspaces/${workspace.id}`)
+    expect(await detail.json()).toMatchObject({ role: 'member' })
+
+    // Tokens work once
+    expect((await accept(invitee, token)).status).toBe(404)
+  })
+
+  it('adds the invited email address', async () => {
+    const owner = await createTestUser()
+    const workspace = await createTestWorkspace([[owner, 'owner']])
+    const { token } = await invite(owner, workspace, {
+      role: 'viewer',
+      email: 'Ada@Example.com',
+    })
+
+    const response = await accept(await createTestUser({ email: 'ada@example.com' }), token)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ role: 'viewer' })
+  })
+
+  it('refuses other users, members and expired tokens', async () => {
+    const owner = await createTestUser()
+    const workspace = await createTestWorkspace([[owner, 'owner']])
+    const { invitation, token } = await invite(owner, workspace, {
+      role: 'member',
+      email: 'grace@example.com',
+    })
+
+    const wrongUser = await accept(await createTestUser({ email: 'ada@example.com' }), token)
+    expect(wrongUser.status).toBe(403)
+
+    const grace = await createTestUser({ email: 'grace@example.com' })
+    await getDB(env.DB)
+      .update(workspaceInvitations)
+      .set({ expiresAt: new Date(Date.now() - 1000).toISOString() })
+      .where(eq(workspaceInvitations.id, invitation.id))
+    expect((await accept(grace, token)).status).toBe(404)
+
+    const { token: again } = await invite(owner, workspace, {
+      role: 'member',
+      email: 'grace@example.com',
+    })
+    expect((await accept(grace, again)).status).toBe(200)
+
+    const { token: twice } = await invite(owner, workspace, {
+      role: 'viewer',
+      email: 'grace@example.com',
+    })
+    expect((await accept(grace, twice)).status).toBe(409)
+  })
+})
@@ -0,0 +1,393 @@
+import { Hono } from 'hono'
+import { and, asc, count, desc, eq, gt, isNull } from 'drizzle-orm'
+import { auditRequest } from '../audit/events'
+import { authMiddleware, requireScope } from '../auth/middleware'
+import type { User } from '../types/auth'
+import { authorizeWorkspace, denyWorkspaceAccess } from '../workspaces/access'
+import { createInvitation, invitationColumns } from '../workspaces/invitations'
+import { can, canGrant } from '../workspaces/permissions'
+import {
+  parseInvitationInput,
+  parseMemberInput,
+  parseWorkspaceInput,
+} from '../workspaces/validation'
+import { getDB, type Database } from '../db'
+import { users, workspaceInvitations, workspaceMembers, workspaces } from '../../db/schema'
+
+const workspaceRoutes = new Hono<{ Bindings: Env; Variables: { user: User } }>()
+
+workspaceRoutes.use('*', authMiddleware)
+
+/**
+ * POST /api/workspaces
+ * Create a workspace; the current user becomes its owner
+ */
+workspaceRoutes.post('/', requireScope('workspaces:write'), async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const input = parseWorkspaceInput(body)
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const user = c.get('user')
+  const db = getDB(c.env.DB)
+  const id = crypto.randomUUID()
+
+  const [[workspace]] = await db.batch([
+    db.insert(workspaces).values({ id, name: input.data.name, createdBy: user.id }).returning(),
+    db.insert(workspaceMembers).values({ workspaceId: id, userId: user.id, role: 'owner' }),
+  ])
+
+  auditRequest(c, {
+    action: 'workspace.created',
+    target: { type: 'workspace', id },
+    metadata: { name: workspace.name },
+  })
+
+  return c.json({ workspace, role: 'owner' }, 201)
+})
+
+/**
+ * GET /api/workspaces
+ * List the workspaces of the current user with their role in each
+ */
+workspaceRoutes.get('/', requireScope('workspaces:read'), async (c) => {
+  const db = getDB(c.env.DB)
+
+  const rows = await db
+    .select({ workspace: workspaces, role: workspaceMembers.role })
+    .from(workspaces)
+    .innerJoin(workspaceMembers, eq(workspaceMembers.workspaceId, workspaces.id))
+    .where(eq(workspaceMembers.userId, c.get('user').id))
+    .orderBy(asc(workspaces.name))
+
+  return c.json({ workspaces: rows.map(({ workspace, role }) => ({ ...workspace, role })) })
+})
+
+/**
+ * GET /api/workspaces/:workspaceId
+ * Get a workspace, the current user's role and the members
+ */
+workspaceRoutes.get('/:workspaceId', requireScope('workspaces:read'), async (c) => {
+  const db = getDB(c.env.DB)
+  const access = await authorizeWorkspace(
+    db,
+    c.req.param('workspaceId'),
+    c.get('user').id,
+    'workspace.view'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyWorkspaceAccess(c, access)
+  }
+
+  const members = await db
+    .select({
+      userId: workspaceMembers.userId,
+      role: workspaceMembers.role,
+      username: users.username,
+      avatarUrl: users.avatarUrl,
+      createdAt: workspaceMembers.createdAt,
+    })
+    .from(workspaceMembers)
+    .innerJoin(users, eq(users.id, workspaceMembers.userId))
+    .where(eq(workspaceMembers.workspaceId, access.workspace.id))
+    .orderBy(asc(workspaceMembers.createdAt))
+
+  return c.json({ workspace: access.workspace, role: access.role, members })
+})
+
+/**
+ * PATCH /api/workspaces/:workspaceId
+ * Rename a workspace (owners)
+ */
+workspaceRoutes.patch('/:workspaceId', requireScope('workspaces:write'), async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const input = parseWorkspaceInput(body)
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const db = getDB(c.env.DB)
+  const access = await authorizeWorkspace(
+    db,
+    c.req.param('workspaceId'),
+    c.get('user').id,
+    'workspace.update'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyWorkspaceAccess(c, access)
+  }
+
+  const [workspace] = await db
+    .update(workspaces)
+    .set({ name: input.data.name, updatedAt: new Date().toISOString() })
+    .where(eq(workspaces.id, access.workspace.id))
+    .returning()
+
+  auditRequest(c, {
+    action: 'workspace.updated',
+    target: { type: 'workspace', id: workspace.id },
+    metadata: { name: workspace.name },
+  })
+
+  return c.json({ workspace })
+})
+
+/**
+ * PATCH /api/workspaces/:workspaceId/members/:userId
+ * Change a member's role (owners); the last owner cannot be demoted
+ */
+workspaceRoutes.patch(
+  '/:workspaceId/members/:userId',
+  requireScope('workspaces:write'),
+  async (c) => {
+    const body = await c.req.json().catch(() => null)
+    const input = parseMemberInput(body)
+
+    if (input.error !== undefined) {
+      return c.json({ error: input.error }, 400)
+    }
+
+    const db = getDB(c.env.DB)
+    const access = await authorizeWorkspace(
+      db,
+      c.req.param('workspaceId'),
+      c.get('user').id,
+      'member.manage'
+    )
+
+    if (access.status !== 'allowed') {
+      return denyWorkspaceAccess(c, access)
+    }
+
+    const memberId = c.req.param('userId')
+    const member = await findMember(db, access.workspace.id, memberId)
+
+    if (!member) {
+      return c.json({ error: 'Member not found' }, 404)
+    }
+    if (
+      member.role === 'owner' &&
+      input.data.role !== 'owner' &&
+      (await countOwners(db, access.workspace.id)) === 1
+    ) {
+      return c.json({ error: 'A workspace needs at least one owner' }, 409)
+    }
+
+    const [updated] = await db
+      .update(workspaceMembers)
+      .set({ role: input.data.role, updatedAt: new Date().toISOString() })
+      .where(
+        and(
+          eq(workspaceMembers.workspaceId, access.workspace.id),
+          eq(workspaceMembers.userId, memberId)
+        )
+      )
+      .returning()
+
+    auditRequest(c, {
+      action: 'workspace.member.role_changed',
+      target: { type: 'workspace', id: access.workspace.id },
+      metadata: { userId: memberId, from: member.role, to: updated.role },
+    })
+
+    return c.json({ member: updated })
+  }
+)
+
+/**
+ * DELETE /api/workspaces/:workspaceId/members/:userId
+ * Remove a member (owners), or leave a workspace; the last owner cannot leave
+ */
+workspaceRoutes.delete(
+  '/:workspaceId/members/:userId',
+  requireScope('workspaces:write'),
+  async (c) => {
+    const db = getDB(c.env.DB)
+    const userId = c.get('user').id
+    const memberId = c.req.param('userId')
+    const access = await authorizeWorkspace(
+      db,
+      c.req.param('workspaceId'),
+      userId,
+      'workspace.view'
+    )
+
+    if (access.status !== 'allowed') {
+      return denyWorkspaceAccess(c, access)
+    }
+    if (memberId !== userId && !can(access.role, 'member.manage')) {
+      return denyWorkspaceAccess(c, {
+        status: 'forbidden',
+        role: access.role,
+        action: 'member.manage',
+      })
+    }
+
+    const member = await findMember(db, access.workspace.id, memberId)
+
+    if (!member) {
+      return c.json({ error: 'Member not found' }, 404)
+    }
+    if (member.role === 'owner' && (await countOwners(db, access.workspace.id)) === 1) {
+      return c.json({ error: 'A workspace needs at least one owner' }, 409)
+    }
+
+    await db
+      .delete(workspaceMembers)
+      .where(
+        and(
+          eq(workspaceMembers.workspaceId, access.workspace.id),
+          eq(workspaceMembers.userId, memberId)
+        )
+      )
+
+    auditRequest(c, {
+      action: 'workspace.member.removed',
+      target: { type: 'workspace', id: access.workspace.id },
+      metadata: { userId: memberId, role: member.role },
+    })
+
+    return c.json({ success: true })
+  }
+)
+
+/**
+ * POST /api/workspaces/:workspaceId/invitations
+ * Invite a GitHub user or an email address (maintainers and owners, up to their own role)
+ * Returns the invite token once; it expires after seven days.
+ */
+workspaceRoutes.post('/:workspaceId/invitations', requireScope('workspaces:write'), async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const input = parseInvitationInput(body)
+
+  if (input.error !== undefined) {
+    return c.json({ error: input.error }, 400)
+  }
+
+  const user = c.get('user')
+  const db = getDB(c.env.DB)
+  const access = await authorizeWorkspace(db, c.req.param('workspaceId'), user.id, 'member.invite')
+
+  if (access.status !== 'allowed') {
+    return denyWorkspaceAccess(c, access)
+  }
+  if (!canGrant(access.role, input.data.role)) {
+    return c.json(
+      { error: `The ${access.role} role cannot invite with the ${input.data.role} role` },
+      403
+    )
+  }
+
+  const { invitation, token } = await createInvitation(db, access.workspace.id, user.id, input.data)
+
+  auditRequest(c, {
+    action: 'workspace.invitation.created',
+    target: { type: 'workspace_invitation', id: invitation.id },
+    metadata: {
+      workspaceId: access.workspace.id,
+      role: invitation.role,
+      githubUsername: invitation.githubUsername,
+      email: invitation.email,
+    },
+  })
+
+  return c.json({ invitation, token }, 201)
+})
+
+/**
+ * GET /api/workspaces/:workspaceId/invitations
+ * List pending, unexpired invitations (maintainers and owners)
+ */
+workspaceRoutes.get('/:workspaceId/invitations', requireScope('workspaces:read'), async (c) => {
+  const db = getDB(c.env.DB)
+  const access = await authorizeWorkspace(
+    db,
+    c.req.param('workspaceId'),
+    c.get('user').id,
+    'member.invite'
+  )
+
+  if (access.status !== 'allowed') {
+    return denyWorkspaceAccess(c, access)
+  }
+
+  const rows = await db
+    .select(invitationColumns)
+    .from(workspaceInvitations)
+    .where(
+      and(
+        eq(workspaceInvitations.workspaceId, access.workspace.id),
+        isNull(workspaceInvitations.acceptedAt),
+        gt(workspaceInvitations.expiresAt, new Date().toISOString())
+      )
+    )
+    .orderBy(desc(workspaceInvitations.createdAt))
+
+  return c.json({ invitations: rows })
+})
+
+/**
+ * DELETE /api/workspaces/:workspaceId/invitations/:invitationId
+ * Revoke a pending invitation (maintainers and owners)
+ */
+workspaceRoutes.delete(
+  '/:workspaceId/invitations/:invitationId',
+  requireScope('workspaces:write'),
+  async (c) => {
+    const db = getDB(c.env.DB)
+    const access = await authorizeWorkspace(
+      db,
+      c.req.param('workspaceId'),
+      c.get('user').id,
+      'member.invite'
+    )
+
+    if (access.status !== 'allowed') {
+      return denyWorkspaceAccess(c, access)
+    }
+
+    const [revoked] = await db
+      .delete(workspaceInvitations)
+      .where(
+        and(
+          eq(workspaceInvitations.id, c.req.param('invitationId')),
+          eq(workspaceInvitations.workspaceId, access.workspace.id),
+          isNull(workspaceInvitations.acceptedAt)
+        )
+      )
+      .returning({ id: workspaceInvitations.id })
+
+    if (!revoked) {
+      return c.json({ error: 'Invitation not found' }, 404)
+    }
+
+    auditRequest(c, {
+      action: 'workspace.invitation.revoked',
+      target: { type: 'workspace_invitation', id: revoked.id },
+      metadata: { workspaceId: access.workspace.id },
+    })
+
+    return c.json({ success: true })
+  }
+)
+
+async function findMember(db: Database, workspaceId: string, userId: string) {
+  return db.query.workspaceMembers.findFirst({
+    where: and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)),
+  })
+}
+
+async function countOwners(db: Database, workspaceId: string): Promise<number> {
+  const [row] = await db
+    .select({ owners: count() })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.role, 'owner')))
+  return row.owners
+}
+
+export default workspaceRoutes
@@ -0,0 +1,6 @@
+declare module 'cloudflare:test' {
+  interface ProvidedEnv extends Env {
+    TEST_MIGRATIONS: D1Migration[]
+    TEST_GITHUB_APP_PUBLIC_KEY: string
+  }
+}
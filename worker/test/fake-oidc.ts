@@ -0,0 +1,123 @@
+import { fetchMock } from 'cloudflare:test'
+import { sign } from 'hono/jwt'
+
+interface PendingAuthorization {
+  codeChallenge: string
+  idToken: string
+  codeVerifier?: string
+}
+
+/**
+ * In-memory OpenID Connect provider backed by fetchMock
+ * Serves discovery, JWKS and a token endpoint that checks PKCE and signs ID tokens.
+ */
+export async function createFakeOIDCServer(options: { issuer: string; clientId: string }) {
+  const { issuer, clientId } = options
+  const { privateKey, publicKey } = (await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify']
+  )) as CryptoKeyPair
+  const kid = crypto.randomUUID()
+  const privateJwk = {
+    ...((await crypto.subtle.exportKey('jwk', privateKey)) as JsonWebKey),
+    kid,
+    alg: 'RS256',
+  }
+  const publicJwk = {
+    ...((await crypto.subtle.exportKey('jwk', publicKey)) as JsonWebKey),
+    kid,
+    alg: 'RS256',
+    use: 'sig',
+  }
+
+  const pending = new Map<string, PendingAuthorization>()
+  const pool = fetchMock.get(issuer)
+
+  // The worker caches discovery per isolate, so this may be fetched once per test file
+  pool
+    .intercept({ path: '/.well-known/openid-configuration' })
+    .reply(200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+    })
+    .persist()
+
+  return {
+    /**
+     * Act as the user approving the authorization request; returns the code to send back
+     * The ID token is signed up front with the request's nonce and the given claims.
+     */
+    async authorize(authorizationUrl: URL, claims: Record<string, unknown>): Promise<string> {
+      const now = Math.floor(Date.now() / 1000)
+      const idToken = await sign(
+        {
+          iss: issuer,
+          aud: clientId,
+          iat: now,
+          exp: now + 300,
+          nonce: authorizationUrl.searchParams.get('nonce'),
+          ...claims,
+        },
+        privateJwk
+      )
+      const code = crypto.randomUUID()
+      pending.set(code, {
+        codeChallenge: authorizationUrl.searchParams.get('code_challenge')!,
+        idToken,
+      })
+      return code
+    },
+
+    /**
+     * Expect one token request followed by one JWKS fetch
+     */
+    expectTokenExchange() {
+      pool.intercept({ path: '/token', method: 'POST' }).reply(({ body }) => {
+        const params = new URLSearchParams(String(body))
+        const authorization = pending.get(params.get('code') ?? '')
+
+        if (!authorization || params.get('client_id') !== clientId) {
+          return { statusCode: 400, data: { error: 'invalid_grant' } }
+        }
+
+        authorization.codeVerifier = params.get('code_verifier') ?? ''
+        return {
+          statusCode: 200,
+          data: {
+            access_token: 'idp-access-token',
+            token_type: 'Bearer',
+            id_token: authorization.idToken,
+          },
+        }
+      })
+      pool.intercept({ path: '/jwks' }).reply(200, { keys: [publicJwk] })
+    },
+
+    /**
+     * Whether the code was redeemed with the verifier matching its PKCE challenge
+     */
+    async verifiedPkce(code: string): Promise<boolean> {
+      const authorization = pending.get(code)
+      return (
+        authorization?.codeVerifier !== undefined &&
+        (await s256(authorization.codeVerifier)) === authorization.codeChallenge
+      )
+    },
+  }
+}
+
+async function s256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return btoa(String.fromCharCode(...new Uint8Array(digest)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
@@ -0,0 +1,253 @@
+import { createGitHubClient } from '../github/client'
+import type { DiscussionContext, SpecModel } from '../types/conversations'
+import type { GitHubIssue, GitHubIssueComment } from '../types/github'
+import type {
+  CodeModel,
+  FileChange,
+  GeneratedChanges,
+  PromptContext,
+  RepositoryGateway,
+} from '../types/jobs'
+
+/**
+ * Code model that always proposes the same changes and records what it was asked
+ */
+export function createFakeCodeModel(changes: GeneratedChanges) {
+  const contexts: PromptContext[] = []
+  const model: CodeModel = {
+    async generateChanges(context) {
+      contexts.push(context)
+      return changes
+    },
+  }
+  return { model, contexts }
+}
+
+/**
+ * Spec model that echoes the last message word by word and drafts the spec from the
+ * developer's messages; records every context it was given
+ */
+export function createFakeSpecModel(options: { failAfter?: number } = {}) {
+  const contexts: DiscussionContext[] = []
+  const model: SpecModel = {
+    async *streamReply(context) {
+      contexts.push(context)
+      const last = context.messages.at(-1)?.content ?? ''
+      const words = `You said: ${last}`.split(/(?<= )/)
+      for (const [index, word] of words.entries()) {
+        if (options.failAfter !== undefined && index >= options.failAfter) {
+          throw new Error('Model stream interrupted')
+        }
+        yield word
+      }
+    },
+    async draftSpec(context) {
+      contexts.push(context)
+      return context.messages
+        .filter((message) => message.role === 'user')
+        .map((message) => `- ${message.content}`)
+        .join('\n')
+    },
+  }
+  return { model, contexts }
+}
+
+/**
+ * In-memory repository: a fixed issue and file list, and a record of what was written back
+ */
+export function createFakeRepositoryGateway(files: string[] = ['README.md']) {
+  const pullRequests: Array<{ branch: string; title: string; body: string; files: FileChange[] }> =
+    []
+  const pushes: Array<{
+    branch: string
+    baseSha: string
+    commitMessage: string
+    files: FileChange[]
+  }> = []
+  const issueBodies = new Map<number, string>()
+  const comments: Array<{ issueNumber: number; body: string }> = []
+  const github: RepositoryGateway = {
+    async getIssue(issueNumber) {
+      return {
+        number: issueNumber,
+        title: `Issue ${issueNumber}`,
+        body: issueBodies.get(issueNumber) ?? 'Please add a greeting.',
+        html_url: `https://github.com/octocat/codiro/issues/${issueNumber}`,
+      }
+    },
+    async updateIssueBody(issueNumber, body) {
+      issueBodies.set(issueNumber, body)
+    },
+    async createIssueComment(issueNumber, body) {
+      comments.push({ issueNumber, body })
+      return {
+        url: `https://github.com/octocat/codiro/issues/${issueNumber}#issuecomment-${comments.length}`,
+      }
+    },
+    async getBranchSha() {
+      return 'base-sha'
+    },
+    async listFiles() {
+      return files
+    },
+    // One pull request per branch; later pushes to the branch update it
+    async openPullRequest(input) {
+      const created = !pullRequests.some((pr) => pr.branch === input.branch)
+      pullRequests.push(input)
+      const number = 101 + [...new Set(pullRequests.map((pr) => pr.branch))].indexOf(input.branch)
+      return { number, url: `https://github.com/octocat/codiro/pull/${number}`, created }
+    },
+    async getPullRequest(number) {
+      return {
+        number,
+        url: `https://github.com/octocat/codiro/pull/${number}`,
+        state: 'open',
+        branch: 'codiro/issue-7',
+        headSha: 'head-sha',
+      }
+    },
+    async getPullRequestDiff() {
+      return 'diff --git a/hello.txt b/hello.txt\n@@ -0,0 +1 @@\n+Hello!'
+    },
+    async listReviewThreads() {
+      return [
+        {
+          path: 'hello.txt',
+          line: 1,
+          comments: [{ author: 'reviewer', body: 'Say hello to the world' }],
+        },
+      ]
+    },
+    async pushChanges(input) {
+      pushes.push(input)
+      return { sha: `pushed${pushes.length}`.padEnd(40, '0') }
+    },
+  }
+  return { github, pullRequests, pushes, issueBodies, comments }
+}
+
+/**
+ * GitHub issue payload (REST and webhook shape) for octocat/codiro
+ */
+export function githubIssue(number: number, overrides: Partial<GitHubIssue> = {}): GitHubIssue {
+  return {
+    id: 1000 + number,
+    node_id: `I_${number}`,
+    number,
+    title: `Issue ${number}`,
+    body: 'Please add a greeting.',
+    state: 'open',
+    state_reason: null,
+    html_url: `https://github.com/octocat/codiro/issues/${number}`,
+    user: { login: 'octocat' },
+    labels: [],
+    assignees: [],
+    comments: 0,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    closed_at: null,
+    ...overrides,
+  }
+}
+
+/**
+ * GitHub issue comment payload for an issue of octocat/codiro
+ */
+export function githubComment(
+  id: number,
+  issueNumber: number,
+  overrides: Partial<GitHubIssueComment> = {}
+): GitHubIssueComment {
+  return {
+    id,
+    body: `Comment ${id}`,
+    html_url: `https://github.com/octocat/codiro/issues/${issueNumber}#issuecomment-${id}`,
+    issue_url: `https://api.github.com/repos/octocat/codiro/issues/${issueNumber}`,
+    user: { login: 'hubot', type: 'User' },
+    author_association: 'MEMBER',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+/**
+ * GitHub client serving the Git Data and compare APIs of octocat/codiro from in-memory
+ * commits (commit sha → path → content); `main` points at `head`. Records request paths.
+ */
+export function createFakeRepositoryClient(
+  commits: Record<string, Record<string, string>>,
+  head: string
+) {
+  const requests: string[] = []
+  const encoder = new TextEncoder()
+  const blobs = new Map<string, string>()
+  const blobSha = (content: string) => {
+    let hash = 0
+    for (const char of content) {
+      hash = (hash * 31 + char.charCodeAt(0)) | 0
+    }
+    const sha = `blob${(hash >>> 0).toString(16)}${content.length}`
+    blobs.set(sha, content)
+    return sha
+  }
+
+  const routes: Array<[RegExp, (...groups: string[]) => unknown]> = [
+    [/^\/git\/ref\/heads\/main$/, () => ({ object: { sha: head } })],
+    [
+      /^\/git\/trees\/(\w+)\?recursive=1$/,
+      (sha) => ({
+        truncated: false,
+        tree: Object.entries(commits[sha]).map(([path, content]) => ({
+          path,
+          type: 'blob',
+          sha: blobSha(content),
+          size: encoder.encode(content).length,
+        })),
+      }),
+    ],
+    [
+      /^\/git\/blobs\/(\w+)$/,
+      (sha) => {
+        const bytes = encoder.encode(blobs.get(sha)!)
+        return {
+          content: btoa(String.fromCharCode(...bytes)),
+          encoding: 'base64',
+          size: bytes.length,
+        }
+      },
+    ],
+    [
+      /^\/compare\/(\w+)\.\.\.(\w+)$/,
+      (base, target) => {
+        const [from, to] = [commits[base], commits[target]]
+        const paths = [...new Set([...Object.keys(from), ...Object.keys(to)])]
+        return {
+          files: paths
+            .filter((path) => from[path] !== to[path])
+            .map((path) => ({
+              filename: path,
+              status: !(path in from) ? 'added' : !(path in to) ? 'removed' : 'modified',
+              sha: blobSha(to[path] ?? from[path]),
+            })),
+        }
+      },
+    ],
+  ]
+
+  const fetch = (async (input: RequestInfo | URL) => {
+    const url = new URL(String(input))
+    const path = (url.pathname + url.search).replace('/repos/octocat/codiro', '')
+    requests.push(path)
+    for (const [pattern, handle] of routes) {
+      const match = pattern.exec(path)
+      if (match) {
+        return Response.json(handle(...match.slice(1)))
+      }
+    }
+    return Response.json({ message: 'Not Found' }, { status: 404 })
+  }) as typeof globalThis.fetch
+
+  const client = createGitHubClient({ apiUrl: 'https://api.github.test', token: 'ghs_test', fetch })
+  return { client, requests }
+}
@@ -0,0 +1,187 @@
+import { SELF, env } from 'cloudflare:test'
+import { sign } from 'hono/jwt'
+import { createSession } from '../auth/sessions'
+import { getDB } from '../db'
+import {
+  projects,
+  users,
+  workspaceMembers,
+  workspaces,
+  type NewProject,
+  type Project,
+  type Session,
+  type User,
+  type Workspace,
+  type WorkspaceRole,
+} from '../../db/schema'
+
+/**
+ * Insert a user row for tests
+ */
+export async function createTestUser(overrides: Partial<User> = {}): Promise<User> {
+  const [user] = await getDB(env.DB)
+    .insert(users)
+    .values({
+      id: crypto.randomUUID(),
+      username: `user-${crypto.randomUUID().slice(0, 8)}`,
+      email: null,
+      avatarUrl: null,
+      ...overrides,
+    })
+    .returning()
+  return user
+}
+
+/**
+ * Build a Cookie header carrying a valid access token for the given user
+ * Access tokens are bound to a session; a new one is created unless one is passed in.
+ */
+export async function authCookie(
+  user: Pick<User, 'id' | 'username' | 'tokenVersion'>,
+  session?: Pick<Session, 'familyId'>
+): Promise<string> {
+  const familyId = session?.familyId ?? (await createTestSession(user)).session.familyId
+  const now = Math.floor(Date.now() / 1000)
+  const token = await sign(
+    {
+      sub: user.id,
+      username: user.username,
+      sid: familyId,
+      ver: user.tokenVersion,
+      iat: now,
+      exp: now + 60,
+    },
+    env.JWT_SECRET
+  )
+  return `access_token=${token}`
+}
+
+/**
+ * Deliver a signed GitHub webhook to the worker
+ */
+export async function sendWebhook(
+  event: string,
+  payload: unknown,
+  deliveryId: string = crypto.randomUUID()
+): Promise<Response> {
+  const body = JSON.stringify(payload)
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(env.GITHUB_WEBHOOK_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body))
+  const signature = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('')
+
+  return SELF.fetch('http://localhost/api/webhooks/github', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-GitHub-Event': event,
+      'X-GitHub-Delivery': deliveryId,
+      'X-Hub-Signature-256': `sha256=${signature}`,
+    },
+    body,
+  })
+}
+
+/**
+ * Insert a project for tests
+ */
+export async function createTestProject(
+  user: Pick<User, 'id'>,
+  overrides: Partial<NewProject> = {}
+): Promise<Project> {
+  const [project] = await getDB(env.DB)
+    .insert(projects)
+    .values({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      name: 'codiro',
+      githubOwner: 'octocat',
+      githubRepo: 'codiro',
+      ...overrides,
+    })
+    .returning()
+  return project
+}
+
+/**
+ * Insert a workspace and its members for tests
+ */
+export async function createTestWorkspace(
+  members: [Pick<User, 'id'>, WorkspaceRole][]
+): Promise<Workspace> {
+  const db = getDB(env.DB)
+  const [workspace] = await db
+    .insert(workspaces)
+    .values({ id: crypto.randomUUID(), name: 'Codiro team' })
+    .returning()
+  await db
+    .insert(workspaceMembers)
+    .values(members.map(([user, role]) => ({ workspaceId: workspace.id, userId: user.id, role })))
+  return workspace
+}
+
+/**
+ * Create a session and build a Cookie header carrying its refresh token
+ */
+export async function createTestSession(user: Pick<User, 'id'>) {
+  const session = await createSession(getDB(env.DB), user.id, {
+    userAgent: 'vitest',
+    ipAddress: '203.0.113.1',
+    country: 'JP',
+  })
+  return { session, cookie: await refreshCookie(user, session) }
+}
+
+/**
+ * Build a Cookie header carrying a refresh token for the given session
+ */
+export async function refreshCookie(
+  user: Pick<User, 'id'>,
+  session: Pick<Session, 'id' | 'familyId'>
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  const token = await sign(
+    {
+      sub: user.id,
+      sessionId: session.id,
+      familyId: session.familyId,
+      iat: now,
+      exp: now + 60 * 60,
+    },
+    env.JWT_SECRET
+  )
+  return `refresh_token=${token}`
+}
+
+/**
+ * Turn a response's Set-Cookie headers into a Cookie header for the next request
+ */
+export function cookiesFrom(response: Response): string {
+  return response.headers
+    .getSetCookie()
+    .map((cookie) => cookie.split(';')[0])
+    .filter((cookie) => !cookie.endsWith('='))
+    .join('; ')
+}
+
+/**
+ * Start signing in with an identity provider
+ * Returns the provider's authorization URL, the state it was given and the flow cookie.
+ */
+export async function startSignIn(provider: string, cookie?: string) {
+  const response = await SELF.fetch(`http://localhost/api/auth/${provider}`, {
+    headers: cookie ? { Cookie: cookie } : {},
+    redirect: 'manual',
+  })
+  const authorizationUrl = new URL(response.headers.get('Location')!)
+  return {
+    authorizationUrl,
+    state: authorizationUrl.searchParams.get('state')!,
+    cookie: cookiesFrom(response),
+  }
+}
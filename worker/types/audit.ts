@@ -0,0 +1,35 @@
+import type { AuditAction, AuditActorType } from '../../db/schema'
+
+export interface AuditActor {
+  type: AuditActorType
+  // Null for system actors and for sign-ins that failed before the user was known
+  id: string | null
+}
+
+export interface AuditEventInput {
+  actor: AuditActor
+  action: AuditAction
+  target?: { type: string; id: string }
+  projectId?: string | null
+  ipAddress?: string | null
+  userAgent?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export interface AuditEventQuery {
+  actorId: string | null
+  projectId: string | null
+  // Exact action, or a prefix when the filter ends in ".*" (e.g. "job.*")
+  action: string | null
+  // Inclusive lower and exclusive upper bound, as ISO timestamps
+  from: string | null
+  to: string | null
+  cursor: AuditCursor | null
+  limit: number
+}
+
+// Position after the last event of a page; events are ordered newest first
+export interface AuditCursor {
+  createdAt: string
+  id: string
+}
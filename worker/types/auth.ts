@@ -8,12 +8,15 @@ export interface User {
   updatedAt: string | null
 }
 
-export interface GitHubIdentity {
+export interface Identity {
+  id: string
   userId: string
-  githubId: number
-  githubUsername: string
-  githubEmail: string | null
+  provider: string
+  subject: string
+  username: string
+  email: string | null
   createdAt: string | null
+  updatedAt: string | null
 }
 
 export interface Session {
@@ -27,6 +30,8 @@ export interface Session {
 export interface AccessTokenPayload {
   sub: string // user id
   username: string
+  sid: string // session family id
+  ver: number // user token version
   exp: number
   iat: number
   [key: string]: unknown
@@ -35,6 +40,7 @@ export interface AccessTokenPayload {
 export interface RefreshTokenPayload {
   sub: string // user id
   sessionId: string
+  familyId?: string // absent on tokens issued before consumed sessions were deleted
   exp: number
   iat: number
   [key: string]: unknown
@@ -46,6 +52,86 @@ export interface OAuthStatePayload {
   [key: string]: unknown
 }
 
+// Pending authorization, kept in a signed cookie between redirect and callback
+export interface OAuthFlowPayload {
+  provider: string
+  state: string // state token sent to the provider
+  codeVerifier: string
+  nonce: string
+  linkUserId?: string // user the identity is being linked to
+  exp: number
+  [key: string]: unknown
+}
+
+// Identity provider types
+export interface IdentityProfile {
+  subject: string // stable account id at the provider
+  username: string
+  email: string | null
+  avatarUrl: string | null
+  githubTokens?: GitHubUserTokens // set by the GitHub provider, persisted encrypted
+}
+
+export interface AuthorizationParams {
+  redirectUri: string
+  state: string
+  codeChallenge: string // PKCE, S256
+  nonce: string
+}
+
+export interface CodeExchangeParams {
+  code: string
+  redirectUri: string
+  codeVerifier: string
+  nonce: string
+}
+
+export interface IdentityProvider {
+  id: string
+  name: string
+  getAuthorizationUrl(params: AuthorizationParams): Promise<string>
+  exchangeCode(params: CodeExchangeParams): Promise<IdentityProfile>
+}
+
+// Entry of the OIDC_PROVIDERS secret (JSON array)
+export interface OIDCProviderConfig {
+  id: string
+  name: string
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  scopes?: string[]
+}
+
+export interface OIDCDiscoveryDocument {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+}
+
+export interface OIDCTokenResponse {
+  access_token: string
+  token_type: string
+  id_token: string
+}
+
+export interface OIDCIdTokenClaims {
+  iss: string
+  sub: string
+  aud: string | string[]
+  azp?: string
+  exp: number
+  iat: number
+  nonce?: string
+  preferred_username?: string
+  nickname?: string
+  email?: string
+  email_verified?: boolean
+  picture?: string
+  [key: string]: unknown
+}
+
 // GitHub API response types
 export interface GitHubUser {
   id: number
@@ -59,6 +145,30 @@ export interface GitHubTokenResponse {
   access_token: string
   token_type: string
   scope: string
+  // Only for GitHub Apps with expiring user tokens
+  refresh_token?: string
+  expires_in?: number // seconds
+  refresh_token_expires_in?: number // seconds
+}
+
+// GitHub reports OAuth errors with a 200 status
+export interface GitHubTokenError {
+  error: string
+  error_description?: string
+}
+
+export interface GitHubUserTokens {
+  accessToken: string
+  refreshToken: string | null
+  accessTokenExpiresAt: string | null
+  refreshTokenExpiresAt: string | null
+}
+
+// How the current request authenticated
+export interface AuthInfo {
+  method: 'session' | 'token'
+  scopes: string[] | null // null: every scope
+  tokenId?: string
 }
 
 // Authentication context
@@ -0,0 +1,24 @@
+// A file of the snapshot ranked for a query, by its best chunk
+export interface RankedFile {
+  path: string
+  language: string | null
+  score: number
+}
+
+// Lines of a file picked as context for a job
+export interface ContextSnippet {
+  path: string
+  startLine: number
+  endLine: number
+  score: number
+  content: string
+}
+
+export interface RetrievedContext {
+  // Commit of the snapshot the files were read at
+  commitSha: string
+  // Distinct query terms that were ranked on
+  terms: string[]
+  files: RankedFile[]
+  snippets: ContextSnippet[]
+}
@@ -0,0 +1,28 @@
+import type { RepositoryGateway } from './jobs'
+
+export const SPEC_TARGETS = ['issue_body', 'comment'] as const
+
+export type SpecTarget = (typeof SPEC_TARGETS)[number]
+
+/**
+ * What the model sees of a spec discussion
+ */
+export interface DiscussionContext {
+  repository: { owner: string; repo: string }
+  issue: { number: number; title: string; body: string; url: string | null }
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>
+}
+
+/**
+ * Discusses an issue with the user and writes up the result; swapped for a deterministic
+ * fake in tests
+ */
+export interface SpecModel {
+  streamReply(context: DiscussionContext): AsyncIterable<string>
+  draftSpec(context: DiscussionContext): Promise<string>
+}
+
+export interface FinalizeSpecDeps {
+  model: SpecModel
+  github: Pick<RepositoryGateway, 'getIssue' | 'updateIssueBody' | 'createIssueComment'>
+}
@@ -0,0 +1,91 @@
+// GitHub App types
+export interface GitHubAccount {
+  id: number
+  login: string
+  type: 'User' | 'Organization' | string
+}
+
+export interface GitHubAppInstallation {
+  id: number
+  account: GitHubAccount
+  suspended_at: string | null
+}
+
+export interface GitHubRepository {
+  id: number
+  name: string
+  full_name: string
+  owner: GitHubAccount
+  private: boolean
+  archived: boolean
+  default_branch: string
+  description: string | null
+  html_url: string
+}
+
+// GET /installation/repositories
+export interface InstallationRepositoriesPage {
+  total_count: number
+  repositories: GitHubRepository[]
+}
+
+// GET /user/installations
+export interface UserInstallationsPage {
+  total_count: number
+  installations: GitHubAppInstallation[]
+}
+
+// Issues API (also the shape of `issue` / `comment` in webhook payloads)
+export interface GitHubIssue {
+  id: number
+  node_id: string
+  number: number
+  title: string
+  body: string | null
+  state: 'open' | 'closed'
+  state_reason: string | null
+  html_url: string
+  user: { login: string }
+  labels: Array<{ name: string }>
+  assignees: Array<{ login: string }>
+  comments: number
+  created_at: string
+  updated_at: string
+  closed_at: string | null
+  pull_request?: { url: string }
+}
+
+// How the author of a comment or review relates to the repository
+export type AuthorAssociation =
+  | 'OWNER'
+  | 'MEMBER'
+  | 'COLLABORATOR'
+  | 'CONTRIBUTOR'
+  | 'FIRST_TIME_CONTRIBUTOR'
+  | 'FIRST_TIMER'
+  | 'MANNEQUIN'
+  | 'NONE'
+
+export interface GitHubIssueComment {
+  id: number
+  body: string
+  html_url: string
+  issue_url: string
+  user: { login: string; type: string }
+  author_association: AuthorAssociation
+  created_at: string
+  updated_at: string
+}
+
+export interface InstallationAccessToken {
+  token: string
+  expires_at: string
+}
+
+// JWT payload for authenticating as the GitHub App
+export interface AppTokenPayload {
+  iss: string // app id
+  iat: number
+  exp: number
+  [key: string]: unknown
+}
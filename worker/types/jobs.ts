@@ -0,0 +1,153 @@
+import type { ContextSnippet } from './context'
+import type { Job, JobStep, JobStepLevel } from '../../db/schema'
+
+// Context gathered for a job before asking the model for changes
+export interface PromptContext {
+  repository: {
+    owner: string
+    repo: string
+    defaultBranch: string
+    // Commit of the default branch the files were listed at
+    baseSha: string
+  }
+  issue: {
+    number: number
+    title: string
+    body: string
+    url: string
+  }
+  files: string[]
+  // Excerpts the repository snapshot ranks most relevant to the issue, when it is indexed
+  snippets?: ContextSnippet[]
+  // Spec agreed in the issue's spec discussion, when one was finalized
+  spec?: string
+  // Follow-up jobs only: the pull request under review and what reviewers asked for
+  review?: ReviewContext
+}
+
+// Pull request comment or review that asked Codiro for a follow-up (stored on the job)
+export interface ReviewRequest {
+  source: 'issue_comment' | 'review'
+  id: number
+  author: string
+  body: string
+  url: string
+}
+
+export interface ReviewThread {
+  // File and line of inline review comments; null for the pull request conversation
+  path: string | null
+  line: number | null
+  comments: Array<{ author: string; body: string }>
+}
+
+export interface ReviewContext {
+  pullRequest: { number: number; url: string; branch: string }
+  diff: string
+  threads: ReviewThread[]
+  request: ReviewRequest
+}
+
+// An edit to one file; create and modify write the full new content
+export type FileChange =
+  | { action: 'create' | 'modify'; path: string; content: string }
+  | { action: 'delete'; path: string }
+  // Moves previousPath to path, with new content or unchanged
+  | { action: 'rename'; previousPath: string; path: string; content?: string }
+
+export interface GeneratedChanges {
+  summary: string
+  files: FileChange[]
+}
+
+export interface RepositoryIssue {
+  number: number
+  title: string
+  body: string | null
+  html_url: string
+}
+
+export interface RepositoryPullRequest {
+  number: number
+  url: string
+  state: 'open' | 'closed'
+  branch: string
+  headSha: string
+}
+
+export interface OpenedPullRequest {
+  number: number
+  url: string
+  // False when an open pull request for the branch was updated instead
+  created: boolean
+}
+
+/**
+ * Produces code changes for an issue; swapped for a deterministic fake in tests
+ */
+export interface CodeModel {
+  generateChanges(context: PromptContext): Promise<GeneratedChanges>
+}
+
+/**
+ * The GitHub operations a job needs on the project's repository
+ */
+export interface RepositoryGateway {
+  getIssue(issueNumber: number): Promise<RepositoryIssue>
+  updateIssueBody(issueNumber: number, body: string): Promise<void>
+  createIssueComment(issueNumber: number, body: string): Promise<{ url: string }>
+  getBranchSha(branch: string): Promise<string>
+  listFiles(ref: string): Promise<string[]>
+  // Commit the changes onto the base branch as `branch` (force-updated), then open a pull
+  // request for it or update the open one
+  openPullRequest(input: {
+    baseBranch: string
+    // Commit the changes were generated against; see commitChanges
+    baseSha?: string
+    branch: string
+    title: string
+    body: string
+    commitMessage: string
+    files: FileChange[]
+  }): Promise<OpenedPullRequest>
+  getPullRequest(number: number): Promise<RepositoryPullRequest>
+  // Unified diff of the pull request against its base
+  getPullRequestDiff(number: number): Promise<string>
+  listReviewThreads(number: number): Promise<ReviewThread[]>
+  // Add a commit to an existing branch; fails rather than overwrite commits pushed since baseSha
+  pushChanges(input: {
+    branch: string
+    baseSha: string
+    commitMessage: string
+    files: FileChange[]
+  }): Promise<{ sha: string }>
+}
+
+export interface JobRunnerDeps {
+  model: CodeModel
+  github: RepositoryGateway
+  // Base URL of the web app, for links back to the job
+  appUrl: string
+}
+
+// Builds the dependencies once an attempt has started, so failures to do so count as attempts
+export type JobRunnerDepsFactory = () => Promise<JobRunnerDeps>
+
+export type JobStepLogger = (step: string, message: string, level?: JobStepLevel) => Promise<void>
+
+export interface JobRunOptions {
+  // Records the steps of the attempt
+  log?: JobStepLogger
+  // Aborted when the job is cancelled; the attempt stops at its next step
+  signal?: AbortSignal
+  // Delay before retrying after a failure (ms), or null to fail the job for good
+  retryDelay?: (error: unknown) => number | null
+}
+
+// What WebSocket clients of a job's live log are sent
+export type JobLogMessage =
+  | { type: 'step'; step: JobStep }
+  | {
+      type: 'status'
+      job: Pick<Job, 'id' | 'status' | 'attempts' | 'nextAttemptAt' | 'prUrl' | 'failureReason'>
+    }
@@ -0,0 +1,72 @@
+import type { LLMFeature, LLMProvider } from '../../db/schema'
+
+// Chat model types (OpenAI-compatible message shape)
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  // Tools the assistant asked for (assistant messages)
+  toolCalls?: ChatToolCall[]
+  // Call this message answers (tool messages)
+  toolCallId?: string
+}
+
+// A function the model may call; parameters is a JSON Schema object
+export interface ChatTool {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface ChatToolCall {
+  id: string
+  name: string
+  // JSON-encoded arguments, as produced by the model (not validated)
+  arguments: string
+}
+
+export interface ChatCompletionOptions {
+  temperature?: number
+  maxTokens?: number
+  json?: boolean
+  tools?: ChatTool[]
+}
+
+export interface ChatUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface ChatCompletion {
+  content: string
+  toolCalls: ChatToolCall[]
+  usage: ChatUsage
+}
+
+export interface ChatModel {
+  readonly provider: LLMProvider
+  readonly model: string
+  complete(messages: ChatMessage[], options?: ChatCompletionOptions): Promise<ChatCompletion>
+  // Yields the reply as content deltas while it is generated, then returns the full completion
+  stream(
+    messages: ChatMessage[],
+    options?: ChatCompletionOptions
+  ): AsyncGenerator<string, ChatCompletion, undefined>
+}
+
+// Model settings after project overrides are applied to the deployment defaults
+export interface ModelSettings {
+  provider: LLMProvider
+  model: string
+  temperature: number | null
+  maxTokens: number | null
+  systemPrompt: string | null
+}
+
+// What a model call is recorded against in llm_usage
+export interface UsageScope {
+  projectId: string
+  userId: string | null
+  feature: LLMFeature
+  jobId?: string
+  conversationId?: string
+}
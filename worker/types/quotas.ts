@@ -0,0 +1,36 @@
+import type { QuotaScope } from '../../db/schema'
+
+export type QuotaMetric = 'tokens' | 'jobs'
+
+// Monthly limits; null means unlimited
+export interface QuotaLimits {
+  tokens: number | null
+  jobs: number | null
+}
+
+export interface UsageLimits {
+  user: QuotaLimits
+  project: QuotaLimits
+  // Share of a limit (0-100) at which a warning is sent
+  softLimitPercent: number
+}
+
+// Who a job or model call counts against
+export interface QuotaSubjects {
+  userId: string | null
+  projectId: string
+}
+
+export interface QuotaWarning {
+  scope: QuotaScope
+  metric: QuotaMetric
+  used: number
+  limit: number
+}
+
+export interface QuotaStatus {
+  used: number
+  limit: number | null
+  warning: boolean
+  exceeded: boolean
+}
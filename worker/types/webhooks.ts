@@ -0,0 +1,127 @@
+import type {
+  AuthorAssociation,
+  GitHubAppInstallation,
+  GitHubIssue,
+  GitHubIssueComment,
+} from './github'
+
+// Shared webhook payload fragments (only the fields Codiro reads)
+export interface WebhookRepository {
+  id: number
+  name: string
+  full_name: string
+  owner: { login: string }
+  default_branch: string
+}
+
+export interface WebhookSender {
+  id: number
+  login: string
+  type: 'User' | 'Bot' | string
+}
+
+export interface WebhookLabel {
+  name: string
+}
+
+export type WebhookIssue = GitHubIssue
+
+export type WebhookComment = GitHubIssueComment
+
+export interface WebhookPullRequest {
+  id: number
+  number: number
+  title: string
+  state: 'open' | 'closed'
+  merged: boolean
+  html_url: string
+  head: { ref: string; sha: string }
+  base: { ref: string }
+}
+
+export interface WebhookReview {
+  id: number
+  body: string | null
+  state: string
+  html_url: string
+  user: { login: string; type: string }
+  author_association: AuthorAssociation
+}
+
+interface BaseEvent {
+  action: string
+  sender: WebhookSender
+  installation?: { id: number }
+}
+
+interface RepositoryEvent extends BaseEvent {
+  repository: WebhookRepository
+}
+
+// Event payloads
+export interface InstallationEvent extends BaseEvent {
+  action: 'created' | 'deleted' | 'suspend' | 'unsuspend' | 'new_permissions_accepted'
+  installation: GitHubAppInstallation
+}
+
+export interface IssuesEvent extends RepositoryEvent {
+  issue: WebhookIssue
+  label?: WebhookLabel
+}
+
+export interface IssueCommentEvent extends RepositoryEvent {
+  issue: WebhookIssue
+  comment: WebhookComment
+}
+
+export interface PullRequestEvent extends RepositoryEvent {
+  number: number
+  pull_request: WebhookPullRequest
+}
+
+export interface PullRequestReviewEvent extends RepositoryEvent {
+  action: 'submitted' | 'edited' | 'dismissed'
+  review: WebhookReview
+  pull_request: WebhookPullRequest
+}
+
+// Push events carry no action
+export interface PushEvent extends Omit<RepositoryEvent, 'action'> {
+  ref: string
+  before: string
+  after: string
+  created: boolean
+  deleted: boolean
+  forced: boolean
+}
+
+export interface ProjectsV2ItemEvent extends BaseEvent {
+  projects_v2_item: {
+    id: number
+    node_id: string
+    project_node_id: string
+    content_node_id: string
+    content_type: 'Issue' | 'PullRequest' | 'DraftIssue'
+  }
+  changes?: {
+    field_value?: {
+      field_node_id: string
+      field_type: string
+      field_name?: string
+      from?: { name?: string } | null
+      to?: { name?: string } | null
+    }
+  }
+}
+
+export interface WebhookEventMap {
+  installation: InstallationEvent
+  issues: IssuesEvent
+  issue_comment: IssueCommentEvent
+  pull_request: PullRequestEvent
+  pull_request_review: PullRequestReviewEvent
+  push: PushEvent
+  projects_v2_item: ProjectsV2ItemEvent
+}
+
+export type WebhookEventName = keyof WebhookEventMap
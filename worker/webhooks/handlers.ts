@@ -0,0 +1,366 @@
+import { eq } from 'drizzle-orm'
+import { findUserIdByGitHubId } from '../auth/identities'
+import { updateRepositorySnapshot } from '../context/indexer'
+import type { Database } from '../db'
+import { createInstallationClient } from '../github/app'
+import { getIssueByNodeId } from '../github/graphql'
+import { linkInstallationToUser, upsertInstallation } from '../github/installations'
+import { removeIssue, tombstoneComment, upsertComments, upsertIssues } from '../issues/mirror'
+import {
+  asksForFollowUp,
+  iterationLimitReply,
+  requestFollowUp,
+  type FollowUpAuthor,
+} from '../jobs/follow-ups'
+import { enqueueJob, isInProgress } from '../jobs/queue'
+import { startQueuedJob } from '../jobs/runner'
+import { findProjectsForRepository } from '../projects/access'
+import { readUsageLimits } from '../quotas/limits'
+import { commentOnIssue } from '../quotas/notices'
+import type {
+  InstallationEvent,
+  IssueCommentEvent,
+  IssuesEvent,
+  ProjectsV2ItemEvent,
+  PullRequestEvent,
+  PullRequestReviewEvent,
+  PushEvent,
+  WebhookEventMap,
+  WebhookEventName,
+  WebhookRepository,
+} from '../types/webhooks'
+import type { ReviewRequest } from '../types/jobs'
+import { githubInstallations, projects, type NewJob, type Project } from '../../db/schema'
+
+export interface WebhookContext {
+  db: Database
+  env: Env
+  waitUntil(promise: Promise<unknown>): void
+}
+
+/**
+ * processed: the event changed Codiro state
+ * ignored: the event was valid but nothing in Codiro cares about it
+ */
+export type WebhookOutcome = 'processed' | 'ignored'
+
+type WebhookHandler<E> = (ctx: WebhookContext, payload: E) => Promise<WebhookOutcome>
+
+/**
+ * Handle installation lifecycle events for the GitHub App
+ */
+async function handleInstallation(
+  ctx: WebhookContext,
+  payload: InstallationEvent
+): Promise<WebhookOutcome> {
+  const { db } = ctx
+  const { installation } = payload
+
+  switch (payload.action) {
+    case 'created': {
+      // Link the installation to whoever installed it, if they already use Codiro
+      const userId = await findUserIdByGitHubId(db, payload.sender.id)
+      if (userId) {
+        await linkInstallationToUser(db, installation, userId)
+      } else {
+        await upsertInstallation(db, installation)
+      }
+      return 'processed'
+    }
+    case 'deleted':
+      await db
+        .update(projects)
+        .set({ installationId: null, updatedAt: new Date().toISOString() })
+        .where(eq(projects.installationId, installation.id))
+      await db
+        .delete(githubInstallations)
+        .where(eq(githubInstallations.installationId, installation.id))
+      return 'processed'
+    case 'suspend':
+    case 'unsuspend':
+    case 'new_permissions_accepted':
+      await upsertInstallation(db, installation)
+      return 'processed'
+    default:
+      return 'ignored'
+  }
+}
+
+/**
+ * Handle issue events on linked repositories
+ * Every event updates the issue mirror; adding a project's In Progress label (see the board
+ * columns) queues a job.
+ */
+async function handleIssues(ctx: WebhookContext, payload: IssuesEvent): Promise<WebhookOutcome> {
+  const linked = await findLinkedProjects(ctx, payload)
+  if (linked.length === 0) {
+    return 'ignored'
+  }
+
+  const { issue } = payload
+  for (const project of linked) {
+    if (payload.action === 'deleted' || payload.action === 'transferred') {
+      await removeIssue(ctx.db, project.id, issue.number)
+    } else {
+      await upsertIssues(ctx.db, project.id, [issue])
+    }
+  }
+
+  if (payload.action === 'labeled' && !issue.pull_request) {
+    await queueJobs(
+      ctx,
+      linked.filter((project) => isInProgress(payload.label?.name, project)),
+      { number: issue.number, title: issue.title, url: issue.html_url },
+      'issue_label'
+    )
+  }
+
+  return 'processed'
+}
+
+/**
+ * Handle issue and pull request comments on linked repositories
+ * Issue comments are mirrored; deleted ones become tombstones. A new pull request comment
+ * mentioning the project's review trigger queues a follow-up job.
+ */
+async function handleIssueComment(
+  ctx: WebhookContext,
+  payload: IssueCommentEvent
+): Promise<WebhookOutcome> {
+  const linked = await findLinkedProjects(ctx, payload)
+  if (linked.length === 0) {
+    return 'ignored'
+  }
+
+  const { issue, comment } = payload
+  if (issue.pull_request) {
+    // Pull request conversation: not mirrored, but may ask for a follow-up
+    if (payload.action === 'created' && issue.state === 'open') {
+      const author = { type: comment.user.type, association: comment.author_association }
+      await queueFollowUps(ctx, linked, issue.number, author, {
+        source: 'issue_comment',
+        id: comment.id,
+        author: comment.user.login,
+        body: comment.body,
+        url: comment.html_url,
+      })
+    }
+    return 'processed'
+  }
+
+  for (const project of linked) {
+    // The embedded issue carries the new comment count
+    await upsertIssues(ctx.db, project.id, [issue])
+    if (payload.action === 'deleted') {
+      await tombstoneComment(ctx.db, project.id, issue.number, comment)
+    } else {
+      await upsertComments(ctx.db, project.id, [{ issueNumber: issue.number, comment }])
+    }
+  }
+
+  return 'processed'
+}
+
+/**
+ * Handle pull request events on linked repositories
+ */
+async function handlePullRequest(
+  ctx: WebhookContext,
+  payload: PullRequestEvent
+): Promise<WebhookOutcome> {
+  const linked = await findLinkedProjects(ctx, payload)
+  return linked.length > 0 ? 'processed' : 'ignored'
+}
+
+/**
+ * Handle submitted pull request reviews on linked repositories
+ * A review whose body mentions the project's review trigger queues a follow-up job.
+ */
+async function handlePullRequestReview(
+  ctx: WebhookContext,
+  payload: PullRequestReviewEvent
+): Promise<WebhookOutcome> {
+  const linked = await findLinkedProjects(ctx, payload)
+  const { review, pull_request: pr } = payload
+  if (linked.length === 0 || payload.action !== 'submitted' || pr.state !== 'open') {
+    return 'ignored'
+  }
+
+  const author = { type: review.user.type, association: review.author_association }
+  await queueFollowUps(ctx, linked, pr.number, author, {
+    source: 'review',
+    id: review.id,
+    author: review.user.login,
+    body: review.body ?? '',
+    url: review.html_url,
+  })
+  return 'processed'
+}
+
+/**
+ * Handle pushes to linked repositories
+ * A push to a project's default branch updates its repository snapshot in the background.
+ */
+async function handlePush(ctx: WebhookContext, payload: PushEvent): Promise<WebhookOutcome> {
+  const linked = (await findLinkedProjects(ctx, payload)).filter(
+    (project) => payload.ref === `refs/heads/${project.defaultBranch}`
+  )
+  if (linked.length === 0 || payload.deleted) {
+    return 'ignored'
+  }
+
+  for (const project of linked) {
+    ctx.waitUntil(
+      updateRepositorySnapshot(ctx.db, ctx.env, project, {
+        type: 'push',
+        before: payload.before,
+        after: payload.after,
+      })
+    )
+  }
+  return 'processed'
+}
+
+/**
+ * Handle GitHub Projects (v2) item events
+ * Moving an issue's status to a linked project's In Progress label queues a job. These events
+ * carry no repository, so the issue is resolved through GraphQL with the installation token.
+ */
+async function handleProjectsV2Item(
+  ctx: WebhookContext,
+  payload: ProjectsV2ItemEvent
+): Promise<WebhookOutcome> {
+  const item = payload.projects_v2_item
+  const change = payload.changes?.field_value
+  const status = change?.to?.name
+  if (
+    !payload.installation ||
+    payload.action !== 'edited' ||
+    item.content_type !== 'Issue' ||
+    // Only the Status field moves an item; other single selects may share its option names
+    change?.field_type !== 'single_select' ||
+    change.field_name?.trim().toLowerCase() !== 'status' ||
+    !status
+  ) {
+    return 'ignored'
+  }
+
+  const client = await createInstallationClient(ctx.env, payload.installation.id)
+  const issue = await getIssueByNodeId(client, item.content_node_id)
+  if (!issue) {
+    return 'ignored'
+  }
+
+  const linked = await findProjectsForRepository(
+    ctx.db,
+    payload.installation.id,
+    issue.repository.owner.login,
+    issue.repository.name
+  )
+  if (linked.length === 0) {
+    return 'ignored'
+  }
+
+  const starting = linked.filter((project) => isInProgress(status, project))
+  if (starting.length === 0) {
+    return 'ignored'
+  }
+
+  await queueJobs(ctx, starting, issue, 'project_status')
+  return 'processed'
+}
+
+async function queueJobs(
+  ctx: WebhookContext,
+  linked: Project[],
+  issue: { number: number; title: string; url: string },
+  trigger: NewJob['trigger']
+) {
+  for (const project of linked) {
+    const queued = await enqueueJob(
+      ctx.db,
+      project,
+      issue,
+      trigger,
+      readUsageLimits(ctx.env, project)
+    )
+    if (queued) {
+      await startQueuedJob(ctx, project, issue.number, queued)
+    }
+  }
+}
+
+async function queueFollowUps(
+  ctx: WebhookContext,
+  linked: Project[],
+  prNumber: number,
+  author: FollowUpAuthor,
+  request: ReviewRequest
+) {
+  for (const project of linked) {
+    if (!asksForFollowUp(request.body, author, project.reviewTrigger)) {
+      continue
+    }
+
+    const result = await requestFollowUp(
+      ctx.db,
+      project,
+      prNumber,
+      request,
+      readUsageLimits(ctx.env, project)
+    )
+    if (result.outcome === 'queued') {
+      await startQueuedJob(ctx, project, prNumber, result)
+    } else if (result.outcome === 'limit_reached') {
+      const reply = iterationLimitReply(request.author, project.maxReviewIterations)
+      ctx.waitUntil(commentOnIssue(ctx.env, project, prNumber, reply))
+    }
+  }
+}
+
+// Projects of the event's repository that use the installation the event came from
+async function findLinkedProjects(
+  ctx: WebhookContext,
+  payload: { repository: WebhookRepository; installation?: { id: number } }
+) {
+  if (!payload.installation) {
+    return []
+  }
+  const { repository } = payload
+  return findProjectsForRepository(
+    ctx.db,
+    payload.installation.id,
+    repository.owner.login,
+    repository.name
+  )
+}
+
+const handlers: { [E in WebhookEventName]: WebhookHandler<WebhookEventMap[E]> } = {
+  installation: handleInstallation,
+  issues: handleIssues,
+  issue_comment: handleIssueComment,
+  pull_request: handlePullRequest,
+  pull_request_review: handlePullRequestReview,
+  push: handlePush,
+  projects_v2_item: handleProjectsV2Item,
+}
+
+/**
+ * Send a verified webhook payload to the handler for its event
+ * Events without a handler are acknowledged as ignored.
+ */
+export async function dispatchWebhookEvent(
+  ctx: WebhookContext,
+  event: string,
+  payload: unknown
+): Promise<WebhookOutcome> {
+  if (!isHandledEvent(event)) {
+    return 'ignored'
+  }
+  const handler = handlers[event] as WebhookHandler<unknown>
+  return handler(ctx, payload)
+}
+
+function isHandledEvent(event: string): event is WebhookEventName {
+  return Object.hasOwn(handlers, event)
+}
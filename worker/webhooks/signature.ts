@@ -0,0 +1,41 @@
+const encoder = new TextEncoder()
+
+/**
+ * Verify a GitHub X-Hub-Signature-256 header ("sha256=<hex>") against the raw request body
+ * crypto.subtle.verify compares in constant time.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signatureHeader: string | undefined
+): Promise<boolean> {
+  if (!signatureHeader?.startsWith('sha256=')) {
+    return false
+  }
+
+  const signature = hexToBytes(signatureHeader.slice('sha256='.length))
+  if (!signature) {
+    return false
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  )
+
+  return await crypto.subtle.verify('HMAC', key, signature, encoder.encode(body))
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length !== 64 || !/^[0-9a-f]+$/i.test(hex)) {
+    return null
+  }
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
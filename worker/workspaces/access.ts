@@ -0,0 +1,51 @@
+import type { Context } from 'hono'
+import { and, eq } from 'drizzle-orm'
+import type { Database } from '../db'
+import { can, type WorkspaceAction } from './permissions'
+import { workspaceMembers, workspaces, type Workspace, type WorkspaceRole } from '../../db/schema'
+
+export type WorkspaceAccess =
+  | { status: 'allowed'; workspace: Workspace; role: WorkspaceRole }
+  | { status: 'not_found' }
+  | { status: 'forbidden'; role: WorkspaceRole; action: WorkspaceAction }
+
+/**
+ * Load a workspace and check that the user may take an action in it
+ * Non-members get not_found, members whose role is too low get forbidden.
+ */
+export async function authorizeWorkspace(
+  db: Database,
+  workspaceId: string,
+  userId: string,
+  action: WorkspaceAction
+): Promise<WorkspaceAccess> {
+  const row = await db
+    .select({ workspace: workspaces, role: workspaceMembers.role })
+    .from(workspaces)
+    .innerJoin(
+      workspaceMembers,
+      and(eq(workspaceMembers.workspaceId, workspaces.id), eq(workspaceMembers.userId, userId))
+    )
+    .where(eq(workspaces.id, workspaceId))
+    .get()
+
+  if (!row) {
+    return { status: 'not_found' }
+  }
+  if (!can(row.role, action)) {
+    return { status: 'forbidden', role: row.role, action }
+  }
+  return { status: 'allowed', workspace: row.workspace, role: row.role }
+}
+
+/**
+ * Answer a refused `authorizeWorkspace`: 404 for non-members, 403 when the role is too low
+ */
+export function denyWorkspaceAccess(
+  c: Context,
+  access: Exclude<WorkspaceAccess, { status: 'allowed' }>
+): Response {
+  return access.status === 'not_found'
+    ? c.json({ error: 'Workspace not found' }, 404)
+    : c.json({ error: `The ${access.role} role does not allow ${access.action}` }, 403)
+}
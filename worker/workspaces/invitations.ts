@@ -0,0 +1,166 @@
+import { and, eq, gt, isNull, sql } from 'drizzle-orm'
+import type { Database } from '../db'
+import { base64url, hashToken } from '../auth/tokens'
+import type { InvitationInput } from './validation'
+import {
+  identities,
+  users,
+  workspaceInvitations,
+  workspaceMembers,
+  workspaces,
+  type Workspace,
+  type WorkspaceInvitation,
+  type WorkspaceRole,
+} from '../../db/schema'
+
+export const INVITATION_TOKEN_PREFIX = 'codiro_inv_'
+
+const INVITATION_LIFETIME_DAYS = 7
+
+// Everything but the token hash
+export const invitationColumns = {
+  id: workspaceInvitations.id,
+  workspaceId: workspaceInvitations.workspaceId,
+  role: workspaceInvitations.role,
+  githubUsername: workspaceInvitations.githubUsername,
+  email: workspaceInvitations.email,
+  invitedBy: workspaceInvitations.invitedBy,
+  expiresAt: workspaceInvitations.expiresAt,
+  acceptedAt: workspaceInvitations.acceptedAt,
+  acceptedBy: workspaceInvitations.acceptedBy,
+  createdAt: workspaceInvitations.createdAt,
+}
+
+export type InvitationView = Omit<WorkspaceInvitation, 'tokenHash'>
+
+export type AcceptInvitationResult =
+  | {
+      status: 'accepted'
+      workspace: Workspace
+      role: WorkspaceRole
+      invitation: WorkspaceInvitation
+    }
+  | { status: 'not_found' | 'wrong_user' | 'already_member' }
+
+/**
+ * Create an invitation; the token is only returned here, the row keeps its hash
+ */
+export async function createInvitation(
+  db: Database,
+  workspaceId: string,
+  invitedBy: string,
+  input: InvitationInput
+): Promise<{ invitation: InvitationView; token: string }> {
+  const token = `${INVITATION_TOKEN_PREFIX}${base64url(crypto.getRandomValues(new Uint8Array(32)))}`
+
+  const [invitation] = await db
+    .insert(workspaceInvitations)
+    .values({
+      id: crypto.randomUUID(),
+      workspaceId,
+      ...input,
+      tokenHash: await hashToken(token),
+      invitedBy,
+      expiresAt: new Date(
+        Date.now() + INVITATION_LIFETIME_DAYS * 24 * 60 * 60 * 1000
+      ).toISOString(),
+    })
+    .returning(invitationColumns)
+
+  return { invitation, token }
+}
+
+/**
+ * Join a workspace with an invitation token
+ * The invitation must be unexpired and unused, and name the user: one of their GitHub
+ * identities has the invited username, or their account or an identity has the invited email.
+ * Expired, used and unknown tokens are all not_found.
+ */
+export async function acceptInvitation(
+  db: Database,
+  token: string,
+  userId: string
+): Promise<AcceptInvitationResult> {
+  const row = await db
+    .select({ invitation: workspaceInvitations, workspace: workspaces })
+    .from(workspaceInvitations)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceInvitations.workspaceId))
+    .where(
+      and(
+        eq(workspaceInvitations.tokenHash, await hashToken(token)),
+        isNull(workspaceInvitations.acceptedAt),
+        gt(workspaceInvitations.expiresAt, new Date().toISOString())
+      )
+    )
+    .get()
+
+  if (!row) {
+    return { status: 'not_found' }
+  }
+  if (!(await isInvitee(db, row.invitation, userId))) {
+    return { status: 'wrong_user' }
+  }
+
+  const existing = await db.query.workspaceMembers.findFirst({
+    where: and(
+      eq(workspaceMembers.workspaceId, row.workspace.id),
+      eq(workspaceMembers.userId, userId)
+    ),
+    columns: { role: true },
+  })
+  if (existing) {
+    return { status: 'already_member' }
+  }
+
+  const now = new Date().toISOString()
+  // The claim only applies once, so a token racing itself cannot add two memberships
+  const [claimed] = await db
+    .update(workspaceInvitations)
+    .set({ acceptedAt: now, acceptedBy: userId })
+    .where(
+      and(eq(workspaceInvitations.id, row.invitation.id), isNull(workspaceInvitations.acceptedAt))
+    )
+    .returning()
+
+  if (!claimed) {
+    return { status: 'not_found' }
+  }
+
+  await db
+    .insert(workspaceMembers)
+    .values({ workspaceId: row.workspace.id, userId, role: claimed.role })
+    .onConflictDoNothing()
+
+  return { status: 'accepted', workspace: row.workspace, role: claimed.role, invitation: claimed }
+}
+
+async function isInvitee(
+  db: Database,
+  invitation: WorkspaceInvitation,
+  userId: string
+): Promise<boolean> {
+  if (invitation.githubUsername) {
+    const identity = await db.query.identities.findFirst({
+      where: and(
+        eq(identities.userId, userId),
+        eq(identities.provider, 'github'),
+        sql`lower(${identities.username}) = ${invitation.githubUsername.toLowerCase()}`
+      ),
+      columns: { id: true },
+    })
+    return Boolean(identity)
+  }
+
+  const email = invitation.email!
+  const [user, identity] = await Promise.all([
+    db.query.users.findFirst({
+      where: and(eq(users.id, userId), sql`lower(${users.email}) = ${email}`),
+      columns: { id: true },
+    }),
+    db.query.identities.findFirst({
+      where: and(eq(identities.userId, userId), sql`lower(${identities.email}) = ${email}`),
+      columns: { id: true },
+    }),
+  ])
+  return Boolean(user ?? identity)
+}
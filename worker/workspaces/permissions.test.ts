@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { can, canGrant, PERMISSION_ACTIONS, type PermissionAction } from './permissions'
+import { WORKSPACE_ROLES, type WorkspaceRole } from '../../db/schema'
+
+// Roles allowed to take each action; everything else is refused
+const ALLOWED: Record<PermissionAction, WorkspaceRole[]> = {
+  'project.view': ['owner', 'maintainer', 'member', 'viewer'],
+  'issue.move': ['owner', 'maintainer', 'member'],
+  'job.cancel': ['owner', 'maintainer', 'member'],
+  'conversation.write': ['owner', 'maintainer', 'member'],
+  'context.reindex': ['owner', 'maintainer', 'member'],
+  'project.update': ['owner', 'maintainer'],
+  'project.archive': ['owner', 'maintainer'],
+  'workspace.view': ['owner', 'maintainer', 'member', 'viewer'],
+  'project.create': ['owner', 'maintainer'],
+  'member.invite': ['owner', 'maintainer'],
+  'workspace.update': ['owner'],
+  'member.manage': ['owner'],
+}
+
+describe('Workspace permissions', () => {
+  it('has an expectation for every action', () => {
+    expect(Object.keys(ALLOWED).sort()).toEqual([...PERMISSION_ACTIONS].sort())
+  })
+
+  it.each(
+    WORKSPACE_ROLES.flatMap((role) =>
+      PERMISSION_ACTIONS.map((action) => [role, action, ALLOWED[action].includes(role)] as const)
+    )
+  )('%s may take %s: %s', (role, action, allowed) => {
+    expect(can(role, action)).toBe(allowed)
+  })
+
+  it.each([
+    ['owner', ['owner', 'maintainer', 'member', 'viewer']],
+    ['maintainer', ['maintainer', 'member', 'viewer']],
+    ['member', []],
+    ['viewer', []],
+  ] as const)('%s may grant %j', (role, granted) => {
+    for (const other of WORKSPACE_ROLES) {
+      expect(canGrant(role, other)).toBe((granted as readonly WorkspaceRole[]).includes(other))
+    }
+  })
+})
@@ -0,0 +1,59 @@
+import { WORKSPACE_ROLES, type WorkspaceRole } from '../../db/schema'
+
+// Lowest role allowed to take each action; every higher role may take it too.
+// The owner of a personal project (one outside any workspace) holds the owner role on it.
+const MINIMUM_ROLE = {
+  // Projects and everything in them
+  'project.view': 'viewer',
+  'issue.move': 'member',
+  'job.cancel': 'member',
+  'conversation.write': 'member',
+  'context.reindex': 'member',
+  'project.update': 'maintainer',
+  'project.archive': 'maintainer',
+  // Workspaces
+  'workspace.view': 'viewer',
+  'project.create': 'maintainer',
+  'member.invite': 'maintainer',
+  'workspace.update': 'owner',
+  'member.manage': 'owner',
+} as const satisfies Record<string, WorkspaceRole>
+
+export type PermissionAction = keyof typeof MINIMUM_ROLE
+
+export type ProjectAction =
+  | 'project.view'
+  | 'issue.move'
+  | 'job.cancel'
+  | 'conversation.write'
+  | 'context.reindex'
+  | 'project.update'
+  | 'project.archive'
+
+export type WorkspaceAction = Exclude<PermissionAction, ProjectAction>
+
+export const PERMISSION_ACTIONS = Object.keys(MINIMUM_ROLE) as PermissionAction[]
+
+/**
+ * Whether a role may take an action
+ */
+export function can(role: WorkspaceRole, action: PermissionAction): boolean {
+  return rank(role) <= rank(MINIMUM_ROLE[action])
+}
+
+/**
+ * Whether a role may give others a role, through an invitation or a role change
+ * Maintainers hand out roles up to their own; only owners make owners.
+ */
+export function canGrant(role: WorkspaceRole, granted: WorkspaceRole): boolean {
+  return can(role, 'member.invite') && rank(role) <= rank(granted)
+}
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return WORKSPACE_ROLES.includes(value as WorkspaceRole)
+}
+
+// 0 for owner; lower is more privileged
+function rank(role: WorkspaceRole): number {
+  return WORKSPACE_ROLES.indexOf(role)
+}
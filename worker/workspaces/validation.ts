@@ -0,0 +1,94 @@
+import { isWorkspaceRole } from './permissions'
+import { WORKSPACE_ROLES, type WorkspaceRole } from '../../db/schema'
+
+const MAX_NAME_LENGTH = 100
+const GITHUB_USERNAME_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const MAX_EMAIL_LENGTH = 254
+
+export interface InvitationInput {
+  role: WorkspaceRole
+  githubUsername: string | null
+  email: string | null
+}
+
+type ParseResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string }
+
+/**
+ * Validate the body of POST /api/workspaces and PATCH /api/workspaces/:workspaceId
+ */
+export function parseWorkspaceInput(body: unknown): ParseResult<{ name: string }> {
+  if (!isRecord(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const { name } = body
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` }
+  }
+
+  return { data: { name: name.trim() } }
+}
+
+/**
+ * Validate the body of POST /api/workspaces/:workspaceId/invitations
+ * Invitees are named by exactly one of GitHub username and email address.
+ */
+export function parseInvitationInput(body: unknown): ParseResult<InvitationInput> {
+  if (!isRecord(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const role = parseRole(body.role)
+  if (role.error !== undefined) {
+    return role
+  }
+
+  const githubUsername = body.githubUsername ?? null
+  const email = body.email ?? null
+  if ((githubUsername === null) === (email === null)) {
+    return { error: 'Invite either a githubUsername or an email' }
+  }
+  if (
+    githubUsername !== null &&
+    (typeof githubUsername !== 'string' || !GITHUB_USERNAME_PATTERN.test(githubUsername))
+  ) {
+    return { error: 'githubUsername must be a valid GitHub username' }
+  }
+  if (
+    email !== null &&
+    (typeof email !== 'string' || email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email))
+  ) {
+    return { error: 'email must be a valid email address' }
+  }
+
+  return {
+    data: {
+      role: role.data,
+      githubUsername: githubUsername as string | null,
+      email: (email as string | null)?.toLowerCase() ?? null,
+    },
+  }
+}
+
+/**
+ * Validate the body of PATCH /api/workspaces/:workspaceId/members/:userId
+ */
+export function parseMemberInput(body: unknown): ParseResult<{ role: WorkspaceRole }> {
+  if (!isRecord(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const role = parseRole(body.role)
+  return role.error !== undefined ? role : { data: { role: role.data } }
+}
+
+function parseRole(value: unknown): ParseResult<WorkspaceRole> {
+  return isWorkspaceRole(value)
+    ? { data: value }
+    : { error: `role must be one of: ${WORKSPACE_ROLES.join(', ')}` }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}